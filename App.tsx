@@ -1,16 +1,33 @@
-import React, { useState, useEffect, Suspense } from 'react';
-import { BrainCircuit, Settings2, Sparkles, BookOpen, Layers, Zap, AlertCircle, X, Key, GraduationCap, Microscope, Puzzle, Database, Cloud, Layout, Activity, FlaskConical, ListChecks, Bell, HelpCircle, Copy, Check, ShieldCheck, Cpu, Unlock, Download, RefreshCw, User, Lock, Server, PenTool, Wand2, ChevronRight, FileText, FolderOpen, Trash2, CheckCircle2, Circle, Command, Bot, Maximize2, Home, Minimize2, Component, Save, BookTemplate, ChevronDown, ChevronUp, MessageSquarePlus, Library, Palette, Sun, Moon, Coffee, Network, LogOut, ArrowLeftFromLine, ArrowRightFromLine, Filter, Menu, PlusCircle, Paperclip } from 'lucide-react';
-import { AppModel, AppState, NoteData, GenerationConfig, MODE_STRUCTURES, NoteMode, HistoryItem, AIProvider, StorageType, AppView, EncryptedPayload, SavedPrompt, AppTheme } from './types';
-import { generateNoteContent, generateDetailedStructure } from './services/geminiService';
-import { generateNoteContentGroq, fetchGroqModels, generateDetailedStructureGroq } from './services/groqService';
+import React, { useState, useEffect, useMemo, useRef, Suspense } from 'react';
+import { BrainCircuit, Settings2, Sparkles, BookOpen, Layers, Zap, AlertCircle, X, Key, GraduationCap, Microscope, Puzzle, Database, Cloud, Layout, Activity, FlaskConical, ListChecks, Bell, HelpCircle, Copy, Check, ShieldCheck, Cpu, Unlock, Download, RefreshCw, User, Lock, Server, PenTool, Wand2, ChevronRight, FileText, FolderOpen, Trash2, CheckCircle2, Circle, Command, Bot, Maximize2, Home, Minimize2, Component, Save, BookTemplate, ChevronDown, ChevronUp, MessageSquarePlus, Library, Palette, Sun, Moon, Coffee, Network, LogOut, ArrowLeftFromLine, ArrowRightFromLine, Filter, Menu, PlusCircle, Paperclip, Languages } from 'lucide-react';
+import { AppModel, AppState, NoteData, GenerationConfig, MODE_STRUCTURES, NoteMode, HistoryItem, AIProvider, StorageType, AppView, EncryptedPayload, SavedPrompt, AppTheme, ProviderModelMap, FactCheckFinding } from './types';
+import { getProvider, getNextProvider, getModelOptions, fetchProviderModels } from './services/providerRegistry';
 import { StorageService } from './services/storageService';
 import { NotificationService } from './services/notificationService';
+import { UsageLedgerService } from './services/usageLedgerService';
+import { processGeneratedNote } from './utils/formatter';
 import FileUploader from './components/FileUploader';
 import SyllabusFlow from './components/SyllabusFlow';
 import LoginGate from './components/LoginGate';
 import FileSystem from './components/FileSystem'; 
 import NeuralVault from './components/NeuralVault';
 import CommandPalette from './components/CommandPalette';
+import KeyHealthPanel from './components/KeyHealthPanel';
+import UsageDashboard from './components/UsageDashboard';
+import MockProviderPanel from './components/MockProviderPanel';
+import PromptEditor from './components/PromptEditor';
+import FallbackChainPanel from './components/FallbackChainPanel';
+import SearchIndexPanel from './components/SearchIndexPanel';
+import FactCheckPanel from './components/FactCheckPanel';
+import FormatterRulesPanel from './components/FormatterRulesPanel';
+import SnippetPanel from './components/SnippetPanel';
+import { runFactCheck, isFactCheckEnabled } from './services/factCheckService';
+import { validateAndRepairMermaid } from './services/mermaidRepairService';
+import { checkContextFit, findUnreadableAttachments, describeCapabilities, prepareNoteFiles } from './utils/modelCatalog';
+import { SemanticSearchService } from './services/semanticSearchService';
+import { PromptRegistryService } from './services/promptRegistryService';
+import { OUTPUT_LANGUAGES, DEFAULT_LANGUAGE, getOutputLanguage } from './utils/prompts';
+import { MockProviderService, MOCK_MODELS } from './services/mockService';
 // FIX: Strict relative import
 import ErrorBoundary from './components/ErrorBoundary';
 
@@ -19,22 +36,6 @@ const OutputDisplay = React.lazy(() => import('./components/OutputDisplay'));
 const AdminPanel = React.lazy(() => import('./components/AdminPanel'));
 const KnowledgeBase = React.lazy(() => import('./components/KnowledgeBase'));
 
-// UPDATED MODEL LIST (Based on latest available)
-const GEMINI_MODELS = [
-  { value: AppModel.GEMINI_3_PRO, label: 'Gemini 3.0 Pro', badge: 'Flagship' },
-  { value: AppModel.GEMINI_3_FLASH, label: 'Gemini 3.0 Flash', badge: 'Fastest' },
-  { value: AppModel.GEMINI_2_5_PRO, label: 'Gemini 2.5 Pro', badge: 'Stable' },
-  { value: AppModel.GEMINI_2_5_FLASH, label: 'Gemini 2.5 Flash', badge: 'Balanced' },
-  { value: AppModel.GEMINI_2_5_FLASH_LITE, label: 'Gemini 2.5 Flash-Lite', badge: 'Budget' },
-  { value: AppModel.DEEP_RESEARCH_PRO, label: 'Deep Research Pro', badge: 'Agentic' },
-];
-
-const INITIAL_GROQ_MODELS = [
-  { value: AppModel.GROQ_LLAMA_3_3_70B, label: 'Llama 3.3 70B', badge: 'Versatile' },
-  { value: AppModel.GROQ_LLAMA_3_1_8B, label: 'Llama 3.1 8B', badge: 'Instant' },
-  { value: AppModel.GROQ_MIXTRAL_8X7B, label: 'Mixtral 8x7B', badge: 'Complex' },
-];
-
 const AppContent: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [showPalette, setShowPalette] = useState(false);
@@ -58,6 +59,8 @@ const AppContent: React.FC = () => {
     temperature: 0.4,
     apiKey: '', 
     groqApiKey: '', 
+    openaiBaseUrl: '',
+    openaiApiKey: '',
     mode: NoteMode.GENERAL,
     storageType: StorageType.LOCAL,
     supabaseUrl: '',
@@ -83,34 +86,81 @@ const AppContent: React.FC = () => {
   });
 
   const [isStructLoading, setIsStructLoading] = useState(false);
-  const [groqModels, setGroqModels] = useState<{value: string, label: string, badge: string}[]>(INITIAL_GROQ_MODELS);
+  const [providerModels, setProviderModels] = useState<ProviderModelMap>({});
   const [settingsTab, setSettingsTab] = useState<'keys' | 'storage' | 'appearance'>('keys'); 
   const [storageService] = useState(StorageService.getInstance());
   const [notificationService] = useState(NotificationService.getInstance());
   const [sqlCopied, setSqlCopied] = useState(false);
   const [showAdminModal, setShowAdminModal] = useState(false);
   const [savedTemplates, setSavedTemplates] = useState<SavedPrompt[]>([]);
+  const [draftNoteId, setDraftNoteId] = useState<string | null>(null); // Id reserved for a generated note that is not saved yet
+  const generationAbort = useRef<AbortController | null>(null); // In-flight workspace generation, if any
+  const streamedPartial = useRef(''); // Latest streamed text, kept if the run fails or is cancelled
+  const providerBeforeMock = useRef<{ provider: AIProvider; model: string } | null>(null); // Restored when the mock is switched off
+  const [factCheckFindings, setFactCheckFindings] = useState<FactCheckFinding[]>([]); // Review of the open note, saved with it
+  const [isFactChecking, setIsFactChecking] = useState(false);
+  const [factCheckNotice, setFactCheckNotice] = useState<string | null>(null); // Why the automatic review didn't run, shown on the note's fact-check bar
+
+  // Edits made in the editor (refine, deepen, assistant) are billed to the open note
+  // LANGUAGE: the note's own language (per-note override) wins over the global default
+  const noteLanguage = noteData.language || config.language;
+  const outputConfig = useMemo<GenerationConfig>(() => {
+      const noteId = appState.activeNoteId || draftNoteId;
+      const noteConfig = { ...config, language: noteLanguage };
+      return noteId ? { ...noteConfig, usageScope: { noteId } } : noteConfig;
+  }, [config, noteLanguage, appState.activeNoteId, draftNoteId]);
+
+  // CAPABILITIES: warn before generating when the prompt and uploads won't fit the model's window
+  const contextWarning = useMemo(() => {
+      const prompt = PromptRegistryService.getInstance().renderNotePrompt({ ...config, language: noteLanguage }, noteData.topic, noteData.structure);
+      return checkContextFit(config.model, prompt, noteData.files);
+  }, [config, noteLanguage, noteData.topic, noteData.structure, noteData.files]);
 
   // --- SESSION PERSISTENCE (AUTO LOGIN) ---
   useEffect(() => {
       const localGeminiKey = localStorage.getItem('neuro_gemini_key');
       const localGroqKey = localStorage.getItem('neuro_groq_key');
+      const localOpenAIUrl = localStorage.getItem('neuro_openai_url');
+      const localOpenAIKey = localStorage.getItem('neuro_openai_key');
       const localSbUrl = localStorage.getItem('neuro_sb_url');
       const localSbKey = localStorage.getItem('neuro_sb_key');
       
       // Load saved preferences
       const savedProvider = localStorage.getItem('neuro_pref_provider');
       const savedModel = localStorage.getItem('neuro_pref_model');
+      const savedConcurrency = parseInt(localStorage.getItem('neuro_pref_section_concurrency') || '', 10);
+      if (savedConcurrency > 0) setConfig(prev => ({ ...prev, sectionConcurrency: savedConcurrency }));
+      const savedLanguage = localStorage.getItem('neuro_pref_language');
+      if (savedLanguage) setConfig(prev => ({ ...prev, language: savedLanguage }));
+      try {
+          const savedChain = JSON.parse(localStorage.getItem('neuro_pref_fallback_chain') || '[]');
+          if (Array.isArray(savedChain) && savedChain.length > 0) setConfig(prev => ({ ...prev, fallbackChain: savedChain }));
+      } catch (e) { console.warn("Fallback chain recovery failed", e); }
+      try {
+          const savedFactCheck = JSON.parse(localStorage.getItem('neuro_pref_fact_check') || 'null');
+          if (savedFactCheck?.provider) setConfig(prev => ({ ...prev, factCheck: savedFactCheck }));
+      } catch (e) { console.warn("Fact-check settings recovery failed", e); }
+      try {
+          const savedRules = JSON.parse(localStorage.getItem('neuro_pref_formatter_rules') || 'null');
+          if (savedRules && typeof savedRules === 'object') setConfig(prev => ({ ...prev, formatterRules: savedRules }));
+      } catch (e) { console.warn("Formatter rules recovery failed", e); }
 
-      if (localGeminiKey || localGroqKey) {
+      // Offline mock needs no credentials, so it unlocks the app on its own
+      const mockEnabled = MockProviderService.getInstance().isEnabled();
+      const usableSavedProvider = savedProvider === AIProvider.MOCK && !mockEnabled ? null : savedProvider as AIProvider | null;
+      const fallbackProvider = localGeminiKey ? AIProvider.GEMINI : localGroqKey ? AIProvider.GROQ : localOpenAIUrl || !mockEnabled ? AIProvider.OPENAI_COMPAT : AIProvider.MOCK;
+
+      if (localGeminiKey || localGroqKey || localOpenAIUrl || mockEnabled) {
           setConfig(prev => ({
               ...prev,
               apiKey: localGeminiKey || prev.apiKey,
               groqApiKey: localGroqKey || prev.groqApiKey,
+              openaiBaseUrl: localOpenAIUrl || prev.openaiBaseUrl,
+              openaiApiKey: localOpenAIKey || prev.openaiApiKey,
               supabaseUrl: localSbUrl || prev.supabaseUrl,
               supabaseKey: localSbKey || prev.supabaseKey,
-              provider: (savedProvider as AIProvider) || (localGeminiKey ? AIProvider.GEMINI : AIProvider.GROQ),
-              model: savedModel || prev.model,
+              provider: usableSavedProvider || fallbackProvider,
+              model: usableSavedProvider ? savedModel || prev.model : getProvider(fallbackProvider).defaultModel,
               storageType: (localSbUrl && localSbKey) ? StorageType.SUPABASE : StorageType.LOCAL
           }));
           setIsAuthenticated(true);
@@ -127,36 +177,34 @@ const AppContent: React.FC = () => {
       if (isAuthenticated) {
           localStorage.setItem('neuro_pref_provider', config.provider);
           localStorage.setItem('neuro_pref_model', config.model);
+          if (config.sectionConcurrency) localStorage.setItem('neuro_pref_section_concurrency', String(config.sectionConcurrency));
+          if (config.language) localStorage.setItem('neuro_pref_language', config.language);
+          localStorage.setItem('neuro_pref_fallback_chain', JSON.stringify(config.fallbackChain || []));
+          if (config.factCheck) localStorage.setItem('neuro_pref_fact_check', JSON.stringify(config.factCheck));
+          localStorage.setItem('neuro_pref_formatter_rules', JSON.stringify(config.formatterRules || {}));
       }
-  }, [config.provider, config.model, isAuthenticated]);
+  }, [config.provider, config.model, config.sectionConcurrency, config.language, config.fallbackChain, config.factCheck, config.formatterRules, isAuthenticated]);
 
-  // --- DYNAMIC GROQ FETCH ---
+  // --- SEMANTIC SEARCH INDEX (catch up on notes saved while the app was closed) ---
   useEffect(() => {
-      const fetchGroq = async () => {
-          if (config.groqApiKey) {
-              const models = await fetchGroqModels(config.groqApiKey);
-              if (models.length > 0) {
-                  const formatted = models.map(m => ({
-                      value: m.id,
-                      label: m.id.replace('groq-', '').replace('llama', 'Llama'),
-                      badge: 'Cloud'
-                  }));
-                  // Merge with defaults to keep "badge" info for core models, but update IDs if needed
-                  const merged: { value: string; label: string; badge: string; }[] = [...INITIAL_GROQ_MODELS];
-                  formatted.forEach(f => {
-                      if (!merged.find(m => m.value === f.value)) merged.push(f);
-                  });
-                  setGroqModels(merged);
-              }
-          }
-      };
-      if (isAuthenticated) fetchGroq();
-  }, [config.groqApiKey, isAuthenticated]);
+      SemanticSearchService.getInstance().configure(config);
+  }, [config]);
+
+  useEffect(() => {
+      if (isAuthenticated) SemanticSearchService.getInstance().sync();
+  }, [isAuthenticated]);
+
+  // --- DYNAMIC MODEL FETCH (per provider, via registry) ---
+  useEffect(() => {
+      if (isAuthenticated) fetchProviderModels(config).then(setProviderModels);
+  }, [config.groqApiKey, config.openaiBaseUrl, config.openaiApiKey, isAuthenticated]);
 
   const handleLogout = () => {
       if(confirm("End Session? This will require the NeuroKey Card to unlock again.")) {
           localStorage.removeItem('neuro_gemini_key');
           localStorage.removeItem('neuro_groq_key');
+          localStorage.removeItem('neuro_openai_url');
+          localStorage.removeItem('neuro_openai_key');
           window.location.reload();
       }
   };
@@ -178,6 +226,8 @@ const AppContent: React.FC = () => {
       ...prev, 
       apiKey: payload.geminiKey || prev.apiKey, 
       groqApiKey: payload.groqKey || prev.groqApiKey, 
+      openaiBaseUrl: payload.openaiBaseUrl || prev.openaiBaseUrl,
+      openaiApiKey: payload.openaiKey || prev.openaiApiKey,
       supabaseUrl: payload.supabaseUrl || prev.supabaseUrl, 
       supabaseKey: payload.supabaseKey || prev.supabaseKey, 
       storageType: (payload.supabaseUrl && payload.supabaseKey) ? StorageType.SUPABASE : StorageType.LOCAL 
@@ -185,6 +235,8 @@ const AppContent: React.FC = () => {
     
     if (payload.geminiKey) localStorage.setItem('neuro_gemini_key', payload.geminiKey);
     if (payload.groqKey) localStorage.setItem('neuro_groq_key', payload.groqKey);
+    if (payload.openaiBaseUrl) localStorage.setItem('neuro_openai_url', payload.openaiBaseUrl);
+    if (payload.openaiKey) localStorage.setItem('neuro_openai_key', payload.openaiKey);
     if (payload.supabaseUrl) localStorage.setItem('neuro_sb_url', payload.supabaseUrl);
     if (payload.supabaseKey) localStorage.setItem('neuro_sb_key', payload.supabaseKey);
     
@@ -198,10 +250,12 @@ const AppContent: React.FC = () => {
 
   const handleThemeChange = (theme: AppTheme) => { setCurrentTheme(theme); localStorage.setItem('neuro_theme', theme); };
   
-  const handleSaveApiKey = (rawValue: string, type: 'gemini' | 'groq' | 'sb_url' | 'sb_key') => { 
+  const handleSaveApiKey = (rawValue: string, type: 'gemini' | 'groq' | 'openai_url' | 'openai_key' | 'sb_url' | 'sb_key') => { 
       const key = rawValue.trim(); 
       if (type === 'gemini') { setConfig(prev => ({ ...prev, apiKey: key })); localStorage.setItem('neuro_gemini_key', key); }
       else if (type === 'groq') { setConfig(prev => ({ ...prev, groqApiKey: key })); localStorage.setItem('neuro_groq_key', key); }
+      else if (type === 'openai_url') { setConfig(prev => ({ ...prev, openaiBaseUrl: key })); localStorage.setItem('neuro_openai_url', key); }
+      else if (type === 'openai_key') { setConfig(prev => ({ ...prev, openaiApiKey: key })); localStorage.setItem('neuro_openai_key', key); }
       else if (type === 'sb_url') { 
         setConfig(prev => ({ ...prev, supabaseUrl: key, storageType: (key && config.supabaseKey) ? StorageType.SUPABASE : StorageType.LOCAL })); 
         localStorage.setItem('neuro_sb_url', key); 
@@ -212,8 +266,16 @@ const AppContent: React.FC = () => {
       }
   };
 
+  // The open note's prompt render record is only needed until it is saved or left
+  const forgetOpenNotePrompts = () => {
+    const openId = appState.activeNoteId || draftNoteId;
+    if (openId) PromptRegistryService.getInstance().forgetNote(openId);
+  };
+
   const handleSelectNoteFromFileSystem = async (note: HistoryItem) => {
-    setAppState(prev => ({ ...prev, isLoading: true }));
+    generationAbort.current?.abort(); // A running generation must not overwrite the note being opened
+    if (note.id !== appState.activeNoteId) forgetOpenNotePrompts();
+    setAppState(prev => ({ ...prev, isLoading: true, isStreaming: false }));
     try {
         const fullContent = await storageService.getNoteContent(note.id);
         setAppState(prev => ({ 
@@ -223,7 +285,9 @@ const AppContent: React.FC = () => {
             activeNoteId: note.id,
             isLoading: false
         })); 
-        setNoteData(prev => ({...prev, topic: note.topic})); 
+        setNoteData(prev => ({...prev, topic: note.topic, language: note.language})); 
+        setFactCheckFindings(note.factCheck || []);
+        setFactCheckNotice(null);
         setConfig(prev => ({...prev, mode: note.mode}));
         setMobileMenuOpen(false); // Close mobile menu if open
     } catch (e) {
@@ -233,11 +297,35 @@ const AppContent: React.FC = () => {
 
   const handleGenerate = async () => {
     if (!noteData.topic.trim() || !noteData.structure.trim()) { setAppState(prev => ({ ...prev, error: "Topic & Structure required." })); return; }
-    setAppState(prev => ({ ...prev, isLoading: true, generatedContent: null, error: null, progressStep: 'Initializing...', activeNoteId: null }));
+    const unreadable = findUnreadableAttachments(config.model, noteData.files);
+    if (unreadable.length > 0) { setAppState(prev => ({ ...prev, error: `${config.model} can't read: ${unreadable.map(f => f.name).join(', ')}. Remove them or pick a model that reads images & PDF.` })); return; }
+    // USAGE: reserve the note id up front so every call of this generation is attributed to it
+    const draftId = Date.now().toString();
+    forgetOpenNotePrompts();
+    setDraftNoteId(draftId);
+    setAppState(prev => ({ ...prev, isLoading: true, isStreaming: false, generatedContent: null, error: null, progressStep: 'Initializing...', activeNoteId: null }));
+    setFactCheckFindings([]);
+    setFactCheckNotice(null);
+
+    generationAbort.current?.abort();
+    const controller = new AbortController();
+    generationAbort.current = controller;
     
+    // STREAMING: keep the latest partial so a mid-run failure doesn't throw away finished sections
+    streamedPartial.current = '';
+    let lastFlush = 0;
+    const handleChunk = (partial: string) => {
+        if (controller.signal.aborted) return; // Late chunks after cancel must not touch the editor
+        streamedPartial.current = partial;
+        const now = Date.now();
+        if (now - lastFlush < 150) return; // Throttle re-renders of the editor
+        lastFlush = now;
+        setAppState(prev => ({ ...prev, isLoading: false, isStreaming: true, generatedContent: partial }));
+    };
+
     try {
-      // PREPARE CONTEXT (if any)
-      let filesToUpload = [...noteData.files];
+      // PREPARE CONTEXT (if any); documents the model can't read natively go as extracted text
+      let filesToUpload = prepareNoteFiles(config.model, noteData.files);
       
       if (selectedContextIds.length > 0) {
           setAppState(prev => ({ ...prev, progressStep: 'Fetching Library Context...' }));
@@ -258,16 +346,66 @@ const AppContent: React.FC = () => {
           });
       }
 
-      let content = '';
-      if (config.provider === AIProvider.GEMINI) { 
-          content = await generateNoteContent(config, noteData.topic, noteData.structure, filesToUpload, (step) => setAppState(prev => ({ ...prev, progressStep: step }))); 
-      } else { 
-          content = await generateNoteContentGroq(config, noteData.topic, noteData.structure, (step) => setAppState(prev => ({ ...prev, progressStep: step }))); 
+      // Library context is only loaded now, so the window is re-checked with it included
+      const fitWarning = selectedContextIds.length > 0
+          ? checkContextFit(config.model, PromptRegistryService.getInstance().renderNotePrompt({ ...config, language: noteLanguage }, noteData.topic, noteData.structure), filesToUpload)
+          : null;
+      if (fitWarning && !confirm(fitWarning + "\n\nGenerate anyway?")) {
+          setDraftNoteId(null);
+          setAppState(prev => ({ ...prev, isLoading: false, progressStep: '' }));
+          return;
       }
+
+      const runConfig: GenerationConfig = { ...config, language: noteLanguage, usageScope: { noteId: draftId }, signal: controller.signal };
+      const generated = await getProvider(config.provider).generateNoteContent(runConfig, noteData.topic, noteData.structure, filesToUpload, (step) => setAppState(prev => ({ ...prev, progressStep: step })), handleChunk); 
       
+      if (controller.signal.aborted) return; // Cancelled: the cancel handler already settled the UI
+
+      // DIAGRAMS: every Mermaid block is parser-checked (and repaired or downgraded) before the note counts as complete
+      const content = await validateAndRepairMermaid(runConfig, generated, (step) => setAppState(prev => ({ ...prev, progressStep: step })));
+      if (controller.signal.aborted) return;
+
       notificationService.send("Note Complete", `"${noteData.topic}" ready.`, "gen-complete");
-      setAppState(prev => ({ ...prev, isLoading: false, generatedContent: content, error: null, progressStep: 'Complete' }));
-    } catch (err: any) { setAppState(prev => ({ ...prev, isLoading: false, generatedContent: null, error: err.message, progressStep: '', })); }
+      setAppState(prev => ({ ...prev, isLoading: false, isStreaming: false, generatedContent: content, error: null, progressStep: 'Complete' }));
+
+      // FACT-CHECK: the note is already shown; a failed review only costs the warnings.
+      // Opening another note or generating again aborts it through the same controller.
+      if (isFactCheckEnabled(config)) {
+          setIsFactChecking(true);
+          try {
+              const findings = await runFactCheck(runConfig, content, filesToUpload);
+              if (!controller.signal.aborted) setFactCheckFindings(findings);
+          } catch (e: any) {
+              if (!controller.signal.aborted) setFactCheckNotice("Automatic fact-check didn't finish, so this note has no review yet: " + e.message);
+          } finally {
+              setIsFactChecking(false);
+          }
+      }
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      const partialContent = streamedPartial.current;
+      if (partialContent.trim()) {
+          // Salvage whatever was streamed before the failure, clearly marked as incomplete
+          const salvaged = processGeneratedNote(partialContent, config.formatterRules) + `\n\n> [!danger] GENERATION INTERRUPTED\n> ${err.message}\n`;
+          setAppState(prev => ({ ...prev, isLoading: false, isStreaming: false, generatedContent: salvaged, error: "Generation stopped early, partial note kept: " + err.message, progressStep: '' }));
+      } else {
+          setAppState(prev => ({ ...prev, isLoading: false, isStreaming: false, generatedContent: null, error: err.message, progressStep: '', }));
+      }
+    } finally {
+      if (generationAbort.current === controller) generationAbort.current = null;
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    const controller = generationAbort.current;
+    if (!controller) return;
+    controller.abort();
+    generationAbort.current = null;
+    const partialContent = streamedPartial.current;
+    const kept = partialContent.trim()
+        ? processGeneratedNote(partialContent, config.formatterRules) + `\n\n> [!warning] GENERATION CANCELLED\n> Stopped before the note was finished.\n`
+        : null;
+    setAppState(prev => ({ ...prev, isLoading: false, isStreaming: false, generatedContent: kept, error: null, progressStep: '' }));
   };
 
   // --- CONTENT HANDLERS ---
@@ -276,23 +414,31 @@ const AppContent: React.FC = () => {
   };
   
   const handleExitNote = () => {
+    generationAbort.current?.abort();
+    forgetOpenNotePrompts();
+    setDraftNoteId(null);
+    setFactCheckFindings([]);
+    setFactCheckNotice(null);
     setAppState(prev => ({
         ...prev,
         generatedContent: null,
         activeNoteId: null,
+        isStreaming: false,
         currentView: AppView.WORKSPACE
     }));
   };
 
   const handleManualSave = async (content: string) => {
     const currentId = appState.activeNoteId;
+    const noteId = currentId || draftNoteId || Date.now().toString();
     const noteToSave: HistoryItem = {
-      id: currentId || Date.now().toString(),
+      id: noteId,
       timestamp: Date.now(),
       topic: noteData.topic,
       mode: config.mode,
       content: content,
       provider: config.provider,
+      model: config.model,
       parentId: null,
       tags: [],
       _status: 'local'
@@ -308,8 +454,13 @@ const AppContent: React.FC = () => {
         });
       }
     }
+    noteToSave.usage = UsageLedgerService.getInstance().summarize({ noteId });
+    noteToSave.language = noteLanguage;
+    noteToSave.factCheck = factCheckFindings;
+    noteToSave.promptVersions = { ...noteToSave.promptVersions, ...PromptRegistryService.getInstance().getNoteVersions(noteId) };
 
     await storageService.saveNoteLocal(noteToSave);
+    await storageService.saveNoteVersion(noteToSave.id, content, 'manual-save');
 
     if ((noteToSave._status === 'synced' || noteToSave._status === 'cloud' || storageService.isCloudReady())) {
       try {
@@ -320,10 +471,24 @@ const AppContent: React.FC = () => {
     }
 
     if (!currentId) {
+      setDraftNoteId(null);
       setAppState(prev => ({ ...prev, activeNoteId: noteToSave.id }));
     }
   };
 
+  // On-demand review of whatever is in the editor, against the files currently attached
+  const handleRunFactCheck = async (content: string): Promise<FactCheckFinding[]> => {
+    setIsFactChecking(true);
+    setFactCheckNotice(null);
+    try {
+        const findings = await runFactCheck(outputConfig, content, noteData.files);
+        setFactCheckFindings(findings);
+        return findings;
+    } finally {
+        setIsFactChecking(false);
+    }
+  };
+
   // --- SUB-COMPONENTS ---
 
   const PrimaryNavButton: React.FC<{ view: AppView, icon: any, label: string }> = ({ view, icon: Icon, label }) => (
@@ -467,6 +632,11 @@ const AppContent: React.FC = () => {
                  <div className="absolute inset-0 flex flex-col items-center justify-center bg-[var(--ui-bg)] z-50">
                      <div className="w-16 h-16 border-4 border-[var(--ui-border)] rounded-full border-t-[var(--ui-primary)] animate-spin mb-4"></div>
                      <p className="text-[var(--ui-text-muted)] text-sm animate-pulse">{appState.progressStep || 'Processing...'}</p>
+                     {generationAbort.current && (
+                         <button onClick={handleCancelGeneration} className="mt-6 px-4 py-2 rounded-lg border border-[var(--ui-border)] text-xs font-bold text-[var(--ui-text-muted)] hover:text-red-500 hover:border-red-300 transition-colors flex items-center gap-2">
+                             <X size={14}/> Cancel
+                         </button>
+                     )}
                  </div>
              )}
 
@@ -489,7 +659,7 @@ const AppContent: React.FC = () => {
                      </div>
                  )}
 
-                 {appState.currentView === AppView.SYLLABUS && <SyllabusFlow config={config} onSelectTopic={(t) => { setNoteData(prev => ({...prev, topic: t})); setAppState(prev => ({...prev, currentView: AppView.WORKSPACE})); }} groqModels={groqModels} />}
+                 {appState.currentView === AppView.SYLLABUS && <SyllabusFlow config={config} onSelectTopic={(t) => { setNoteData(prev => ({...prev, topic: t})); setAppState(prev => ({...prev, currentView: AppView.WORKSPACE})); }} providerModels={providerModels} />}
 
                  {appState.currentView === AppView.SETTINGS && (
                      /* SETTINGS PANEL */
@@ -508,9 +678,68 @@ const AppContent: React.FC = () => {
                                      <label className="text-xs font-bold text-[var(--ui-text-muted)]">Groq API Key</label>
                                      <input type="password" value={config.groqApiKey} onChange={e => handleSaveApiKey(e.target.value, 'groq')} className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs" />
                                  </div>
+                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                     <div>
+                                         <label className="text-xs font-bold text-[var(--ui-text-muted)]">Local / OpenAI-Compatible Base URL</label>
+                                         <input type="text" value={config.openaiBaseUrl} onChange={e => handleSaveApiKey(e.target.value, 'openai_url')} placeholder="http://localhost:11434/v1" className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs" />
+                                     </div>
+                                     <div>
+                                         <label className="text-xs font-bold text-[var(--ui-text-muted)]">API Key (optional)</label>
+                                         <input type="password" value={config.openaiApiKey} onChange={e => handleSaveApiKey(e.target.value, 'openai_key')} className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs" />
+                                     </div>
+                                 </div>
                              </div>
+                             <KeyHealthPanel config={config} />
                          </div>
 
+                         {/* Output Language */}
+                         <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-3">
+                             <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><Languages size={16}/> Output Language</h3>
+                             <select value={config.language || DEFAULT_LANGUAGE} onChange={e => setConfig(prev => ({ ...prev, language: e.target.value }))} className="w-full p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs">
+                                 {OUTPUT_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                             </select>
+                             <p className="text-[10px] text-[var(--ui-text-muted)]">Default for notes, blueprints, edits and the assistant, including analogies and mnemonics. Notes and syllabus queues can override it.</p>
+                         </div>
+
+                         <FallbackChainPanel 
+                             primary={{ provider: config.provider, model: config.model }}
+                             chain={config.fallbackChain || []}
+                             providerModels={providerModels}
+                             onChange={(fallbackChain) => setConfig(prev => ({ ...prev, fallbackChain }))}
+                         />
+
+                         <FactCheckPanel 
+                             settings={config.factCheck || { enabled: false, provider: config.provider, model: config.model }}
+                             providerModels={providerModels}
+                             onChange={(factCheck) => setConfig(prev => ({ ...prev, factCheck }))}
+                         />
+
+                         <FormatterRulesPanel 
+                             settings={config.formatterRules || {}}
+                             onChange={(formatterRules) => setConfig(prev => ({ ...prev, formatterRules }))}
+                         />
+
+                         <SnippetPanel />
+
+                         <SearchIndexPanel />
+
+                         <UsageDashboard />
+
+                         <PromptEditor />
+
+                         <MockProviderPanel 
+                             isActive={config.provider === AIProvider.MOCK}
+                             onActivate={() => {
+                                 if (config.provider !== AIProvider.MOCK) providerBeforeMock.current = { provider: config.provider, model: config.model };
+                                 setConfig(prev => ({ ...prev, provider: AIProvider.MOCK, model: MOCK_MODELS.FIXTURE }));
+                             }}
+                             onDeactivate={() => {
+                                 const previous = providerBeforeMock.current ?? { provider: AIProvider.GEMINI, model: getProvider(AIProvider.GEMINI).defaultModel };
+                                 providerBeforeMock.current = null;
+                                 setConfig(prev => ({ ...prev, ...previous }));
+                             }}
+                         />
+
                          {/* Cloud Storage (Supabase) */}
                          <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-4">
                             <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2">
@@ -573,7 +802,7 @@ const AppContent: React.FC = () => {
                                  />
                                  <div className="flex items-center gap-2 px-2 pb-2 md:pb-0 justify-end">
                                      <button 
-                                        onClick={() => setConfig(prev => ({...prev, provider: prev.provider === AIProvider.GEMINI ? AIProvider.GROQ : AIProvider.GEMINI}))}
+                                        onClick={() => setConfig(prev => ({...prev, provider: getNextProvider(prev.provider)}))}
                                         className="text-[10px] font-bold px-2 py-1 rounded border border-[var(--ui-border)] text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]"
                                         title="Switch Provider"
                                      >
@@ -621,14 +850,14 @@ const AppContent: React.FC = () => {
 
                          {/* Quick Options */}
                          <div className="flex flex-col md:flex-row justify-center mt-6 gap-4 px-4">
-                             <div className="flex items-center gap-2 px-4 py-2 bg-[var(--ui-surface)] rounded-full border border-[var(--ui-border)] w-full md:w-auto">
+                             <div className="flex items-center gap-2 px-4 py-2 bg-[var(--ui-surface)] rounded-full border border-[var(--ui-border)] w-full md:w-auto" title={describeCapabilities(config.model)}>
                                  <span className="text-[10px] font-bold text-[var(--ui-text-muted)] uppercase">Model</span>
                                  <select 
                                     value={config.model}
                                     onChange={(e) => setConfig({...config, model: e.target.value})}
                                     className="bg-transparent text-xs font-bold text-[var(--ui-text-main)] outline-none cursor-pointer flex-1 md:flex-none"
                                  >
-                                     {config.provider === AIProvider.GEMINI ? GEMINI_MODELS.map(m => <option key={m.value} value={m.value}>{m.label}</option>) : groqModels.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                     {getModelOptions(config.provider, providerModels).map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
                                  </select>
                              </div>
                              
@@ -644,6 +873,31 @@ const AppContent: React.FC = () => {
                                      <option value={NoteMode.CHEAT_CODES}>Cheat Sheet</option>
                                  </select>
                              </div>
+
+                             <div className="flex items-center gap-2 px-4 py-2 bg-[var(--ui-surface)] rounded-full border border-[var(--ui-border)] w-full md:w-auto" title="Language of this note. The default is set in Settings.">
+                                 <span className="text-[10px] font-bold text-[var(--ui-text-muted)] uppercase">Language</span>
+                                 <select 
+                                    value={noteData.language || ''}
+                                    onChange={(e) => setNoteData({...noteData, language: e.target.value || undefined})}
+                                    className="bg-transparent text-xs font-bold text-[var(--ui-text-main)] outline-none cursor-pointer flex-1 md:flex-none"
+                                 >
+                                     <option value="">Default ({getOutputLanguage(config.language).label})</option>
+                                     {OUTPUT_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                                 </select>
+                             </div>
+
+                             {config.mode === NoteMode.COMPREHENSIVE && (
+                                 <div className="flex items-center gap-2 px-4 py-2 bg-[var(--ui-surface)] rounded-full border border-[var(--ui-border)] w-full md:w-auto" title="Sections written at the same time. Lower this if you hit rate limits.">
+                                     <span className="text-[10px] font-bold text-[var(--ui-text-muted)] uppercase">Parallel</span>
+                                     <select 
+                                        value={config.sectionConcurrency || 3}
+                                        onChange={(e) => setConfig({...config, sectionConcurrency: parseInt(e.target.value, 10)})}
+                                        className="bg-transparent text-xs font-bold text-[var(--ui-text-main)] outline-none cursor-pointer flex-1 md:flex-none"
+                                     >
+                                         {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n === 1 ? '1 (Sequential)' : `${n} Sections`}</option>)}
+                                     </select>
+                                 </div>
+                             )}
                          </div>
                          
                          <div className="max-w-2xl mx-auto mt-8 w-full px-4 flex flex-col gap-4">
@@ -653,7 +907,10 @@ const AppContent: React.FC = () => {
                                      <Paperclip size={10}/> Add Library Context ({selectedContextIds.length})
                                  </button>
                              </div>
-                             <FileUploader files={noteData.files} onFilesChange={(f) => setNoteData({...noteData, files: f})} />
+                             <FileUploader files={noteData.files} onFilesChange={(f) => setNoteData({...noteData, files: f})} model={config.model} />
+                             {contextWarning && (
+                                 <div className="flex items-start gap-2 text-[10px] text-amber-600 px-1"><AlertCircle size={12} className="shrink-0 mt-0.5"/> {contextWarning}</div>
+                             )}
                          </div>
                      </div>
                  )}
@@ -665,12 +922,21 @@ const AppContent: React.FC = () => {
                             content={appState.generatedContent} 
                             topic={noteData.topic} 
                             noteId={appState.activeNoteId || undefined}
-                            config={config} 
+                            config={outputConfig} 
                             onUpdateContent={handleUpdateContent}
                             onManualSave={handleManualSave}
                             onExit={handleExitNote}
                             theme={currentTheme} 
-                            groqModels={groqModels}
+                            providerModels={providerModels}
+                            isStreaming={appState.isStreaming}
+                            streamStatus={appState.progressStep}
+                            onCancelStream={handleCancelGeneration}
+                            factCheckFindings={factCheckFindings}
+                            onFactCheckChange={setFactCheckFindings}
+                            onRunFactCheck={handleRunFactCheck}
+                            isFactChecking={isFactChecking}
+                            factCheckNotice={factCheckNotice}
+                            onDismissFactCheckNotice={() => setFactCheckNotice(null)}
                          />
                      </Suspense>
                  )}
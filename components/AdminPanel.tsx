@@ -1,7 +1,7 @@
 
 import React, { useState, useRef } from 'react';
 import { 
-  ShieldCheck, Sparkles, Cpu, Database, FileSignature, 
+  ShieldCheck, Sparkles, Cpu, Database, Server, FileSignature, 
   Download, UploadCloud, FileKey, ArrowRight, X, 
   Eye, EyeOff, Key, Wifi, RefreshCw, Lock, Unlock, User, CheckCircle2, AlertTriangle 
 } from 'lucide-react';
@@ -32,11 +32,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, defaultMode = 'create'
   // Toggle State
   const [useGemini, setUseGemini] = useState(false);
   const [useGroq, setUseGroq] = useState(false);
+  const [useLocal, setUseLocal] = useState(false);
   const [useSupabase, setUseSupabase] = useState(false);
 
   // Credential State
   const [geminiKey, setGeminiKey] = useState('');
   const [groqKey, setGroqKey] = useState('');
+  const [localUrl, setLocalUrl] = useState('');
+  const [localKey, setLocalKey] = useState('');
   const [sbUrl, setSbUrl] = useState('');
   const [sbKey, setSbKey] = useState('');
 
@@ -71,6 +74,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, defaultMode = 'create'
     const localGroq = localStorage.getItem('neuro_groq_key') || ''; 
     if(localGroq) { setGroqKey(localGroq); setUseGroq(true); }
 
+    const localOpenAIUrl = localStorage.getItem('neuro_openai_url') || '';
+    if(localOpenAIUrl) { setLocalUrl(localOpenAIUrl); setLocalKey(localStorage.getItem('neuro_openai_key') || ''); setUseLocal(true); }
+
     const localSbUrl = localStorage.getItem('neuro_sb_url');
     const localSbKey = localStorage.getItem('neuro_sb_key');
     
@@ -89,6 +95,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, defaultMode = 'create'
       setGenPin(DEFAULT_PIN);
       setUseGemini(false); setGeminiKey('');
       setUseGroq(false); setGroqKey('');
+      setUseLocal(false); setLocalUrl(''); setLocalKey('');
       setUseSupabase(false); setSbUrl(''); setSbKey('');
       setEditStep('upload');
       setEditFile(null);
@@ -133,6 +140,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, defaultMode = 'create'
 
           if(payload.geminiKey) { setUseGemini(true); setGeminiKey(payload.geminiKey); }
           if(payload.groqKey) { setUseGroq(true); setGroqKey(payload.groqKey); }
+          if(payload.openaiBaseUrl) { setUseLocal(true); setLocalUrl(payload.openaiBaseUrl); setLocalKey(payload.openaiKey || ''); }
           if(payload.supabaseUrl) { 
               setUseSupabase(true); 
               setSbUrl(payload.supabaseUrl); 
@@ -157,6 +165,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, defaultMode = 'create'
       const payload: EncryptedPayload = {
           geminiKey: useGemini ? geminiKey.trim() : undefined,
           groqKey: useGroq ? groqKey.trim() : undefined,
+          openaiBaseUrl: useLocal ? localUrl.trim() : undefined,
+          openaiKey: useLocal && localKey.trim() ? localKey.trim() : undefined,
           supabaseUrl: useSupabase ? sbUrl : undefined,
           supabaseKey: useSupabase ? sbKey : undefined
       };
@@ -381,6 +391,32 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, defaultMode = 'create'
                             )}
                         </div>
 
+                        {/* Local / OpenAI-Compatible Server */}
+                        <div className={`border rounded-xl p-4 transition-all duration-300 ${useLocal ? 'bg-sky-900/10 border-sky-500/50' : 'bg-gray-900/20 border-gray-800 opacity-80'}`}>
+                            <div className="flex items-center justify-between mb-3">
+                                <div className="flex items-center gap-3">
+                                    <div className={`p-2 rounded-lg ${useLocal ? 'bg-sky-600 text-white' : 'bg-gray-800 text-gray-500'}`}><Server size={16}/></div>
+                                    <div>
+                                        <span className="font-bold text-sm block">Local Model Server</span>
+                                        <span className="text-[9px] text-gray-500">Ollama / llama.cpp (OpenAI API)</span>
+                                    </div>
+                                </div>
+                                <input type="checkbox" checked={useLocal} onChange={e => setUseLocal(e.target.checked)} className="accent-sky-500 w-4 h-4"/>
+                            </div>
+                            {useLocal && (
+                                <div className="space-y-3 animate-fade-in">
+                                    <div className="relative">
+                                        <Wifi size={14} className="absolute left-3 top-2.5 text-sky-500"/>
+                                        <input type="text" value={localUrl} onChange={e => setLocalUrl(e.target.value)} className="w-full bg-black/40 border border-sky-500/30 rounded-lg p-2.5 pl-9 text-xs text-sky-100 outline-none focus:border-sky-500" placeholder="http://localhost:11434/v1" />
+                                    </div>
+                                    <div className="relative">
+                                        <Key size={14} className="absolute left-3 top-2.5 text-sky-500"/>
+                                        <input type="password" value={localKey} onChange={e => setLocalKey(e.target.value)} className="w-full bg-black/40 border border-sky-500/30 rounded-lg p-2.5 pl-9 text-xs text-sky-100 font-mono outline-none focus:border-sky-500" placeholder="API key (optional)" />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
                         {/* Supabase (Separated URL & Key) */}
                         <div className={`border rounded-xl p-4 transition-all duration-300 ${useSupabase ? 'bg-emerald-900/10 border-emerald-500/50' : 'bg-gray-900/20 border-gray-800 opacity-80'}`}>
                             <div className="flex items-center justify-between mb-3">
@@ -4,21 +4,26 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { HistoryItem, AIProvider, AppModel, GEMINI_MODELS_LIST, ChatMessage } from '../types';
+import { HistoryItem, AIProvider, AppModel, ChatMessage, ProviderModelMap, LibraryMaterial } from '../types';
 import { StorageService } from '../services/storageService';
+import { materialSourceId } from '../services/retrievalService';
+import { listProviders, getModelOptions } from '../services/providerRegistry';
+import { isAbortError } from '../utils/abort';
+import { getAttachmentSupport } from '../utils/modelCatalog';
 
 interface AssistantPanelProps {
   noteMetadata?: HistoryItem['metadata'];
-  onPromptSubmit: (history: ChatMessage[], files: File[], provider?: AIProvider, model?: string, contextIds?: string[], personality?: string) => Promise<string>;
-  onDeepenNote?: (instruction: string, files: File[], provider?: AIProvider, model?: string, contextIds?: string[]) => Promise<string>;
+  onPromptSubmit: (history: ChatMessage[], files: File[], provider?: AIProvider, model?: string, contextIds?: string[], personality?: string) => Promise<ChatMessage>;
+  onDeepenNote?: (instruction: string, files: File[], provider?: AIProvider, model?: string, contextIds?: string[]) => Promise<ChatMessage>;
   isProcessing: boolean;
-  groqModels?: {value: string, label: string, badge: string}[];
+  onCancel?: () => void;
+  providerModels?: ProviderModelMap;
   externalPrompt?: string;
   onExternalPromptHandled?: () => void;
   onAddSticky?: (text: string, color?: 'yellow'|'blue'|'green'|'pink') => void;
 }
 
-const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptSubmit, onDeepenNote, isProcessing, groqModels = [], externalPrompt, onExternalPromptHandled, onAddSticky }) => {
+const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptSubmit, onDeepenNote, isProcessing, onCancel, providerModels = {}, externalPrompt, onExternalPromptHandled, onAddSticky }) => {
   const [prompt, setPrompt] = useState('');
   const [files, setFiles] = useState<File[]>([]);
   const [provider, setProvider] = useState<AIProvider>(AIProvider.GEMINI);
@@ -26,6 +31,7 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
   
   // Context Injection State
   const [availableNotes, setAvailableNotes] = useState<HistoryItem[]>([]);
+  const [availableMaterials, setAvailableMaterials] = useState<LibraryMaterial[]>([]);
   const [selectedContextIds, setSelectedContextIds] = useState<string[]>([]);
   const [showContextPicker, setShowContextPicker] = useState(false);
 
@@ -83,6 +89,16 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
       setAvailableNotes(notes);
   }, []);
 
+  // Knowledge Base files are cloud-only, so they are listed once the picker is first opened
+  useEffect(() => {
+      const storage = StorageService.getInstance();
+      if (!showContextPicker || availableMaterials.length > 0 || !storage.isCloudReady()) return;
+      storage.getLibraryMaterials().then(setAvailableMaterials).catch(e => console.error(e));
+  }, [showContextPicker]);
+
+  const contextLabel = (id: string) =>
+      availableNotes.find(n => n.id === id)?.topic || availableMaterials.find(m => materialSourceId(m.id) === id)?.title;
+
   const toggleContext = (id: string) => {
       setSelectedContextIds(prev => 
           prev.includes(id) ? prev.filter(cid => cid !== id) : [...prev, id]
@@ -131,8 +147,12 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Files the selected model can't read in any form; sending is blocked until they are removed
+  const fileSupport = (f: File) => getAttachmentSupport(model, { name: f.name, mimeType: f.type });
+  const hasUnreadable = files.some(f => fileSupport(f) === 'unsupported');
+
   const handleSubmit = async () => {
-    if ((!prompt.trim() && files.length === 0) || isProcessing) return;
+    if ((!prompt.trim() && files.length === 0) || isProcessing || hasUnreadable) return;
     
     const userMsg: ChatMessage = { role: 'user', content: prompt };
     const newHistory = [...messages, userMsg];
@@ -143,14 +163,14 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
 
     try {
         const response = await onPromptSubmit(newHistory, files, provider, model, selectedContextIds, personality);
-        setMessages(prev => [...prev, { role: 'model', content: response }]);
+        setMessages(prev => [...prev, response]);
     } catch (e) {
-        setMessages(prev => [...prev, { role: 'model', content: "Sorry, I encountered an error." }]);
+        setMessages(prev => [...prev, { role: 'model', content: isAbortError(e) ? "_Request cancelled._" : "Sorry, I encountered an error." }]);
     }
   };
 
   const handleDeepen = async () => {
-    if (isProcessing || !onDeepenNote) return;
+    if (isProcessing || !onDeepenNote || hasUnreadable) return;
     
     const userMsg: ChatMessage = { role: 'user', content: prompt || "Deepen this note using the provided context." };
     const newHistory = [...messages, userMsg];
@@ -163,9 +183,9 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
 
     try {
         const response = await onDeepenNote(currentPrompt, currentFiles, provider, model, selectedContextIds);
-        setMessages(prev => [...prev, { role: 'model', content: response }]);
+        setMessages(prev => [...prev, response]);
     } catch (e) {
-        setMessages(prev => [...prev, { role: 'model', content: "Sorry, I encountered an error while deepening the note." }]);
+        setMessages(prev => [...prev, { role: 'model', content: isAbortError(e) ? "_Request cancelled. The note was not changed._" : "Sorry, I encountered an error while deepening the note." }]);
     }
   };
 
@@ -236,15 +256,14 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
                 onChange={(e) => { setProvider(e.target.value as AIProvider); setModel(''); }}
                 className="bg-[var(--ui-bg)] text-[10px] font-bold border border-[var(--ui-border)] rounded p-1 outline-none flex-1"
             >
-                <option value={AIProvider.GEMINI}>Gemini</option>
-                <option value={AIProvider.GROQ}>Groq</option>
+                {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
             </select>
             <select 
                 value={model} 
                 onChange={(e) => setModel(e.target.value)}
                 className="bg-[var(--ui-bg)] text-[10px] font-bold border border-[var(--ui-border)] rounded p-1 outline-none flex-[2] truncate"
             >
-                {(provider === AIProvider.GEMINI ? GEMINI_MODELS_LIST : groqModels).map(m => (
+                {getModelOptions(provider, providerModels).map(m => (
                     <option key={m.value} value={m.value}>{m.label}</option>
                 ))}
             </select>
@@ -282,6 +301,18 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
                             </div>
                         )}
                     </div>
+                    {msg.sources && msg.sources.length > 0 && (
+                        <details className="text-[10px] text-[var(--ui-text-muted)] px-1 max-w-full">
+                            <summary className="cursor-pointer font-bold">Sources used ({msg.sources.length} chunk{msg.sources.length === 1 ? '' : 's'})</summary>
+                            <ul className="mt-1 space-y-0.5">
+                                {msg.sources.map(s => (
+                                    <li key={s.id} className="truncate" title={s.text.slice(0, 400)}>
+                                        {s.sourceKind === 'material' && <FileText size={10} className="inline mr-0.5 align-[-1px]"/>}<span className="font-bold text-[var(--ui-text-main)]">{s.sourceLabel}</span> › {s.heading} <span className="opacity-70">· ~{s.tokens} tok</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
                 </div>
             </div>
         ))}
@@ -291,8 +322,13 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
                 <div className="w-6 h-6 rounded-full bg-emerald-500 text-white flex items-center justify-center shrink-0">
                     <Loader2 size={14} className="animate-spin"/>
                 </div>
-                <div className="bg-[var(--ui-surface)] border border-[var(--ui-border)] p-3 rounded-2xl rounded-tl-none text-xs text-[var(--ui-text-muted)]">
+                <div className="bg-[var(--ui-surface)] border border-[var(--ui-border)] p-3 rounded-2xl rounded-tl-none text-xs text-[var(--ui-text-muted)] flex items-center gap-3">
                     Thinking...
+                    {onCancel && (
+                        <button onClick={onCancel} className="flex items-center gap-1 font-bold hover:text-red-500" title="Cancel request">
+                            <X size={12}/> Stop
+                        </button>
+                    )}
                 </div>
             </div>
         )}
@@ -304,12 +340,12 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
         {selectedContextIds.length > 0 && (
             <div className="flex gap-2 mb-2 overflow-x-auto pb-2">
                 {selectedContextIds.map(id => {
-                    const note = availableNotes.find(n => n.id === id);
-                    if (!note) return null;
+                    const label = contextLabel(id);
+                    if (!label) return null;
                     return (
                         <div key={id} className="bg-indigo-100 text-indigo-800 border border-indigo-200 rounded px-2 py-1 text-[10px] flex items-center gap-1 shrink-0">
-                            <Book size={10}/>
-                            <span className="max-w-[80px] truncate">{note.topic}</span>
+                            {availableNotes.some(n => n.id === id) ? <Book size={10}/> : <FileText size={10}/>}
+                            <span className="max-w-[80px] truncate">{label}</span>
                             <button onClick={() => toggleContext(id)} className="hover:text-indigo-500"><X size={10}/></button>
                         </div>
                     );
@@ -320,7 +356,11 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
         {files.length > 0 && (
             <div className="flex gap-2 mb-2 overflow-x-auto pb-2">
                 {files.map((f, i) => (
-                    <div key={i} className="bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded px-2 py-1 text-[10px] flex items-center gap-1 shrink-0">
+                    <div 
+                        key={i} 
+                        className={`bg-[var(--ui-bg)] border rounded px-2 py-1 text-[10px] flex items-center gap-1 shrink-0 ${fileSupport(f) === 'unsupported' ? 'border-red-400 text-red-500' : 'border-[var(--ui-border)]'}`}
+                        title={fileSupport(f) === 'unsupported' ? `${model} can't read this file` : fileSupport(f) === 'text' ? 'Sent as text' : undefined}
+                    >
                         <FileText size={10}/>
                         <span className="max-w-[80px] truncate">{f.name}</span>
                         <button onClick={() => removeFile(i)} className="hover:text-red-400"><X size={10}/></button>
@@ -333,7 +373,7 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
         {showContextPicker && (
             <div className="absolute bottom-16 left-4 right-4 bg-[var(--ui-surface)] border border-[var(--ui-border)] shadow-xl rounded-xl p-3 max-h-60 overflow-y-auto z-50">
                 <div className="flex justify-between items-center mb-2 pb-2 border-b border-[var(--ui-border)]">
-                    <span className="text-xs font-bold">Select Context Notes</span>
+                    <span className="text-xs font-bold">Select Context Notes & Files</span>
                     <button onClick={() => setShowContextPicker(false)}><X size={14}/></button>
                 </div>
                 <div className="space-y-1">
@@ -349,6 +389,23 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
                             <span className="truncate">{note.topic}</span>
                         </div>
                     ))}
+                    {availableMaterials.length > 0 && <div className="pt-2 text-[10px] font-bold text-[var(--ui-text-muted)] uppercase">Library files</div>}
+                    {availableMaterials.map(material => {
+                        const id = materialSourceId(material.id);
+                        return (
+                            <div 
+                                key={id} 
+                                onClick={() => toggleContext(id)}
+                                className={`p-2 rounded text-xs cursor-pointer flex items-center gap-2 ${selectedContextIds.includes(id) ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-[var(--ui-bg)]'}`}
+                            >
+                                <div className={`w-3 h-3 rounded border flex items-center justify-center ${selectedContextIds.includes(id) ? 'bg-indigo-500 border-indigo-500' : 'border-gray-400'}`}>
+                                    {selectedContextIds.includes(id) && <Check size={8} className="text-white"/>}
+                                </div>
+                                <FileText size={12} className="shrink-0 text-[var(--ui-text-muted)]"/>
+                                <span className="truncate">{material.title}</span>
+                            </div>
+                        );
+                    })}
                 </div>
             </div>
         )}
@@ -427,7 +484,7 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
             
             <button 
                 onClick={handleDeepen}
-                disabled={isProcessing || (files.length === 0 && selectedContextIds.length === 0 && !prompt.trim())}
+                disabled={isProcessing || hasUnreadable || (files.length === 0 && selectedContextIds.length === 0 && !prompt.trim())}
                 className="text-indigo-500 disabled:opacity-30 hover:scale-110 transition-transform"
                 title="Deepen Note with Context"
             >
@@ -436,15 +493,15 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ noteMetadata, onPromptS
 
             <button 
                 onClick={handleSubmit}
-                disabled={(!prompt.trim() && files.length === 0) || isProcessing}
+                disabled={(!prompt.trim() && files.length === 0) || isProcessing || hasUnreadable}
                 className="text-[var(--ui-primary)] disabled:opacity-30 hover:scale-110 transition-transform"
                 title="Send to Assistant"
             >
                 <Send size={18}/>
             </button>
         </div>
-        <div className="text-[9px] text-[var(--ui-text-muted)] text-center mt-2">
-            AI can make mistakes. Check important info.
+        <div className={`text-[9px] text-center mt-2 ${hasUnreadable ? 'text-red-500' : 'text-[var(--ui-text-muted)]'}`}>
+            {hasUnreadable ? `${model} can't read the marked files. Remove them or pick a model that reads images & PDF.` : 'AI can make mistakes. Check important info.'}
         </div>
       </div>
     </div>
@@ -0,0 +1,93 @@
+import React, { useState, useMemo } from 'react';
+import { Eraser, X, Check } from 'lucide-react';
+import { FormatterRuleSettings, FormatterRuleId } from '../types';
+import { runFormatter } from '../utils/formatter';
+import { diffLines, collapseUnchanged } from '../utils/diff';
+
+interface CleanupReviewModalProps {
+  content: string;
+  settings: FormatterRuleSettings; // Starting point; toggles here only affect this run
+  onApply: (content: string) => void;
+  onClose: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-[var(--ui-text-muted)]',
+  add: 'bg-green-500/10 text-green-600',
+  remove: 'bg-red-500/10 text-red-600 line-through'
+};
+
+const CONTEXT_LINES = 2;
+const MAX_SAMPLE_CHARS = 160;
+
+const sample = (text: string) => {
+  const oneLine = text.replace(/\s*\n\s*/g, ' ⏎ ');
+  return oneLine.length > MAX_SAMPLE_CHARS ? oneLine.slice(0, MAX_SAMPLE_CHARS) + '…' : oneLine;
+};
+
+const CleanupReviewModal: React.FC<CleanupReviewModalProps> = ({ content, settings, onApply, onClose }) => {
+  const [rules, setRules] = useState<FormatterRuleSettings>(settings);
+
+  const result = useMemo(() => runFormatter(content, rules), [content, rules]);
+  const rows = useMemo(() => collapseUnchanged(diffLines(content, result.content), CONTEXT_LINES), [content, result.content]);
+  const totalChanges = result.report.reduce((n, r) => n + r.changes.length, 0);
+
+  const toggleRule = (id: FormatterRuleId, enabled: boolean) => setRules(prev => ({ ...prev, [id]: enabled }));
+
+  return (
+      <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+          <div className="bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-2xl w-full max-w-5xl h-[85vh] flex flex-col shadow-2xl">
+              <div className="p-4 border-b border-[var(--ui-border)] flex justify-between items-center bg-[var(--ui-bg)] rounded-t-2xl">
+                  <h3 className="font-bold text-[var(--ui-text-main)] flex items-center gap-2"><Eraser size={16} className="text-[var(--ui-primary)]"/> Clean Up Note</h3>
+                  <button onClick={onClose}><X size={18} className="text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]"/></button>
+              </div>
+
+              <div className="flex-1 flex flex-col md:flex-row min-h-0">
+                  {/* RULE REPORT */}
+                  <div className="md:w-80 shrink-0 border-b md:border-b-0 md:border-r border-[var(--ui-border)] overflow-y-auto custom-scrollbar p-4 space-y-3">
+                      {result.report.map(rule => (
+                          <div key={rule.id} className="text-xs space-y-1">
+                              <label className="flex items-center gap-2 cursor-pointer" title={rule.description}>
+                                  <input type="checkbox" checked={rule.enabled} onChange={e => toggleRule(rule.id, e.target.checked)} />
+                                  <span className="font-bold text-[var(--ui-text-main)] flex-1">{rule.label}</span>
+                                  <span className={`text-[10px] font-bold ${rule.changes.length > 0 ? 'text-[var(--ui-primary)]' : 'text-[var(--ui-text-muted)]'}`}>
+                                      {rule.enabled ? `${rule.changes.length} change${rule.changes.length === 1 ? '' : 's'}` : 'off'}
+                                  </span>
+                              </label>
+                              {rule.changes.slice(0, 3).map((change, i) => (
+                                  <div key={i} className="ml-5 font-mono text-[10px] space-y-0.5">
+                                      <div className="text-red-600 line-through break-all">{sample(change.before)}</div>
+                                      <div className="text-green-600 break-all">{sample(change.after)}</div>
+                                  </div>
+                              ))}
+                              {rule.changes.length > 3 && <div className="ml-5 text-[10px] text-[var(--ui-text-muted)]">+{rule.changes.length - 3} more</div>}
+                          </div>
+                      ))}
+                  </div>
+
+                  {/* BEFORE / AFTER DIFF */}
+                  <div className="flex-1 overflow-y-auto custom-scrollbar p-4 font-mono text-[11px] bg-[var(--ui-bg)]">
+                      {totalChanges === 0
+                          ? <div className="text-center p-12 text-[var(--ui-text-muted)] font-sans text-xs">Nothing to clean up with the selected rules.</div>
+                          : rows.map((d, i) => d === null
+                              ? <div key={i} className="text-[var(--ui-text-muted)] select-none">…</div>
+                              : <div key={i} className={`whitespace-pre-wrap ${DIFF_STYLES[d.op]}`}>{d.op === 'add' ? '+ ' : d.op === 'remove' ? '- ' : '  '}{d.text}</div>)}
+                  </div>
+              </div>
+
+              <div className="p-3 border-t border-[var(--ui-border)] flex justify-end gap-2">
+                  <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-bold text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)]">Cancel</button>
+                  <button
+                      onClick={() => onApply(result.content)}
+                      disabled={totalChanges === 0}
+                      className="px-4 py-1.5 rounded-lg text-xs font-bold bg-[var(--ui-primary)] text-white hover:opacity-90 disabled:opacity-30 flex items-center gap-1"
+                  >
+                      <Check size={14}/> Apply {totalChanges > 0 ? `${totalChanges} change${totalChanges === 1 ? '' : 's'}` : ''}
+                  </button>
+              </div>
+          </div>
+      </div>
+  );
+};
+
+export default CleanupReviewModal;
@@ -5,8 +5,11 @@ import {
   BrainCircuit, Sparkles, Cpu, Maximize2, X, GraduationCap, Microscope, 
   PenTool, FolderOpen, LogOut, Component 
 } from 'lucide-react';
-import { AppView, NoteMode, AIProvider, AppModel, HistoryItem } from '../types';
+import { AppView, NoteMode, AIProvider, AppModel, HistoryItem, SemanticSearchHit } from '../types';
 import { StorageService } from '../services/storageService';
+import { SemanticSearchService } from '../services/semanticSearchService';
+import { listProviders } from '../services/providerRegistry';
+import HighlightedText from './HighlightedText';
 
 interface CommandPaletteProps {
   isOpen: boolean;
@@ -27,6 +30,7 @@ interface CommandItem {
   group: CommandGroup;
   icon: React.ReactNode;
   shortcut?: string;
+  detail?: React.ReactNode; // Shown instead of the group line (semantic search snippets)
   action: () => void;
 }
 
@@ -36,6 +40,9 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [notes, setNotes] = useState<HistoryItem[]>([]);
+  const [searchByMeaning, setSearchByMeaning] = useState(false);
+  const [meaningHits, setMeaningHits] = useState<SemanticSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
 
@@ -62,8 +69,7 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
       { id: 'act-focus', group: 'Actions', label: isFocusMode ? 'Exit Focus Mode' : 'Enter Focus Mode (Zen)', icon: <Maximize2 size={14}/>, shortcut: 'F', action: toggleFocusMode },
       
       // AI Providers
-      { id: 'ai-gemini', group: 'AI Model', label: 'Switch to Gemini Engine', icon: <Sparkles size={14}/>, action: () => onChangeProvider(AIProvider.GEMINI) },
-      { id: 'ai-groq', group: 'AI Model', label: 'Switch to Groq LPU', icon: <Cpu size={14}/>, action: () => onChangeProvider(AIProvider.GROQ) },
+      ...listProviders().map((p): CommandItem => ({ id: `ai-${p.id}`, group: 'AI Model', label: `Switch to ${p.label}`, icon: p.id === AIProvider.GEMINI ? <Sparkles size={14}/> : <Cpu size={14}/>, action: () => onChangeProvider(p.id) })),
       
       // Modes
       { id: 'mode-general', group: 'Note Mode', label: 'Mode: Standard', icon: <GraduationCap size={14}/>, action: () => onChangeMode(NoteMode.GENERAL) },
@@ -83,14 +89,40 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
     return [...staticCmds, ...noteCmds];
   }, [notes, isFocusMode]);
 
+  // Meaning mode: ranked note chunks from the semantic index (debounced while typing)
+  useEffect(() => {
+    if (!searchByMeaning || !query.trim()) { setMeaningHits([]); return; }
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      SemanticSearchService.getInstance().search(query, 30)
+        .then(hits => { if (!cancelled) setMeaningHits(hits); })
+        .finally(() => { if (!cancelled) setIsSearching(false); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, searchByMeaning]);
+
   const filteredCommands = useMemo(() => {
+    if (searchByMeaning) {
+      return meaningHits.flatMap((hit): CommandItem[] => {
+        const note = notes.find(n => n.id === hit.noteId);
+        return note ? [{
+          id: `meaning-${hit.noteId}`,
+          group: 'Library',
+          label: hit.topic,
+          icon: <BrainCircuit size={14}/>,
+          detail: <><span className="font-bold">{hit.heading}</span> · <HighlightedText text={hit.snippet} terms={hit.terms} /></>,
+          action: () => onSelectNote(note)
+        }] : [];
+      });
+    }
     if (!query) return commands.slice(0, 15); // Show top default commands
     const lowerQuery = query.toLowerCase();
     return commands.filter(cmd => 
       cmd.label.toLowerCase().includes(lowerQuery) || 
       cmd.group.toLowerCase().includes(lowerQuery)
     ).slice(0, 50);
-  }, [query, commands]);
+  }, [query, commands, searchByMeaning, meaningHits, notes]);
 
   // Keyboard Handling
   useEffect(() => {
@@ -112,6 +144,10 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
       } else if (e.key === 'Escape') {
         e.preventDefault();
         onClose();
+      } else if (e.key === 'Tab') {
+        e.preventDefault();
+        setSearchByMeaning(prev => !prev);
+        setSelectedIndex(0);
       }
     };
 
@@ -144,17 +180,26 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
             ref={inputRef}
             type="text"
             className="flex-1 bg-transparent text-lg text-white placeholder-gray-500 outline-none font-medium"
-            placeholder="Type a command or search notes..."
+            placeholder={searchByMeaning ? "Describe what you're looking for..." : "Type a command or search notes..."}
             value={query}
             onChange={e => { setQuery(e.target.value); setSelectedIndex(0); }}
           />
+          <button
+            onClick={() => { setSearchByMeaning(!searchByMeaning); setSelectedIndex(0); inputRef.current?.focus(); }}
+            className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded border transition-colors ${searchByMeaning ? 'bg-neuro-primary/20 border-neuro-primary text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-gray-200'}`}
+            title="Search notes by meaning (Tab)"
+          >
+            <BrainCircuit size={12}/> Meaning
+          </button>
           <div className="text-[10px] bg-gray-800 text-gray-400 px-2 py-1 rounded border border-gray-700 font-mono">ESC</div>
         </div>
 
         {/* Results List */}
         <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-2 scroll-smooth">
           {filteredCommands.length === 0 ? (
-             <div className="p-8 text-center text-gray-500">No matching commands found.</div>
+             <div className="p-8 text-center text-gray-500">
+               {!searchByMeaning ? 'No matching commands found.' : isSearching ? 'Searching by meaning...' : query.trim() ? 'No notes match that meaning.' : 'Search the vault by meaning, e.g. "drugs that cause QT prolongation".'}
+             </div>
           ) : (
              filteredCommands.map((cmd, index) => (
                 <div
@@ -171,7 +216,7 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
                     </div>
                     <div>
                       <div className={`text-sm font-medium ${index === selectedIndex ? 'text-white' : 'text-gray-300'}`}>{cmd.label}</div>
-                      <div className={`text-[10px] ${index === selectedIndex ? 'text-white/70' : 'text-gray-600'}`}>{cmd.group}</div>
+                      <div className={`text-[10px] ${index === selectedIndex ? 'text-white/70' : 'text-gray-600'}`}>{cmd.detail || cmd.group}</div>
                     </div>
                   </div>
                   
@@ -189,6 +234,7 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
         {/* Footer */}
         <div className="p-2 border-t border-white/5 bg-gray-900/80 text-[10px] text-gray-500 flex justify-between px-4">
            <span>Select <strong className="text-gray-400">↵</strong></span>
+           <span>Search by meaning <strong className="text-gray-400">Tab</strong></span>
            <span>Navigate <strong className="text-gray-400">↑↓</strong></span>
         </div>
       </div>
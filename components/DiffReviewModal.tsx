@@ -0,0 +1,131 @@
+import React, { useState, useMemo } from 'react';
+import { GitCompare, X, Check, Columns2, Rows2 } from 'lucide-react';
+import { diffLines, buildHunks, mergeHunks, DiffHunk } from '../utils/diff';
+
+interface DiffReviewModalProps {
+  title: string;
+  before: string;
+  after: string;
+  onApply: (content: string) => void; // Called once with the merged text, so the review is a single undo step
+  onClose: () => void;
+}
+
+const CONTEXT_LINES = 2;
+
+const LINE = "whitespace-pre-wrap break-words px-2";
+const CONTEXT = `${LINE} text-[var(--ui-text-muted)]`;
+const REMOVED = `${LINE} bg-red-500/10 text-red-600`;
+const ADDED = `${LINE} bg-green-500/10 text-green-600`;
+
+const DiffReviewModal: React.FC<DiffReviewModalProps> = ({ title, before, after, onApply, onClose }) => {
+  const diff = useMemo(() => diffLines(before, after), [before, after]);
+  const hunks = useMemo(() => buildHunks(diff), [diff]);
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(hunks.map(h => h.id)));
+  const [layout, setLayout] = useState<'inline' | 'split'>('inline');
+
+  // 1-based line in the current note where each hunk starts
+  const startLines = useMemo(() => {
+      const lines = new Map<number, number>();
+      let line = 1;
+      let h = 0;
+      diff.forEach((d, i) => {
+          if (hunks[h]?.start === i) lines.set(hunks[h++].id, line);
+          if (d.op !== 'add') line++;
+      });
+      return lines;
+  }, [diff, hunks]);
+
+  const toggle = (id: number, accept: boolean) => setAccepted(prev => {
+      const next = new Set(prev);
+      if (accept) next.add(id); else next.delete(id);
+      return next;
+  });
+
+  const context = (hunk: DiffHunk, index: number) => {
+      const prevEnd = index > 0 ? hunks[index - 1].end : 0;
+      const nextStart = index < hunks.length - 1 ? hunks[index + 1].start : diff.length;
+      return {
+          above: diff.slice(Math.max(prevEnd, hunk.start - CONTEXT_LINES), hunk.start).map(d => d.text),
+          below: diff.slice(hunk.end, Math.min(nextStart, hunk.end + CONTEXT_LINES)).map(d => d.text)
+      };
+  };
+
+  const renderLines = (lines: string[], className: string, marker: string) =>
+      lines.map((text, i) => <div key={i} className={className}>{marker}{text || ' '}</div>);
+
+  return (
+      <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+          <div className="bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-2xl w-full max-w-5xl h-[85vh] flex flex-col shadow-2xl">
+              <div className="p-4 border-b border-[var(--ui-border)] flex justify-between items-center bg-[var(--ui-bg)] rounded-t-2xl">
+                  <h3 className="font-bold text-[var(--ui-text-main)] flex items-center gap-2">
+                      <GitCompare size={16} className="text-[var(--ui-primary)]"/> Review: {title}
+                      <span className="text-xs font-normal text-[var(--ui-text-muted)]">{hunks.length} change{hunks.length === 1 ? '' : 's'}</span>
+                  </h3>
+                  <div className="flex items-center gap-2">
+                      <div className="flex bg-[var(--ui-surface)] rounded-lg p-0.5 border border-[var(--ui-border)]">
+                          <button onClick={() => setLayout('inline')} title="Inline" className={`p-1 rounded-md ${layout === 'inline' ? 'bg-[var(--ui-bg)] text-[var(--ui-primary)]' : 'text-[var(--ui-text-muted)]'}`}><Rows2 size={14}/></button>
+                          <button onClick={() => setLayout('split')} title="Side by side" className={`p-1 rounded-md ${layout === 'split' ? 'bg-[var(--ui-bg)] text-[var(--ui-primary)]' : 'text-[var(--ui-text-muted)]'}`}><Columns2 size={14}/></button>
+                      </div>
+                      <button onClick={onClose}><X size={18} className="text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]"/></button>
+                  </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 bg-[var(--ui-bg)]">
+                  {hunks.length === 0 && <div className="text-center p-12 text-[var(--ui-text-muted)] text-xs">The AI returned the note unchanged.</div>}
+                  {hunks.map((hunk, index) => {
+                      const isAccepted = accepted.has(hunk.id);
+                      const { above, below } = context(hunk, index);
+                      return (
+                          <div key={hunk.id} className={`rounded-xl border overflow-hidden bg-[var(--ui-surface)] ${isAccepted ? 'border-[var(--ui-primary)]/40' : 'border-[var(--ui-border)]'}`}>
+                              <div className="flex items-center justify-between px-3 py-1.5 border-b border-[var(--ui-border)] text-[10px] font-bold">
+                                  <span className="text-[var(--ui-text-muted)] uppercase">Change {index + 1} · line {startLines.get(hunk.id)}</span>
+                                  <div className="flex gap-1">
+                                      <button onClick={() => toggle(hunk.id, false)} className={`px-2 py-0.5 rounded ${!isAccepted ? 'bg-red-500/10 text-red-600' : 'text-[var(--ui-text-muted)] hover:text-red-600'}`}>Reject</button>
+                                      <button onClick={() => toggle(hunk.id, true)} className={`px-2 py-0.5 rounded ${isAccepted ? 'bg-green-500/10 text-green-600' : 'text-[var(--ui-text-muted)] hover:text-green-600'}`}>Accept</button>
+                                  </div>
+                              </div>
+                              {layout === 'inline' ? (
+                                  <div className="font-mono text-[11px] py-1">
+                                      {renderLines(above, CONTEXT, '  ')}
+                                      <div className={isAccepted ? 'opacity-50 line-through' : ''}>{renderLines(hunk.removed, REMOVED, '- ')}</div>
+                                      <div className={isAccepted ? '' : 'opacity-40'}>{renderLines(hunk.added, ADDED, '+ ')}</div>
+                                      {renderLines(below, CONTEXT, '  ')}
+                                  </div>
+                              ) : (
+                                  <div className="grid grid-cols-2 divide-x divide-[var(--ui-border)] font-mono text-[11px]">
+                                      <div className={`py-1 ${isAccepted ? 'opacity-50' : ''}`}>
+                                          {renderLines(above, CONTEXT, '')}
+                                          {renderLines(hunk.removed, REMOVED, '')}
+                                          {renderLines(below, CONTEXT, '')}
+                                      </div>
+                                      <div className={`py-1 ${isAccepted ? '' : 'opacity-40'}`}>
+                                          {renderLines(above, CONTEXT, '')}
+                                          {renderLines(hunk.added, ADDED, '')}
+                                          {renderLines(below, CONTEXT, '')}
+                                      </div>
+                                  </div>
+                              )}
+                          </div>
+                      );
+                  })}
+              </div>
+
+              <div className="p-3 border-t border-[var(--ui-border)] flex items-center gap-2">
+                  <button onClick={() => setAccepted(new Set(hunks.map(h => h.id)))} className="px-3 py-1.5 rounded-lg text-xs font-bold text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)]">Accept all</button>
+                  <button onClick={() => setAccepted(new Set())} className="px-3 py-1.5 rounded-lg text-xs font-bold text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)]">Reject all</button>
+                  <div className="flex-1"/>
+                  <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-bold text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)]">Discard</button>
+                  <button
+                      onClick={() => onApply(mergeHunks(diff, hunks, accepted))}
+                      disabled={accepted.size === 0}
+                      className="px-4 py-1.5 rounded-lg text-xs font-bold bg-[var(--ui-primary)] text-white hover:opacity-90 disabled:opacity-30 flex items-center gap-1"
+                  >
+                      <Check size={14}/> Apply {accepted.size} of {hunks.length}
+                  </button>
+              </div>
+          </div>
+      </div>
+  );
+};
+
+export default DiffReviewModal;
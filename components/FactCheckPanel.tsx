@@ -0,0 +1,42 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { AIProvider, FactCheckSettings, ProviderModelMap } from '../types';
+import { getProvider, listProviders, getModelOptions } from '../services/providerRegistry';
+
+interface FactCheckPanelProps {
+  settings: FactCheckSettings;
+  providerModels: ProviderModelMap;
+  onChange: (settings: FactCheckSettings) => void;
+}
+
+const FactCheckPanel: React.FC<FactCheckPanelProps> = ({ settings, providerModels, onChange }) => {
+  const models = getModelOptions(settings.provider, providerModels);
+
+  const changeProvider = (provider: AIProvider) => {
+      onChange({ ...settings, provider, model: getModelOptions(provider, providerModels)[0]?.value || getProvider(provider).defaultModel });
+  };
+
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-3">
+          <div className="flex items-center justify-between">
+              <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><ShieldCheck size={16}/> Fact-Check Pass</h3>
+              <label className="flex items-center gap-2 text-xs font-bold text-[var(--ui-text-muted)] cursor-pointer">
+                  <input type="checkbox" checked={settings.enabled} onChange={() => onChange({ ...settings, enabled: !settings.enabled })} />
+                  Check new notes
+              </label>
+          </div>
+          <p className="text-[10px] text-[var(--ui-text-muted)]">A second model reviews each generated note against the uploaded sources and flags questionable claims inline. Using a different provider than the writer catches more mistakes. Gemini reads PDFs and images; other providers see text files and the extracted text of PDF, DOCX and PPTX uploads.</p>
+          <div className="flex items-center gap-2 text-xs">
+              <select value={settings.provider} onChange={e => changeProvider(e.target.value as AIProvider)} className="p-1.5 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs">
+                  {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <select value={settings.model} onChange={e => onChange({ ...settings, model: e.target.value })} className="flex-1 min-w-0 p-1.5 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs">
+                  {!models.some(m => m.value === settings.model) && <option value={settings.model}>{settings.model}</option>}
+                  {models.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+          </div>
+      </div>
+  );
+};
+
+export default FactCheckPanel;
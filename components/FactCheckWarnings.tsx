@@ -0,0 +1,56 @@
+import React from 'react';
+import { ShieldAlert, Check, X, Wand2 } from 'lucide-react';
+import { FactCheckFinding, FactCheckSeverity } from '../types';
+
+interface FactCheckWarningsProps {
+  findings: FactCheckFinding[];
+  canApply: (finding: FactCheckFinding) => boolean; // False once the quoted text was edited away
+  onAccept: (finding: FactCheckFinding) => void;
+  onDismiss: (finding: FactCheckFinding) => void;
+  onSendToMagicEdit: (finding: FactCheckFinding) => void;
+}
+
+const SEVERITY_STYLES: Record<FactCheckSeverity, string> = {
+  high: 'border-red-500 bg-red-500/10 text-red-600',
+  medium: 'border-amber-500 bg-amber-500/10 text-amber-600',
+  low: 'border-sky-500 bg-sky-500/10 text-sky-600'
+};
+
+const FactCheckWarnings: React.FC<FactCheckWarningsProps> = ({ findings, canApply, onAccept, onDismiss, onSendToMagicEdit }) => {
+  if (findings.length === 0) return null;
+
+  return (
+      <div className="my-3 space-y-2 font-sans">
+          {findings.map(finding => (
+              <div key={finding.id} className={`border-l-4 rounded-r-lg px-3 py-2 text-xs ${SEVERITY_STYLES[finding.severity]}`}>
+                  <div className="flex items-center gap-2 font-bold">
+                      <ShieldAlert size={12} className="shrink-0"/>
+                      <span className="uppercase tracking-wider text-[10px]">{finding.severity}</span>
+                      <span className="truncate">{finding.claim}</span>
+                  </div>
+                  {finding.issue && <div className="mt-1 text-[var(--ui-text-main)]">{finding.issue}</div>}
+                  <div className="mt-1 text-[var(--ui-text-muted)] italic">"{finding.quote}"</div>
+                  {finding.suggestedFix && <div className="mt-1 text-[var(--ui-text-main)]"><span className="font-bold">Fix:</span> {finding.suggestedFix}</div>}
+                  <div className="mt-2 flex items-center gap-2">
+                      <button
+                          onClick={() => onAccept(finding)}
+                          disabled={!finding.suggestedFix || !canApply(finding)}
+                          title={canApply(finding) ? 'Replace the quoted text with the fix' : 'Quoted text no longer in the note'}
+                          className="flex items-center gap-1 px-2 py-0.5 rounded border border-current font-bold hover:opacity-80 disabled:opacity-30"
+                      >
+                          <Check size={12}/> Accept
+                      </button>
+                      <button onClick={() => onDismiss(finding)} className="flex items-center gap-1 px-2 py-0.5 rounded border border-current font-bold hover:opacity-80">
+                          <X size={12}/> Dismiss
+                      </button>
+                      <button onClick={() => onSendToMagicEdit(finding)} className="flex items-center gap-1 px-2 py-0.5 rounded border border-current font-bold hover:opacity-80">
+                          <Wand2 size={12}/> Magic Edit
+                      </button>
+                  </div>
+              </div>
+          ))}
+      </div>
+  );
+};
+
+export default FactCheckWarnings;
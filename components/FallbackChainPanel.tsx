@@ -0,0 +1,68 @@
+import React from 'react';
+import { GitBranch, Plus, X, ChevronUp, ChevronDown } from 'lucide-react';
+import { AIProvider, FallbackTarget, ProviderModelMap } from '../types';
+import { getProvider, listProviders, getModelOptions } from '../services/providerRegistry';
+
+interface FallbackChainPanelProps {
+  primary: FallbackTarget; // Current provider/model, always tried first
+  chain: FallbackTarget[];
+  providerModels: ProviderModelMap;
+  onChange: (chain: FallbackTarget[]) => void;
+}
+
+const FallbackChainPanel: React.FC<FallbackChainPanelProps> = ({ primary, chain, providerModels, onChange }) => {
+
+  const update = (index: number, patch: Partial<FallbackTarget>) => {
+      onChange(chain.map((t, i) => i === index ? { ...t, ...patch } : t));
+  };
+
+  const changeProvider = (index: number, provider: AIProvider) => {
+      update(index, { provider, model: getModelOptions(provider, providerModels)[0]?.value || getProvider(provider).defaultModel });
+  };
+
+  const move = (index: number, delta: number) => {
+      const target = index + delta;
+      if (target < 0 || target >= chain.length) return;
+      const next = [...chain];
+      [next[index], next[target]] = [next[target], next[index]];
+      onChange(next);
+  };
+
+  const addStep = () => {
+      const provider = listProviders().find(p => p.id !== primary.provider)?.id || primary.provider;
+      onChange([...chain, { provider, model: getModelOptions(provider, providerModels)[0]?.value || getProvider(provider).defaultModel }]);
+  };
+
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-3">
+          <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><GitBranch size={16}/> Fallback Chain</h3>
+          <p className="text-[10px] text-[var(--ui-text-muted)]">Syllabus queue tasks move down this list when a call fails with quota, overload or server errors. Saved notes record the model that actually wrote them.</p>
+
+          <div className="flex items-center gap-2 text-xs p-2 rounded-lg bg-[var(--ui-bg)] border border-[var(--ui-border)]">
+              <span className="font-mono font-bold text-[var(--ui-text-muted)] w-5">1</span>
+              <span className="flex-1 text-[var(--ui-text-main)] font-bold">{getProvider(primary.provider).label} · {primary.model}</span>
+              <span className="text-[10px] font-bold uppercase text-[var(--ui-text-muted)]">Primary</span>
+          </div>
+
+          {chain.map((step, i) => (
+              <div key={i} className="flex items-center gap-2 text-xs">
+                  <span className="font-mono font-bold text-[var(--ui-text-muted)] w-5 pl-2">{i + 2}</span>
+                  <select value={step.provider} onChange={e => changeProvider(i, e.target.value as AIProvider)} className="p-1.5 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs">
+                      {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+                  <select value={step.model} onChange={e => update(i, { model: e.target.value })} className="flex-1 min-w-0 p-1.5 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs">
+                      {!getModelOptions(step.provider, providerModels).some(m => m.value === step.model) && <option value={step.model}>{step.model}</option>}
+                      {getModelOptions(step.provider, providerModels).map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                  </select>
+                  <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 rounded text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)] disabled:opacity-30"><ChevronUp size={14}/></button>
+                  <button onClick={() => move(i, 1)} disabled={i === chain.length - 1} className="p-1 rounded text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)] disabled:opacity-30"><ChevronDown size={14}/></button>
+                  <button onClick={() => onChange(chain.filter((_, j) => j !== i))} className="p-1 rounded text-[var(--ui-text-muted)] hover:text-red-500"><X size={14}/></button>
+              </div>
+          ))}
+
+          <button onClick={addStep} className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-[var(--ui-border)] text-xs font-bold text-[var(--ui-text-main)] hover:bg-[var(--ui-bg)]"><Plus size={12}/> Add Fallback</button>
+      </div>
+  );
+};
+
+export default FallbackChainPanel;
@@ -2,13 +2,16 @@
 import React, { useRef, useState } from 'react';
 import { Upload, X, FileText, File as FileIcon, Image as ImageIcon, Presentation } from 'lucide-react';
 import { UploadedFile } from '../types';
+import { getAttachmentSupport, findUnreadableAttachments, describeCapabilities } from '../utils/modelCatalog';
+import { readUploadedFile } from '../utils/documentExtraction';
 
 interface FileUploaderProps {
   files: UploadedFile[];
   onFilesChange: (files: UploadedFile[]) => void;
+  model?: string; // When set, files the model can't read are rejected and existing ones are flagged
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ files, onFilesChange }) => {
+const FileUploader: React.FC<FileUploaderProps> = ({ files, onFilesChange, model }) => {
   const inputRef = useRef<HTMLInputElement>(null);
   
   const [isDragging, setIsDragging] = useState(false);
@@ -47,24 +50,10 @@ const FileUploader: React.FC<FileUploaderProps> = ({ files, onFilesChange }) =>
         setUploadProgress(30);
 
         try {
-          const base64Data = await readFileAsBase64(file);
-          setUploadProgress(80);
-          
-          let mimeType = file.type;
-          const ext = file.name.split('.').pop()?.toLowerCase();
-
-          // Fix MIME types for common issues
-          if (ext === 'md' || ext === 'txt') mimeType = 'text/plain';
-          if (!mimeType && ext === 'ppt') mimeType = 'application/vnd.ms-powerpoint';
-          if (!mimeType && ext === 'pptx') mimeType = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
-          if (!mimeType) mimeType = 'application/octet-stream';
-
-          newFiles.push({
-            name: file.name,
-            mimeType: mimeType,
-            data: base64Data,
-            isTokenized: makeToken
-          });
+          // Text copy for text-only models; done once here so switching models is free
+          const uploaded = await readUploadedFile(file, { isTokenized: makeToken, onExtracting: () => setStatusMessage(`Extracting text...`) });
+          setUploadProgress(95);
+          newFiles.push(uploaded);
 
         } catch (err) {
           console.error(`Failed ${file.name}`, err);
@@ -75,7 +64,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({ files, onFilesChange }) =>
       setStatusMessage("Done");
       await new Promise(r => setTimeout(r, 200)); 
 
-      if (newFiles.length > 0) onFilesChange([...files, ...newFiles]);
+      const rejected = model ? findUnreadableAttachments(model, newFiles) : [];
+      if (rejected.length > 0) {
+          alert(`${model} can't read: ${rejected.map(f => f.name).join(', ')}.\n\nModel supports: ${describeCapabilities(model!)}. Scanned PDFs have no text to extract.`);
+      }
+      const accepted = newFiles.filter(f => !rejected.includes(f));
+      if (accepted.length > 0) onFilesChange([...files, ...accepted]);
     } finally {
       setIsProcessing(false);
       setUploadProgress(0);
@@ -83,20 +77,6 @@ const FileUploader: React.FC<FileUploaderProps> = ({ files, onFilesChange }) =>
     }
   };
 
-  const readFileAsBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Optimization: Handle large strings better by not splitting if not needed immediately
-        const base64 = result.includes(',') ? result.split(',')[1] : result;
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   const removeFile = (index: number) => {
     onFilesChange(files.filter((_, i) => i !== index));
   };
@@ -139,29 +119,34 @@ const FileUploader: React.FC<FileUploaderProps> = ({ files, onFilesChange }) =>
                 <Upload size={20} />
                 <span className="text-xs font-medium">Click or Drop Files</span>
               </div>
-              <p className="text-[9px] text-[var(--ui-text-muted)] mt-1 opacity-70">PDF, PPTX, Images (Large Supported)</p>
+              <p className="text-[9px] text-[var(--ui-text-muted)] mt-1 opacity-70">PDF, DOCX, PPTX, Images (Large Supported)</p>
            </>
         )}
-        <input type="file" ref={inputRef} onChange={handleFileChange} className="hidden" multiple accept=".pdf,.md,.txt,.jpg,.jpeg,.png,.webp,.ppt,.pptx" disabled={isProcessing}/>
+        <input type="file" ref={inputRef} onChange={handleFileChange} className="hidden" multiple accept=".pdf,.docx,.md,.txt,.jpg,.jpeg,.png,.webp,.ppt,.pptx" disabled={isProcessing}/>
       </div>
 
       {/* FILE LIST (Compact) */}
       {files.length > 0 && (
         <div className="grid grid-cols-1 gap-1">
-          {files.map((file, idx) => (
-            <div key={idx} className="flex items-center justify-between bg-[var(--ui-surface)] border border-[var(--ui-border)] p-2 rounded-lg group hover:border-[var(--ui-text-muted)] transition-all">
+          {files.map((file, idx) => {
+            const support = model ? getAttachmentSupport(model, file) : 'native';
+            return (
+            <div key={idx} className={`flex items-center justify-between bg-[var(--ui-surface)] border p-2 rounded-lg group hover:border-[var(--ui-text-muted)] transition-all ${support === 'unsupported' ? 'border-red-400' : 'border-[var(--ui-border)]'}`}>
               <div className="flex items-center gap-2 overflow-hidden">
                 {getFileIcon(file.mimeType, file.name)}
                 <span className="text-[var(--ui-text-main)] text-xs truncate max-w-[180px]">{file.name}</span>
                 <span className="text-[9px] text-[var(--ui-text-muted)] uppercase bg-[var(--ui-bg)] px-1 rounded border border-[var(--ui-border)]">
                     {file.name.split('.').pop()}
                 </span>
+                {support === 'text' && <span className="text-[9px] text-[var(--ui-text-muted)]" title="This model reads text only; the file's text (with page/slide numbers) is added to the prompt">as text</span>}
+                {support === 'unsupported' && <span className="text-[9px] font-bold text-red-500" title={`${model} can't read this file. Remove it or switch models.`}>unreadable</span>}
               </div>
               <button onClick={(e) => { e.stopPropagation(); removeFile(idx); }} disabled={isProcessing} className="text-[var(--ui-text-muted)] hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity">
                 <X size={12} />
               </button>
             </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
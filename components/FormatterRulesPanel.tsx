@@ -0,0 +1,36 @@
+import React from 'react';
+import { Eraser } from 'lucide-react';
+import { FormatterRuleSettings } from '../types';
+import { listFormatterRules, isFormatterRuleEnabled } from '../utils/formatter';
+
+interface FormatterRulesPanelProps {
+  settings: FormatterRuleSettings;
+  onChange: (settings: FormatterRuleSettings) => void;
+}
+
+const FormatterRulesPanel: React.FC<FormatterRulesPanelProps> = ({ settings, onChange }) => {
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-3">
+          <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><Eraser size={16}/> Formatter Rules</h3>
+          <p className="text-[10px] text-[var(--ui-text-muted)]">Clean-up applied to every generated or edited note. Switch off a rule if it mangles your content; "Clean up note" in the editor shows what each rule would change.</p>
+          <div className="space-y-2">
+              {listFormatterRules().map(rule => (
+                  <label key={rule.id} className="flex items-start gap-2 text-xs cursor-pointer">
+                      <input
+                          type="checkbox"
+                          className="mt-0.5"
+                          checked={isFormatterRuleEnabled(settings, rule.id)}
+                          onChange={e => onChange({ ...settings, [rule.id]: e.target.checked })}
+                      />
+                      <span>
+                          <span className="font-bold text-[var(--ui-text-main)]">{rule.label}</span>
+                          <span className="block text-[10px] text-[var(--ui-text-muted)]">{rule.description}</span>
+                      </span>
+                  </label>
+              ))}
+          </div>
+      </div>
+  );
+};
+
+export default FormatterRulesPanel;
@@ -0,0 +1,30 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+  className?: string;
+  markClassName?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Marks every occurrence of the query terms (and their inflections, e.g. "infarct" -> "infarction")
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms, className, markClassName = 'bg-amber-400/30 text-inherit rounded px-0.5' }) => {
+  if (terms.length === 0) return <span className={className}>{text}</span>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index || 0;
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(<mark key={start} className={markClassName}>{match[0]}</mark>);
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+
+  return <span className={className}>{parts}</span>;
+};
+
+export default HighlightedText;
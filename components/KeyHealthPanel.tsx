@@ -0,0 +1,64 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, RotateCcw } from 'lucide-react';
+import { AIProvider, GenerationConfig, KeyHealth } from '../types';
+import { KeyPoolService } from '../services/keyPoolService';
+
+interface KeyHealthPanelProps {
+  config: GenerationConfig;
+}
+
+const STATE_STYLES: Record<KeyHealth['state'], string> = {
+  ok: 'bg-green-500/10 text-green-600 border-green-500/30',
+  cooling: 'bg-amber-500/10 text-amber-600 border-amber-500/30',
+  dead: 'bg-red-500/10 text-red-600 border-red-500/30'
+};
+
+const KeyHealthPanel: React.FC<KeyHealthPanelProps> = ({ config }) => {
+  const [keyPool] = useState(KeyPoolService.getInstance());
+  const [, setTick] = useState(0);
+
+  // Re-render on pool changes, and every second so cooldown countdowns stay live
+  useEffect(() => {
+      const unsubscribe = keyPool.subscribe(() => setTick(t => t + 1));
+      const timer = setInterval(() => setTick(t => t + 1), 1000);
+      return () => { unsubscribe(); clearInterval(timer); };
+  }, [keyPool]);
+
+  const pools = [
+      { id: AIProvider.GEMINI, label: 'Gemini', keys: config.apiKey },
+      { id: AIProvider.GROQ, label: 'Groq', keys: config.groqApiKey || '' }
+  ].filter(p => KeyPoolService.parseKeys(p.keys).length > 0);
+
+  if (pools.length === 0) return null;
+
+  const describe = (h: KeyHealth) => {
+      if (h.state === 'cooling' && h.cooldownUntil) return `Cooling down · ${Math.max(0, Math.ceil((h.cooldownUntil - Date.now()) / 1000))}s`;
+      if (h.state === 'dead') return 'Invalid';
+      return 'OK';
+  };
+
+  return (
+      <div className="pt-3 border-t border-[var(--ui-border)] space-y-3">
+          <h4 className="text-xs font-bold text-[var(--ui-text-muted)] flex items-center gap-2"><Activity size={12}/> Key Health</h4>
+          {pools.map(pool => (
+              <div key={pool.id} className="space-y-1">
+                  <div className="text-[10px] font-bold uppercase tracking-wider text-[var(--ui-text-muted)]">{pool.label}</div>
+                  {keyPool.getStatus(pool.id, pool.keys).map((h, idx) => (
+                      <div key={`${h.fingerprint}-${idx}`} className="flex items-center gap-2 p-2 rounded-lg bg-[var(--ui-bg)] border border-[var(--ui-border)] text-xs">
+                          <span className="font-mono text-[var(--ui-text-main)] w-24 shrink-0">{h.fingerprint}</span>
+                          <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold shrink-0 ${STATE_STYLES[h.state]}`}>{describe(h)}</span>
+                          <span className="flex-1 truncate text-[10px] text-[var(--ui-text-muted)]" title={h.lastError}>{h.lastError || ''}</span>
+                          {h.state !== 'ok' && (
+                              <button onClick={() => keyPool.resetKey(pool.id, h.fingerprint)} className="p-1 text-[var(--ui-text-muted)] hover:text-[var(--ui-primary)] shrink-0" title="Reset key status">
+                                  <RotateCcw size={12}/>
+                              </button>
+                          )}
+                      </div>
+                  ))}
+              </div>
+          ))}
+      </div>
+  );
+};
+
+export default KeyHealthPanel;
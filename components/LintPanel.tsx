@@ -0,0 +1,49 @@
+import React from 'react';
+import { ListChecks, AlertCircle, AlertTriangle, Wrench, X } from 'lucide-react';
+import { LintIssue } from '../types';
+
+interface LintPanelProps {
+  issues: LintIssue[];
+  onJump: (line: number) => void;
+  onFix: (issue: LintIssue) => void;
+  onClose: () => void;
+}
+
+const LintPanel: React.FC<LintPanelProps> = ({ issues, onJump, onFix, onClose }) => {
+  return (
+      <div className="border-b border-[var(--ui-border)] bg-[var(--ui-surface)] px-4 py-3 animate-fade-in shrink-0">
+          <div className="max-w-3xl mx-auto">
+              <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-bold text-[var(--ui-text-main)] flex items-center gap-2">
+                      <ListChecks size={14}/> Lint {issues.length > 0 ? `(${issues.length} issue${issues.length === 1 ? '' : 's'})` : ''}
+                  </span>
+                  <button onClick={onClose}><X size={14} className="text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]"/></button>
+              </div>
+              {issues.length === 0 ? (
+                  <div className="text-xs text-[var(--ui-text-muted)]">No structural problems found.</div>
+              ) : (
+                  <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+                      {issues.map(issue => (
+                          <div key={issue.id} className="flex items-center gap-2 text-xs rounded-lg px-2 py-1 hover:bg-[var(--ui-bg)] group">
+                              {issue.severity === 'error'
+                                  ? <AlertCircle size={12} className="text-red-500 shrink-0"/>
+                                  : <AlertTriangle size={12} className="text-amber-500 shrink-0"/>}
+                              <button onClick={() => onJump(issue.line)} className="flex-1 min-w-0 flex items-center gap-2 text-left" title="Show in editor">
+                                  <span className="font-mono text-[10px] text-[var(--ui-primary)] shrink-0 w-10">L{issue.line}</span>
+                                  <span className="truncate text-[var(--ui-text-main)]">{issue.message}</span>
+                              </button>
+                              {issue.fix && (
+                                  <button onClick={() => onFix(issue)} className="flex items-center gap-1 px-2 py-0.5 rounded border border-[var(--ui-border)] text-[10px] font-bold text-[var(--ui-text-muted)] hover:text-[var(--ui-primary)] hover:border-[var(--ui-primary)] shrink-0">
+                                      <Wrench size={10}/> {issue.fix.label}
+                                  </button>
+                              )}
+                          </div>
+                      ))}
+                  </div>
+              )}
+          </div>
+      </div>
+  );
+};
+
+export default LintPanel;
@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { FlaskConical, Play } from 'lucide-react';
+import { MockScriptStep } from '../types';
+import { MockProviderService } from '../services/mockService';
+
+interface MockProviderPanelProps {
+  isActive: boolean; // Mock is the currently selected provider
+  onActivate: () => void;
+  onDeactivate: () => void;
+}
+
+const SCRIPT_EXAMPLE = '[{"fail":429},{"delayMs":3000},{"brokenMermaid":true},{"text":"# Exact reply"}]';
+
+const MockProviderPanel: React.FC<MockProviderPanelProps> = ({ isActive, onActivate, onDeactivate }) => {
+  const [mock] = useState(MockProviderService.getInstance());
+  const [settings, setSettings] = useState(mock.getSettings());
+  const [scriptText, setScriptText] = useState(settings.script.length > 0 ? JSON.stringify(settings.script) : '');
+  const [scriptError, setScriptError] = useState<string | null>(null);
+
+  // Script steps are consumed as calls happen, keep the view in sync
+  useEffect(() => mock.subscribe(() => setSettings(mock.getSettings())), [mock]);
+
+  const toggleEnabled = () => {
+      const enabled = !settings.enabled;
+      mock.saveSettings({ ...settings, enabled });
+      if (!enabled && isActive && !mock.isEnabled()) onDeactivate();
+  };
+
+  const updateLatency = (value: string) => {
+      const parsed = parseInt(value, 10);
+      mock.saveSettings({ ...settings, latencyMs: isNaN(parsed) || parsed < 0 ? 0 : parsed });
+  };
+
+  const saveScript = () => {
+      try {
+          const parsed = scriptText.trim() ? JSON.parse(scriptText) : [];
+          if (!Array.isArray(parsed)) throw new Error("Script must be a JSON array of steps.");
+          mock.saveSettings({ ...settings, script: parsed as MockScriptStep[] });
+          setScriptError(null);
+      } catch (e: any) {
+          setScriptError(e.message);
+      }
+  };
+
+  const enabled = mock.isEnabled();
+
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-4">
+          <div className="flex items-center justify-between">
+              <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><FlaskConical size={16}/> Mock Provider (Offline)</h3>
+              <label className="flex items-center gap-2 text-xs font-bold text-[var(--ui-text-muted)] cursor-pointer">
+                  <input type="checkbox" checked={enabled} disabled={mock.isForcedByEnv()} onChange={toggleEnabled} />
+                  {mock.isForcedByEnv() ? 'Enabled by VITE_MOCK_AI' : 'Enabled'}
+              </label>
+          </div>
+          <p className="text-[10px] text-[var(--ui-text-muted)]">Deterministic fixture responses, no API key needed. The selected mock model picks the scenario: fixtures, broken Mermaid, flaky (odd calls fail), always 429 or always 500.</p>
+
+          {enabled && (
+              <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+                      <div>
+                          <label className="text-xs font-bold text-[var(--ui-text-muted)]">Injected Latency (ms)</label>
+                          <input type="number" min={0} step={100} value={settings.latencyMs} onChange={e => updateLatency(e.target.value)} className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs" />
+                      </div>
+                      <button onClick={onActivate} disabled={isActive} className="flex items-center justify-center gap-2 p-2 rounded-lg bg-[var(--ui-primary)] text-white text-xs font-bold disabled:opacity-50">
+                          <Play size={12}/> {isActive ? 'Mock Active' : 'Use Mock Provider'}
+                      </button>
+                  </div>
+
+                  <div>
+                      <label className="text-xs font-bold text-[var(--ui-text-muted)]">Script ({settings.script.length} step{settings.script.length === 1 ? '' : 's'} queued)</label>
+                      <textarea value={scriptText} onChange={e => setScriptText(e.target.value)} placeholder={SCRIPT_EXAMPLE} rows={3} className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs font-mono" />
+                      <div className="flex items-center justify-between mt-1">
+                          <span className="text-[10px] text-red-500">{scriptError}</span>
+                          <button onClick={saveScript} className="px-3 py-1 rounded-lg border border-[var(--ui-border)] text-xs font-bold text-[var(--ui-text-main)] hover:bg-[var(--ui-bg)]">Load Script</button>
+                      </div>
+                      <p className="text-[10px] text-[var(--ui-text-muted)]">Each call consumes the next step before the scenario applies. Loading a script also resets the flaky call counter.</p>
+                  </div>
+              </>
+          )}
+      </div>
+  );
+};
+
+export default MockProviderPanel;
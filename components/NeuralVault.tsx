@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { HistoryItem, NoteMode } from '../types';
+import { HistoryItem, NoteMode, SemanticSearchHit } from '../types';
 import { StorageService } from '../services/storageService';
 import { NotificationService } from '../services/notificationService';
+import { SemanticSearchService } from '../services/semanticSearchService';
+import HighlightedText from './HighlightedText';
 import { 
   Search, Cloud, Filter, 
   Trash2, Download, CloudUpload, BrainCircuit,
@@ -27,6 +29,10 @@ const NeuralVault: React.FC<NeuralVaultProps> = ({ onSelectNote, onImportCloud }
   const [activeTag, setActiveTag] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
+  // Search by meaning (semantic index) instead of substring matching
+  const [searchByMeaning, setSearchByMeaning] = useState(false);
+  const [meaningHits, setMeaningHits] = useState<SemanticSearchHit[] | null>(null);
+
   const loadVault = async () => {
     setLoading(true);
     try {
@@ -43,6 +49,15 @@ const NeuralVault: React.FC<NeuralVaultProps> = ({ onSelectNote, onImportCloud }
     loadVault();
   }, []);
 
+  useEffect(() => {
+    if (!searchByMeaning || !search.trim()) { setMeaningHits(null); return; }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      SemanticSearchService.getInstance().search(search, 100).then(hits => { if (!cancelled) setMeaningHits(hits); });
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [search, searchByMeaning]);
+
   const handleDelete = async (note: HistoryItem, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!confirm(`Permanently delete "${note.topic}"? This cannot be undone.`)) return;
@@ -86,12 +101,16 @@ const NeuralVault: React.FC<NeuralVaultProps> = ({ onSelectNote, onImportCloud }
   const allTags = Array.from(new Set(notes.flatMap(n => n.tags || []))).sort();
 
   // Filter Logic
+  const hitFor = (id: string) => meaningHits?.find(h => h.noteId === id);
   const filteredNotes = notes.filter(n => {
-      const matchesSearch = n.topic.toLowerCase().includes(search.toLowerCase()) || (n.content && n.content.toLowerCase().includes(search.toLowerCase()));
+      const matchesSearch = meaningHits
+          ? !!hitFor(n.id)
+          : n.topic.toLowerCase().includes(search.toLowerCase()) || (n.content && n.content.toLowerCase().includes(search.toLowerCase()));
       const matchesFilter = activeFilter === 'all' ? true : n._status === activeFilter;
       const matchesTag = activeTag ? n.tags?.includes(activeTag) : true;
       return matchesSearch && matchesFilter && matchesTag;
   });
+  if (meaningHits) filteredNotes.sort((a, b) => hitFor(b.id)!.score - hitFor(a.id)!.score);
 
   const getModeIcon = (mode: NoteMode) => {
     switch (mode) {
@@ -112,10 +131,17 @@ const NeuralVault: React.FC<NeuralVaultProps> = ({ onSelectNote, onImportCloud }
                         type="text" 
                         value={search} 
                         onChange={(e) => setSearch(e.target.value)} 
-                        placeholder="Search Neural Vault..." 
+                        placeholder={searchByMeaning ? "Search by meaning..." : "Search Neural Vault..."} 
                         className="w-full md:w-64 bg-black/30 border border-gray-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white focus:border-neuro-primary outline-none"
                     />
                 </div>
+                <button 
+                    onClick={() => setSearchByMeaning(!searchByMeaning)} 
+                    className={`flex items-center gap-1 px-2 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-wider whitespace-nowrap ${searchByMeaning ? 'bg-neuro-primary/20 border-neuro-primary text-white' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                    title="Rank local notes by meaning instead of exact text"
+                >
+                    <BrainCircuit size={12}/> Meaning
+                </button>
                 <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
                     <button onClick={() => setViewMode('grid')} className={`p-1.5 rounded ${viewMode === 'grid' ? 'bg-gray-700 text-white' : 'text-gray-500'}`}><LayoutGrid size={14}/></button>
                     <button onClick={() => setViewMode('list')} className={`p-1.5 rounded ${viewMode === 'list' ? 'bg-gray-700 text-white' : 'text-gray-500'}`}><ListIcon size={14}/></button>
@@ -211,9 +237,16 @@ const NeuralVault: React.FC<NeuralVaultProps> = ({ onSelectNote, onImportCloud }
                             </div>
                             
                             <h3 className="font-bold text-white mb-1 truncate">{note.topic}</h3>
-                            <p className="text-xs text-gray-500 line-clamp-2 mb-3 h-8">
-                                {note.snippet || (note.content ? note.content.substring(0, 150).replace(/[#*`]/g, '') : "Content available in cloud...")}
-                            </p>
+                            {hitFor(note.id) ? (
+                                <p className="text-xs text-gray-400 line-clamp-3 mb-3" title={hitFor(note.id)!.heading}>
+                                    <span className="text-neuro-primary font-bold">{hitFor(note.id)!.heading} · </span>
+                                    <HighlightedText text={hitFor(note.id)!.snippet} terms={hitFor(note.id)!.terms} />
+                                </p>
+                            ) : (
+                                <p className="text-xs text-gray-500 line-clamp-2 mb-3 h-8">
+                                    {note.snippet || (note.content ? note.content.substring(0, 150).replace(/[#*`]/g, '') : "Content available in cloud...")}
+                                </p>
+                            )}
                             
                             <div className="flex justify-between items-center text-[10px] text-gray-600">
                                 <span>{new Date(note.timestamp).toLocaleDateString()}</span>
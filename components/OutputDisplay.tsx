@@ -4,29 +4,31 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { Download, Copy, Eye, Check, List, Book, Focus, Save, Edit3, CloudUpload, Clipboard, ClipboardCheck, EyeOff, MousePointerClick, BookOpen, Microscope, Activity, AlertTriangle, Info, Wand2, Search, X, HelpCircle, MessageSquareQuote, LayoutTemplate, Undo2, Redo2, Loader2, Workflow, Printer, FileDown, Maximize2, Minimize2, UploadCloud, ArrowLeft, StickyNote, Bot, Plus, ChevronUp, ChevronDown, Pin, PinOff, GripHorizontal } from 'lucide-react';
+import { Download, Copy, Eye, Check, List, Book, Focus, Save, Edit3, CloudUpload, Clipboard, ClipboardCheck, EyeOff, MousePointerClick, BookOpen, Microscope, Activity, AlertTriangle, Info, Wand2, Search, X, HelpCircle, MessageSquareQuote, LayoutTemplate, ShieldCheck, Undo2, Redo2, Loader2, Workflow, Printer, FileDown, Maximize2, Minimize2, UploadCloud, ArrowLeft, StickyNote, Bot, Plus, ChevronUp, ChevronDown, Pin, PinOff, GripHorizontal, Library, Eraser, ListChecks, History, Columns2 } from 'lucide-react';
 import { StorageService } from '../services/storageService';
+import { RetrievalService } from '../services/retrievalService';
+import { estimateTokens, chunkLabel } from '../utils/retrieval';
+import { PromptRegistryService } from '../services/promptRegistryService';
+import { getContextBudget, prepareAttachments, findUnreadableAttachments } from '../utils/modelCatalog';
+import { readUploadedFile } from '../utils/documentExtraction';
+import { validateAndRepairMermaid } from '../services/mermaidRepairService';
 import { processGeneratedNote } from '../utils/formatter';
-import { refineNoteContent, generateAssistantResponse, deepenNoteContent } from '../services/geminiService';
-import { refineNoteContentGroq, generateAssistantResponseGroq, deepenNoteContentGroq } from '../services/groqService';
+import { isAbortError, createAbortError } from '../utils/abort';
+import { getProvider, listProviders, getModelOptions } from '../services/providerRegistry';
 import Mermaid from './Mermaid';
 import AssistantPanel from './AssistantPanel';
+import FactCheckWarnings from './FactCheckWarnings';
+import CleanupReviewModal from './CleanupReviewModal';
+import DiffReviewModal from './DiffReviewModal';
+import VersionHistoryModal from './VersionHistoryModal';
+import LintPanel from './LintPanel';
+import SelectionActionsBar from './SelectionActionsBar';
+import { lintMarkdown } from '../utils/markdownLint';
+import { rehypeSourceLines, measureLineOffsets, buildScrollAnchors, mapScroll, findSourceLine, ScrollAnchor } from '../utils/scrollSync';
+import { SELECTION_ACTIONS, locatePreviewSelection, resolveSelectionRange, spliceSelection, cleanSelectionResponse, getSelectionInstruction } from '../utils/selectionEdit';
+import { normalizeHeading, applyFactCheckFix } from '../utils/factCheck';
 import { renderCalloutBlockquote, SlashCommandEditor } from './SmartEditor';
-import { AppTheme, AIProvider, GenerationConfig, UploadedFile, GEMINI_MODELS_LIST, AppModel, ChatMessage, StickyNote as StickyNoteType } from '../types';
-
-// Helper for file conversion
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = error => reject(error);
-  });
-};
+import { AppTheme, AIProvider, GenerationConfig, UploadedFile, ChatMessage, StickyNote as StickyNoteType, ProviderModelMap, RetrievedChunk, FactCheckFinding, LintIssue, PromptTemplateId, SelectionRange, SelectionActionId, NoteVersion, NoteVersionReason } from '../types';
 
 // Preprocess Markdown to handle custom Callout syntax (> [!type] ... <)
 const preprocessMarkdown = (text: string) => {
@@ -59,7 +61,37 @@ interface OutputDisplayProps {
   onManualSave?: (content: string) => void;
   onExit: () => void;
   theme?: AppTheme;
-  groqModels?: {value: string, label: string, badge: string}[];
+  providerModels?: ProviderModelMap;
+  isStreaming?: boolean;
+  streamStatus?: string;
+  onCancelStream?: () => void;
+  factCheckFindings?: FactCheckFinding[];
+  onFactCheckChange?: (findings: FactCheckFinding[]) => void;
+  onRunFactCheck?: (content: string) => Promise<FactCheckFinding[]>;
+  isFactChecking?: boolean;
+  factCheckNotice?: string | null; // Informational, e.g. the automatic review after generation failed
+  onDismissFactCheckNotice?: () => void;
+}
+
+const CODE_EDITOR_ID = 'note-code-editor';
+const VERSION_INTERVAL_MS = 5 * 60 * 1000; // Autosave snapshot cadence while a saved note is open
+const INLINE_CONTEXT_CHARS = 4000; // Text before the cursor shown to slash AI commands (a quarter of that after it)
+
+// Whether a document is readable is only known once its text was extracted; a failed extraction must stop the run, not drop the file
+const readAttachments = async (files: File[], model: string): Promise<UploadedFile[]> => {
+  const uploaded = await Promise.all(files.map(f => readUploadedFile(f)));
+  const unreadable = findUnreadableAttachments(model, uploaded);
+  if (unreadable.length > 0) {
+    throw new Error(`${model} can't read: ${unreadable.map(f => f.name).join(', ')}. No text could be extracted (scanned PDFs have none); remove them or pick a model that reads PDFs.`);
+  }
+  return uploaded;
+};
+
+// An AI rewrite waiting for hunk-by-hunk review; `before` is the note it was computed against
+interface AiEditProposal {
+  title: string;
+  before: string;
+  after: string;
 }
 
 interface TocItem {
@@ -77,6 +109,15 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
+// Plain text of rendered markdown children, so "## **Bold** heading" still matches its TOC entry
+const nodeText = (node: React.ReactNode): string => {
+  if (node === null || node === undefined || typeof node === 'boolean') return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(nodeText).join('');
+  if (React.isValidElement(node)) return nodeText((node.props as any).children);
+  return '';
+};
+
 const SensorBlock: React.FC<{ children: React.ReactNode; active: boolean; label?: string }> = React.memo(({ children, active, label }) => {
   const [revealed, setRevealed] = useState(false);
   useEffect(() => {
@@ -103,18 +144,20 @@ const SensorBlock: React.FC<{ children: React.ReactNode; active: boolean; label?
   );
 });
 
-const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateContent, onManualSave, onExit, noteId, config, theme = AppTheme.CLINICAL_CLEAN, groqModels = [] }) => {
+const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateContent, onManualSave, onExit, noteId, config, theme = AppTheme.CLINICAL_CLEAN, providerModels = {}, isStreaming = false, streamStatus = '', onCancelStream, factCheckFindings = [], onFactCheckChange, onRunFactCheck, isFactChecking = false, factCheckNotice, onDismissFactCheckNotice }) => {
   const [history, setHistory] = useState<string[]>([content]);
   const [historyIndex, setHistoryIndex] = useState(0);
   
   const [editableContent, setEditableContent] = useState(content);
+  const editableContentRef = useRef(content); // Latest text for edits that resolve after an await
+  editableContentRef.current = editableContent;
   const debouncedContent = useDebounce(editableContent, 500); 
 
   const [isDirty, setIsDirty] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [justSaved, setJustSaved] = useState(false);
   
-  const [activeTab, setActiveTab] = useState<'preview' | 'code'>('preview');
+  const [activeTab, setActiveTab] = useState<'preview' | 'code' | 'split'>('preview');
   const [showToc, setShowToc] = useState(false);
   const [activeHeaderId, setActiveHeaderId] = useState<string>('');
   
@@ -129,6 +172,11 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
   const [magicProvider, setMagicProvider] = useState<AIProvider>(config.provider);
   const [magicModel, setMagicModel] = useState<string>(config.model);
   const [isMagicLoading, setIsMagicLoading] = useState(false);
+  const [magicUseLibrary, setMagicUseLibrary] = useState(false); // Pull relevant chunks from other notes
+  const [magicSources, setMagicSources] = useState<RetrievedChunk[]>([]);
+  const magicAbort = useRef<AbortController | null>(null);
+  const slashAbort = useRef<Set<AbortController>>(new Set());
+  const selectionAbort = useRef<AbortController | null>(null);
   const [isExportingPdf, setIsExportingPdf] = useState(false);
   
   const [magicPrompts, setMagicPrompts] = useState<string[]>([]);
@@ -163,11 +211,15 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
   };
 
   const [showDiagramsModal, setShowDiagramsModal] = useState(false);
+  const [showCleanup, setShowCleanup] = useState(false);
+  const [showLint, setShowLint] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
   const [extractedDiagrams, setExtractedDiagrams] = useState<string[]>([]);
 
   // --- ASSISTANT & GHOST STATE ---
-  const [aiProposal, setAiProposal] = useState<string | null>(null);
+  const [aiProposal, setAiProposal] = useState<AiEditProposal | null>(null);
   const [isAiProcessing, setIsAiProcessing] = useState(false);
+  const assistantAbort = useRef<AbortController | null>(null);
   const [currentNoteMetadata, setCurrentNoteMetadata] = useState<any>(null);
   const [stickies, setStickies] = useState<StickyNoteType[]>([]);
   const [rightPanelTab, setRightPanelTab] = useState<'assistant' | 'stickies'>('assistant');
@@ -180,7 +232,14 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
 
   useEffect(() => {
       isMounted.current = true;
-      return () => { isMounted.current = false; };
+      return () => {
+          isMounted.current = false;
+          // Leaving the note cancels pending AI edits so they can't land on another note
+          magicAbort.current?.abort();
+          assistantAbort.current?.abort();
+          slashAbort.current.forEach(c => c.abort());
+          selectionAbort.current?.abort();
+      };
   }, []);
 
   useEffect(() => { 
@@ -204,6 +263,39 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
       }
   }, [noteId]); // OPTIMIZATION: Only reset history when switching notes, not on every content update 
 
+  // STREAMING: follow the incoming text while it is being written, then start a fresh undo history
+  const wasStreaming = useRef(isStreaming);
+  useEffect(() => {
+      if (isStreaming) {
+          setEditableContent(content);
+      } else if (wasStreaming.current) {
+          setEditableContent(content);
+          setHistory([content]);
+          setHistoryIndex(0);
+          setIsDirty(false);
+      }
+      wasStreaming.current = isStreaming;
+  }, [content, isStreaming]);
+
+  // --- VERSION SNAPSHOTS (saved notes only; identical content is skipped by the store) ---
+  const snapshotVersion = (reason: NoteVersionReason, label?: string, text: string = editableContentRef.current) => {
+      if (!noteId) return;
+      StorageService.getInstance().saveNoteVersion(noteId, text, reason, label);
+  };
+
+  useEffect(() => {
+      if (!noteId || isStreaming) return;
+      const timer = setInterval(() => snapshotVersion('interval'), VERSION_INTERVAL_MS);
+      return () => clearInterval(timer);
+  }, [noteId, isStreaming]);
+
+  const handleRestoreVersion = async (version: NoteVersion) => {
+      if (!noteId) return;
+      await StorageService.getInstance().saveNoteVersion(noteId, editableContentRef.current, 'before-restore');
+      pushToHistory(version.content);
+      setShowVersions(false);
+  };
+
   // --- STICKY NOTES HANDLERS ---
   const saveStickiesToMetadata = async (newStickies: StickyNoteType[]) => {
       if (!noteId) return;
@@ -434,6 +526,8 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
   };
 
   const [selectionMenu, setSelectionMenu] = useState<{x: number, y: number, text: string} | null>(null);
+  const [codeSelection, setCodeSelection] = useState<SelectionRange | null>(null);
+  const [isSelectionEditing, setIsSelectionEditing] = useState(false);
   const [externalPrompt, setExternalPrompt] = useState<string | undefined>(undefined);
 
   useEffect(() => {
@@ -559,6 +653,121 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
     if (currentActive !== activeHeaderId) setActiveHeaderId(currentActive);
   }, [toc, activeHeaderId]);
 
+  /* ---- LINT ---- */
+  const lintIssues = useMemo(() => isStreaming ? [] : lintMarkdown(editableContent), [editableContent, isStreaming]);
+
+  // Puts the caret on a source line (or selects it) and scrolls it into the editor's upper third
+  const revealLine = (line: number, selectLine: boolean) => {
+      const editor = document.getElementById(CODE_EDITOR_ID) as HTMLTextAreaElement | null;
+      if (!editor) return;
+      const lines = editor.value.split('\n');
+      const start = lines.slice(0, line - 1).reduce((n, l) => n + l.length + 1, 0);
+      editor.focus();
+      editor.setSelectionRange(start, selectLine ? start + (lines[line - 1]?.length || 0) : start);
+      const y = measureLineOffsets(editor)[line - 1] || 0;
+      editor.scrollTop = Math.max(0, y - editor.clientHeight / 3);
+  };
+
+  // Issues point at source lines, so jumping always lands in the code editor (split view keeps both panes)
+  const jumpToLine = (line: number) => {
+      setActiveTab(tab => tab === 'split' ? tab : 'code');
+      setTimeout(() => revealLine(line, true), 50); // The editor mounts on the next render when coming from the preview
+  };
+
+  /* ---- SPLIT VIEW: SCROLL SYNC & CLICK-TO-SOURCE ---- */
+  const splitPreviewRef = useRef<HTMLDivElement>(null);
+  const scrollAnchors = useRef<{ anchors: ScrollAnchor[]; sourceHeight: number; previewHeight: number } | null>(null);
+  const scrollDriver = useRef<'source' | 'preview' | null>(null); // Pane whose scroll we just caused, its echo event is ignored
+
+  useEffect(() => { scrollAnchors.current = null; }, [debouncedContent, activeTab]);
+
+  // Rebuilt lazily: after content changes, resizes, or Mermaid / KaTeX changing block heights
+  const getScrollAnchors = (editor: HTMLTextAreaElement, preview: HTMLDivElement): ScrollAnchor[] => {
+      const cached = scrollAnchors.current;
+      if (cached && cached.sourceHeight === editor.scrollHeight && cached.previewHeight === preview.scrollHeight) return cached.anchors;
+      const anchors = buildScrollAnchors(measureLineOffsets(editor), editor, preview);
+      scrollAnchors.current = { anchors, sourceHeight: editor.scrollHeight, previewHeight: preview.scrollHeight };
+      return anchors;
+  };
+
+  const syncScroll = (from: 'source' | 'preview') => {
+      if (activeTab !== 'split') return;
+      if (scrollDriver.current === from) { scrollDriver.current = null; return; }
+      const editor = document.getElementById(CODE_EDITOR_ID) as HTMLTextAreaElement | null;
+      const preview = splitPreviewRef.current;
+      if (!editor || !preview) return;
+
+      const anchors = getScrollAnchors(editor, preview);
+      const target = from === 'source' ? preview : editor;
+      const top = mapScroll(anchors, from === 'source' ? editor.scrollTop : preview.scrollTop, from);
+      if (Math.abs(target.scrollTop - top) < 1) return;
+      scrollDriver.current = from === 'source' ? 'preview' : 'source';
+      target.scrollTop = top;
+  };
+
+  const handleSplitPreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const target = e.target as HTMLElement;
+      if (!markdownRef.current || target.closest('a, button, input, textarea, select')) return;
+      if (window.getSelection()?.toString().trim()) return; // Selecting text for the selection menu, not navigating
+      const line = findSourceLine(target, markdownRef.current);
+      if (line) revealLine(line, false);
+  };
+
+  const applyLintFix = (issue: LintIssue) => {
+      if (issue.fix) pushToHistory(issue.fix.apply(editableContent));
+  };
+
+  /* ---- FACT-CHECK FINDINGS ---- */
+  // Open findings go under the heading they name; anything that doesn't match a heading is listed above the note
+  const openFindings = useMemo(() => factCheckFindings.filter(f => f.status === 'open'), [factCheckFindings]);
+  const findingsByHeading = useMemo(() => {
+      const headings = new Set(toc.map(t => normalizeHeading(t.text)));
+      const byHeading = new Map<string, FactCheckFinding[]>();
+      const unmatched: FactCheckFinding[] = [];
+      openFindings.forEach(f => {
+          const key = normalizeHeading(f.location.split(/›|>/).pop() || '');
+          if (key && headings.has(key)) byHeading.set(key, [...(byHeading.get(key) || []), f]);
+          else unmatched.push(f);
+      });
+      return { byHeading, unmatched };
+  }, [openFindings, toc]);
+
+  const updateFinding = useCallback((id: string, status: FactCheckFinding['status']) => {
+      onFactCheckChange?.(factCheckFindings.map(f => f.id === id ? { ...f, status } : f));
+  }, [factCheckFindings, onFactCheckChange]);
+
+  const canApplyFinding = useCallback((finding: FactCheckFinding) => editableContent.includes(finding.quote), [editableContent]);
+
+  const acceptFinding = useCallback((finding: FactCheckFinding) => {
+      const newContent = applyFactCheckFix(editableContent, finding);
+      if (newContent === null) return;
+      pushToHistory(newContent);
+      updateFinding(finding.id, 'accepted');
+  }, [editableContent, history, historyIndex, updateFinding]);
+
+  const dismissFinding = useCallback((finding: FactCheckFinding) => updateFinding(finding.id, 'dismissed'), [updateFinding]);
+
+  const sendFindingToMagicEdit = useCallback((finding: FactCheckFinding) => {
+      setMagicInstruction(`Fact-check (${finding.location || 'note'}): ${finding.issue || finding.claim}\nCorrect this passage: "${finding.quote}"${finding.suggestedFix ? `\nSuggested fix: "${finding.suggestedFix}"` : ''}`);
+      setShowMagicEdit(true);
+  }, []);
+
+  const handleRunFactCheck = async () => {
+      if (!onRunFactCheck) return;
+      try {
+          const findings = await onRunFactCheck(editableContent);
+          if (findings.length === 0 && isMounted.current) alert("Fact-check found no questionable claims.");
+      } catch (e: any) {
+          alert("Fact-check failed: " + e.message);
+      }
+  };
+
+  const renderHeadingFindings = useCallback((children: React.ReactNode) => {
+      const findings = findingsByHeading.byHeading.get(normalizeHeading(nodeText(children)));
+      if (!findings) return null;
+      return <FactCheckWarnings findings={findings} canApply={canApplyFinding} onAccept={acceptFinding} onDismiss={dismissFinding} onSendToMagicEdit={sendFindingToMagicEdit} />;
+  }, [findingsByHeading, canApplyFinding, acceptFinding, dismissFinding, sendFindingToMagicEdit]);
+
   const scrollToHeader = (id: string) => { const element = document.getElementById(id); if (element) { element.scrollIntoView({ behavior: 'smooth' }); setActiveHeaderId(id); } };
 
   const handleManualSaveTrigger = async () => { 
@@ -741,35 +950,137 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
 
   const executeMagicEdit = async () => {
       if (!magicInstruction && magicFiles.length === 0) return;
+      const unreadable = findUnreadableAttachments(magicModel, magicFiles.map(f => ({ name: f.name, mimeType: f.type })));
+      if (unreadable.length > 0) { alert(`${magicModel} can't read: ${unreadable.map(f => f.name).join(', ')}. Remove them or pick a model that reads images & PDF.`); return; }
       setIsMagicLoading(true);
+      const controller = new AbortController();
+      magicAbort.current = controller;
+      const source = editableContent;
       try {
-          const uploadedFiles: UploadedFile[] = await Promise.all(magicFiles.map(async f => ({
-              name: f.name,
-              mimeType: f.type,
-              data: await fileToBase64(f)
-          })));
-
-          let newContent = '';
-          const tempConfig = { ...config, provider: magicProvider, model: magicModel };
+          const uploadedFiles: UploadedFile[] = await readAttachments(magicFiles, magicModel);
+
+          const tempConfig = { ...config, provider: magicProvider, model: magicModel, signal: controller.signal };
+          const adapter = getProvider(magicProvider);
+
+          // The whole note is rewritten, so library context only gets a quarter of the budget
+          let sources: RetrievedChunk[] = [];
+          if (magicUseLibrary) {
+              const retrieval = RetrievalService.getInstance();
+              const libraryIds = await retrieval.indexLibrary(undefined, noteId);
+              sources = retrieval.retrieve(`${magicInstruction} ${topic}`, libraryIds, Math.floor(getContextBudget(magicModel) / 4));
+          }
+          const attachments = prepareAttachments(magicModel, uploadedFiles);
+          const contexts = { ...RetrievalService.getInstance().toContexts(sources), ...attachments.textContexts };
           
           // Use deepenNoteContent if files are provided, otherwise use refineNoteContent
-          if (magicProvider === AIProvider.GEMINI) { 
-              if (uploadedFiles.length > 0) {
-                  newContent = await deepenNoteContent(tempConfig, editableContent, magicInstruction, uploadedFiles);
-              } else {
-                  newContent = await refineNoteContent(tempConfig, editableContent, magicInstruction); 
-              }
-          } 
-          else { 
-              if (uploadedFiles.length > 0) {
-                  newContent = await deepenNoteContentGroq(tempConfig, editableContent, magicInstruction, uploadedFiles);
-              } else {
-                  newContent = await refineNoteContentGroq(tempConfig, editableContent, magicInstruction); 
-              }
+          const rewritten = uploadedFiles.length > 0
+              ? await adapter.deepenNoteContent(tempConfig, source, magicInstruction, attachments.files, contexts)
+              : await adapter.refineNoteContent(tempConfig, source, magicInstruction, contexts);
+          const newContent = await validateAndRepairMermaid(tempConfig, rewritten, undefined, source);
+          if (controller.signal.aborted) return; // Cancelled: never apply a late result
+          if(isMounted.current) { setAiProposal({ title: 'Magic Edit', before: source, after: newContent }); setMagicSources(sources); setShowMagicEdit(false); setMagicInstruction(''); setMagicFiles([]); }
+      } catch (e: any) { if (!isAbortError(e, controller.signal)) alert("Magic Edit Failed: " + e.message); } 
+      finally {
+          if (magicAbort.current === controller) magicAbort.current = null;
+          if(isMounted.current) setIsMagicLoading(false);
+      }
+  };
+
+  // Scoped edits (slash AI commands, selection actions): the model sees the note plus the text right around the edit
+  const runScopedPrompt = async (templateId: PromptTemplateId, vars: Record<string, string>, query: string, signal?: AbortSignal): Promise<string> => {
+      const note = RetrievalService.getInstance().fitContent(
+          { id: `open:${noteId || 'draft'}`, label: topic || 'Current note', content: editableContent },
+          query, Math.floor(getContextBudget(config.model) / 2)
+      );
+      const tempConfig = { ...config, signal };
+      const prompt = PromptRegistryService.getInstance().render(templateId, vars, tempConfig);
+      const response = await getProvider(config.provider).generateAssistantResponse(tempConfig, note.content, [{ role: 'user', content: prompt }], [], {});
+      const repaired = await validateAndRepairMermaid(tempConfig, response, undefined, editableContentRef.current);
+      if (signal?.aborted) throw createAbortError();
+      return repaired;
+  };
+
+  // Slash commands outlive a tab switch (the editor unmounts, the request keeps going), but not leaving the note
+  const handleInlineAiCommand = (instruction: string, context: { before: string; after: string }, signal: AbortSignal): Promise<string> => {
+      const controller = new AbortController();
+      signal.addEventListener('abort', () => controller.abort());
+      slashAbort.current.add(controller);
+      snapshotVersion('before-ai', 'Slash command', context.before + context.after);
+      return runScopedPrompt('edit.inline', {
+          instruction,
+          before: context.before.slice(-INLINE_CONTEXT_CHARS),
+          after: context.after.slice(0, INLINE_CONTEXT_CHARS / 4)
+      }, instruction, controller.signal).finally(() => slashAbort.current.delete(controller));
+  };
+
+  // Marker swaps from slash commands, applied to the latest content rather than what the editor last saw
+  const handleEditorUpdate = (update: (current: string) => string) => {
+      if (!isMounted.current) return;
+      setEditableContent(prev => update(prev));
+      setIsDirty(true);
+  };
+
+  // Only the selected range is rewritten; the rest of the note is spliced back byte-for-byte
+  const runSelectionAction = async (range: SelectionRange, action: SelectionActionId, targetLanguage?: string) => {
+      if (isStreaming || isSelectionEditing) return;
+      const source = editableContentRef.current;
+      const passage = source.slice(range.start, range.end);
+      if (!passage.trim()) return;
+      const instruction = getSelectionInstruction(action, targetLanguage);
+
+      setIsSelectionEditing(true);
+      const controller = new AbortController();
+      selectionAbort.current = controller;
+      try {
+          const response = await runScopedPrompt('edit.selection', {
+              instruction,
+              passage,
+              before: source.slice(0, range.start).slice(-INLINE_CONTEXT_CHARS),
+              after: source.slice(range.end, range.end + INLINE_CONTEXT_CHARS / 4)
+          }, `${instruction} ${passage}`, controller.signal);
+          if (!isMounted.current || controller.signal.aborted) return; // Cancelled: never propose a late result
+
+          const current = editableContentRef.current;
+          const target = resolveSelectionRange(current, range, passage);
+          if (!target) { alert("The selected passage changed while the AI was working, so nothing was replaced."); return; }
+          const label = SELECTION_ACTIONS.find(a => a.id === action)?.label || action;
+          setAiProposal({ title: `Selection: ${label}`, before: current, after: spliceSelection(current, target, cleanSelectionResponse(response, passage)) });
+          setCodeSelection(null);
+      } catch (e: any) {
+          if (!isAbortError(e, controller.signal)) alert("Selection Edit Failed: " + e.message);
+      } finally {
+          if (selectionAbort.current === controller) {
+              selectionAbort.current = null;
+              if (isMounted.current) setIsSelectionEditing(false);
           }
-          if(isMounted.current) { pushToHistory(newContent); setShowMagicEdit(false); setMagicInstruction(''); setMagicFiles([]); }
-      } catch (e: any) { alert("Magic Edit Failed: " + e.message); } 
-      finally { if(isMounted.current) setIsMagicLoading(false); }
+      }
+  };
+
+  const cancelSelectionAction = () => {
+      selectionAbort.current?.abort();
+      selectionAbort.current = null;
+      setIsSelectionEditing(false);
+  };
+
+  const handlePreviewSelectionAction = (action: SelectionActionId, targetLanguage?: string) => {
+      if (!selectionMenu) return;
+      const range = locatePreviewSelection(editableContent, selectionMenu.text);
+      setSelectionMenu(null);
+      window.getSelection()?.removeAllRanges();
+      if (!range) { alert("Couldn't match the selection to one place in the note (it may appear more than once). Select it in Code view instead."); return; }
+      runSelectionAction(range, action, targetLanguage);
+  };
+
+  const cancelMagicEdit = () => {
+      magicAbort.current?.abort();
+      magicAbort.current = null;
+      setIsMagicLoading(false);
+  };
+
+  const cancelAssistant = () => {
+      assistantAbort.current?.abort();
+      assistantAbort.current = null;
+      setIsAiProcessing(false);
   };
 
   const extractMermaidDiagrams = useCallback(() => {
@@ -784,83 +1095,89 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
   }, [editableContent]);
 
   // --- ASSISTANT HANDLERS ---
-  const handleAssistantPrompt = async (history: ChatMessage[], files: File[], provider?: AIProvider, model?: string, contextIds?: string[]): Promise<string> => {
+  const handleAssistantPrompt = async (history: ChatMessage[], files: File[], provider?: AIProvider, model?: string, contextIds?: string[]): Promise<ChatMessage> => {
       setIsAiProcessing(true);
+      const controller = new AbortController();
+      assistantAbort.current = controller;
       try {
-          const uploadedFiles: UploadedFile[] = await Promise.all(files.map(async f => ({
-              name: f.name,
-              mimeType: f.type,
-              data: await fileToBase64(f)
-          })));
+          const uploadedFiles: UploadedFile[] = await readAttachments(files, model || config.model);
           
-          // Fetch Context Content if IDs provided
-          let additionalContexts: Record<string, string> = {};
-          if (contextIds && contextIds.length > 0) {
-              const storage = StorageService.getInstance();
-              additionalContexts = await storage.getBatchContent(contextIds);
-          }
-
-          let response = '';
           // Use override if provided, else fallback to config
           const activeProvider = provider || config.provider;
           const activeModel = model || config.model;
-          const tempConfig = { ...config, provider: activeProvider, model: activeModel };
-
-          if (activeProvider === AIProvider.GEMINI) {
-              response = await generateAssistantResponse(tempConfig, editableContent, history, uploadedFiles, additionalContexts);
-          } else {
-              response = await generateAssistantResponseGroq(tempConfig, editableContent, history, uploadedFiles, additionalContexts);
-          }
-
-          return response;
+          const tempConfig = { ...config, provider: activeProvider, model: activeModel, signal: controller.signal };
+
+          // Picked context notes get up to half the budget, the open note gets the rest (excerpted if too long)
+          const retrieval = RetrievalService.getInstance();
+          const question = history.filter(m => m.role === 'user').pop()?.content || '';
+          const budget = getContextBudget(activeModel);
+          const contextSourceIds = contextIds && contextIds.length > 0 ? await retrieval.indexLibrary(contextIds) : [];
+          const contextChunks = retrieval.retrieve(question, contextSourceIds, Math.floor(budget / 2), true);
+          const note = retrieval.fitContent(
+              { id: `open:${noteId || 'draft'}`, label: topic || 'Current note', content: editableContent },
+              question, budget - contextChunks.reduce((n, c) => n + c.tokens, 0)
+          );
+
+          // Text-only models get text uploads as extra context instead of files
+          const attachments = prepareAttachments(activeModel, uploadedFiles);
+          const response = await getProvider(activeProvider).generateAssistantResponse(tempConfig, note.content, history, attachments.files, { ...retrieval.toContexts(contextChunks), ...attachments.textContexts });
+          if (controller.signal.aborted) throw createAbortError();
+          return { role: 'model', content: response, sources: [...note.chunks, ...contextChunks] };
       } catch (e: any) {
+          if (isAbortError(e, controller.signal)) throw createAbortError();
           alert("Assistant Error: " + e.message);
           throw e;
       } finally {
-          if (isMounted.current) setIsAiProcessing(false);
+          if (assistantAbort.current === controller) {
+              assistantAbort.current = null;
+              if (isMounted.current) setIsAiProcessing(false);
+          }
       }
   };
 
-  const handleDeepenNote = async (instruction: string, files: File[], provider?: AIProvider, model?: string, contextIds?: string[]) => {
+  const handleDeepenNote = async (instruction: string, files: File[], provider?: AIProvider, model?: string, contextIds?: string[]): Promise<ChatMessage> => {
       setIsAiProcessing(true);
+      const controller = new AbortController();
+      assistantAbort.current = controller;
       try {
-          const uploadedFiles: UploadedFile[] = await Promise.all(files.map(async f => ({
-              name: f.name,
-              mimeType: f.type,
-              data: await fileToBase64(f)
-          })));
+          const uploadedFiles: UploadedFile[] = await readAttachments(files, model || config.model);
           
-          let additionalContexts: Record<string, string> = {};
-          if (contextIds && contextIds.length > 0) {
-              const storage = StorageService.getInstance();
-              additionalContexts = await storage.getBatchContent(contextIds);
-          }
-
-          let newContent = '';
           const activeProvider = provider || config.provider;
           const activeModel = model || config.model;
-          const tempConfig = { ...config, provider: activeProvider, model: activeModel };
-
-          if (activeProvider === AIProvider.GEMINI) {
-              newContent = await deepenNoteContent(tempConfig, editableContent, instruction, uploadedFiles, additionalContexts);
-          } else {
-              newContent = await deepenNoteContentGroq(tempConfig, editableContent, instruction, uploadedFiles, additionalContexts);
-          }
-
-          pushToHistory(newContent);
-          return "I have deepened and enriched your note based on the provided context!";
+          const tempConfig = { ...config, provider: activeProvider, model: activeModel, signal: controller.signal };
+
+          // The note itself is sent whole; picked context sources are cut to the chunks relevant to the instruction, in what the note leaves of the budget
+          const retrieval = RetrievalService.getInstance();
+          const source = editableContent;
+          const contextBudget = Math.max(0, getContextBudget(activeModel) - estimateTokens(source));
+          const contextSourceIds = contextIds && contextIds.length > 0 ? await retrieval.indexLibrary(contextIds) : [];
+          const contextChunks = retrieval.retrieve(`${instruction} ${topic}`, contextSourceIds, contextBudget, true);
+
+          const attachments = prepareAttachments(activeModel, uploadedFiles);
+          const deepened = await getProvider(activeProvider).deepenNoteContent(tempConfig, source, instruction, attachments.files, { ...retrieval.toContexts(contextChunks), ...attachments.textContexts });
+          const newContent = await validateAndRepairMermaid(tempConfig, deepened, undefined, source);
+          if (controller.signal.aborted) throw createAbortError(); // Never apply a cancelled rewrite
+
+          setAiProposal({ title: 'Deepen Note', before: source, after: newContent });
+          return { role: 'model', content: "I have deepened and enriched your note based on the provided context! Review the changes and accept the ones you want.", sources: contextChunks };
       } catch (e: any) {
+          if (isAbortError(e, controller.signal)) throw createAbortError();
           alert("Deepen Error: " + e.message);
           throw e;
       } finally {
-          if (isMounted.current) setIsAiProcessing(false);
+          if (assistantAbort.current === controller) {
+              assistantAbort.current = null;
+              if (isMounted.current) setIsAiProcessing(false);
+          }
       }
   };
 
-  const handleApplyProposal = () => {
+  // Accepted hunks land as one history entry, so a single undo reverts the whole review
+  const handleApplyProposal = (merged: string) => {
       if (!aiProposal) return;
-      const newContent = editableContent + "\n\n" + aiProposal;
-      pushToHistory(newContent);
+      if (editableContent !== aiProposal.before && !confirm("The note changed since this AI edit was made. Applying it will replace those later changes. Continue?")) return;
+      snapshotVersion('before-ai', aiProposal.title);
+      pushToHistory(merged);
       setAiProposal(null);
   };
 
@@ -914,22 +1231,66 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
   const getHeaderId = useCallback((text: string, level: number) => { const found = toc.find(t => t.text === text && t.level === level); return found ? found.id : undefined; }, [toc]);
 
   const components = useMemo(() => ({
-    h1: ({ children }: any) => <h1 id={getHeaderId(String(children), 1)}>{children}</h1>,
-    h2: ({ children }: any) => <h2 id={getHeaderId(String(children), 2)}>{children}</h2>,
-    h3: ({ children }: any) => <h3 id={getHeaderId(String(children), 3)}>{children}</h3>,
+    h1: ({ children }: any) => <><h1 id={getHeaderId(String(children), 1)}>{children}</h1>{renderHeadingFindings(children)}</>,
+    h2: ({ children }: any) => <><h2 id={getHeaderId(String(children), 2)}>{children}</h2>{renderHeadingFindings(children)}</>,
+    h3: ({ children }: any) => <><h3 id={getHeaderId(String(children), 3)}>{children}</h3>{renderHeadingFindings(children)}</>,
     code: CodeBlock,
     blockquote: ({ node, children, ...props }: any) => {
       const callout = renderCalloutBlockquote(children);
       if (callout) return callout;
       return <blockquote {...props}>{children}</blockquote>;
     }
-  }), [getHeaderId, CodeBlock]);
+  }), [getHeaderId, CodeBlock, renderHeadingFindings]);
+
+  // Source line anchors are only needed to sync split view, keep them out of the reader and exports
+  const rehypePlugins = useMemo(() => activeTab === 'split' ? [rehypeKatex, rehypeSourceLines] : [rehypeKatex], [activeTab]);
+
+  // Shared by the single-pane tabs and split view
+  const renderPreview = () => (
+      <div className="min-h-full py-10 px-4 md:px-10 flex justify-center pb-32">
+          <div 
+            ref={markdownRef}
+            className={`markdown-body w-full max-w-4xl animate-fade-in relative theme-${theme} transition-all duration-300`}
+            id="markdown-content"
+          >
+             <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={rehypePlugins} components={components}>
+                {preprocessMarkdown(debouncedContent)}
+             </ReactMarkdown>
+          </div>
+      </div>
+  );
+
+  const renderCodeEditor = (height: string) => (
+      <>
+          {(codeSelection || isSelectionEditing) && !isStreaming && (
+              <div className="sticky top-2 z-30 h-0 flex justify-end">
+                  <div className="mt-2 mr-2 h-fit flex items-center gap-2 bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-lg shadow-lg px-2 py-1">
+                      <span className="text-[10px] font-bold text-[var(--ui-text-muted)] uppercase">Selection</span>
+                      <SelectionActionsBar onAction={(action, lang) => codeSelection && runSelectionAction(codeSelection, action, lang)} isBusy={isSelectionEditing} onCancel={cancelSelectionAction} />
+                  </div>
+              </div>
+          )}
+          <SlashCommandEditor 
+              id={CODE_EDITOR_ID}
+              value={editableContent}
+              onChange={(e) => { setEditableContent(e.target.value); setIsDirty(true); }}
+              onBlur={() => pushToHistory(editableContent)}
+              onAiCommand={handleInlineAiCommand}
+              onUpdateValue={handleEditorUpdate}
+              onScroll={() => syncScroll('source')}
+              onSelect={(e) => { const ta = e.currentTarget; setCodeSelection(ta.selectionEnd > ta.selectionStart ? { start: ta.selectionStart, end: ta.selectionEnd } : null); }}
+              readOnly={isStreaming}
+              className={`w-full ${height} bg-[#0f172a] text-gray-300 font-mono text-sm p-6 rounded-xl outline-none resize-none border border-gray-700 shadow-inner`}
+              spellCheck={false}
+          />
+      </>
+  );
 
   return (
     <div className="h-full flex flex-col relative font-sans bg-[var(--ui-bg)]">
       
       {/* FLOATING SELECTION MENU */}
-      {selectionMenu && activeTab === 'preview' && (
+      {selectionMenu && activeTab !== 'code' && (
           <div 
               className="fixed z-[100] animate-fade-in shadow-xl"
               style={{ 
@@ -938,13 +1299,21 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
                   transform: 'translate(-50%, -100%)'
               }}
           >
-              <button 
-                  onClick={() => addSticky(selectionMenu.text, 'yellow')}
-                  className="bg-[var(--ui-surface)] border border-[var(--ui-border)] text-[var(--ui-text-main)] px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-[var(--ui-bg)] transition-colors"
-              >
-                  <StickyNote size={12} className="text-yellow-500"/>
-                  Add to Sticky
-              </button>
+              <div className="bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-lg flex items-center gap-1 p-0.5">
+                  <button 
+                      onClick={() => addSticky(selectionMenu.text, 'yellow')}
+                      className="text-[var(--ui-text-main)] px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-[var(--ui-bg)] transition-colors"
+                  >
+                      <StickyNote size={12} className="text-yellow-500"/>
+                      Add to Sticky
+                  </button>
+                  {!isStreaming && (
+                      <>
+                          <div className="w-px h-5 bg-[var(--ui-border)]"/>
+                          <SelectionActionsBar onAction={handlePreviewSelectionAction} isBusy={isSelectionEditing} onCancel={cancelSelectionAction} />
+                      </>
+                  )}
+              </div>
               {/* Little triangle pointer */}
               <div className="absolute left-1/2 bottom-[-6px] -translate-x-1/2 w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px] border-t-[var(--ui-border)]"></div>
               <div className="absolute left-1/2 bottom-[-5px] -translate-x-1/2 w-0 h-0 border-l-[5px] border-l-transparent border-r-[5px] border-r-transparent border-t-[5px] border-t-[var(--ui-surface)]"></div>
@@ -966,6 +1335,7 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
               <div className="flex bg-[var(--ui-bg)] rounded-lg p-0.5 border border-[var(--ui-border)]">
                   <button onClick={() => setActiveTab('preview')} className={`px-2 md:px-3 py-1.5 rounded-md text-[10px] md:text-xs font-bold transition-all flex items-center gap-1 ${activeTab === 'preview' ? 'bg-[var(--ui-surface)] shadow text-[var(--ui-text-main)]' : 'text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]'}`}><BookOpen size={14}/><span className="hidden sm:inline">Read</span></button>
                   <button onClick={() => setActiveTab('code')} className={`px-2 md:px-3 py-1.5 rounded-md text-[10px] md:text-xs font-bold transition-all flex items-center gap-1 ${activeTab === 'code' ? 'bg-[var(--ui-surface)] shadow text-[var(--ui-text-main)]' : 'text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]'}`}><Edit3 size={14}/><span className="hidden sm:inline">Code</span></button>
+                  <button onClick={() => setActiveTab('split')} title="Editor and preview side by side" className={`hidden md:flex px-2 md:px-3 py-1.5 rounded-md text-[10px] md:text-xs font-bold transition-all items-center gap-1 ${activeTab === 'split' ? 'bg-[var(--ui-surface)] shadow text-[var(--ui-text-main)]' : 'text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]'}`}><Columns2 size={14}/><span className="hidden sm:inline">Split</span></button>
               </div>
           </div>
 
@@ -1005,12 +1375,52 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
 
               <button 
                 onClick={() => setShowMagicEdit(!showMagicEdit)} 
-                className="p-2 rounded-lg text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)] hover:text-indigo-500 shrink-0" 
+                disabled={isStreaming}
+                className="p-2 rounded-lg text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)] hover:text-indigo-500 disabled:opacity-30 shrink-0" 
                 title="Magic Edit"
               >
                 <Wand2 size={18}/>
               </button>
 
+              <button 
+                onClick={() => setShowLint(!showLint)} 
+                disabled={isStreaming}
+                className={`relative p-2 rounded-lg disabled:opacity-30 shrink-0 ${showLint ? 'bg-[var(--ui-primary)]/10 text-[var(--ui-primary)]' : 'text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)] hover:text-[var(--ui-text-main)]'}`} 
+                title={lintIssues.length > 0 ? `Lint (${lintIssues.length} issues)` : 'Lint'}
+              >
+                <ListChecks size={18}/>
+                {lintIssues.length > 0 && <span className="absolute top-0.5 right-0.5 w-2 h-2 rounded-full bg-amber-500"></span>}
+              </button>
+
+              <button 
+                onClick={() => setShowVersions(true)} 
+                disabled={!noteId || isStreaming}
+                className="p-2 rounded-lg text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)] hover:text-[var(--ui-primary)] disabled:opacity-30 shrink-0" 
+                title={noteId ? "Version history" : "Save the note to start its version history"}
+              >
+                <History size={18}/>
+              </button>
+
+              <button 
+                onClick={() => setShowCleanup(true)} 
+                disabled={isStreaming}
+                className="p-2 rounded-lg text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)] hover:text-teal-500 disabled:opacity-30 shrink-0" 
+                title="Clean up note"
+              >
+                <Eraser size={18}/>
+              </button>
+
+              {onRunFactCheck && (
+                  <button 
+                    onClick={handleRunFactCheck} 
+                    disabled={isStreaming || isFactChecking}
+                    className={`p-2 rounded-lg disabled:opacity-30 shrink-0 ${openFindings.length > 0 ? 'text-amber-500 hover:bg-[var(--ui-bg)]' : 'text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)] hover:text-emerald-500'}`} 
+                    title={openFindings.length > 0 ? `Fact-Check (${openFindings.length} open)` : 'Fact-Check'}
+                  >
+                    {isFactChecking ? <Loader2 size={18} className="animate-spin"/> : <ShieldCheck size={18}/>}
+                  </button>
+              )}
+
               <button 
                 onClick={handleCloudUpload} 
                 className="p-2 rounded-lg text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)] hover:text-cyan-500 shrink-0" 
@@ -1036,7 +1446,7 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
 
               <button 
                   onClick={handleManualSaveTrigger} 
-                  disabled={isSaving}
+                  disabled={isSaving || isStreaming}
                   className={`ml-1 px-3 py-1.5 md:px-4 md:py-2 rounded-lg font-bold text-xs flex items-center gap-1 md:gap-2 transition-all shrink-0 ${justSaved ? 'bg-green-500 text-white' : (isDirty ? 'bg-[var(--ui-primary)] text-white hover:opacity-90' : 'bg-[var(--ui-bg)] text-[var(--ui-text-muted)] border border-[var(--ui-border)]')}`}
               >
                   {isSaving ? <Loader2 size={14} className="animate-spin"/> : justSaved ? <Check size={14}/> : <Save size={14}/>}
@@ -1045,6 +1455,23 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
           </div>
       </div>
 
+      {isStreaming && (
+          <div className="flex items-center gap-2 px-4 py-2 bg-[var(--ui-primary)]/10 border-b border-[var(--ui-border)] text-xs text-[var(--ui-primary)] shrink-0 animate-fade-in">
+              <Loader2 size={12} className="animate-spin"/>
+              <span className="font-bold uppercase tracking-wider">Writing</span>
+              <span className="text-[var(--ui-text-muted)] truncate flex-1">{streamStatus}</span>
+              {onCancelStream && (
+                  <button onClick={onCancelStream} className="flex items-center gap-1 px-2 py-0.5 rounded border border-[var(--ui-border)] text-[var(--ui-text-muted)] hover:text-red-500 hover:border-red-300 font-bold shrink-0">
+                      <X size={12}/> Stop
+                  </button>
+              )}
+          </div>
+      )}
+
+      {showLint && !isStreaming && (
+          <LintPanel issues={lintIssues} onJump={jumpToLine} onFix={applyLintFix} onClose={() => setShowLint(false)} />
+      )}
+
       {showMagicEdit && (
           <div className="bg-[var(--ui-surface)] border-b border-[var(--ui-border)] p-2 animate-scale-in flex flex-col gap-2">
               <div className="max-w-2xl mx-auto w-full flex items-center gap-2 justify-end px-3">
@@ -1053,15 +1480,14 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
                       onChange={(e) => { setMagicProvider(e.target.value as AIProvider); setMagicModel(''); }}
                       className="bg-[var(--ui-bg)] text-[10px] font-bold border border-[var(--ui-border)] rounded p-1 outline-none"
                   >
-                      <option value={AIProvider.GEMINI}>Gemini</option>
-                      <option value={AIProvider.GROQ}>Groq</option>
+                      {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
                   </select>
                   <select 
                       value={magicModel} 
                       onChange={(e) => setMagicModel(e.target.value)}
                       className="bg-[var(--ui-bg)] text-[10px] font-bold border border-[var(--ui-border)] rounded p-1 outline-none max-w-[150px]"
                   >
-                      {(magicProvider === AIProvider.GEMINI ? GEMINI_MODELS_LIST : groqModels).map(m => (
+                      {getModelOptions(magicProvider, providerModels).map(m => (
                           <option key={m.value} value={m.value}>{m.label}</option>
                       ))}
                   </select>
@@ -1119,6 +1545,13 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
                       className="flex-1 bg-transparent text-sm outline-none text-[var(--ui-text-main)]"
                       onKeyDown={(e) => e.key === 'Enter' && executeMagicEdit()}
                   />
+                  <button 
+                      onClick={() => setMagicUseLibrary(!magicUseLibrary)}
+                      className={`transition-colors ${magicUseLibrary ? 'text-[var(--ui-primary)]' : 'text-[var(--ui-text-muted)] hover:text-[var(--ui-primary)]'}`}
+                      title={magicUseLibrary ? 'Library context ON: relevant sections of your other notes are included' : 'Use library context'}
+                  >
+                      <Library size={16}/>
+                  </button>
                   <label className="cursor-pointer text-[var(--ui-text-muted)] hover:text-[var(--ui-primary)] transition-colors relative">
                       <input 
                           type="file" 
@@ -1137,13 +1570,57 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
                           </span>
                       )}
                   </label>
-                  {isMagicLoading ? <Loader2 size={16} className="animate-spin text-[var(--ui-text-muted)]"/> : (
+                  {isMagicLoading ? (
+                      <button onClick={cancelMagicEdit} className="flex items-center gap-1 text-xs text-[var(--ui-text-muted)] hover:text-red-500" title="Cancel Magic Edit">
+                          <Loader2 size={16} className="animate-spin"/> Cancel
+                      </button>
+                  ) : (
                       <button onClick={() => setShowMagicEdit(false)} className="hover:text-[var(--ui-text-main)] text-[var(--ui-text-muted)]"><X size={16}/></button>
                   )}
               </div>
           </div>
       )}
 
+      {magicSources.length > 0 && !showMagicEdit && (
+          <div className="bg-[var(--ui-surface)] border-b border-[var(--ui-border)] px-4 py-1.5 flex items-center gap-2 text-[10px] text-[var(--ui-text-muted)]">
+              <Library size={12} className="shrink-0"/>
+              <span className="truncate" title={magicSources.map(chunkLabel).join('\n')}>
+                  Last edit used {magicSources.length} library chunk{magicSources.length === 1 ? '' : 's'}: {magicSources.map(chunkLabel).join(' · ')}
+              </span>
+              <button onClick={() => setMagicSources([])} className="ml-auto hover:text-[var(--ui-text-main)]"><X size={12}/></button>
+          </div>
+      )}
+
+      {factCheckNotice && !isFactChecking && (
+          <div className="bg-[var(--ui-surface)] border-b border-[var(--ui-border)] px-4 py-1.5 flex items-center gap-2 text-[10px] text-[var(--ui-text-muted)]">
+              <ShieldCheck size={12} className="shrink-0"/>
+              <span className="truncate" title={factCheckNotice}>{factCheckNotice}</span>
+              {onRunFactCheck && <button onClick={handleRunFactCheck} disabled={isStreaming} className="font-bold hover:text-[var(--ui-text-main)] shrink-0 disabled:opacity-30">Run again</button>}
+              <button onClick={onDismissFactCheckNotice} className="ml-auto hover:text-[var(--ui-text-main)]"><X size={12}/></button>
+          </div>
+      )}
+
+      {(isFactChecking || openFindings.length > 0) && (
+          <div className="bg-[var(--ui-surface)] border-b border-[var(--ui-border)] px-4 py-1.5 text-[10px] text-[var(--ui-text-muted)] max-h-[40vh] overflow-y-auto custom-scrollbar">
+              <div className="flex items-center gap-2">
+                  {isFactChecking ? <Loader2 size={12} className="animate-spin shrink-0"/> : <ShieldCheck size={12} className="shrink-0"/>}
+                  <span>
+                      {isFactChecking
+                          ? 'Fact-checking against your sources...'
+                          : `${openFindings.length} open fact-check finding${openFindings.length === 1 ? '' : 's'}${activeTab !== 'code' && findingsByHeading.unmatched.length < openFindings.length ? ', shown under their sections' : ''}`}
+                  </span>
+              </div>
+              {/* The source tab has no headings to attach to, so it lists every open finding here */}
+              <FactCheckWarnings 
+                  findings={activeTab !== 'code' ? findingsByHeading.unmatched : openFindings} 
+                  canApply={canApplyFinding} 
+                  onAccept={acceptFinding} 
+                  onDismiss={dismissFinding} 
+                  onSendToMagicEdit={sendFindingToMagicEdit} 
+              />
+          </div>
+      )}
+
       {/* --- CONTENT SCROLL AREA (SPLIT PANE) --- */}
       <div className="flex-1 flex overflow-hidden relative">
           
@@ -1153,49 +1630,35 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
             ref={scrollRef}
             onScroll={handleScroll}
           >
-             {activeTab === 'preview' && (
-                 <div className="min-h-full py-10 px-4 md:px-10 flex justify-center pb-32">
-                    <div 
-                      ref={markdownRef}
-                      className={`markdown-body w-full max-w-4xl animate-fade-in relative theme-${theme} transition-all duration-300`}
-                      id="markdown-content"
-                    >
-                       <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={components}>
-                          {preprocessMarkdown(debouncedContent)}
-                       </ReactMarkdown>
-                    </div>
+             {activeTab === 'preview' && isSelectionEditing && (
+                 <div className="sticky top-2 z-30 flex justify-center pointer-events-none">
+                     <div className="pointer-events-auto bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-lg shadow-lg">
+                         <SelectionActionsBar onAction={() => {}} isBusy onCancel={cancelSelectionAction} />
+                     </div>
                  </div>
              )}
 
+             {activeTab === 'preview' && renderPreview()}
+
              {activeTab === 'code' && (
                  <div className="min-h-full p-4 md:p-6 pb-32">
-                    <SlashCommandEditor 
-                        value={editableContent}
-                        onChange={(e) => { setEditableContent(e.target.value); setIsDirty(true); }}
-                        onBlur={() => pushToHistory(editableContent)}
-                        className="w-full h-[80vh] bg-[#0f172a] text-gray-300 font-mono text-sm p-6 rounded-xl outline-none resize-none border border-gray-700 shadow-inner"
-                        spellCheck={false}
-                    />
+                    {renderCodeEditor("h-[80vh]")}
                  </div>
              )}
 
-             {/* GHOST STATE OVERLAY */}
-             {aiProposal && (
-                 <div className="sticky bottom-4 mx-4 md:mx-10 z-30 animate-slide-up">
-                     <div className="bg-[var(--ui-surface)] border border-[var(--ui-primary)] rounded-xl shadow-2xl overflow-hidden flex flex-col">
-                         <div className="bg-[var(--ui-primary)]/10 p-3 border-b border-[var(--ui-primary)]/20 flex justify-between items-center">
-                             <span className="text-xs font-bold text-[var(--ui-primary)] uppercase tracking-widest flex items-center gap-2">
-                                 <Wand2 size={14}/> AI Proposal
-                             </span>
-                             <div className="flex gap-2">
-                                 <button onClick={handleDiscardProposal} className="px-3 py-1 rounded-lg text-xs font-bold text-red-500 hover:bg-red-50 transition-colors">Discard</button>
-                                 <button onClick={handleApplyProposal} className="px-3 py-1 rounded-lg text-xs font-bold bg-[var(--ui-primary)] text-white hover:opacity-90 transition-opacity">Apply</button>
-                             </div>
-                         </div>
-                         <div className="p-4 max-h-[300px] overflow-y-auto bg-[var(--ui-bg)] text-sm prose prose-sm max-w-none">
-                             <ReactMarkdown>{aiProposal}</ReactMarkdown>
-                         </div>
-                     </div>
+             {activeTab === 'split' && (
+                 <div className="flex-1 flex min-h-0">
+                    <div className="w-1/2 min-w-0 p-4 flex flex-col">
+                        {renderCodeEditor("h-full")}
+                    </div>
+                    <div
+                      ref={splitPreviewRef}
+                      className="w-1/2 min-w-0 overflow-y-auto custom-scrollbar border-l border-[var(--ui-border)] cursor-text"
+                      onScroll={() => { setSelectionMenu(null); syncScroll('preview'); }}
+                      onClick={handleSplitPreviewClick}
+                    >
+                        {renderPreview()}
+                    </div>
                  </div>
              )}
           </div>
@@ -1236,7 +1699,8 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
                               onPromptSubmit={handleAssistantPrompt}
                               onDeepenNote={handleDeepenNote}
                               isProcessing={isAiProcessing}
-                              groqModels={groqModels}
+                              onCancel={cancelAssistant}
+                              providerModels={providerModels}
                               externalPrompt={externalPrompt}
                               onExternalPromptHandled={() => setExternalPrompt(undefined)}
                               onAddSticky={addSticky}
@@ -1297,6 +1761,35 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ content, topic, onUpdateC
              </div>
          )}
 
+      {/* AI EDIT REVIEW */}
+      {aiProposal && (
+          <DiffReviewModal
+              title={aiProposal.title}
+              before={aiProposal.before}
+              after={aiProposal.after}
+              onApply={handleApplyProposal}
+              onClose={handleDiscardProposal}
+          />
+      )}
+
+      {showVersions && noteId && (
+          <VersionHistoryModal
+              noteId={noteId}
+              currentContent={editableContent}
+              onRestore={handleRestoreVersion}
+              onClose={() => setShowVersions(false)}
+          />
+      )}
+
+      {showCleanup && (
+          <CleanupReviewModal
+              content={editableContent}
+              settings={config.formatterRules || {}}
+              onApply={(cleaned) => { pushToHistory(cleaned); setShowCleanup(false); }}
+              onClose={() => setShowCleanup(false)}
+          />
+      )}
+
       {/* DIAGRAMS MODAL */}
       {showDiagramsModal && (
           <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
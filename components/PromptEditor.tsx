@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ScrollText, Save, RotateCcw, GitCompare } from 'lucide-react';
+import { PromptTemplateId } from '../types';
+import { PromptRegistryService } from '../services/promptRegistryService';
+import { diffLines } from '../utils/diff';
+
+const DIFF_STYLES = {
+  same: 'text-[var(--ui-text-muted)]',
+  add: 'bg-green-500/10 text-green-600',
+  remove: 'bg-red-500/10 text-red-600 line-through'
+};
+
+const PromptEditor: React.FC = () => {
+  const [registry] = useState(PromptRegistryService.getInstance());
+  const [, setTick] = useState(0);
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('note.standard');
+  const [draft, setDraft] = useState(registry.getActiveVersion('note.standard').body);
+  const [compareTo, setCompareTo] = useState<string | null>(null);
+
+  useEffect(() => registry.subscribe(() => setTick(t => t + 1)), [registry]);
+
+  const template = registry.getTemplate(selectedId);
+  const versions = registry.getVersions(selectedId);
+  const active = registry.getActiveVersion(selectedId);
+  const validation = registry.validate(selectedId, draft);
+  const isDirty = draft !== active.body;
+
+  const comparedBody = versions.find(v => v.version === compareTo)?.body;
+  const diff = useMemo(() => comparedBody !== undefined ? diffLines(comparedBody, draft) : [], [comparedBody, draft]);
+
+  const selectTemplate = (id: PromptTemplateId) => {
+      if (isDirty && !confirm("Discard unsaved changes to this prompt?")) return;
+      setSelectedId(id);
+      setDraft(registry.getActiveVersion(id).body);
+      setCompareTo(null);
+  };
+
+  const handleSave = () => {
+      try {
+          registry.saveOverride(selectedId, draft);
+      } catch (e: any) {
+          alert("Cannot save prompt: " + e.message);
+      }
+  };
+
+  const handleActivate = (version: string) => {
+      if (isDirty && !confirm("Discard unsaved changes and switch version?")) return;
+      registry.activateVersion(selectedId, version);
+      setDraft(registry.getActiveVersion(selectedId).body);
+  };
+
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-4">
+          <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><ScrollText size={16}/> Prompt Templates</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <select value={selectedId} onChange={e => selectTemplate(e.target.value as PromptTemplateId)} className="w-full p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs">
+                  {registry.listTemplates().map(t => (
+                      <option key={t.id} value={t.id}>{t.label}{registry.isOverridden(t.id) ? ' (custom)' : ''}</option>
+                  ))}
+              </select>
+              <div className="text-[10px] text-[var(--ui-text-muted)] flex items-center">{template.description}</div>
+          </div>
+
+          <div className="flex flex-wrap gap-1 items-center">
+              <span className="text-[10px] font-bold uppercase text-[var(--ui-text-muted)] mr-1">Variables</span>
+              {template.variables.length === 0 && <span className="text-[10px] text-[var(--ui-text-muted)]">none</span>}
+              {template.variables.map(v => (
+                  <code key={v} className={`text-[10px] px-1.5 py-0.5 rounded border border-[var(--ui-border)] ${validation.unused.includes(v) ? 'text-amber-600' : 'text-[var(--ui-text-main)]'}`} title={validation.unused.includes(v) ? 'Declared but not used' : undefined}>{`{{${v}}}`}</code>
+              ))}
+          </div>
+
+          <textarea value={draft} onChange={e => setDraft(e.target.value)} rows={12} spellCheck={false} className="w-full p-3 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs font-mono" />
+
+          {validation.unknown.length > 0 && (
+              <div className="text-[10px] text-red-500">Undeclared variables (would be sent literally): {validation.unknown.map(v => `{{${v}}}`).join(', ')}</div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+              <button onClick={handleSave} disabled={!isDirty || validation.unknown.length > 0} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-[var(--ui-primary)] text-white text-xs font-bold disabled:opacity-50"><Save size={12}/> Save as New Version</button>
+              <button onClick={() => setDraft(active.body)} disabled={!isDirty} className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-[var(--ui-border)] text-xs font-bold text-[var(--ui-text-main)] disabled:opacity-50"><RotateCcw size={12}/> Discard</button>
+              <div className="flex items-center gap-1 ml-auto">
+                  <GitCompare size={12} className="text-[var(--ui-text-muted)]"/>
+                  <select value={compareTo || ''} onChange={e => setCompareTo(e.target.value || null)} className="p-1.5 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs">
+                      <option value="">No diff</option>
+                      {versions.map(v => <option key={v.version} value={v.version}>Diff vs v{v.version}{v.source === 'builtin' ? ' (built-in)' : ''}</option>)}
+                  </select>
+              </div>
+          </div>
+
+          {compareTo && (
+              <div className="max-h-64 overflow-auto rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] p-2 text-[11px] font-mono">
+                  {diff.every(d => d.op === 'same')
+                      ? <div className="text-[var(--ui-text-muted)]">No differences.</div>
+                      : diff.map((d, i) => (
+                          <div key={i} className={`whitespace-pre-wrap ${DIFF_STYLES[d.op]}`}>{d.op === 'add' ? '+ ' : d.op === 'remove' ? '- ' : '  '}{d.text}</div>
+                      ))}
+              </div>
+          )}
+
+          {/* VERSION HISTORY / ROLLBACK */}
+          <div className="space-y-1">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-[var(--ui-text-muted)]">Versions</div>
+              {[...versions].reverse().map(v => (
+                  <div key={v.version} className="flex items-center gap-2 text-xs p-2 rounded-lg bg-[var(--ui-bg)] border border-[var(--ui-border)]">
+                      <span className="font-mono font-bold text-[var(--ui-text-main)] w-12">v{v.version}</span>
+                      <span className="flex-1 text-[var(--ui-text-muted)]">{v.source === 'builtin' ? 'Built-in' : new Date(v.createdAt).toLocaleString()}</span>
+                      {v.version === active.version
+                          ? <span className="text-[10px] font-bold uppercase text-green-600">Active</span>
+                          : <button onClick={() => handleActivate(v.version)} className="text-[10px] font-bold uppercase text-[var(--ui-primary)] hover:underline">{v.source === 'builtin' ? 'Reset to built-in' : 'Roll back'}</button>}
+                  </div>
+              ))}
+          </div>
+      </div>
+  );
+};
+
+export default PromptEditor;
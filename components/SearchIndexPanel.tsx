@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { ScanSearch, RefreshCw } from 'lucide-react';
+import { SemanticSearchService, SearchIndexStatus } from '../services/semanticSearchService';
+import { getProvider } from '../services/providerRegistry';
+import { AIProvider } from '../types';
+
+const SearchIndexPanel: React.FC = () => {
+  const [search] = useState(SemanticSearchService.getInstance());
+  const [status, setStatus] = useState<SearchIndexStatus>(search.getStatus());
+  const [providerEmbeddings, setProviderEmbeddings] = useState(search.getProviderEmbeddings());
+
+  useEffect(() => search.subscribe(setStatus), [search]);
+
+  const toggleEmbeddings = () => {
+      const enabled = !providerEmbeddings;
+      setProviderEmbeddings(enabled);
+      search.setProviderEmbeddings(enabled);
+  };
+
+  const methodLabel = status.method === 'lexical' ? 'Offline lexical vectors' : `${getProvider(status.method as AIProvider).label} embeddings`;
+
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-3">
+          <div className="flex items-center justify-between">
+              <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><ScanSearch size={16}/> Semantic Search Index</h3>
+              <label className="flex items-center gap-2 text-xs font-bold text-[var(--ui-text-muted)] cursor-pointer">
+                  <input type="checkbox" checked={providerEmbeddings} onChange={toggleEmbeddings} />
+                  Provider embeddings
+              </label>
+          </div>
+          <p className="text-[10px] text-[var(--ui-text-muted)]">Powers "search by meaning" in the command palette and Neural Vault. Provider embeddings (Gemini) understand synonyms better but cost API calls; notes fall back to offline vectors when they fail.</p>
+          <div className="flex items-center gap-2 text-xs">
+              <span className="flex-1 text-[var(--ui-text-main)]">{methodLabel} · {status.indexed}/{status.total} notes indexed</span>
+              <button onClick={() => search.sync()} disabled={status.isSyncing} className="flex items-center gap-1 px-3 py-1 rounded-lg border border-[var(--ui-border)] text-xs font-bold text-[var(--ui-text-main)] hover:bg-[var(--ui-bg)] disabled:opacity-50">
+                  <RefreshCw size={12} className={status.isSyncing ? 'animate-spin' : ''}/> {status.isSyncing ? 'Indexing...' : 'Update Index'}
+              </button>
+          </div>
+      </div>
+  );
+};
+
+export default SearchIndexPanel;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { PenLine, Feather, Maximize2, Table, Lightbulb, Languages, Loader2, X } from 'lucide-react';
+import { SelectionActionId } from '../types';
+import { SELECTION_ACTIONS } from '../utils/selectionEdit';
+import { OUTPUT_LANGUAGES } from '../utils/prompts';
+
+interface SelectionActionsBarProps {
+  onAction: (action: SelectionActionId, targetLanguage?: string) => void;
+  isBusy: boolean;
+  onCancel?: () => void; // Shown while busy
+}
+
+const ACTION_ICONS: Record<SelectionActionId, React.ReactNode> = {
+  rewrite: <PenLine size={12}/>,
+  simplify: <Feather size={12}/>,
+  expand: <Maximize2 size={12}/>,
+  table: <Table size={12}/>,
+  analogy: <Lightbulb size={12}/>,
+  translate: <Languages size={12}/>
+};
+
+const BUTTON = "px-2 py-1 rounded-md text-[10px] font-bold flex items-center gap-1 text-[var(--ui-text-main)] hover:bg-[var(--ui-bg)] hover:text-[var(--ui-primary)] transition-colors disabled:opacity-40";
+
+// Buttons keep mousedown from clearing the selection they act on
+const keepSelection = (e: React.MouseEvent) => e.preventDefault();
+
+const SelectionActionsBar: React.FC<SelectionActionsBarProps> = ({ onAction, isBusy, onCancel }) => {
+  const [pickLanguage, setPickLanguage] = useState(false);
+
+  if (isBusy) {
+      return (
+          <div className="flex items-center gap-0.5">
+              <span className="px-2 py-1 text-[10px] font-bold text-[var(--ui-primary)] flex items-center gap-1"><Loader2 size={12} className="animate-spin"/> Editing selection...</span>
+              {onCancel && (
+                  <button onMouseDown={keepSelection} onClick={onCancel} className={`${BUTTON} hover:text-red-500`} title="Cancel selection edit">
+                      <X size={12}/> Stop
+                  </button>
+              )}
+          </div>
+      );
+  }
+
+  if (pickLanguage) {
+      return (
+          <div className="flex items-center gap-0.5">
+              {OUTPUT_LANGUAGES.map(lang => (
+                  <button key={lang.code} onMouseDown={keepSelection} onClick={() => { setPickLanguage(false); onAction('translate', lang.code); }} className={BUTTON}>
+                      {lang.label}
+                  </button>
+              ))}
+              <button onMouseDown={keepSelection} onClick={() => setPickLanguage(false)} className={`${BUTTON} text-[var(--ui-text-muted)]`}>Back</button>
+          </div>
+      );
+  }
+
+  return (
+      <div className="flex items-center gap-0.5">
+          {SELECTION_ACTIONS.map(action => (
+              <button
+                  key={action.id}
+                  onMouseDown={keepSelection}
+                  onClick={() => action.id === 'translate' ? setPickLanguage(true) : onAction(action.id)}
+                  className={BUTTON}
+                  title={action.instruction.replace('{{target_language}}', '...')}
+              >
+                  {ACTION_ICONS[action.id]} {action.label}
+              </button>
+          ))}
+      </div>
+  );
+};
+
+export default SelectionActionsBar;
@@ -1,5 +1,9 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Lightbulb, AlertTriangle, Info, CheckCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Lightbulb, AlertTriangle, Info, CheckCircle, Table, Workflow, Sigma, Brain, Calendar, Sparkles, FileText, Loader2, X } from 'lucide-react';
+import { SlashCommand, SlashCommandGroup, SlashSnippet } from '../types';
+import { SnippetService } from '../services/snippetService';
+import { listSlashCommands, filterSlashCommands, expandSlashTemplate, SLASH_GROUP_LABELS } from '../utils/slashCommands';
+import { isAbortError } from '../utils/abort';
 
 // ============================================================================
 // 1. THE PRESENTATION ILLUSION (PURE FUNCTION RENDERER FOR BLOCKQUOTE)
@@ -96,26 +100,63 @@ export const renderCalloutBlockquote = (children: React.ReactNode) => {
 // 2. MANUAL TRIGGER: THE SLASH COMMAND PROTOCOL (DROP-IN REPLACEMENT)
 // ============================================================================
 
-export interface SlashCommandEditorProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement> {}
+export interface SlashCommandEditorProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement> {
+  // Runs an AI command; resolves with the Markdown to put where the command was typed
+  onAiCommand?: (instruction: string, context: { before: string; after: string }, signal: AbortSignal) => Promise<string>;
+  // Edits the parent's latest content. AI results land through this, since the textarea may be gone (tab switch) by then
+  onUpdateValue?: (update: (current: string) => string) => void;
+}
 
-export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ className = "", onChange, onKeyDown, value, ...props }) => {
+interface PendingAiCommand {
+  marker: string;
+  controller: AbortController;
+}
+
+const TRIGGER = /(?:^|\n| )\/([a-zA-Z0-9-]*)$/;
+
+const GROUP_ICONS: Record<SlashCommandGroup, React.ReactNode> = {
+  callout: <Lightbulb size={14} className="text-yellow-500" />,
+  table: <Table size={14} className="text-sky-500" />,
+  diagram: <Workflow size={14} className="text-purple-500" />,
+  math: <Sigma size={14} className="text-teal-500" />,
+  study: <Brain size={14} className="text-pink-500" />,
+  insert: <Calendar size={14} className="text-gray-500" />,
+  ai: <Sparkles size={14} className="text-[var(--ui-primary)]" />,
+  snippet: <FileText size={14} className="text-gray-500" />
+};
+
+const CALLOUT_ICONS: Record<string, React.ReactNode> = {
+  warning: <AlertTriangle size={14} className="text-orange-500" />,
+  danger: <AlertTriangle size={14} className="text-red-500" />,
+  info: <Info size={14} className="text-blue-500" />,
+  success: <CheckCircle size={14} className="text-green-500" />
+};
+
+export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ className = "", onChange, onKeyDown, onAiCommand, onUpdateValue, value, ...props }) => {
   const [showMenu, setShowMenu] = useState(false);
   const [menuPos, setMenuPos] = useState({ top: 0, left: 0 });
   const [filter, setFilter] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [snippets, setSnippets] = useState<SlashSnippet[]>([]);
+  const [pendingAi, setPendingAi] = useState<PendingAiCommand[]>([]);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const mirrorRef = useRef<HTMLDivElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const aiRunCount = useRef(0);
 
-  const commands = [
-    { id: 'note', label: 'Note', icon: <Lightbulb size={14} className="text-yellow-500" />, text: '> [!note]\n\n<' },
-    { id: 'warning', label: 'Warning', icon: <AlertTriangle size={14} className="text-orange-500" />, text: '> [!warning]\n\n<' },
-    { id: 'danger', label: 'Danger', icon: <AlertTriangle size={14} className="text-red-500" />, text: '> [!danger]\n\n<' },
-    { id: 'info', label: 'Info', icon: <Info size={14} className="text-blue-500" />, text: '> [!info]\n\n<' },
-    { id: 'success', label: 'Success', icon: <CheckCircle size={14} className="text-green-500" />, text: '> [!success]\n\n<' },
-  ];
+  useEffect(() => SnippetService.getInstance().subscribe(setSnippets), []);
+
+  const commands = useMemo(
+    () => listSlashCommands(snippets).filter(c => !c.aiInstruction || onAiCommand),
+    [snippets, onAiCommand]
+  );
+  const filteredCommands = useMemo(() => filterSlashCommands(commands, filter), [commands, filter]);
 
-  const filteredCommands = commands.filter(c => c.label.toLowerCase().includes(filter.toLowerCase()));
+  // Keep the highlighted entry visible while arrowing through a long list
+  useEffect(() => {
+    menuRef.current?.querySelector(`[data-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
 
   const updateMirror = () => {
     if (!textareaRef.current || !mirrorRef.current) return;
@@ -134,8 +175,17 @@ export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ classNam
     mirror.style.wordWrap = 'break-word';
   };
 
+  // Buat synthetic event untuk memicu onChange parent
+  const emitChange = (newValue: string) => {
+    if (!onChange) return;
+    const event = {
+      target: { value: newValue }
+    } as React.ChangeEvent<HTMLTextAreaElement>;
+    onChange(event);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (showMenu) {
+    if (showMenu && filteredCommands.length > 0) {
       if (e.key === 'ArrowDown') {
         e.preventDefault();
         setSelectedIndex(prev => (prev + 1) % filteredCommands.length);
@@ -144,7 +194,7 @@ export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ classNam
         e.preventDefault();
         setSelectedIndex(prev => (prev - 1 + filteredCommands.length) % filteredCommands.length);
         return;
-      } else if (e.key === 'Enter') {
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
         e.preventDefault();
         if (filteredCommands[selectedIndex]) {
           insertCommand(filteredCommands[selectedIndex]);
@@ -170,7 +220,7 @@ export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ classNam
     const textBeforeCursor = val.slice(0, cursorPosition);
     
     // Deteksi apakah user mengetik '/' di awal baris atau setelah spasi
-    const match = textBeforeCursor.match(/(?:^|\n| )\/([a-zA-Z]*)$/);
+    const match = textBeforeCursor.match(TRIGGER);
     
     if (match) {
       setFilter(match[1]);
@@ -197,7 +247,44 @@ export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ classNam
     }
   };
 
-  const insertCommand = (command: typeof commands[0]) => {
+  /** Asks what the AI command is about, leaves a marker where it was typed and swaps the result in. */
+  const runAiCommand = async (command: SlashCommand, before: string, after: string, lineText: string) => {
+    const ta = textareaRef.current;
+    if (!ta || !onAiCommand || !command.aiInstruction) return;
+
+    const target = window.prompt(`/${command.id}: ${command.label} — about what?`, lineText.trim());
+    if (target === null) return;
+    const instruction = command.aiInstruction.replace(/\{\{target\}\}/g, target.trim() || 'the text around the cursor');
+
+    const marker = `⏳ /${command.id} #${++aiRunCount.current}…`;
+    const pending: PendingAiCommand = { marker, controller: new AbortController() };
+    emitChange(before + marker + after);
+    setPendingAi(prev => [...prev, pending]);
+
+    // The note may change while the model works, so the marker is looked up again in the parent's current content
+    const replaceMarker = (text: string) => {
+      const update = (current: string) => {
+        const at = current.indexOf(marker);
+        if (at === -1) return current;
+        const block = text.includes('\n') && at > 0 && current[at - 1] !== '\n' ? `\n\n${text}` : text;
+        return current.slice(0, at) + block + current.slice(at + marker.length);
+      };
+      if (onUpdateValue) onUpdateValue(update);
+      else emitChange(update(ta.value));
+    };
+
+    try {
+      const result = await onAiCommand(instruction, { before, after }, pending.controller.signal);
+      replaceMarker(pending.controller.signal.aborted ? '' : result.trim());
+    } catch (e: any) {
+      replaceMarker('');
+      if (!isAbortError(e, pending.controller.signal)) alert(`/${command.id} failed: ` + e.message);
+    } finally {
+      setPendingAi(prev => prev.filter(p => p !== pending));
+    }
+  };
+
+  const insertCommand = (command: SlashCommand) => {
     if (!textareaRef.current) return;
     const ta = textareaRef.current;
     const cursorPosition = ta.selectionStart;
@@ -205,24 +292,25 @@ export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ classNam
     const textBeforeCursor = currentValue.slice(0, cursorPosition);
     const textAfterCursor = currentValue.slice(cursorPosition);
     
-    const match = textBeforeCursor.match(/(?:^|\n| )\/([a-zA-Z]*)$/);
+    const match = textBeforeCursor.match(TRIGGER);
     if (match) {
       const startPos = cursorPosition - match[1].length - 1; 
       const prefix = (startPos > 0 && currentValue[startPos-1] !== '\n' && currentValue[startPos-1] !== ' ') ? ' ' : '';
-      
-      const newValue = currentValue.slice(0, startPos) + prefix + command.text + textAfterCursor;
-      
-      // Buat synthetic event untuk memicu onChange parent
-      if (onChange) {
-        const event = {
-          target: { value: newValue }
-        } as React.ChangeEvent<HTMLTextAreaElement>;
-        onChange(event);
+      const before = currentValue.slice(0, startPos) + prefix;
+
+      if (command.aiInstruction) {
+        setShowMenu(false);
+        const lineStart = before.lastIndexOf('\n') + 1;
+        runAiCommand(command, before, textAfterCursor, before.slice(lineStart) + textAfterCursor.split('\n')[0]);
+        return;
       }
+
+      const { text, cursor } = expandSlashTemplate(command.template || '');
+      emitChange(before + text + textAfterCursor);
       
       setTimeout(() => {
         ta.focus();
-        const newPos = startPos + prefix.length + command.text.length;
+        const newPos = before.length + cursor;
         ta.setSelectionRange(newPos, newPos);
       }, 0);
     }
@@ -247,29 +335,51 @@ export const SlashCommandEditor: React.FC<SlashCommandEditorProps> = ({ classNam
         aria-hidden="true"
       />
       
+      {/* Running AI commands, each cancellable */}
+      {pendingAi.length > 0 && (
+        <div className="absolute bottom-3 right-3 z-40 flex flex-col items-end gap-1">
+          {pendingAi.map(p => (
+            <div key={p.marker} className="bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-lg shadow-lg px-2 py-1 text-[10px] font-bold text-[var(--ui-text-main)] flex items-center gap-2">
+              <Loader2 size={12} className="animate-spin text-[var(--ui-primary)]"/>
+              <span className="font-mono">{p.marker.slice(2, -1)}</span>
+              <button onClick={() => p.controller.abort()} className="flex items-center gap-0.5 text-[var(--ui-text-muted)] hover:text-red-500" title="Cancel this command">
+                <X size={12}/> Cancel
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Slash Command Popup Menu */}
       {showMenu && filteredCommands.length > 0 && (
         <div 
-          className="absolute z-50 bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-lg shadow-xl py-1 w-48 overflow-hidden"
+          className="absolute z-50 bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-lg shadow-xl py-1 w-64 overflow-hidden"
           style={{ top: menuPos.top, left: menuPos.left }}
         >
-          <div className="px-3 py-2 text-[10px] font-bold text-[var(--ui-text-muted)] uppercase tracking-wider border-b border-[var(--ui-border)]">
-            Insert Callout
-          </div>
-          <div className="max-h-48 overflow-y-auto">
+          <div ref={menuRef} className="max-h-72 overflow-y-auto">
             {filteredCommands.map((cmd, idx) => (
-              <button
-                key={cmd.id}
-                onClick={() => insertCommand(cmd)}
-                className={`w-full text-left px-3 py-2 flex items-center gap-2 text-sm transition-colors ${
-                  idx === selectedIndex 
-                    ? 'bg-[var(--ui-primary)]/10 text-[var(--ui-primary)]' 
-                    : 'text-[var(--ui-text-main)] hover:bg-[var(--ui-bg)]'
-                }`}
-              >
-                {cmd.icon}
-                <span className="font-medium">{cmd.label}</span>
-              </button>
+              <React.Fragment key={`${cmd.group}:${cmd.id}`}>
+                {(idx === 0 || filteredCommands[idx - 1].group !== cmd.group) && (
+                  <div className="px-3 pt-2 pb-1 text-[10px] font-bold text-[var(--ui-text-muted)] uppercase tracking-wider">
+                    {SLASH_GROUP_LABELS[cmd.group]}
+                  </div>
+                )}
+                <button
+                  data-index={idx}
+                  onMouseDown={e => e.preventDefault()} // Keep the caret in the textarea
+                  onClick={() => insertCommand(cmd)}
+                  title={cmd.description}
+                  className={`w-full text-left px-3 py-1.5 flex items-center gap-2 text-sm transition-colors ${
+                    idx === selectedIndex 
+                      ? 'bg-[var(--ui-primary)]/10 text-[var(--ui-primary)]' 
+                      : 'text-[var(--ui-text-main)] hover:bg-[var(--ui-bg)]'
+                  }`}
+                >
+                  {(cmd.group === 'callout' && CALLOUT_ICONS[cmd.id]) || GROUP_ICONS[cmd.group]}
+                  <span className="font-medium truncate flex-1">{cmd.label}</span>
+                  <span className="font-mono text-[10px] text-[var(--ui-text-muted)] shrink-0">/{cmd.id}</span>
+                </button>
+              </React.Fragment>
             ))}
           </div>
         </div>
@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Plus, Trash2 } from 'lucide-react';
+import { SnippetService } from '../services/snippetService';
+import { SlashSnippet } from '../types';
+
+const SnippetPanel: React.FC = () => {
+  const [service] = useState(SnippetService.getInstance());
+  const [snippets, setSnippets] = useState<SlashSnippet[]>(service.getSnippets());
+  const [trigger, setTrigger] = useState('');
+  const [label, setLabel] = useState('');
+  const [text, setText] = useState('');
+
+  useEffect(() => service.subscribe(setSnippets), [service]);
+
+  const addSnippet = () => {
+      try {
+          service.saveSnippet({ trigger, label, text });
+          setTrigger(''); setLabel(''); setText('');
+      } catch (e: any) {
+          alert("Snippet not saved: " + e.message);
+      }
+  };
+
+  const removeSnippet = (snippet: SlashSnippet) => {
+      if (confirm(`Delete /${snippet.trigger}?`)) service.removeSnippet(snippet.id);
+  };
+
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-3">
+          <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><FileText size={16}/> Slash Snippets</h3>
+          <p className="text-[10px] text-[var(--ui-text-muted)]">Your own inserts for the "/" menu in the code editor. Use {'{{cursor}}'} to place the caret, {'{{date}}'} and {'{{time}}'} for stamps.</p>
+
+          {snippets.length > 0 && (
+              <div className="space-y-1">
+                  {snippets.map(s => (
+                      <div key={s.id} className="flex items-center gap-2 text-xs rounded-lg px-2 py-1 hover:bg-[var(--ui-bg)]">
+                          <span className="font-mono text-[var(--ui-primary)] shrink-0">/{s.trigger}</span>
+                          <span className="flex-1 truncate text-[var(--ui-text-main)]" title={s.text}>{s.label}</span>
+                          <button onClick={() => removeSnippet(s)} title="Delete"><Trash2 size={12} className="text-[var(--ui-text-muted)] hover:text-red-500"/></button>
+                      </div>
+                  ))}
+              </div>
+          )}
+
+          <div className="space-y-2">
+              <div className="flex gap-2">
+                  <input value={trigger} onChange={e => setTrigger(e.target.value)} placeholder="trigger (e.g. soap)" className="w-1/3 bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded-lg px-2 py-1 text-xs font-mono text-[var(--ui-text-main)] outline-none" />
+                  <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Label" className="flex-1 bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded-lg px-2 py-1 text-xs text-[var(--ui-text-main)] outline-none" />
+              </div>
+              <textarea value={text} onChange={e => setText(e.target.value)} placeholder={'## Subjective\n{{cursor}}\n## Objective\n'} rows={4} className="w-full bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded-lg px-2 py-1 text-xs font-mono text-[var(--ui-text-main)] outline-none resize-y" />
+              <button onClick={addSnippet} disabled={!trigger.trim() || !text.trim()} className="flex items-center gap-1 px-3 py-1 rounded-lg border border-[var(--ui-border)] text-xs font-bold text-[var(--ui-text-main)] hover:bg-[var(--ui-bg)] disabled:opacity-50">
+                  <Plus size={12}/> Add Snippet
+              </button>
+          </div>
+      </div>
+  );
+};
+
+export default SnippetPanel;
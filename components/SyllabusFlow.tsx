@@ -1,22 +1,25 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Upload, FileText, CheckCircle, Circle, Play, RefreshCw, Trash2, ListChecks, ArrowRight, FolderOpen, Save, Type, Edit2, Archive, Zap, PauseCircle, StopCircle, Layout, AlertCircle, CheckCircle2, Loader2, BookOpen, Settings2, Eye, ShieldAlert, GripVertical, ChevronDown, ChevronUp, Split, Cpu, Sparkles } from 'lucide-react';
-import { SyllabusItem, UploadedFile, GenerationConfig, SavedQueue, AIProvider, AppModel, GEMINI_MODELS_LIST } from '../types';
+import { Upload, FileText, CheckCircle, Circle, Play, RefreshCw, Trash2, ListChecks, ArrowRight, FolderOpen, Save, Type, Edit2, Archive, Zap, PauseCircle, StopCircle, Layout, AlertCircle, CheckCircle2, Loader2, BookOpen, Settings2, Eye, ShieldAlert, GripVertical, ChevronDown, ChevronUp, ChevronRight, Split, Cpu, Sparkles, Target } from 'lucide-react';
+import { SyllabusItem, UploadedFile, GenerationConfig, SavedQueue, AIProvider, ProviderModelMap } from '../types';
 import FileUploader from './FileUploader';
-import { parseSyllabusToTopics, parseSyllabusFromText } from '../services/geminiService';
-import { parseSyllabusFromTextGroq } from '../services/groqService';
+import { getAttachmentSupport, prepareNoteFiles } from '../utils/modelCatalog';
+import { getProvider, listProviders, getModelOptions } from '../services/providerRegistry';
 import { StorageService } from '../services/storageService';
 import { QueueService } from '../services/queueService';
+import { UsageLedgerService } from '../services/usageLedgerService';
+import { groupSyllabusByModule } from '../utils/syllabus';
+import { OUTPUT_LANGUAGES, getOutputLanguage } from '../utils/prompts';
 
 interface SyllabusFlowProps {
   config: GenerationConfig;
   onSelectTopic: (topic: string) => void;
-  groqModels: {value: string, label: string, badge: string}[];
+  providerModels: ProviderModelMap;
 }
 
 type TabMode = 'upload' | 'text' | 'library';
 
-const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groqModels }) => {
+const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, providerModels }) => {
   const [syllabusFile, setSyllabusFile] = useState<UploadedFile[]>([]);
   const [rawText, setRawText] = useState('');
   
@@ -27,6 +30,7 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
   
   const [queueName, setQueueName] = useState('My Curriculum');
   const [queueId, setQueueId] = useState<string | null>(null);
+  const [queueLanguage, setQueueLanguage] = useState<string | undefined>(undefined); // Overrides config.language for this queue
   
   // UX State
   const [isParsing, setIsParsing] = useState(false);
@@ -53,6 +57,8 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
   });
 
   const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
+  const [collapsedModules, setCollapsedModules] = useState<Record<string, boolean>>({});
+  const [expandedTopics, setExpandedTopics] = useState<Record<string, boolean>>({});
   const [viewingItem, setViewingItem] = useState<SyllabusItem | null>(null);
   const [editedStructure, setEditedStructure] = useState('');
 
@@ -66,6 +72,7 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
       const meta = JSON.parse(savedMeta);
       setQueueName(meta.name);
       setQueueId(meta.id);
+      setQueueLanguage(meta.language);
     }
     const savedQueue = localStorage.getItem('neuro_syllabus_queue');
     if (savedQueue) {
@@ -89,8 +96,8 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('neuro_syllabus_meta', JSON.stringify({ id: queueId, name: queueName }));
-  }, [queueName, queueId]);
+    localStorage.setItem('neuro_syllabus_meta', JSON.stringify({ id: queueId, name: queueName, language: queueLanguage }));
+  }, [queueName, queueId, queueLanguage]);
 
   const loadLibrary = async () => {
     const queues = await storageService.getQueues();
@@ -111,29 +118,18 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
     setIsParsing(true);
     try {
       let topics: SyllabusItem[] = [];
-      const currentProvider = config.provider;
+      const adapter = getProvider(config.provider);
 
       if (activeTab === 'upload') {
         if (syllabusFile.length === 0) throw new Error("Please upload a file.");
-        if (currentProvider === AIProvider.GEMINI) {
-            topics = await parseSyllabusToTopics(config, syllabusFile[0]);
-        } else if (currentProvider === AIProvider.GROQ) {
-            const file = syllabusFile[0];
-            if (file.mimeType.includes('text') || file.name.match(/\.(md|txt|json)$/i)) {
-                const decoded = atob(file.data);
-                topics = await parseSyllabusFromTextGroq(config, decoded);
-            } else {
-                throw new Error("Groq currently supports text-based files for parsing. Use Gemini for PDF/Images.");
-            }
+        if (getAttachmentSupport(config.model, syllabusFile[0]) === 'unsupported') {
+            throw new Error(`${config.model} can't read ${syllabusFile[0].name}. Paste the syllabus as text or pick a model that reads images & PDF.`);
         }
+        topics = await adapter.parseSyllabusFile(config, prepareNoteFiles(config.model, syllabusFile)[0]);
         setSyllabusFile([]);
       } else if (activeTab === 'text') {
         if (!rawText.trim()) throw new Error("Please enter syllabus text.");
-        if (currentProvider === AIProvider.GEMINI) {
-            topics = await parseSyllabusFromText(config, rawText);
-        } else {
-            topics = await parseSyllabusFromTextGroq(config, rawText);
-        }
+        topics = await adapter.parseSyllabusText(config, rawText);
         setRawText('');
       }
       setQueue(topics);
@@ -147,7 +143,15 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
   const handleDragOver = (e: React.DragEvent, index: number) => { e.preventDefault(); e.dataTransfer.dropEffect = "move"; };
   const handleDrop = (e: React.DragEvent, dropIndex: number) => { e.preventDefault(); if (draggedItemIndex === null || draggedItemIndex === dropIndex) return; const newQueue = [...queue]; const [movedItem] = newQueue.splice(draggedItemIndex, 1); newQueue.splice(dropIndex, 0, movedItem); setQueue(newQueue); queueService.setQueue(newQueue); setDraggedItemIndex(null); };
 
-  const handleStartBatch = () => {
+  // `moduleId` runs a single syllabus module (its notes are filed into a matching Folder)
+  const handleStartBatch = (moduleId?: string) => {
+     // SOFT BUDGET: warn (don't block) when the forecast crosses a configured limit
+     const pendingCount = queue.filter(i => i.status !== 'done' && (!moduleId || i.moduleId === moduleId)).length;
+     const budgetWarning = UsageLedgerService.getInstance().checkBatchBudget(pendingCount);
+     if (budgetWarning && !confirm(`${budgetWarning}\n\nStart the batch anyway?`)) return;
+
+     const activeQueueId = queueId || Date.now().toString();
+     if (!queueId) setQueueId(activeQueueId);
      const runConfig: GenerationConfig = { 
          ...config, 
          autoApprove,
@@ -157,21 +161,25 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
          provider: batchConfig.contentProvider || config.provider,
          model: batchConfig.contentModel || config.model,
          customStructurePrompt: batchConfig.customStructurePrompt || undefined,
-         customContentPrompt: batchConfig.customContentPrompt || undefined
+         customContentPrompt: batchConfig.customContentPrompt || undefined,
+         language: queueLanguage || config.language
      };
      if (circuitStatus && circuitStatus.includes("CIRCUIT")) { queueService.resetCircuit(); }
-     queueService.startProcessing(runConfig);
+     queueService.startProcessing(runConfig, activeQueueId, moduleId);
   };
   const handleStopBatch = () => { queueService.stop(); };
+  const toggleModule = (key: string) => setCollapsedModules(prev => ({ ...prev, [key]: !prev[key] }));
+  const toggleTopicDetails = (id: string) => setExpandedTopics(prev => ({ ...prev, [id]: !prev[id] }));
   const openReview = (item: SyllabusItem) => { setViewingItem(item); setEditedStructure(item.structure || "# Generating Structure..."); };
   const handleApprove = () => { if (viewingItem) { queueService.updateItemStructure(viewingItem.id, editedStructure); setViewingItem(null); } };
 
-  const handleSaveToLibrary = async () => { if (queue.length === 0) return; const idToSave = queueId || Date.now().toString(); const newQueue: SavedQueue = { id: idToSave, name: queueName, items: queue, timestamp: Date.now() }; await storageService.saveQueue(newQueue); setQueueId(idToSave); await loadLibrary(); alert("Saved to Library!"); };
-  const handleLoadFromLibrary = (saved: SavedQueue) => { if (isProcessing) return alert("Stop processing first."); if (queue.length > 0 && confirm("Overwrite active queue?") === false) return; setQueue(saved.items); queueService.setQueue(saved.items); setQueueName(saved.name); setQueueId(saved.id); setActiveTab('upload'); };
+  const handleSaveToLibrary = async () => { if (queue.length === 0) return; const idToSave = queueId || Date.now().toString(); const newQueue: SavedQueue = { id: idToSave, name: queueName, items: queue, timestamp: Date.now(), usage: UsageLedgerService.getInstance().summarize({ queueId: idToSave }), language: queueLanguage }; await storageService.saveQueue(newQueue); setQueueId(idToSave); await loadLibrary(); alert("Saved to Library!"); };
+  const handleLoadFromLibrary = (saved: SavedQueue) => { if (isProcessing) return alert("Stop processing first."); if (queue.length > 0 && confirm("Overwrite active queue?") === false) return; setQueue(saved.items); queueService.setQueue(saved.items); setQueueName(saved.name); setQueueId(saved.id); setQueueLanguage(saved.language); setActiveTab('upload'); };
   const handleDeleteFromLibrary = async (id: string, e: React.MouseEvent) => { e.stopPropagation(); if (confirm("Delete this curriculum?")) { await storageService.deleteQueue(id); await loadLibrary(); } };
-  const handleClearActive = () => { if (isProcessing) return alert("Stop processing first."); if (confirm("Clear active workspace?")) { setQueue([]); queueService.setQueue([]); setQueueId(null); setQueueName('My Curriculum'); localStorage.removeItem('neuro_syllabus_queue'); localStorage.removeItem('neuro_syllabus_meta'); setBatchConfig({ structureProvider: null, structureModel: '', contentProvider: null, contentModel: '', customStructurePrompt: '', customContentPrompt: '' }); } };
+  const handleClearActive = () => { if (isProcessing) return alert("Stop processing first."); if (confirm("Clear active workspace?")) { setQueue([]); queueService.setQueue([]); setQueueId(null); setQueueName('My Curriculum'); setQueueLanguage(undefined); localStorage.removeItem('neuro_syllabus_queue'); localStorage.removeItem('neuro_syllabus_meta'); setBatchConfig({ structureProvider: null, structureModel: '', contentProvider: null, contentModel: '', customStructurePrompt: '', customContentPrompt: '' }); } };
 
   const completedCount = queue.filter(q => q.status === 'done').length;
+  const moduleGroups = useMemo(() => groupSyllabusByModule(queue), [queue]);
   const phase1Count = queue.filter(q => ['struct_ready', 'generating_note', 'done', 'paused_for_review'].includes(q.status)).length;
   const phase1Progress = queue.length > 0 ? (phase1Count / queue.length) * 100 : 0;
   const phase2Count = queue.filter(q => q.status === 'done').length;
@@ -191,6 +199,77 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
       }
   };
 
+  const renderQueueItem = (item: SyllabusItem, index: number) => {
+    const isActive = ['generating_note', 'drafting_struct'].includes(item.status);
+    const isPaused = item.status === 'paused_for_review';
+    const isDone = item.status === 'done';
+    const isError = item.status === 'error';
+    const hasRetry = item.retryCount && item.retryCount > 0;
+    const hasDetails = (item.objectives?.length || 0) + (item.subtopics?.length || 0) > 0;
+
+    return (
+      <div 
+        key={item.id} 
+        draggable={true}
+        onDragStart={(e) => handleDragStart(e, index)}
+        onDragOver={(e) => handleDragOver(e, index)}
+        onDrop={(e) => handleDrop(e, index)}
+        className={`relative p-3 rounded-lg border transition-all duration-300 group cursor-grab active:cursor-grabbing ${
+          isActive ? 'bg-[var(--ui-primary)]/10 border-[var(--ui-primary)] shadow-[0_0_15px_rgba(99,102,241,0.2)]' : 
+          isPaused ? 'bg-amber-900/10 border-amber-500/50 border-dashed' :
+          isDone ? 'bg-green-900/10 border-green-900/30' : 
+          isError ? 'bg-red-900/10 border-red-900/30' : 'bg-[var(--ui-surface)] border-[var(--ui-border)]'
+      }`}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 overflow-hidden flex-1" onClick={() => !isProcessing && onSelectTopic(item.topic)}>
+            <div className="text-[var(--ui-text-muted)] cursor-move" title="Drag to reorder">
+              <GripVertical size={14} />
+            </div>
+            <span className="text-[10px] font-mono text-[var(--ui-text-muted)] w-5 shrink-0">{(index + 1).toString().padStart(2, '0')}</span>
+            <div className={`p-1.5 rounded-full shrink-0 ${isPaused ? 'bg-amber-500/20 text-amber-500' : 'bg-[var(--ui-bg)] text-[var(--ui-text-muted)]'}`}>
+               {getStatusIcon(item)}
+            </div>
+            <div className="flex flex-col min-w-0">
+              <div className={`text-sm truncate ${isDone ? 'text-[var(--ui-text-muted)]' : 'text-[var(--ui-text-main)] font-bold'}`}>{item.topic}</div>
+              <div className={`text-[10px] truncate ${isActive ? 'text-[var(--ui-primary)] animate-pulse' : isError ? 'text-red-400' : isPaused ? 'text-amber-400' : 'text-[var(--ui-text-muted)]'}`}>
+                  {hasRetry ? `(Retry ${item.retryCount}) ` : ''} 
+                  {isPaused ? 'Waiting for Review (Click Eye)' : item.status}
+                  {item.errorMsg && ` - ${item.errorMsg}`}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+             {hasDetails && (
+                 <button onClick={() => toggleTopicDetails(item.id)} className="p-1 text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]" title="Objectives & subtopics">
+                     {expandedTopics[item.id] ? <ChevronUp size={14}/> : <ChevronDown size={14}/>}
+                 </button>
+             )}
+             {isPaused && (
+                 <button onClick={() => openReview(item)} className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-bold rounded animate-pulse shadow-lg">REVIEW</button>
+             )}
+             {isDone && <button className="p-1.5 bg-[var(--ui-bg)] hover:bg-green-900/30 text-[var(--ui-text-muted)] hover:text-green-400 rounded"><BookOpen size={14} /></button>}
+          </div>
+        </div>
+        {hasDetails && expandedTopics[item.id] && (
+          <div className="mt-2 ml-12 space-y-2 text-[11px] text-[var(--ui-text-muted)] animate-fade-in">
+            {item.objectives && item.objectives.length > 0 && (
+              <div>
+                <div className="text-[10px] font-bold uppercase tracking-wider flex items-center gap-1"><Target size={10}/> Learning Objectives</div>
+                <ul className="list-disc ml-4">{item.objectives.map((o, i) => <li key={i}>{o}</li>)}</ul>
+              </div>
+            )}
+            {item.subtopics && item.subtopics.length > 0 && (
+              <div>
+                <div className="text-[10px] font-bold uppercase tracking-wider">Subtopics</div>
+                <ul className="list-disc ml-4">{item.subtopics.map((t, i) => <li key={i}>{t}</li>)}</ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-4xl mx-auto h-full flex flex-col animate-fade-in p-6 relative">
       
@@ -241,6 +320,9 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                   <div className="text-xs text-[var(--ui-text-muted)] mb-4 space-y-1">
                      <p>{saved.items.length} Topics</p>
                      <p>Status: {saved.items.filter(i => i.status === 'done').length}/{saved.items.length} Complete</p>
+                     {saved.usage && saved.usage.calls > 0 && (
+                        <p>Usage: {(saved.usage.inputTokens + saved.usage.outputTokens).toLocaleString()} tokens · ${saved.usage.costUsd.toFixed(2)}</p>
+                     )}
                   </div>
                   <button onClick={() => handleLoadFromLibrary(saved)} className="w-full py-2 bg-[var(--ui-bg)] hover:bg-[var(--ui-border)] text-xs font-bold text-[var(--ui-text-main)] rounded-lg transition-colors border border-[var(--ui-border)]">Load Workspace</button>
                </div>
@@ -262,7 +344,7 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                                 <h3 className="font-bold text-[var(--ui-text-main)] text-sm">{queueName}</h3>
                                 <button onClick={() => { const n = prompt("Rename:", queueName); if(n) setQueueName(n); }} className="text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]"><Edit2 size={12} /></button>
                             </div>
-                            <p className="text-[10px] text-[var(--ui-text-muted)]">{queue.length} Topics Loaded</p>
+                            <p className="text-[10px] text-[var(--ui-text-muted)]">{queue.length} Topics Loaded{moduleGroups.some(g => g.moduleId) ? ` · ${moduleGroups.filter(g => g.moduleId).length} Modules` : ''}</p>
                         </div>
                     </div>
                     
@@ -281,10 +363,23 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                             </div>
                         )}
 
+                        {/* Queue language (overrides the global default) */}
+                        {!isProcessing && (
+                            <select 
+                                value={queueLanguage || ''}
+                                onChange={(e) => setQueueLanguage(e.target.value || undefined)}
+                                title="Output language for every note in this queue"
+                                className="bg-[var(--ui-bg)] p-1.5 rounded-lg border border-[var(--ui-border)] text-[10px] font-bold text-[var(--ui-text-main)] outline-none"
+                            >
+                                <option value="">Language: Default ({getOutputLanguage(config.language).label})</option>
+                                {OUTPUT_LANGUAGES.map(l => <option key={l.code} value={l.code}>Language: {l.label}</option>)}
+                            </select>
+                        )}
+
                         {/* START / STOP */}
                         {!isProcessing ? (
                             <button 
-                                onClick={handleStartBatch}
+                                onClick={() => handleStartBatch()}
                                 disabled={completedCount === queue.length}
                                 className={`flex items-center gap-2 px-4 py-2 text-xs font-bold rounded-lg transition-colors shadow-lg whitespace-nowrap w-full md:w-auto justify-center
                                 ${completedCount === queue.length ? 'bg-[var(--ui-bg)] text-[var(--ui-text-muted)]' : 'bg-[var(--ui-primary)] hover:opacity-90 text-white'}`}
@@ -292,7 +387,7 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                                 <Zap size={14} fill="currentColor" /> {circuitStatus?.includes("BREAKER") ? "RESET" : "START BATCH"}
                             </button>
                         ) : (
-                            <button onClick={handleStopBatch} className="flex items-center gap-2 px-4 py-2 bg-red-900/80 hover:bg-red-800 text-white text-xs font-bold rounded-lg transition-colors shadow-lg animate-pulse w-full md:w-auto justify-center">
+                            <button onClick={handleStopBatch} title="Stop the queue and cancel the topic in progress" className="flex items-center gap-2 px-4 py-2 bg-red-900/80 hover:bg-red-800 text-white text-xs font-bold rounded-lg transition-colors shadow-lg animate-pulse w-full md:w-auto justify-center">
                                 <StopCircle size={14} /> STOP
                             </button>
                         )}
@@ -334,18 +429,15 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                                         >
                                             Same as Main
                                         </button>
-                                        <button 
-                                            onClick={() => setBatchConfig({...batchConfig, structureProvider: AIProvider.GEMINI, structureModel: AppModel.GEMINI_3_FLASH})}
-                                            className={`flex-1 py-1.5 text-[10px] font-bold rounded border transition-colors ${batchConfig.structureProvider === AIProvider.GEMINI ? 'bg-indigo-900/40 border-indigo-500 text-indigo-200' : 'bg-[var(--ui-bg)] border-[var(--ui-border)] text-[var(--ui-text-muted)]'}`}
-                                        >
-                                            Gemini
-                                        </button>
-                                        <button 
-                                            onClick={() => setBatchConfig({...batchConfig, structureProvider: AIProvider.GROQ, structureModel: AppModel.GROQ_LLAMA_3_1_8B})}
-                                            className={`flex-1 py-1.5 text-[10px] font-bold rounded border transition-colors ${batchConfig.structureProvider === AIProvider.GROQ ? 'bg-orange-900/40 border-orange-500 text-orange-200' : 'bg-[var(--ui-bg)] border-[var(--ui-border)] text-[var(--ui-text-muted)]'}`}
-                                        >
-                                            Groq
-                                        </button>
+                                        {listProviders().map(p => (
+                                            <button 
+                                                key={p.id}
+                                                onClick={() => setBatchConfig({...batchConfig, structureProvider: p.id, structureModel: getModelOptions(p.id, providerModels)[0]?.value || p.defaultModel})}
+                                                className={`flex-1 py-1.5 text-[10px] font-bold rounded border transition-colors ${batchConfig.structureProvider === p.id ? 'bg-indigo-900/40 border-indigo-500 text-indigo-200' : 'bg-[var(--ui-bg)] border-[var(--ui-border)] text-[var(--ui-text-muted)]'}`}
+                                            >
+                                                {p.label}
+                                            </button>
+                                        ))}
                                     </div>
                                 </div>
                                 
@@ -357,7 +449,7 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                                             onChange={(e) => setBatchConfig({...batchConfig, structureModel: e.target.value})}
                                             className="w-full bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded p-2 text-xs text-[var(--ui-text-main)] outline-none"
                                         >
-                                            {(batchConfig.structureProvider === AIProvider.GEMINI ? GEMINI_MODELS_LIST : groqModels).map(m => (
+                                            {getModelOptions(batchConfig.structureProvider, providerModels).map(m => (
                                                 <option key={m.value} value={m.value}>{m.label}</option>
                                             ))}
                                         </select>
@@ -395,18 +487,15 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                                         >
                                             Global
                                         </button>
-                                        <button 
-                                            onClick={() => setBatchConfig({...batchConfig, contentProvider: AIProvider.GEMINI, contentModel: AppModel.GEMINI_2_5_FLASH})}
-                                            className={`flex-1 py-1.5 text-[10px] font-bold rounded border transition-colors ${batchConfig.contentProvider === AIProvider.GEMINI ? 'bg-indigo-900/40 border-indigo-500 text-indigo-200' : 'bg-[var(--ui-bg)] border-[var(--ui-border)] text-[var(--ui-text-muted)]'}`}
-                                        >
-                                            Gemini
-                                        </button>
-                                        <button 
-                                            onClick={() => setBatchConfig({...batchConfig, contentProvider: AIProvider.GROQ, contentModel: AppModel.GROQ_LLAMA_3_1_8B})}
-                                            className={`flex-1 py-1.5 text-[10px] font-bold rounded border transition-colors ${batchConfig.contentProvider === AIProvider.GROQ ? 'bg-orange-900/40 border-orange-500 text-orange-200' : 'bg-[var(--ui-bg)] border-[var(--ui-border)] text-[var(--ui-text-muted)]'}`}
-                                        >
-                                            Groq
-                                        </button>
+                                        {listProviders().map(p => (
+                                            <button 
+                                                key={p.id}
+                                                onClick={() => setBatchConfig({...batchConfig, contentProvider: p.id, contentModel: getModelOptions(p.id, providerModels)[0]?.value || p.defaultModel})}
+                                                className={`flex-1 py-1.5 text-[10px] font-bold rounded border transition-colors ${batchConfig.contentProvider === p.id ? 'bg-indigo-900/40 border-indigo-500 text-indigo-200' : 'bg-[var(--ui-bg)] border-[var(--ui-border)] text-[var(--ui-text-muted)]'}`}
+                                            >
+                                                {p.label}
+                                            </button>
+                                        ))}
                                     </div>
                                 </div>
                                 
@@ -418,7 +507,7 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                                             onChange={(e) => setBatchConfig({...batchConfig, contentModel: e.target.value})}
                                             className="w-full bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded p-2 text-xs text-[var(--ui-text-main)] outline-none"
                                         >
-                                            {(batchConfig.contentProvider === AIProvider.GEMINI ? GEMINI_MODELS_LIST : groqModels).map(m => (
+                                            {getModelOptions(batchConfig.contentProvider, providerModels).map(m => (
                                                 <option key={m.value} value={m.value}>{m.label}</option>
                                             ))}
                                         </select>
@@ -484,7 +573,7 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
                    <button onClick={() => setActiveTab('text')} className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${activeTab === 'text' ? 'bg-[var(--ui-primary)] text-white shadow' : 'text-[var(--ui-text-muted)]'}`}>Raw Text</button>
                 </div>
 
-                {activeTab === 'upload' ? <FileUploader files={syllabusFile} onFilesChange={setSyllabusFile} /> : <textarea value={rawText} onChange={(e) => setRawText(e.target.value)} placeholder="Paste syllabus text, JSON list, or loose topics here..." className="w-full h-32 bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded-xl p-3 text-sm text-[var(--ui-text-main)] focus:border-[var(--ui-primary)] outline-none resize-none" />}
+                {activeTab === 'upload' ? <FileUploader files={syllabusFile} onFilesChange={setSyllabusFile} model={config.model} /> : <textarea value={rawText} onChange={(e) => setRawText(e.target.value)} placeholder="Paste syllabus text, JSON list, or loose topics here..." className="w-full h-32 bg-[var(--ui-bg)] border border-[var(--ui-border)] rounded-xl p-3 text-sm text-[var(--ui-text-main)] focus:border-[var(--ui-primary)] outline-none resize-none" />}
                 
                 {error && <div className="text-red-400 text-xs text-center bg-red-900/10 p-2 rounded">{error}</div>}
 
@@ -496,54 +585,35 @@ const SyllabusFlow: React.FC<SyllabusFlowProps> = ({ config, onSelectTopic, groq
           ) : (
             <div className="flex-1 flex flex-col overflow-hidden">
               <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 pr-2 pb-10">
-                {queue.map((item, index) => {
-                  const isActive = ['generating_note', 'drafting_struct'].includes(item.status);
-                  const isPaused = item.status === 'paused_for_review';
-                  const isDone = item.status === 'done';
-                  const isError = item.status === 'error';
-                  const hasRetry = item.retryCount && item.retryCount > 0;
-
+                {moduleGroups.some(g => g.moduleId) ? moduleGroups.map(group => {
+                  const groupKey = group.moduleId || 'ungrouped';
+                  const isCollapsed = collapsedModules[groupKey];
+                  const doneCount = group.items.filter(({ item }) => item.status === 'done').length;
                   return (
-                    <div 
-                      key={item.id} 
-                      draggable={true}
-                      onDragStart={(e) => handleDragStart(e, index)}
-                      onDragOver={(e) => handleDragOver(e, index)}
-                      onDrop={(e) => handleDrop(e, index)}
-                      className={`relative p-3 rounded-lg border transition-all duration-300 group cursor-grab active:cursor-grabbing ${
-                        isActive ? 'bg-[var(--ui-primary)]/10 border-[var(--ui-primary)] shadow-[0_0_15px_rgba(99,102,241,0.2)]' : 
-                        isPaused ? 'bg-amber-900/10 border-amber-500/50 border-dashed' :
-                        isDone ? 'bg-green-900/10 border-green-900/30' : 
-                        isError ? 'bg-red-900/10 border-red-900/30' : 'bg-[var(--ui-surface)] border-[var(--ui-border)]'
-                    }`}>
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3 overflow-hidden flex-1" onClick={() => !isProcessing && onSelectTopic(item.topic)}>
-                          <div className="text-[var(--ui-text-muted)] cursor-move" title="Drag to reorder">
-                            <GripVertical size={14} />
-                          </div>
-                          <span className="text-[10px] font-mono text-[var(--ui-text-muted)] w-5 shrink-0">{(index + 1).toString().padStart(2, '0')}</span>
-                          <div className={`p-1.5 rounded-full shrink-0 ${isPaused ? 'bg-amber-500/20 text-amber-500' : 'bg-[var(--ui-bg)] text-[var(--ui-text-muted)]'}`}>
-                             {getStatusIcon(item)}
-                          </div>
-                          <div className="flex flex-col min-w-0">
-                            <div className={`text-sm truncate ${isDone ? 'text-[var(--ui-text-muted)]' : 'text-[var(--ui-text-main)] font-bold'}`}>{item.topic}</div>
-                            <div className={`text-[10px] truncate ${isActive ? 'text-[var(--ui-primary)] animate-pulse' : isError ? 'text-red-400' : isPaused ? 'text-amber-400' : 'text-[var(--ui-text-muted)]'}`}>
-                                {hasRetry ? `(Retry ${item.retryCount}) ` : ''} 
-                                {isPaused ? 'Waiting for Review (Click Eye)' : item.status}
-                                {item.errorMsg && ` - ${item.errorMsg}`}
-                            </div>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-2">
-                           {isPaused && (
-                               <button onClick={() => openReview(item)} className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-bold rounded animate-pulse shadow-lg">REVIEW</button>
-                           )}
-                           {isDone && <button className="p-1.5 bg-[var(--ui-bg)] hover:bg-green-900/30 text-[var(--ui-text-muted)] hover:text-green-400 rounded"><BookOpen size={14} /></button>}
+                    <div key={groupKey} className="rounded-xl border border-[var(--ui-border)] bg-[var(--ui-bg)]/40">
+                      <div className="flex items-center gap-2 p-3">
+                        <button onClick={() => toggleModule(groupKey)} className="text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]">
+                          {isCollapsed ? <ChevronRight size={16}/> : <ChevronDown size={16}/>}
+                        </button>
+                        <FolderOpen size={16} className="text-[var(--ui-primary)] shrink-0"/>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-bold text-[var(--ui-text-main)] truncate">{group.title}</div>
+                          <div className="text-[10px] text-[var(--ui-text-muted)]">{doneCount}/{group.items.length} topics done</div>
                         </div>
+                        {group.moduleId && !isProcessing && doneCount < group.items.length && (
+                          <button onClick={() => handleStartBatch(group.moduleId!)} title="Generate this module into its own folder" className="flex items-center gap-1 px-3 py-1 text-[10px] font-bold rounded-lg bg-[var(--ui-primary)]/10 text-[var(--ui-primary)] hover:bg-[var(--ui-primary)]/20">
+                            <Play size={12}/> RUN MODULE
+                          </button>
+                        )}
                       </div>
+                      {!isCollapsed && (
+                        <div className="space-y-2 px-3 pb-3">
+                          {group.items.map(({ item, index }) => renderQueueItem(item, index))}
+                        </div>
+                      )}
                     </div>
                   );
-                })}
+                }) : queue.map((item, index) => renderQueueItem(item, index))}
               </div>
             </div>
           )}
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, Trash2 } from 'lucide-react';
+import { UsageBudget, UsageSummary } from '../types';
+import { UsageLedgerService, toDayKey } from '../services/usageLedgerService';
+
+const formatTokens = (usage: UsageSummary) => (usage.inputTokens + usage.outputTokens).toLocaleString();
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+
+const UsageDashboard: React.FC = () => {
+  const [ledger] = useState(UsageLedgerService.getInstance());
+  const [, setTick] = useState(0);
+  const [budget, setBudget] = useState<UsageBudget>(ledger.getBudget());
+
+  useEffect(() => ledger.subscribe(() => setTick(t => t + 1)), [ledger]);
+
+  const today = ledger.summarize({ day: toDayKey(Date.now()) });
+  const daily = ledger.getDailyTotals(7);
+  const models = ledger.getModelBreakdown().slice(0, 6);
+  const runs = ledger.getQueueRuns().slice(0, 5);
+  const peak = Math.max(1, ...daily.map(d => d.usage.inputTokens + d.usage.outputTokens));
+  const todayTokens = today.inputTokens + today.outputTokens;
+
+  const updateBudget = (field: keyof UsageBudget, value: string) => {
+      const parsed = parseFloat(value);
+      const next = { ...budget, [field]: isNaN(parsed) || parsed <= 0 ? undefined : parsed };
+      setBudget(next);
+      ledger.setBudget(next);
+  };
+
+  const handleClear = () => {
+      if (confirm("Clear the entire usage history? Budgets are kept.")) ledger.clear();
+  };
+
+  return (
+      <div className="bg-[var(--ui-surface)] p-6 rounded-2xl border border-[var(--ui-border)] shadow-sm space-y-4">
+          <div className="flex items-center justify-between">
+              <h3 className="font-bold text-sm text-[var(--ui-text-main)] flex items-center gap-2"><BarChart3 size={16}/> Usage & Budget</h3>
+              <button onClick={handleClear} className="p-1.5 text-[var(--ui-text-muted)] hover:text-red-500" title="Clear usage history"><Trash2 size={14}/></button>
+          </div>
+
+          {/* TODAY */}
+          <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 rounded-xl bg-[var(--ui-bg)] border border-[var(--ui-border)]">
+                  <div className="text-[10px] font-bold uppercase text-[var(--ui-text-muted)]">Tokens Today</div>
+                  <div className="text-sm font-bold text-[var(--ui-text-main)]">{todayTokens.toLocaleString()}</div>
+                  {budget.dailyTokens && <div className="text-[10px] text-[var(--ui-text-muted)]">of {budget.dailyTokens.toLocaleString()}</div>}
+              </div>
+              <div className="p-3 rounded-xl bg-[var(--ui-bg)] border border-[var(--ui-border)]">
+                  <div className="text-[10px] font-bold uppercase text-[var(--ui-text-muted)]">Est. Cost Today</div>
+                  <div className={`text-sm font-bold ${budget.dailyCostUsd && today.costUsd >= budget.dailyCostUsd ? 'text-red-500' : 'text-[var(--ui-text-main)]'}`}>{formatCost(today.costUsd)}</div>
+                  {budget.dailyCostUsd && <div className="text-[10px] text-[var(--ui-text-muted)]">of ${budget.dailyCostUsd.toFixed(2)}</div>}
+              </div>
+              <div className="p-3 rounded-xl bg-[var(--ui-bg)] border border-[var(--ui-border)]">
+                  <div className="text-[10px] font-bold uppercase text-[var(--ui-text-muted)]">Calls Today</div>
+                  <div className="text-sm font-bold text-[var(--ui-text-main)]">{today.calls}</div>
+                  {today.calls > 0 && <div className="text-[10px] text-[var(--ui-text-muted)]">avg {Math.round(today.latencyMs / today.calls / 100) / 10}s</div>}
+              </div>
+          </div>
+
+          {/* LAST 7 DAYS */}
+          <div className="space-y-1">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-[var(--ui-text-muted)]">Last 7 Days</div>
+              <div className="flex items-end gap-1 h-16">
+                  {daily.map(d => {
+                      const tokens = d.usage.inputTokens + d.usage.outputTokens;
+                      return (
+                          <div key={d.day} className="flex-1 flex flex-col justify-end h-full" title={`${d.day}: ${tokens.toLocaleString()} tokens · ${formatCost(d.usage.costUsd)}`}>
+                              <div className="bg-[var(--ui-primary)] rounded-t opacity-80" style={{ height: `${Math.max(tokens > 0 ? 4 : 1, (tokens / peak) * 100)}%` }} />
+                          </div>
+                      );
+                  })}
+              </div>
+              <div className="flex gap-1 text-[9px] text-[var(--ui-text-muted)]">
+                  {daily.map(d => <div key={d.day} className="flex-1 text-center">{d.day.slice(5)}</div>)}
+              </div>
+          </div>
+
+          {/* MODEL BREAKDOWN */}
+          {models.length > 0 && (
+              <div className="space-y-1">
+                  <div className="text-[10px] font-bold uppercase tracking-wider text-[var(--ui-text-muted)]">By Model</div>
+                  {models.map(m => (
+                      <div key={`${m.provider}-${m.model}`} className="flex items-center gap-2 text-xs p-2 rounded-lg bg-[var(--ui-bg)] border border-[var(--ui-border)]">
+                          <span className="text-[10px] uppercase font-bold text-[var(--ui-text-muted)] w-16 shrink-0">{m.provider}</span>
+                          <span className="flex-1 truncate font-mono text-[var(--ui-text-main)]">{m.model}</span>
+                          <span className="text-[var(--ui-text-muted)] shrink-0">{formatTokens(m.usage)} tok</span>
+                          <span className="text-[var(--ui-text-main)] font-bold shrink-0 w-16 text-right">{formatCost(m.usage.costUsd)}</span>
+                      </div>
+                  ))}
+              </div>
+          )}
+
+          {/* QUEUE RUNS */}
+          {runs.length > 0 && (
+              <div className="space-y-1">
+                  <div className="text-[10px] font-bold uppercase tracking-wider text-[var(--ui-text-muted)]">Recent Syllabus Runs</div>
+                  {runs.map(r => (
+                      <div key={r.runId} className="flex items-center gap-2 text-xs p-2 rounded-lg bg-[var(--ui-bg)] border border-[var(--ui-border)]">
+                          <span className="flex-1 text-[var(--ui-text-main)]">{new Date(r.startedAt).toLocaleString()}</span>
+                          <span className="text-[var(--ui-text-muted)]">{r.usage.calls} calls</span>
+                          <span className="text-[var(--ui-text-muted)]">{formatTokens(r.usage)} tok</span>
+                          <span className="text-[var(--ui-text-main)] font-bold w-16 text-right">{formatCost(r.usage.costUsd)}</span>
+                      </div>
+                  ))}
+              </div>
+          )}
+
+          {/* SOFT BUDGETS */}
+          <div className="pt-3 border-t border-[var(--ui-border)] grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                  <label className="text-xs font-bold text-[var(--ui-text-muted)]">Daily Token Budget</label>
+                  <input type="number" min={0} value={budget.dailyTokens ?? ''} onChange={e => updateBudget('dailyTokens', e.target.value)} placeholder="No limit" className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs" />
+              </div>
+              <div>
+                  <label className="text-xs font-bold text-[var(--ui-text-muted)]">Daily Cost Budget (USD)</label>
+                  <input type="number" min={0} step="0.01" value={budget.dailyCostUsd ?? ''} onChange={e => updateBudget('dailyCostUsd', e.target.value)} placeholder="No limit" className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs" />
+              </div>
+              <div>
+                  <label className="text-xs font-bold text-[var(--ui-text-muted)]">Per-Batch Token Budget</label>
+                  <input type="number" min={0} value={budget.batchTokens ?? ''} onChange={e => updateBudget('batchTokens', e.target.value)} placeholder="No limit" className="w-full mt-1 p-2 rounded-lg border border-[var(--ui-border)] bg-[var(--ui-bg)] text-xs" />
+              </div>
+          </div>
+          <p className="text-[10px] text-[var(--ui-text-muted)]">Costs are estimates from public list prices. Local models count as free. Budgets only warn before a syllabus batch starts.</p>
+      </div>
+  );
+};
+
+export default UsageDashboard;
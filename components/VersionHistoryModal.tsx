@@ -0,0 +1,124 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { History, X, RotateCcw } from 'lucide-react';
+import { StorageService } from '../services/storageService';
+import { NoteVersion, NoteVersionReason } from '../types';
+import { diffLines, collapseUnchanged } from '../utils/diff';
+
+interface VersionHistoryModalProps {
+  noteId: string;
+  currentContent: string;
+  onRestore: (version: NoteVersion) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current'; // Pseudo-entry for what is in the editor right now
+const CONTEXT_LINES = 2;
+
+const REASON_LABELS: Record<NoteVersionReason, string> = {
+  'manual-save': 'Saved',
+  'before-ai': 'Before AI edit',
+  'interval': 'Autosave',
+  'before-restore': 'Before restore'
+};
+
+const DIFF_STYLES = {
+  same: 'text-[var(--ui-text-muted)]',
+  add: 'bg-green-500/10 text-green-600',
+  remove: 'bg-red-500/10 text-red-600'
+};
+
+const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ noteId, currentContent, onRestore, onClose }) => {
+  const [storage] = useState(StorageService.getInstance());
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [baseId, setBaseId] = useState<string | null>(null); // Left side of the diff ("A")
+  const [selectedId, setSelectedId] = useState<string>(CURRENT); // Right side ("B")
+
+  useEffect(() => {
+      const load = () => storage.getNoteVersions(noteId).then(setVersions);
+      load();
+      return storage.subscribeVersions(id => { if (id === noteId) load(); });
+  }, [storage, noteId]);
+
+  const contentOf = (id: string | null) => id === CURRENT ? currentContent : versions.find(v => v.id === id)?.content;
+  const base = baseId || versions[0]?.id || null;
+  const baseContent = contentOf(base);
+  const selectedContent = contentOf(selectedId);
+  const selectedVersion = versions.find(v => v.id === selectedId);
+
+  const rows = useMemo(() => baseContent !== undefined && selectedContent !== undefined && base !== selectedId
+      ? collapseUnchanged(diffLines(baseContent, selectedContent), CONTEXT_LINES)
+      : [], [baseContent, selectedContent, base, selectedId]);
+
+  const entryLabel = (id: string | null) => {
+      if (id === CURRENT) return 'Current editor';
+      const v = versions.find(x => x.id === id);
+      return v ? new Date(v.timestamp).toLocaleString() : '—';
+  };
+
+  const renderEntry = (id: string, title: string, subtitle: string) => (
+      <div key={id} className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs cursor-pointer ${selectedId === id ? 'bg-[var(--ui-primary)]/10' : 'hover:bg-[var(--ui-bg)]'}`} onClick={() => setSelectedId(id)}>
+          <div className="flex-1 min-w-0">
+              <div className={`font-bold truncate ${selectedId === id ? 'text-[var(--ui-primary)]' : 'text-[var(--ui-text-main)]'}`}>{title}</div>
+              <div className="text-[10px] text-[var(--ui-text-muted)] truncate">{subtitle}</div>
+          </div>
+          <button
+              onClick={e => { e.stopPropagation(); setBaseId(id); }}
+              title="Compare against this version"
+              className={`w-5 h-5 rounded text-[10px] font-bold shrink-0 ${base === id ? 'bg-[var(--ui-primary)] text-white' : 'border border-[var(--ui-border)] text-[var(--ui-text-muted)] hover:text-[var(--ui-primary)]'}`}
+          >A</button>
+      </div>
+  );
+
+  return (
+      <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+          <div className="bg-[var(--ui-surface)] border border-[var(--ui-border)] rounded-2xl w-full max-w-5xl h-[85vh] flex flex-col shadow-2xl">
+              <div className="p-4 border-b border-[var(--ui-border)] flex justify-between items-center bg-[var(--ui-bg)] rounded-t-2xl">
+                  <h3 className="font-bold text-[var(--ui-text-main)] flex items-center gap-2"><History size={16} className="text-[var(--ui-primary)]"/> Version History</h3>
+                  <button onClick={onClose}><X size={18} className="text-[var(--ui-text-muted)] hover:text-[var(--ui-text-main)]"/></button>
+              </div>
+
+              <div className="flex-1 flex flex-col md:flex-row min-h-0">
+                  {/* TIMELINE */}
+                  <div className="md:w-72 shrink-0 border-b md:border-b-0 md:border-r border-[var(--ui-border)] overflow-y-auto custom-scrollbar p-3 space-y-1">
+                      {renderEntry(CURRENT, 'Current editor', `${currentContent.length.toLocaleString()} chars`)}
+                      {versions.map(v => renderEntry(
+                          v.id,
+                          new Date(v.timestamp).toLocaleString(),
+                          `${REASON_LABELS[v.reason]}${v.label ? ` · ${v.label}` : ''} · ${v.content.length.toLocaleString()} chars${v._status === 'synced' ? ' · cloud' : ''}`
+                      ))}
+                      {versions.length === 0 && <div className="text-[10px] text-[var(--ui-text-muted)] p-2">No snapshots yet. They are taken when you save, before AI edits and every few minutes while editing.</div>}
+                  </div>
+
+                  {/* DIFF A -> B */}
+                  <div className="flex-1 flex flex-col min-h-0">
+                      <div className="px-4 py-2 border-b border-[var(--ui-border)] text-[10px] font-bold text-[var(--ui-text-muted)] flex items-center gap-2">
+                          <span className="text-red-600">A: {entryLabel(base)}</span>
+                          <span>→</span>
+                          <span className="text-green-600">B: {entryLabel(selectedId)}</span>
+                      </div>
+                      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 font-mono text-[11px] bg-[var(--ui-bg)]">
+                          {base === selectedId || rows.every(d => d === null || d.op === 'same')
+                              ? <div className="text-center p-12 text-[var(--ui-text-muted)] font-sans text-xs">{base ? 'A and B are identical.' : 'Nothing to compare yet.'}</div>
+                              : rows.map((d, i) => d === null
+                                  ? <div key={i} className="text-[var(--ui-text-muted)] select-none">…</div>
+                                  : <div key={i} className={`whitespace-pre-wrap ${DIFF_STYLES[d.op]}`}>{d.op === 'add' ? '+ ' : d.op === 'remove' ? '- ' : '  '}{d.text}</div>)}
+                      </div>
+                  </div>
+              </div>
+
+              <div className="p-3 border-t border-[var(--ui-border)] flex justify-end gap-2">
+                  <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-bold text-[var(--ui-text-muted)] hover:bg-[var(--ui-bg)]">Close</button>
+                  <button
+                      onClick={() => selectedVersion && onRestore(selectedVersion)}
+                      disabled={!selectedVersion || selectedVersion.content === currentContent}
+                      className="px-4 py-1.5 rounded-lg text-xs font-bold bg-[var(--ui-primary)] text-white hover:opacity-90 disabled:opacity-30 flex items-center gap-1"
+                  >
+                      <RotateCcw size={14}/> Restore B
+                  </button>
+              </div>
+          </div>
+      </div>
+  );
+};
+
+export default VersionHistoryModal;
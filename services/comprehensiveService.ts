@@ -0,0 +1,140 @@
+import { GenerationConfig, SectionCheckpoint } from '../types';
+import { processGeneratedNote } from '../utils/formatter';
+import { StorageService } from './storageService';
+import { throwIfAborted, isAbortError } from '../utils/abort';
+import { getOutputLanguage } from '../utils/prompts';
+
+// Writes one blueprint section; `onChunk` receives the section text streamed so far, `index` is its blueprint position
+export type SectionWriter = (
+  title: string,
+  context: string,
+  onChunk?: (sectionSoFar: string) => void,
+  index?: number
+) => Promise<string>;
+
+const DEFAULT_SECTION_CONCURRENCY = 3;
+const MAX_SECTION_CONCURRENCY = 5;
+const SECTION_RETRY_DELAY = 2000;
+const LANE_COOLDOWN = 1500; // Rate limit buffer between sections of the same lane
+
+// Stable id per chapter: the same topic + blueprint + run settings map to the same checkpoint,
+// so a resume never mixes sections written in another mode, model or language
+const getChapterKey = (config: GenerationConfig, topic: string, structure: string): string => {
+  const settings = [config.mode, config.provider, config.model, getOutputLanguage(config.language).code].join('|');
+  const input = `${settings}\n${topic.trim()}\n${structure.trim()}`;
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  return `chapter-${(hash >>> 0).toString(36)}-${input.length}`;
+};
+
+// Runs `worker` for every index with at most `limit` calls in flight
+const runWithConcurrency = async (count: number, limit: number, worker: (index: number) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, count) }, async () => {
+    while (next < count) {
+      await worker(next++);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+/**
+ * COMPREHENSIVE BATCH ENGINE
+ *
+ * Splits the blueprint into top-level sections, writes them in parallel with
+ * `writeSection`, checkpoints each finished section to IndexedDB and assembles
+ * the chapter in blueprint order. Provider-agnostic: adapters only supply the
+ * per-section call.
+ */
+export const generateComprehensiveNote = async (
+  config: GenerationConfig,
+  topic: string,
+  structure: string,
+  writeSection: SectionWriter,
+  onProgress: (status: string) => void,
+  onChunk?: (partialContent: string) => void
+): Promise<string> => {
+  onProgress("COMPREHENSIVE MODE: Analyzing Blueprint Structure...");
+
+  // IMPROVED SPLITTING LOGIC (ROBUST):
+  // Split by top-level headers (# or ##), first line is the title, the rest is context
+  const sections = structure.split(/(?=^#{1,2}\s)/gm).filter(s => s.trim().length > 0).map(raw => {
+      const lines = raw.trim().split('\n');
+      return { title: lines[0].replace(/^#+\s*/, '').trim(), context: lines.slice(1).join('\n').trim() };
+  });
+
+  // RESUME: sections finished by an earlier failed/interrupted run are reused, only the gaps are generated
+  const storage = StorageService.getInstance();
+  const chapterKey = getChapterKey(config, topic, structure);
+  const saved = await storage.getSectionCheckpoint(chapterKey);
+  const checkpoint: SectionCheckpoint = saved && saved.sectionCount === sections.length
+      ? saved
+      : { id: chapterKey, topic, sectionCount: sections.length, sections: {}, updatedAt: Date.now() };
+  const pending = sections.map((_, i) => i).filter(i => checkpoint.sections[i] === undefined);
+  if (pending.length < sections.length) {
+      onProgress(`Resuming chapter: ${sections.length - pending.length}/${sections.length} sections restored from checkpoint...`);
+  }
+
+  const header = `> [!abstract] COMPREHENSIVE TEXTBOOK: ${topic.toUpperCase()}\n\n`
+      + `_Generated via NeuroNote Batch Engine (${sections.length} Sections)_\n\n---\n\n`;
+  const drafts: Record<number, string> = {}; // Streamed text of in-flight sections
+  const failed = new Set<number>();
+
+  // Sections finish in any order but are always assembled in blueprint order
+  const assemble = () => header + sections.map((section, i) => {
+      const body = checkpoint.sections[i] ?? (failed.has(i) ? "> [!danger] GENERATION FAILED FOR THIS SECTION." : drafts[i]);
+      return body === undefined ? '' : `\n# ${section.title}\n\n${body}\n\n`;
+  }).join('');
+  if (onChunk) onChunk(assemble());
+
+  const concurrency = Math.max(1, Math.min(config.sectionConcurrency || DEFAULT_SECTION_CONCURRENCY, MAX_SECTION_CONCURRENCY));
+  let finished = sections.length - pending.length;
+
+  // Robust Pool: one failed section never stops the rest of the book
+  await runWithConcurrency(pending.length, concurrency, async (n) => {
+      const i = pending[n];
+      const { title, context } = sections[i];
+      throwIfAborted(config.signal);
+      onProgress(`[${finished}/${sections.length} done · ${concurrency} parallel] Researching & Writing: "${title}"...`);
+
+      drafts[i] = '';
+      let sectionContent = "";
+      for (let attempt = 1; attempt <= 2 && !sectionContent; attempt++) {
+          try {
+              sectionContent = await writeSection(
+                  title,
+                  context || "Cover all standard aspects of this sub-topic.",
+                  onChunk ? (sectionSoFar) => { drafts[i] = sectionSoFar; onChunk(assemble()); } : undefined,
+                  i
+              );
+          } catch (err) {
+              if (isAbortError(err, config.signal)) throw err;
+              console.warn(`Section attempt ${attempt} failed for ${title}`, err);
+              drafts[i] = '';
+              if (attempt < 2) await new Promise(r => setTimeout(r, SECTION_RETRY_DELAY)); // Wait before retry
+          }
+      }
+      delete drafts[i];
+
+      if (sectionContent) {
+          checkpoint.sections[i] = sectionContent;
+          checkpoint.updatedAt = Date.now();
+          await storage.saveSectionCheckpoint(checkpoint);
+      } else {
+          failed.add(i);
+      }
+      finished++;
+      if (onChunk) onChunk(assemble());
+
+      await new Promise(r => setTimeout(r, LANE_COOLDOWN));
+  });
+
+  onProgress("Finalizing & Formatting Textbook...");
+  let fullContent = assemble();
+  if (failed.size === 0) {
+      await storage.clearSectionCheckpoint(chapterKey);
+  } else {
+      fullContent += `\n> [!warning] ${failed.size} of ${sections.length} sections failed.\n> Generate again with the same topic and blueprint to write only the missing sections.\n`;
+  }
+  return processGeneratedNote(fullContent, config.formatterRules);
+};
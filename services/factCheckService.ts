@@ -0,0 +1,19 @@
+import { FactCheckFinding, GenerationConfig, UploadedFile } from '../types';
+import { getProvider } from './providerRegistry';
+import { prepareNoteFiles } from '../utils/modelCatalog';
+
+/**
+ * FACT-CHECK PASS
+ *
+ * Hands a finished note to a second reviewer model (configured under
+ * `config.factCheck`, possibly another provider) together with the uploaded
+ * sources. Usage is billed to the same scope as the note it reviews.
+ */
+
+export const isFactCheckEnabled = (config: GenerationConfig): boolean => !!config.factCheck?.enabled;
+
+export const runFactCheck = (config: GenerationConfig, content: string, files: UploadedFile[] = []): Promise<FactCheckFinding[]> => {
+  const provider = config.factCheck?.provider || config.provider;
+  const model = config.factCheck?.model || getProvider(provider).defaultModel;
+  return getProvider(provider).factCheckNote({ ...config, provider, model }, content, prepareNoteFiles(model, files));
+};
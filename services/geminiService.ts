@@ -1,70 +1,64 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { GenerationConfig, UploadedFile, SyllabusItem, ChatMessage, NoteMode } from '../types';
-import { getStrictPrompt, UNIVERSAL_STRUCTURE_PROMPT } from '../utils/prompts';
+import { GoogleGenAI, Type } from "@google/genai";
+import { GenerationConfig, UploadedFile, SyllabusItem, ChatMessage, NoteMode, AIProvider, AIProviderAdapter, AppModel, UsageOperation, FactCheckFinding } from '../types';
+import { buildContextString } from '../utils/prompts';
+import { getContextBudget, resolveMaxOutputTokens } from '../utils/modelCatalog';
+import { RetrievalService } from './retrievalService';
+import { PromptRegistryService } from './promptRegistryService';
+import { parseSyllabusResponse } from '../utils/syllabus';
+import { parseFactCheckResponse } from '../utils/factCheck';
 import { processGeneratedNote } from '../utils/formatter';
-
-// Helper to get authenticated AI instance with Key Rotation
-const getAIClient = (config: GenerationConfig) => {
+import { KeyPoolService } from './keyPoolService';
+import { UsageLedgerService } from './usageLedgerService';
+import { generateComprehensiveNote } from './comprehensiveService';
+import { throwIfAborted } from '../utils/abort';
+import { estimateTokens } from '../utils/retrieval';
+
+// Raw key list (comma/newline separated keys are rotated by the KeyPool)
+const getApiKeyString = (config: GenerationConfig): string => {
   // SAFE ENV ACCESS
   const envKey = (import.meta as any).env?.VITE_API_KEY || (typeof process !== 'undefined' ? process.env.API_KEY : '');
-  let apiKey = config.apiKey || envKey;
+  const apiKey = config.apiKey || envKey;
   
   if (!apiKey) {
     throw new Error("API Key is missing. Please unlock with your NeuroKey Card or check Settings.");
   }
+  return apiKey;
+};
 
-  // KEY ROTATION LOGIC
-  // Support comma-separated or newline-separated keys
-  if (apiKey.includes(',') || apiKey.includes('\n')) {
-      const keys = apiKey.split(/[\n,]+/).map(k => k.trim()).filter(k => k.length > 0);
-      if (keys.length > 0) {
-          // Pick a random key for simple load balancing
-          const randomIndex = Math.floor(Math.random() * keys.length);
-          apiKey = keys[randomIndex];
-      }
-  }
+// KEY ROTATION: runs the call on the next healthy key, rotating away from rate-limited / revoked keys
+const withAIClient = <T>(config: GenerationConfig, task: (ai: GoogleGenAI) => Promise<T>): Promise<T> => {
+  return KeyPoolService.getInstance().run(AIProvider.GEMINI, getApiKeyString(config), (apiKey) => task(new GoogleGenAI({ apiKey })));
+};
 
-  return new GoogleGenAI({ apiKey });
+// USAGE LEDGER: token counts come from the SDK's usageMetadata (last chunk when streaming)
+const recordUsage = (config: GenerationConfig, operation: UsageOperation, model: string, usage: any, startedAt: number) => {
+  UsageLedgerService.getInstance().record({
+    provider: AIProvider.GEMINI,
+    model,
+    operation,
+    inputTokens: usage?.promptTokenCount || 0,
+    outputTokens: usage?.candidatesTokenCount || 0,
+    latencyMs: Date.now() - startedAt,
+    scope: config.usageScope
+  });
 };
 
 // --- BATCH GENERATOR FOR COMPREHENSIVE MODE ---
 const generateBatchSection = async (
-  ai: GoogleGenAI,
   config: GenerationConfig,
   topic: string,
   sectionTitle: string,
   sectionContext: string, // New: Pass sub-bullets as context
-  files: UploadedFile[]
+  files: UploadedFile[],
+  onChunk?: (sectionSoFar: string) => void
 ): Promise<string> => {
-  
-  // AGGRESSIVE ACADEMIC PROMPT
-  const prompt = `
-  CONTEXT: We are writing a Medical Textbook Chapter on "${topic}".
-  
-  CURRENT SECTION TO WRITE:
-  "${sectionTitle}"
-  
-  SUB-TOPICS TO COVER IN THIS SECTION:
-  ${sectionContext}
-  
-  ***CRITICAL WRITING INSTRUCTIONS (STRICT)***:
-  1. **LENGTH & DEPTH:** Do NOT summarize. This must be a "Deep Dive". Write at least 800-1200 words for this section alone if possible.
-  2. **STRUCTURE:**
-     - Start with a functional definition (Analogy + Mechanism).
-     - Explain the PATHOPHYSIOLOGY in extreme detail (Molecular/Cellular level).
-     - Provide CLINICAL CORRELATIONS (Why does this matter?).
-     - Include a specific PHARMACOLOGY subsection if relevant (Mechanism of Action).
-  3. **FORMATTING:**
-     - Use Bold for key terms.
-     - Use Tables for comparisons.
-     - Use ">>>" for clinical pearls.
-  4. **NO HALLUCINATIONS:** If you don't know a specific detail, state general principles, but do not invent data.
-  
-  ${config.customContentPrompt ? `USER SPECIAL INSTRUCTION: ${config.customContentPrompt}` : ''}
-  
-  OUTPUT THE CONTENT FOR THIS SECTION ONLY. DO NOT REPEAT THE MAIN TITLE.
-  `;
+  const prompt = PromptRegistryService.getInstance().render('note.section', {
+      topic,
+      section_title: sectionTitle,
+      section_context: sectionContext,
+      custom_instruction: config.customContentPrompt
+  }, config);
 
   const parts: any[] = [{ text: prompt }];
   if (files && files.length > 0) {
@@ -72,13 +66,29 @@ const generateBatchSection = async (
   }
 
   // Use higher token limit and slightly lower temp for academic precision
-  const response = await ai.models.generateContent({
-      model: config.model, // Recommend Gemini 1.5 Pro or 2.5 Pro for this
-      contents: { parts },
-      config: { temperature: 0.2, maxOutputTokens: 8192 } 
+  const startedAt = Date.now();
+  let usage: any = null;
+  const sectionText = await withAIClient(config, async (ai) => {
+      const stream = await ai.models.generateContentStream({
+          model: config.model, // Recommend Gemini 1.5 Pro or 2.5 Pro for this
+          contents: { parts },
+          config: { temperature: 0.2, maxOutputTokens: 8192, abortSignal: config.signal } 
+      });
+
+      let text = '';
+      for await (const chunk of stream) {
+          throwIfAborted(config.signal);
+          text += chunk.text || '';
+          if (chunk.usageMetadata) usage = chunk.usageMetadata;
+          if (onChunk) onChunk(text);
+      }
+      return text;
   });
+  recordUsage(config, 'section', config.model, usage, startedAt);
   
-  return response.text || `(Failed to generate ${sectionTitle})`;
+  // An empty reply is a failed section: the batch engine retries it and reports it instead of checkpointing it
+  if (!sectionText.trim()) throw new Error(`Empty response for section "${sectionTitle}"`);
+  return sectionText;
 };
 
 export const generateNoteContent = async (
@@ -86,84 +96,31 @@ export const generateNoteContent = async (
   topic: string,
   structure: string,
   files: UploadedFile[],
-  onProgress: (status: string) => void
+  onProgress: (status: string) => void,
+  onChunk?: (partialContent: string) => void
 ): Promise<string> => {
   
   onProgress("Checking configurations...");
-  const ai = getAIClient(config);
+  getApiKeyString(config); // Fail fast before any batch work
   const modelName = config.model;
 
   onProgress(`Connecting to ${modelName} in ${config.mode.toUpperCase()} mode...`);
 
   try {
-    // --- 1. COMPREHENSIVE MODE: SEQUENTIAL BATCH GENERATION ---
+    // --- 1. COMPREHENSIVE MODE: PARALLEL, CHECKPOINTED BATCH GENERATION ---
     if (config.mode === NoteMode.COMPREHENSIVE) {
-       onProgress("COMPREHENSIVE MODE: Analyzing Blueprint Structure...");
-       
-       // IMPROVED SPLITTING LOGIC (ROBUST): 
-       // Split by top-level headers (# or ##)
-       const rawSections = structure.split(/(?=^#{1,2}\s)/gm).filter(s => s.trim().length > 0);
-       
-       let fullContent = `> [!abstract] COMPREHENSIVE TEXTBOOK: ${topic.toUpperCase()}\n\n`;
-       fullContent += `_Generated via NeuroNote Batch Engine (${rawSections.length} Sections)_\n\n---\n\n`;
-
-       // Robust Loop: Don't let one failure stop the whole book
-       for (let i = 0; i < rawSections.length; i++) {
-           const rawText = rawSections[i].trim();
-           
-           try {
-               // Extract Title (first line) vs Context (rest of the text)
-               const lines = rawText.split('\n');
-               const sectionTitle = lines[0].replace(/^#+\s*/, '').trim();
-               const sectionContext = lines.slice(1).join('\n').trim();
-
-               // Skip empty headers or "Introduction" if it's too short
-               if (lines.length < 2 && rawSections.length > 3 && sectionTitle.toLowerCase().includes('intro')) {
-                   // Optional skip logic
-               }
-
-               onProgress(`[Batch ${i+1}/${rawSections.length}] Researching & Writing: "${sectionTitle}"...`);
-               
-               // Generate specific section with internal retry
-               let sectionContent = "";
-               let attempts = 0;
-               while (attempts < 2 && !sectionContent) {
-                   try {
-                       sectionContent = await generateBatchSection(
-                           ai, 
-                           config, 
-                           topic, 
-                           sectionTitle, 
-                           sectionContext || "Cover all standard aspects of this sub-topic.", 
-                           files
-                       );
-                   } catch (err) {
-                       attempts++;
-                       console.warn(`Batch attempt ${attempts} failed for ${sectionTitle}`, err);
-                       await new Promise(r => setTimeout(r, 2000)); // Wait before retry
-                   }
-               }
-               
-               if (!sectionContent) sectionContent = "> [!danger] GENERATION FAILED FOR THIS SECTION.";
-
-               // Append with a clear divider
-               fullContent += `\n# ${sectionTitle}\n\n${sectionContent}\n\n`;
-               
-               // Rate Limit Buffer
-               await new Promise(r => setTimeout(r, 1500));
-
-           } catch (batchError) {
-               console.error(`Error processing batch ${i}:`, batchError);
-               fullContent += `\n> [!warning] Skipped Section due to error.\n\n`;
-           }
-       }
-
-       onProgress("Finalizing & Formatting Textbook...");
-       return processGeneratedNote(fullContent);
+       return generateComprehensiveNote(
+           config,
+           topic,
+           structure,
+           (title, context, onSectionChunk) => generateBatchSection(config, topic, title, context, files, onSectionChunk),
+           onProgress,
+           onChunk
+       );
     }
 
     // --- 2. STANDARD MODES (General, Cheat Sheet) ---
-    const textPrompt = getStrictPrompt(topic, structure, config.mode, config.customContentPrompt);
+    const textPrompt = PromptRegistryService.getInstance().renderNotePrompt(config, topic, structure);
     
     const parts: any[] = [{ text: textPrompt }];
 
@@ -181,25 +138,38 @@ export const generateNoteContent = async (
 
     onProgress("Synthesizing content (Standard Mode)...");
     
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: { parts },
-      config: {
-        temperature: config.temperature,
-        topP: 0.95,
-        topK: 40,
-        maxOutputTokens: 65536, 
+    const startedAt = Date.now();
+    let usage: any = null;
+    const rawText = await withAIClient(config, async (ai) => {
+      const stream = await ai.models.generateContentStream({
+        model: modelName,
+        contents: { parts },
+        config: {
+          temperature: config.temperature,
+          topP: 0.95,
+          topK: 40,
+          maxOutputTokens: resolveMaxOutputTokens(modelName), 
+          abortSignal: config.signal
+        }
+      });
+
+      let text = '';
+      for await (const chunk of stream) {
+        throwIfAborted(config.signal);
+        text += chunk.text || '';
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        if (onChunk) onChunk(text);
       }
+      return text;
     });
-
-    const rawText = response.text;
+    recordUsage(config, 'note', modelName, usage, startedAt);
 
     if (!rawText) {
       throw new Error("Received empty response from AI.");
     }
 
     onProgress("Formatting & Cleaning Mermaid syntax...");
-    const finalContent = processGeneratedNote(rawText);
+    const finalContent = processGeneratedNote(rawText, config.formatterRules);
 
     return finalContent;
 
@@ -224,21 +194,22 @@ export const generateDetailedStructure = async (
   config: GenerationConfig,
   topic: string
 ): Promise<string> => {
-  const ai = getAIClient(config);
   // Use config.structureModel if available, else standard config.model
   const modelName = config.structureModel || (config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview');
 
   try {
-    const systemPrompt = config.customStructurePrompt || UNIVERSAL_STRUCTURE_PROMPT;
+    const systemPrompt = config.customStructurePrompt || PromptRegistryService.getInstance().render('structure.universal', { topic }, config);
 
-    const response = await ai.models.generateContent({
+    const startedAt = Date.now();
+    const response = await withAIClient(config, ai => ai.models.generateContent({
       model: modelName,
       contents: {
         parts: [{ text: `${systemPrompt}\n\nINPUT TOPIC: ${topic}\n\nNOTE: If Comprehensive Mode is intended, provide at least 5-8 detailed H1 headers (#) with 3-5 sub-bullets each.` }]
       },
-      config: { temperature: 0.3 }
-    });
+      config: { temperature: 0.3, abortSignal: config.signal }
+    }));
 
+    recordUsage(config, 'structure', modelName, response.usageMetadata, startedAt);
     return response.text || "";
   } catch (e: any) {
     console.error("Structure Auto-Gen Error", e);
@@ -250,26 +221,50 @@ export const generateDetailedStructure = async (
 /*                             SYLLABUS PARSERS                               */
 /* -------------------------------------------------------------------------- */
 
-const SYLLABUS_PROMPT = `
-  TASK: Analyze the provided Syllabus content (Text/JSON/PDF).
-  GOAL: Extract a logical, sequential learning path of specific medical topics.
-  RETURN JSON STRING ARRAY ONLY.
-`;
+// Structured output: Gemini is constrained to the module -> topic schema, parseSyllabusResponse validates it
+const SYLLABUS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    modules: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          topics: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                objectives: { type: Type.ARRAY, items: { type: Type.STRING } },
+                subtopics: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ['title']
+            }
+          }
+        },
+        required: ['title', 'topics']
+      }
+    }
+  },
+  required: ['modules']
+};
 
 export const parseSyllabusToTopics = async (
   config: GenerationConfig,
   file: UploadedFile
 ): Promise<SyllabusItem[]> => {
-  const ai = getAIClient(config);
   // Use config.model if it seems valid for Gemini
   const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
 
   try {
-    const response = await ai.models.generateContent({
+    const startedAt = Date.now();
+    const response = await withAIClient(config, ai => ai.models.generateContent({
       model: modelName,
       contents: {
         parts: [
-          { text: SYLLABUS_PROMPT },
+          { text: PromptRegistryService.getInstance().render('syllabus.parse', {}, config) },
           {
             inlineData: {
               mimeType: file.mimeType,
@@ -280,20 +275,15 @@ export const parseSyllabusToTopics = async (
       },
       config: {
         temperature: 0.2, 
-        responseMimeType: "application/json"
+        responseMimeType: "application/json",
+        responseSchema: SYLLABUS_SCHEMA,
+        abortSignal: config.signal
       }
-    });
-
-    const text = response.text || "[]";
-    const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    const topics: string[] = JSON.parse(cleanJson);
-
-    return topics.map((t, index) => ({
-      id: `topic-${Date.now()}-${index}`,
-      topic: t,
-      status: 'pending'
     }));
 
+    recordUsage(config, 'syllabus', modelName, response.usageMetadata, startedAt);
+    return parseSyllabusResponse(response.text || "");
+
   } catch (e: any) {
     console.error("Syllabus Parsing Error", e);
     throw new Error("Failed to parse syllabus file.");
@@ -304,31 +294,26 @@ export const parseSyllabusFromText = async (
   config: GenerationConfig,
   rawText: string
 ): Promise<SyllabusItem[]> => {
-  const ai = getAIClient(config);
   const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
 
   try {
-    const response = await ai.models.generateContent({
+    const startedAt = Date.now();
+    const response = await withAIClient(config, ai => ai.models.generateContent({
       model: modelName,
       contents: {
-        parts: [{ text: `${SYLLABUS_PROMPT}\n\nINPUT TEXT:\n${rawText}` }]
+        parts: [{ text: `${PromptRegistryService.getInstance().render('syllabus.parse', {}, config)}\n\nINPUT TEXT:\n${rawText}` }]
       },
       config: {
         temperature: 0.2, 
-        responseMimeType: "application/json"
+        responseMimeType: "application/json",
+        responseSchema: SYLLABUS_SCHEMA,
+        abortSignal: config.signal
       }
-    });
-
-    const text = response.text || "[]";
-    const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    const topics: string[] = JSON.parse(cleanJson);
-
-    return topics.map((t, index) => ({
-      id: `topic-${Date.now()}-${index}`,
-      topic: t,
-      status: 'pending'
     }));
 
+    recordUsage(config, 'syllabus', modelName, response.usageMetadata, startedAt);
+    return parseSyllabusResponse(response.text || "");
+
   } catch (e: any) {
     console.error("Syllabus Text Parsing Error", e);
     throw new Error("Failed to parse syllabus text.");
@@ -342,38 +327,25 @@ export const parseSyllabusFromText = async (
 export const refineNoteContent = async (
   config: GenerationConfig,
   currentContent: string,
-  instruction: string
+  instruction: string,
+  additionalContexts?: Record<string, string>
 ): Promise<string> => {
-  const ai = getAIClient(config);
   // Use currently selected model
   const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
 
-  const prompt = `
-  ROLE: Expert Medical Editor.
-  TASK: Modify the following Medical Note based on the USER INSTRUCTION.
-
-  USER INSTRUCTION: "${instruction}"
-
-  RULES:
-  1. Retain the original Markdown formatting (Headers, Mermaid charts, Callouts) unless specifically asked to change them.
-  2. Do NOT output "Here is the revised note". Just output the Markdown.
-  3. Ensure technical accuracy is maintained.
-
-  ORIGINAL CONTENT:
-  """
-  ${currentContent}
-  """
-  `;
+  const prompt = PromptRegistryService.getInstance().render('edit.refine', { instruction, content: currentContent, context: buildContextString(additionalContexts) }, config);
 
   try {
-      const response = await ai.models.generateContent({
+      const startedAt = Date.now();
+      const response = await withAIClient(config, ai => ai.models.generateContent({
           model: modelName,
           contents: { parts: [{ text: prompt }] },
-          config: { temperature: 0.3 }
-      });
+          config: { temperature: 0.3, abortSignal: config.signal }
+      }));
 
+      recordUsage(config, 'refine', modelName, response.usageMetadata, startedAt);
       const text = response.text || currentContent;
-      return processGeneratedNote(text);
+      return processGeneratedNote(text, config.formatterRules);
   } catch (e: any) {
       console.error("Gemini Refinement Error", e);
       throw new Error("Failed to refine content: " + e.message);
@@ -387,37 +359,13 @@ export const deepenNoteContent = async (
   files: UploadedFile[],
   additionalContexts?: Record<string, string>
 ): Promise<string> => {
-  const ai = getAIClient(config);
   const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
 
-  let contextString = "";
-  if (additionalContexts && Object.keys(additionalContexts).length > 0) {
-      contextString = "\n\n*** ADDITIONAL REFERENCE CONTEXT ***\n";
-      Object.entries(additionalContexts).forEach(([id, content]) => {
-          contextString += `\n--- SOURCE: ${id} ---\n${content.substring(0, 5000)}\n`;
-      });
-  }
-
-  const prompt = `
-  ROLE: Expert Medical Editor & Professor.
-  TASK: DEEPEN and ENRICH the existing Medical Note using the provided context materials.
-
-  USER INSTRUCTION: "${instruction || 'Deepen the note using the provided context.'}"
-
-  RULES FOR DEEPENING:
-  1. DO NOT DELETE OR SUMMARIZE existing information. Your job is to EXPAND it.
-  2. Integrate new facts, mechanisms, clinical correlations, and details from the Context into the existing structure.
-  3. If the Context contains new relevant topics not in the original note, add them as new sections at the end or where logically appropriate.
-  4. Maintain the original Markdown formatting (Headers, Lists, etc.).
-  5. The final output must be a comprehensive, combined note. DO NOT output a conversational response, ONLY the new Markdown note.
-  6. Write extensively. Do not be brief.
-
-  ORIGINAL CONTENT:
-  """
-  ${currentContent}
-  """
-  ${contextString}
-  `;
+  const prompt = PromptRegistryService.getInstance().render('edit.deepen', {
+      instruction: instruction || 'Deepen the note using the provided context.',
+      content: currentContent,
+      context: buildContextString(additionalContexts)
+  }, config);
 
   const parts: any[] = [{ text: prompt }];
   if (files && files.length > 0) {
@@ -425,20 +373,78 @@ export const deepenNoteContent = async (
   }
 
   try {
-      const response = await ai.models.generateContent({
+      const startedAt = Date.now();
+      const response = await withAIClient(config, ai => ai.models.generateContent({
           model: modelName,
           contents: { parts },
-          config: { temperature: 0.3, maxOutputTokens: 65536 }
-      });
+          config: { temperature: 0.3, maxOutputTokens: resolveMaxOutputTokens(modelName), abortSignal: config.signal }
+      }));
 
+      recordUsage(config, 'deepen', modelName, response.usageMetadata, startedAt);
       const text = response.text || currentContent;
-      return processGeneratedNote(text);
+      return processGeneratedNote(text, config.formatterRules);
   } catch (e: any) {
       console.error("Gemini Deepen Error", e);
       throw new Error("Failed to deepen content: " + e.message);
   }
 };
 
+/* -------------------------------------------------------------------------- */
+/*                          FACT-CHECK REVIEW ENGINE                          */
+/* -------------------------------------------------------------------------- */
+
+export const factCheckNote = async (
+  config: GenerationConfig,
+  content: string,
+  files: UploadedFile[]
+): Promise<FactCheckFinding[]> => {
+  const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
+
+  // Uploaded files are attached inline, so the prompt only points at them
+  const prompt = PromptRegistryService.getInstance().render('review.factcheck', {
+      content,
+      sources: files && files.length > 0 ? 'The attached files.' : ''
+  }, config);
+
+  const parts: any[] = [{ text: prompt }];
+  (files || []).forEach(f => parts.push({ inlineData: { mimeType: f.mimeType, data: f.data } }));
+
+  try {
+      const startedAt = Date.now();
+      const response = await withAIClient(config, ai => ai.models.generateContent({
+          model: modelName,
+          contents: { parts },
+          config: { temperature: 0.1, responseMimeType: "application/json", abortSignal: config.signal }
+      }));
+
+      recordUsage(config, 'factcheck', modelName, response.usageMetadata, startedAt);
+      return parseFactCheckResponse(response.text || '');
+  } catch (e: any) {
+      console.error("Gemini Fact-Check Error", e);
+      throw new Error("Fact-check failed: " + e.message);
+  }
+};
+
+export const repairMermaid = async (config: GenerationConfig, code: string, error: string): Promise<string> => {
+  const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
+  const prompt = PromptRegistryService.getInstance().render('repair.mermaid', { code, error }, config);
+
+  try {
+      const startedAt = Date.now();
+      const response = await withAIClient(config, ai => ai.models.generateContent({
+          model: modelName,
+          contents: prompt,
+          config: { temperature: 0, abortSignal: config.signal }
+      }));
+
+      recordUsage(config, 'mermaid', modelName, response.usageMetadata, startedAt);
+      return response.text || code;
+  } catch (e: any) {
+      console.error("Gemini Mermaid Repair Error", e);
+      throw new Error("Diagram repair failed: " + e.message);
+  }
+};
+
 /* -------------------------------------------------------------------------- */
 /*                       NEURO-SIDEKICK CHAT ENGINE                           */
 /* -------------------------------------------------------------------------- */
@@ -449,25 +455,13 @@ export const generateChatResponse = async (
   currentNoteContent: string,
   userMessage: string
 ): Promise<string> => {
-  const ai = getAIClient(config);
   // Chat works best with Pro models usually, but Flash is faster for interaction
   const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
 
-  const systemContext = `
-  SYSTEM: You are "Neuro-Sidekick", an intelligent medical tutor assistant.
-  CONTEXT: The user is studying a note. You have access to the content below.
-  GOAL: Help the user understand deeply.
-  
-  MODES:
-  1. If user asks "Explain", simplify the concept using an analogy.
-  2. If user asks "Quiz me", generate a single multiple-choice question about the note.
-  3. If user asks "Summarize", provide a TL;DR.
-  
-  NOTE CONTENT:
-  """
-  ${currentNoteContent.substring(0, 10000)} ... (truncated if too long)
-  """
-  `;
+  // Long notes are cut down to the sections most relevant to the question
+  const { content } = RetrievalService.getInstance().fitContent(
+      { id: config.usageScope?.noteId || 'chat-note', label: 'Current note', content: currentNoteContent }, userMessage, getContextBudget(modelName));
+  const systemContext = PromptRegistryService.getInstance().render('chat.system', { content }, config);
 
   try {
       // We assume simple single-turn or limited history for now to save tokens context
@@ -477,16 +471,20 @@ export const generateChatResponse = async (
           parts: [{ text: h.content }]
       }));
 
-      const chat = ai.chats.create({
-          model: modelName,
-          config: {
-              systemInstruction: systemContext,
-              temperature: 0.5,
-          },
-          history: historyContents
+      const startedAt = Date.now();
+      const result = await withAIClient(config, ai => {
+          const chat = ai.chats.create({
+              model: modelName,
+              config: {
+                  systemInstruction: systemContext,
+                  temperature: 0.5,
+                  abortSignal: config.signal
+              },
+              history: historyContents
+          });
+          return chat.sendMessage({ message: userMessage });
       });
-
-      const result = await chat.sendMessage({ message: userMessage });
+      recordUsage(config, 'chat', modelName, result.usageMetadata, startedAt);
       return result.text || "I couldn't generate a response.";
   } catch (e: any) {
       console.error("Chat Error", e);
@@ -505,33 +503,12 @@ export const generateAssistantResponse = async (
   files: UploadedFile[],
   additionalContexts?: Record<string, string>
 ): Promise<string> => {
-  const ai = getAIClient(config);
   const modelName = config.model.includes('gemini') ? config.model : 'gemini-3-flash-preview';
 
-  let contextString = "";
-  if (additionalContexts && Object.keys(additionalContexts).length > 0) {
-      contextString = "\n\n*** ADDITIONAL REFERENCE CONTEXT ***\n";
-      Object.entries(additionalContexts).forEach(([id, content]) => {
-          contextString += `\n--- SOURCE: ${id} ---\n${content.substring(0, 5000)}\n`;
-      });
-  }
-
-  const systemPrompt = `
-  ROLE: Intelligent Medical Assistant (Neuro-Sidekick).
-  CONTEXT: The user is working on a medical note.
-  CURRENT NOTE CONTENT:
-  """
-  ${currentContent.substring(0, 20000)} ... (truncated)
-  """
-  ${contextString}
-
-  INSTRUCTION:
-  - Provide a direct, high-quality response to the user's request.
-  - If asked to add content, write it in Markdown format matching the note's style.
-  - If asked to summarize, provide a concise summary.
-  - Do NOT repeat the user's prompt.
-  - Use the Additional Reference Context if relevant to answer the user's question.
-  `;
+  const systemPrompt = PromptRegistryService.getInstance().render('assistant.system', {
+      content: currentContent,
+      context: buildContextString(additionalContexts)
+  }, config);
 
   // Convert history to Gemini format
   // System prompt goes to systemInstruction or first content part?
@@ -540,18 +517,6 @@ export const generateAssistantResponse = async (
   // Let's use chats.create for true history support.
 
   try {
-      const chat = ai.chats.create({
-          model: modelName,
-          config: {
-              systemInstruction: systemPrompt,
-              temperature: 0.4,
-          },
-          history: history.slice(0, -1).map(msg => ({
-              role: msg.role,
-              parts: [{ text: msg.content }]
-          }))
-      });
-
       const lastMessage = history[history.length - 1];
       const parts: any[] = [{ text: lastMessage.content }];
       
@@ -559,7 +524,23 @@ export const generateAssistantResponse = async (
           files.forEach(f => parts.push({ inlineData: { mimeType: f.mimeType, data: f.data } }));
       }
 
-      const result = await chat.sendMessage({ message: parts });
+      const startedAt = Date.now();
+      const result = await withAIClient(config, ai => {
+          const chat = ai.chats.create({
+              model: modelName,
+              config: {
+                  systemInstruction: systemPrompt,
+                  temperature: 0.4,
+                  abortSignal: config.signal
+              },
+              history: history.slice(0, -1).map(msg => ({
+                  role: msg.role,
+                  parts: [{ text: msg.content }]
+              }))
+          });
+          return chat.sendMessage({ message: parts });
+      });
+      recordUsage(config, 'assistant', modelName, result.usageMetadata, startedAt);
       return result.text || "No response generated.";
 
   } catch (e: any) {
@@ -569,3 +550,57 @@ export const generateAssistantResponse = async (
       throw new Error("Assistant failed: " + e.message);
   }
 };
+
+/* -------------------------------------------------------------------------- */
+/*                       EMBEDDINGS (SEMANTIC SEARCH)                         */
+/* -------------------------------------------------------------------------- */
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const EMBEDDING_BATCH = 100; // Max texts per embedContent request
+
+export const embedTexts = async (config: GenerationConfig, texts: string[]): Promise<number[][]> => {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+      throwIfAborted(config.signal);
+      const batch = texts.slice(i, i + EMBEDDING_BATCH);
+      const startedAt = Date.now();
+      const response = await withAIClient(config, ai => ai.models.embedContent({
+          model: EMBEDDING_MODEL,
+          contents: batch,
+          config: { outputDimensionality: 768, abortSignal: config.signal }
+      }));
+      // The Gemini API reports no token count for embeddings, so the input is estimated
+      recordUsage(config, 'embedding', EMBEDDING_MODEL, { promptTokenCount: batch.reduce((n, t) => n + estimateTokens(t), 0) }, startedAt);
+      (response.embeddings || []).forEach(e => vectors.push(e.values || []));
+  }
+  if (vectors.length !== texts.length) throw new Error("Embedding count mismatch.");
+  return vectors;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                          PROVIDER ADAPTER (GEMINI)                         */
+/* -------------------------------------------------------------------------- */
+
+export const geminiProvider: AIProviderAdapter = {
+  id: AIProvider.GEMINI,
+  label: 'Gemini',
+  defaultModel: AppModel.GEMINI_2_5_FLASH,
+  models: [
+    { value: AppModel.GEMINI_3_PRO, label: 'Gemini 3.0 Pro', badge: 'Flagship' },
+    { value: AppModel.GEMINI_3_FLASH, label: 'Gemini 3.0 Flash', badge: 'Fastest' },
+    { value: AppModel.GEMINI_2_5_PRO, label: 'Gemini 2.5 Pro', badge: 'Stable' },
+    { value: AppModel.GEMINI_2_5_FLASH, label: 'Gemini 2.5 Flash', badge: 'Balanced' },
+    { value: AppModel.GEMINI_2_5_FLASH_LITE, label: 'Gemini 2.5 Flash-Lite', badge: 'Budget' },
+    { value: AppModel.DEEP_RESEARCH_PRO, label: 'Deep Research Pro', badge: 'Agentic' },
+  ],
+  generateNoteContent,
+  generateDetailedStructure,
+  parseSyllabusFile: parseSyllabusToTopics,
+  parseSyllabusText: parseSyllabusFromText,
+  refineNoteContent,
+  deepenNoteContent,
+  factCheckNote,
+  repairMermaid,
+  generateAssistantResponse,
+  embedTexts
+};
@@ -1,25 +1,35 @@
 
 import Groq from 'groq-sdk';
-import { GenerationConfig, SyllabusItem, ChatMessage } from '../types';
-import { getStrictPrompt, UNIVERSAL_STRUCTURE_PROMPT } from '../utils/prompts';
+import { GenerationConfig, SyllabusItem, ChatMessage, UploadedFile, AIProvider, AIProviderAdapter, AppModel, UsageOperation, FactCheckFinding } from '../types';
+import { buildContextString } from '../utils/prompts';
+import { PromptRegistryService } from './promptRegistryService';
+import { parseSyllabusResponse } from '../utils/syllabus';
+import { parseFactCheckResponse } from '../utils/factCheck';
+import { attachmentsAsText, withTextAttachments, isTextAttachment, decodeTextAttachment, getModelCapabilities, resolveMaxOutputTokens } from '../utils/modelCatalog';
+import { estimateTokens } from '../utils/retrieval';
 import { processGeneratedNote } from '../utils/formatter';
-
-// Helper to get SDK instance with Key Rotation
-const getGroqClient = (apiKeyString: string) => {
-  let finalKey = apiKeyString;
-  
-  // KEY ROTATION LOGIC
-  if (finalKey.includes(',') || finalKey.includes('\n')) {
-      const keys = finalKey.split(/[\n,]+/).map(k => k.trim()).filter(k => k.length > 0);
-      if (keys.length > 0) {
-          const randomIndex = Math.floor(Math.random() * keys.length);
-          finalKey = keys[randomIndex];
-      }
-  }
-
-  return new Groq({ 
-    apiKey: finalKey,
+import { KeyPoolService } from './keyPoolService';
+import { UsageLedgerService } from './usageLedgerService';
+import { throwIfAborted } from '../utils/abort';
+
+// Runs the call with an SDK instance bound to the next healthy key (KeyPool rotation)
+const withGroqClient = <T>(apiKeyString: string, task: (groq: Groq) => Promise<T>): Promise<T> => {
+  return KeyPoolService.getInstance().run(AIProvider.GROQ, apiKeyString, (apiKey) => task(new Groq({ 
+    apiKey,
     dangerouslyAllowBrowser: true // Required for client-side use
+  })));
+};
+
+// USAGE LEDGER: Groq returns OpenAI-style `usage` (on `x_groq` for the final stream chunk)
+const recordUsage = (config: GenerationConfig, operation: UsageOperation, model: string, usage: any, startedAt: number) => {
+  UsageLedgerService.getInstance().record({
+    provider: AIProvider.GROQ,
+    model,
+    operation,
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+    latencyMs: Date.now() - startedAt,
+    scope: config.usageScope
   });
 };
 
@@ -70,7 +80,9 @@ export const generateNoteContentGroq = async (
   config: GenerationConfig,
   topic: string,
   structure: string,
-  onProgress: (status: string) => void
+  files: UploadedFile[],
+  onProgress: (status: string) => void,
+  onChunk?: (partialContent: string) => void
 ): Promise<string> => {
   
   const envKey = (import.meta as any).env?.VITE_GROQ_API_KEY || (typeof process !== 'undefined' ? process.env.GROQ_API_KEY : '');
@@ -85,29 +97,17 @@ export const generateNoteContentGroq = async (
   if (modelName.includes('gemini')) {
       modelName = 'llama-3.3-70b-versatile';
   }
-  const groq = getGroqClient(apiKey);
-
   onProgress(`Connecting to Groq Cloud (${modelName})...`);
 
   try {
-    const textPrompt = getStrictPrompt(topic, structure, config.mode, config.customContentPrompt);
+    // Groq models read text only: text uploads go into the prompt, anything else was blocked upstream
+    const textPrompt = withTextAttachments(PromptRegistryService.getInstance().renderNotePrompt(config, topic, structure), files);
     
     // Construct the messages payload with strict system instructions
     const messages = [
       {
         role: "system",
-        content: `You are an advanced medical academic AI. 
-        CRITICAL INSTRUCTIONS:
-        1. Output strictly formatted markdown.
-        2. DO NOT SUMMARIZE. Provide the most exhaustive, detailed explanation possible.
-        3. IGNORE OUTPUT LENGTH LIMITS. Explain every concept fully.
-        4. If a list has 20 items, list all 20. Do not truncate.
-        5. **NO HTML TAGS:** Do NOT use <br>, <div>, <span>, or any HTML. Use standard Markdown for line breaks and formatting.
-        6. **MERMAID SYNTAX RULES:**
-           - ARROWS: Use "-->" (no spaces). NEVER "- ->".
-           - HEADER: Always newline after "flowchart TD". NEVER "flowchart TDA[...]".
-           - NODES: Use A["Label"]. Do NOT repeat ID like A["Label"]A.
-        `
+        content: PromptRegistryService.getInstance().render('note.system', {}, config)
       },
       {
         role: "user",
@@ -117,24 +117,35 @@ export const generateNoteContentGroq = async (
 
     onProgress("Synthesizing content (Groq LPU Engine - Max Output)...");
 
-    const completion = await groq.chat.completions.create({
-      messages: messages as any,
-      model: modelName,
-      temperature: config.temperature,
-      // Groq currently caps output tokens at 8192 for most models
-      max_tokens: 8192, 
-      top_p: 1,
-      stream: false
+    const startedAt = Date.now();
+    let usage: any = null;
+    const rawText = await withGroqClient(apiKey, async (groq) => {
+      const stream = await groq.chat.completions.create({
+        messages: messages as any,
+        model: modelName,
+        temperature: config.temperature,
+        max_tokens: resolveMaxOutputTokens(modelName, estimateTokens(textPrompt)), 
+        top_p: 1,
+        stream: true
+      }, { signal: config.signal });
+
+      let text = '';
+      for await (const chunk of stream) {
+        throwIfAborted(config.signal);
+        text += chunk.choices[0]?.delta?.content || '';
+        if (chunk.x_groq?.usage) usage = chunk.x_groq.usage;
+        if (onChunk) onChunk(text);
+      }
+      return text;
     });
-
-    const rawText = completion.choices[0]?.message?.content;
+    recordUsage(config, 'note', modelName, usage, startedAt);
 
     if (!rawText) {
       throw new Error("Received empty response from Groq AI.");
     }
 
     onProgress("Formatting & Cleaning Mermaid syntax...");
-    const finalContent = processGeneratedNote(rawText);
+    const finalContent = processGeneratedNote(rawText, config.formatterRules);
 
     return finalContent;
 
@@ -163,7 +174,6 @@ export const generateDetailedStructureGroq = async (
   const apiKey = config.groqApiKey || envKey;
   if (!apiKey) throw new Error("Groq API Key Missing");
 
-  const groq = getGroqClient(apiKey);
   // Use config.structureModel if available, else fallback
   let modelName = config.structureModel || config.model || 'llama-3.3-70b-versatile';
   if (modelName.includes('gemini')) {
@@ -171,9 +181,10 @@ export const generateDetailedStructureGroq = async (
   }
 
   try {
-    const systemPrompt = config.customStructurePrompt || UNIVERSAL_STRUCTURE_PROMPT;
+    const systemPrompt = config.customStructurePrompt || PromptRegistryService.getInstance().render('structure.universal', { topic }, config);
 
-    const completion = await groq.chat.completions.create({
+    const startedAt = Date.now();
+    const completion = await withGroqClient(apiKey, groq => groq.chat.completions.create({
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: `INPUT TOPIC: ${topic}` }
@@ -181,8 +192,9 @@ export const generateDetailedStructureGroq = async (
       model: modelName,
       temperature: 0.3,
       stream: false
-    });
+    }, { signal: config.signal }));
 
+    recordUsage(config, 'structure', modelName, completion.usage, startedAt);
     return completion.choices[0]?.message?.content || "";
   } catch (e: any) {
     console.error("Groq Structure Auto-Gen Error", e);
@@ -194,13 +206,6 @@ export const generateDetailedStructureGroq = async (
 /*                        SYLLABUS PARSERS (GROQ)                             */
 /* -------------------------------------------------------------------------- */
 
-const SYLLABUS_PROMPT = `
-  TASK: Analyze the provided Syllabus content.
-  GOAL: Extract a logical, sequential learning path of specific medical topics.
-  RETURN JSON STRING ARRAY ONLY.
-  Example: ["Topic 1", "Topic 2"]
-`;
-
 export const parseSyllabusFromTextGroq = async (
   config: GenerationConfig,
   rawText: string
@@ -209,7 +214,6 @@ export const parseSyllabusFromTextGroq = async (
   const apiKey = config.groqApiKey || envKey;
   if (!apiKey) throw new Error("Groq API Key Missing");
   
-  const groq = getGroqClient(apiKey);
   // Respect the model selected in the neural engine settings, but ensure it's a valid Groq model
   let modelName = config.model || 'llama-3.3-70b-versatile';
   if (modelName.includes('gemini')) {
@@ -217,36 +221,20 @@ export const parseSyllabusFromTextGroq = async (
   }
 
   try {
-    const completion = await groq.chat.completions.create({
+    const startedAt = Date.now();
+    const completion = await withGroqClient(apiKey, groq => groq.chat.completions.create({
       messages: [
-        { role: "system", content: SYLLABUS_PROMPT },
+        { role: "system", content: PromptRegistryService.getInstance().render('syllabus.parse', {}, config) },
         { role: "user", content: rawText }
       ],
       model: modelName,
       temperature: 0.2,
+      response_format: { type: "json_object" },
       stream: false
-    });
+    }, { signal: config.signal }));
 
-    const text = completion.choices[0]?.message?.content || "[]";
-    // Clean potential markdown code blocks
-    const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    
-    // Attempt parse
-    let topics: string[] = [];
-    try {
-        topics = JSON.parse(cleanJson);
-    } catch(e) {
-        // Fallback: split by newlines if JSON fails but list looks okay
-        topics = cleanJson.split('\n')
-          .map(t => t.replace(/^\d+[\.\)]\s*/, '').trim()) // Remove "1. " or "1) "
-          .filter(t => t.length > 0 && !t.startsWith('['));
-    }
-
-    return topics.map((t, index) => ({
-      id: `topic-${Date.now()}-${index}`,
-      topic: t,
-      status: 'pending'
-    }));
+    recordUsage(config, 'syllabus', modelName, completion.usage, startedAt);
+    return parseSyllabusResponse(completion.choices[0]?.message?.content || "");
 
   } catch (e: any) {
     console.error("Groq Syllabus Parsing Error", e);
@@ -261,44 +249,31 @@ export const parseSyllabusFromTextGroq = async (
 export const refineNoteContentGroq = async (
   config: GenerationConfig,
   currentContent: string,
-  instruction: string
+  instruction: string,
+  additionalContexts?: Record<string, string>
 ): Promise<string> => {
   const envKey = (import.meta as any).env?.VITE_GROQ_API_KEY || (typeof process !== 'undefined' ? process.env.GROQ_API_KEY : '');
   const apiKey = config.groqApiKey || envKey;
   if (!apiKey) throw new Error("Groq API Key Missing");
 
-  const groq = getGroqClient(apiKey);
   let modelName = config.model || 'llama-3.3-70b-versatile';
   if (modelName.includes('gemini')) {
       modelName = 'llama-3.3-70b-versatile';
   }
 
   try {
-    const prompt = `
-    ROLE: Expert Medical Editor.
-    TASK: Modify the following Medical Note based on the USER INSTRUCTION.
-    
-    USER INSTRUCTION: "${instruction}"
-    
-    RULES:
-    1. Retain the original Markdown formatting (Headers, Mermaid charts, Callouts) unless specifically asked to change them.
-    2. Do NOT output "Here is the revised note". Just output the Markdown.
-    3. Ensure technical accuracy is maintained.
-    
-    ORIGINAL CONTENT:
-    """
-    ${currentContent}
-    """
-    `;
+    const prompt = PromptRegistryService.getInstance().render('edit.refine', { instruction, content: currentContent, context: buildContextString(additionalContexts) }, config);
 
-    const completion = await groq.chat.completions.create({
+    const startedAt = Date.now();
+    const completion = await withGroqClient(apiKey, groq => groq.chat.completions.create({
       messages: [{ role: "user", content: prompt }],
       model: modelName,
       temperature: 0.3,
       stream: false
-    });
+    }, { signal: config.signal }));
 
-    return processGeneratedNote(completion.choices[0]?.message?.content || currentContent);
+    recordUsage(config, 'refine', modelName, completion.usage, startedAt);
+    return processGeneratedNote(completion.choices[0]?.message?.content || currentContent, config.formatterRules);
   } catch (e: any) {
     console.error("Groq Refinement Error", e);
     throw new Error("Failed to refine content: " + e.message);
@@ -316,54 +291,95 @@ export const deepenNoteContentGroq = async (
   const apiKey = config.groqApiKey || envKey;
   if (!apiKey) throw new Error("Groq API Key Missing");
 
-  const groq = getGroqClient(apiKey);
   let modelName = config.model || 'llama-3.3-70b-versatile';
   if (modelName.includes('gemini')) {
       modelName = 'llama-3.3-70b-versatile';
   }
 
-  let contextString = "";
-  if (additionalContexts && Object.keys(additionalContexts).length > 0) {
-      contextString = "\n\n*** ADDITIONAL REFERENCE CONTEXT ***\n";
-      Object.entries(additionalContexts).forEach(([id, content]) => {
-          contextString += `\n--- SOURCE: ${id} ---\n${content.substring(0, 5000)}\n`;
-      });
+  const prompt = PromptRegistryService.getInstance().render('edit.deepen', {
+      instruction: instruction || 'Deepen the note using the provided context.',
+      content: currentContent, // Whole note: the reply replaces it, so a cut-off tail would read as a deletion
+      context: buildContextString(additionalContexts)
+  }, config);
+
+  try {
+      const startedAt = Date.now();
+      const completion = await withGroqClient(apiKey, groq => groq.chat.completions.create({
+          messages: [{ role: "user", content: prompt }],
+          model: modelName,
+          temperature: 0.3,
+          max_tokens: resolveMaxOutputTokens(modelName, estimateTokens(prompt)),
+          stream: false
+      }, { signal: config.signal }));
+
+      recordUsage(config, 'deepen', modelName, completion.usage, startedAt);
+      return processGeneratedNote(completion.choices[0]?.message?.content || currentContent, config.formatterRules);
+  } catch (e: any) {
+      console.error("Groq Deepen Error", e);
+      throw new Error("Failed to deepen content: " + e.message);
   }
+};
 
-  const prompt = `
-  ROLE: Expert Medical Editor & Professor.
-  TASK: DEEPEN and ENRICH the existing Medical Note using the provided context materials.
+export const factCheckNoteGroq = async (
+  config: GenerationConfig,
+  content: string,
+  files: UploadedFile[]
+): Promise<FactCheckFinding[]> => {
+  const envKey = (import.meta as any).env?.VITE_GROQ_API_KEY || (typeof process !== 'undefined' ? process.env.GROQ_API_KEY : '');
+  const apiKey = config.groqApiKey || envKey;
+  if (!apiKey) throw new Error("Groq API Key Missing");
+
+  let modelName = config.model || 'llama-3.3-70b-versatile';
+  if (modelName.includes('gemini')) {
+      modelName = 'llama-3.3-70b-versatile';
+  }
+
+  const prompt = PromptRegistryService.getInstance().render('review.factcheck', { content, sources: attachmentsAsText(files) }, config);
 
-  USER INSTRUCTION: "${instruction || 'Deepen the note using the provided context.'}"
+  try {
+      const startedAt = Date.now();
+      const completion = await withGroqClient(apiKey, groq => groq.chat.completions.create({
+          messages: [{ role: "user", content: prompt }],
+          model: modelName,
+          temperature: 0.1,
+          ...(getModelCapabilities(modelName).jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+          stream: false
+      }, { signal: config.signal }));
+
+      recordUsage(config, 'factcheck', modelName, completion.usage, startedAt);
+      return parseFactCheckResponse(completion.choices[0]?.message?.content || '');
+  } catch (e: any) {
+      console.error("Groq Fact-Check Error", e);
+      throw new Error("Fact-check failed: " + e.message);
+  }
+};
+
+export const repairMermaidGroq = async (config: GenerationConfig, code: string, error: string): Promise<string> => {
+  const envKey = (import.meta as any).env?.VITE_GROQ_API_KEY || (typeof process !== 'undefined' ? process.env.GROQ_API_KEY : '');
+  const apiKey = config.groqApiKey || envKey;
+  if (!apiKey) throw new Error("Groq API Key Missing");
 
-  RULES FOR DEEPENING:
-  1. DO NOT DELETE OR SUMMARIZE existing information. Your job is to EXPAND it.
-  2. Integrate new facts, mechanisms, clinical correlations, and details from the Context into the existing structure.
-  3. If the Context contains new relevant topics not in the original note, add them as new sections at the end or where logically appropriate.
-  4. Maintain the original Markdown formatting (Headers, Lists, etc.).
-  5. The final output must be a comprehensive, combined note. DO NOT output a conversational response, ONLY the new Markdown note.
-  6. Write extensively. Do not be brief.
+  let modelName = config.model || 'llama-3.3-70b-versatile';
+  if (modelName.includes('gemini')) {
+      modelName = 'llama-3.3-70b-versatile';
+  }
 
-  ORIGINAL CONTENT:
-  """
-  ${currentContent.substring(0, 15000)}
-  """
-  ${contextString.substring(0, 10000)}
-  `;
+  const prompt = PromptRegistryService.getInstance().render('repair.mermaid', { code, error }, config);
 
   try {
-      const completion = await groq.chat.completions.create({
+      const startedAt = Date.now();
+      const completion = await withGroqClient(apiKey, groq => groq.chat.completions.create({
           messages: [{ role: "user", content: prompt }],
           model: modelName,
-          temperature: 0.3,
-          max_tokens: 8192,
+          temperature: 0,
           stream: false
-      });
+      }, { signal: config.signal }));
 
-      return processGeneratedNote(completion.choices[0]?.message?.content || currentContent);
+      recordUsage(config, 'mermaid', modelName, completion.usage, startedAt);
+      return completion.choices[0]?.message?.content || code;
   } catch (e: any) {
-      console.error("Groq Deepen Error", e);
-      throw new Error("Failed to deepen content: " + e.message);
+      console.error("Groq Mermaid Repair Error", e);
+      throw new Error("Diagram repair failed: " + e.message);
   }
 };
 
@@ -382,36 +398,15 @@ export const generateAssistantResponseGroq = async (
   const apiKey = config.groqApiKey || envKey;
   if (!apiKey) throw new Error("Groq API Key Missing");
 
-  const groq = getGroqClient(apiKey);
   let modelName = config.model || 'llama-3.3-70b-versatile';
   if (modelName.includes('gemini')) {
       modelName = 'llama-3.3-70b-versatile';
   }
 
-  let contextString = "";
-  if (additionalContexts && Object.keys(additionalContexts).length > 0) {
-      contextString = "\n\n*** ADDITIONAL REFERENCE CONTEXT ***\n";
-      Object.entries(additionalContexts).forEach(([id, content]) => {
-          contextString += `\n--- SOURCE: ${id} ---\n${content.substring(0, 5000)}\n`;
-      });
-  }
-
-  const systemPrompt = `
-  ROLE: Intelligent Medical Assistant (Neuro-Sidekick).
-  CONTEXT: The user is working on a medical note.
-  CURRENT NOTE CONTENT:
-  """
-  ${currentContent.substring(0, 20000)} ... (truncated)
-  """
-  ${contextString}
-
-  INSTRUCTION:
-  - Provide a direct, high-quality response to the user's request.
-  - If asked to add content, write it in Markdown format matching the note's style.
-  - If asked to summarize, provide a concise summary.
-  - Do NOT repeat the user's prompt.
-  - Use the Additional Reference Context if relevant to answer the user's question.
-  `;
+  const systemPrompt = PromptRegistryService.getInstance().render('assistant.system', {
+      content: currentContent,
+      context: buildContextString(additionalContexts)
+  }, config);
 
   try {
       const messages = [
@@ -419,16 +414,58 @@ export const generateAssistantResponseGroq = async (
           ...history.map(msg => ({ role: msg.role === 'model' ? 'assistant' : msg.role, content: msg.content }))
       ];
 
-      const completion = await groq.chat.completions.create({
+      const startedAt = Date.now();
+      const completion = await withGroqClient(apiKey, groq => groq.chat.completions.create({
           messages: messages as any,
           model: modelName,
           temperature: 0.4,
           stream: false
-      });
+      }, { signal: config.signal }));
 
+      recordUsage(config, 'assistant', modelName, completion.usage, startedAt);
       return completion.choices[0]?.message?.content || "No response generated.";
   } catch (e: any) {
       console.error("Groq Assistant Error", e);
       throw new Error("Assistant failed: " + e.message);
   }
 };
+
+/* -------------------------------------------------------------------------- */
+/*                           PROVIDER ADAPTER (GROQ)                          */
+/* -------------------------------------------------------------------------- */
+
+// Groq has no inline-file support, so only text-like syllabus files are accepted.
+const parseSyllabusFileGroq = async (config: GenerationConfig, file: UploadedFile): Promise<SyllabusItem[]> => {
+  if (isTextAttachment(file)) {
+      return parseSyllabusFromTextGroq(config, decodeTextAttachment(file));
+  }
+  throw new Error("Groq currently supports text-based files for parsing. Use Gemini for PDF/Images.");
+};
+
+export const groqProvider: AIProviderAdapter = {
+  id: AIProvider.GROQ,
+  label: 'Groq',
+  defaultModel: AppModel.GROQ_LLAMA_3_3_70B,
+  models: [
+    { value: AppModel.GROQ_LLAMA_3_3_70B, label: 'Llama 3.3 70B', badge: 'Versatile' },
+    { value: AppModel.GROQ_LLAMA_3_1_8B, label: 'Llama 3.1 8B', badge: 'Instant' },
+    { value: AppModel.GROQ_MIXTRAL_8X7B, label: 'Mixtral 8x7B', badge: 'Complex' },
+  ],
+  fetchModels: async (config) => {
+    const models = await getAvailableGroqModels(config);
+    return models.map(m => ({
+      value: m.id,
+      label: m.id.replace('groq-', '').replace('llama', 'Llama'),
+      badge: 'Cloud'
+    }));
+  },
+  generateNoteContent: generateNoteContentGroq,
+  generateDetailedStructure: generateDetailedStructureGroq,
+  parseSyllabusFile: parseSyllabusFileGroq,
+  parseSyllabusText: parseSyllabusFromTextGroq,
+  refineNoteContent: refineNoteContentGroq,
+  deepenNoteContent: deepenNoteContentGroq,
+  factCheckNote: factCheckNoteGroq,
+  repairMermaid: repairMermaidGroq,
+  generateAssistantResponse: generateAssistantResponseGroq
+};
@@ -0,0 +1,195 @@
+import { KeyHealth } from '../types';
+import { isAbortError } from '../utils/abort';
+
+type PoolListener = () => void;
+
+const STORAGE_KEY = 'neuro_key_health';
+const BASE_COOLDOWN_MS = 60 * 1000;
+const MAX_COOLDOWN_MS = 15 * 60 * 1000;
+
+type FailureKind = 'rate_limit' | 'invalid' | 'other';
+
+/**
+ * KEY POOL
+ *
+ * Round-robin rotation over the comma/newline separated key lists, with
+ * per-key health. Rate-limited keys are parked for a cooldown while another
+ * key can take over, keys the API rejects as invalid are marked dead, and
+ * `run` transparently retries a call on the next healthy key so one bad key
+ * never surfaces as a failed request.
+ */
+export class KeyPoolService {
+  private static instance: KeyPoolService;
+  private health: Record<string, KeyHealth> = {};
+  private cursors: Record<string, number> = {};
+  private listeners: PoolListener[] = [];
+
+  private constructor() {
+    this.loadHealth();
+  }
+
+  public static getInstance(): KeyPoolService {
+    if (!KeyPoolService.instance) {
+      KeyPoolService.instance = new KeyPoolService();
+    }
+    return KeyPoolService.instance;
+  }
+
+  public static parseKeys(keyString: string): string[] {
+    return (keyString || '').split(/[\n,]+/).map(k => k.trim()).filter(k => k.length > 0);
+  }
+
+  // Never store raw keys in the health map, only a short recognisable fingerprint
+  public static fingerprint(key: string): string {
+    return key.length <= 10 ? `${key.slice(0, 2)}…` : `${key.slice(0, 4)}…${key.slice(-4)}`;
+  }
+
+  public subscribe(listener: PoolListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /** Health for every key in the list, in list order (used by Settings). */
+  public getStatus(pool: string, keyString: string): KeyHealth[] {
+    return KeyPoolService.parseKeys(keyString).map(key => this.getHealth(pool, key));
+  }
+
+  public resetKey(pool: string, fingerprint: string) {
+    delete this.health[`${pool}:${fingerprint}`];
+    this.persist();
+  }
+
+  /**
+   * Runs `task` with the next available key. Rate-limit and invalid-key
+   * failures are recorded and the task is retried on another key; any other
+   * error is recorded and rethrown untouched.
+   */
+  public async run<T>(pool: string, keyString: string, task: (key: string) => Promise<T>): Promise<T> {
+    const tried = new Set<string>();
+    while (true) {
+      const key = this.acquire(pool, keyString, tried);
+      tried.add(key);
+      try {
+        const result = await task(key);
+        this.reportSuccess(pool, key);
+        return result;
+      } catch (e: any) {
+        if (isAbortError(e)) throw e; // Cancelled by the user, not the key's fault
+        const kind = KeyPoolService.classify(e);
+        const canRotate = kind !== 'other' && this.hasAvailable(pool, keyString, tried);
+        // A rate-limited key is only parked when another key takes over; parking the last one
+        // would fail every retry locally until the cooldown ends, without ever reaching the API
+        this.reportFailure(pool, key, e, kind, kind === 'rate_limit' && canRotate);
+        if (!canRotate) throw e;
+        console.warn(`[KeyPool] ${pool} key ${KeyPoolService.fingerprint(key)} ${kind === 'invalid' ? 'rejected' : 'rate-limited'}, rotating.`);
+      }
+    }
+  }
+
+  /** Next healthy key in round-robin order. Throws when every key is parked or dead. */
+  public acquire(pool: string, keyString: string, exclude: Set<string> = new Set()): string {
+    const key = this.nextAvailable(pool, keyString, exclude);
+    if (key) return key;
+
+    const statuses = this.getStatus(pool, keyString);
+    const cooling = statuses.filter(s => s.state === 'cooling' && s.cooldownUntil);
+    if (cooling.length > 0) {
+      const wait = Math.ceil((Math.min(...cooling.map(s => s.cooldownUntil!)) - Date.now()) / 1000);
+      throw new Error(`All ${pool} API keys are rate-limited (429). Next key available in ${Math.max(wait, 1)}s.`);
+    }
+    throw new Error(`All ${pool} API keys are invalid (401). Please update them in Settings.`);
+  }
+
+  private nextAvailable(pool: string, keyString: string, exclude: Set<string>): string | null {
+    const keys = KeyPoolService.parseKeys(keyString);
+    if (keys.length === 0) return null;
+
+    const start = (this.cursors[pool] || 0) % keys.length;
+    for (let offset = 0; offset < keys.length; offset++) {
+      const idx = (start + offset) % keys.length;
+      const key = keys[idx];
+      if (exclude.has(key) || !this.isAvailable(this.getHealth(pool, key))) continue;
+      this.cursors[pool] = idx + 1;
+      return key;
+    }
+    return null;
+  }
+
+  private hasAvailable(pool: string, keyString: string, exclude: Set<string>): boolean {
+    return KeyPoolService.parseKeys(keyString).some(key => !exclude.has(key) && this.isAvailable(this.getHealth(pool, key)));
+  }
+
+  private isAvailable(h: KeyHealth): boolean {
+    if (h.state === 'dead') return false;
+    if (h.state === 'cooling') return !!h.cooldownUntil && h.cooldownUntil <= Date.now();
+    return true;
+  }
+
+  private getHealth(pool: string, key: string): KeyHealth {
+    const fp = KeyPoolService.fingerprint(key);
+    const existing = this.health[`${pool}:${fp}`];
+    if (!existing) return { fingerprint: fp, state: 'ok', failures: 0 };
+    // Expired cooldowns read as healthy again
+    if (existing.state === 'cooling' && existing.cooldownUntil && existing.cooldownUntil <= Date.now()) {
+      return { ...existing, state: 'ok', cooldownUntil: undefined };
+    }
+    return existing;
+  }
+
+  private reportSuccess(pool: string, key: string) {
+    const h = this.getHealth(pool, key);
+    this.health[`${pool}:${h.fingerprint}`] = { ...h, state: 'ok', cooldownUntil: undefined, failures: 0, lastUsed: Date.now() };
+    this.persist();
+  }
+
+  private reportFailure(pool: string, key: string, error: any, kind: FailureKind, park: boolean) {
+    const h = this.getHealth(pool, key);
+    const message = (error?.message || String(error)).substring(0, 200);
+    const failures = h.failures + 1;
+
+    const next: KeyHealth = { ...h, failures, lastError: message, lastUsed: Date.now() };
+    if (kind === 'rate_limit' && park) {
+      // Honour the server's retry hint when present, else back off exponentially
+      const hinted = KeyPoolService.parseRetryDelay(message);
+      const backoff = Math.min(BASE_COOLDOWN_MS * Math.pow(2, Math.max(failures - 1, 0)), MAX_COOLDOWN_MS);
+      next.state = 'cooling';
+      next.cooldownUntil = Date.now() + (hinted || backoff);
+    } else if (kind === 'invalid') {
+      next.state = 'dead';
+      next.cooldownUntil = undefined;
+    }
+
+    this.health[`${pool}:${h.fingerprint}`] = next;
+    this.persist();
+  }
+
+  private static classify(error: any): FailureKind {
+    const status = error?.status ?? error?.code;
+    const msg = String(error?.message || error || '');
+    if (status === 429 || /\b429\b|quota|rate.?limit|RESOURCE_EXHAUSTED|too many requests/i.test(msg)) return 'rate_limit';
+    if (status === 401 || /\b401\b|API_KEY_INVALID|API key not valid|invalid api key|unauthori[sz]ed/i.test(msg)) return 'invalid';
+    return 'other';
+  }
+
+  private static parseRetryDelay(message: string): number | null {
+    const match = message.match(/retry(?:Delay)?["\s:]*(?:in\s*)?"?(\d+(?:\.\d+)?)s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+  }
+
+  private loadHealth() {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) this.health = JSON.parse(saved);
+    } catch (e) {
+      console.error("Key health recovery failed", e);
+      this.health = {};
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.health));
+    this.listeners.forEach(l => l());
+  }
+}
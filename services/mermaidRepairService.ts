@@ -0,0 +1,104 @@
+import { GenerationConfig } from '../types';
+import { getProvider } from './providerRegistry';
+import { repairMermaidSyntax, stripMermaidFences, downgradeMermaidBlock, MERMAID_BLOCK } from '../utils/formatter';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+
+/**
+ * MERMAID VALIDATE-AND-REPAIR
+ *
+ * Every ```mermaid block of a generated note is checked with Mermaid's own
+ * parser. Blocks it rejects go through the deterministic fixers, then up to
+ * MAX_REPAIR_ATTEMPTS targeted AI repairs (given the parser error), and are
+ * downgraded to a marked plain code block if they still don't parse.
+ * If Mermaid itself can't be loaded (offline, stale deploy), nothing is
+ * validated: a missing parser is not a broken diagram.
+ */
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const loadMermaid = async () => {
+  try {
+    return (await import('mermaid')).default;
+  } catch (e) {
+    return null;
+  }
+};
+
+/** Parser error for a diagram, or null when Mermaid accepts it (or can't be loaded to check). */
+export const validateMermaid = async (code: string): Promise<string | null> => {
+  if (!code.trim()) return 'Empty diagram';
+  const mermaid = await loadMermaid();
+  if (!mermaid) return null;
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (e: any) {
+    return String(e?.message || e);
+  }
+};
+
+const repairBlock = async (config: GenerationConfig, original: string, onProgress?: (status: string) => void): Promise<string | null> => {
+  // 1. Deterministic fixers
+  let code = repairMermaidSyntax(original, config.formatterRules);
+  let error = await validateMermaid(code);
+  if (!error) return code;
+
+  // 2. Targeted AI repair, fed the latest parser error each round
+  const adapter = getProvider(config.provider);
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    throwIfAborted(config.signal);
+    onProgress?.(`Repairing diagram (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS})...`);
+    try {
+      code = stripMermaidFences(await adapter.repairMermaid(config, code, error!));
+    } catch (e: any) {
+      if (isAbortError(e, config.signal)) throw e;
+      console.warn("Mermaid repair call failed", e);
+      return null;
+    }
+    error = await validateMermaid(code);
+    if (!error) return code;
+  }
+  return null;
+};
+
+/**
+ * Returns `content` with every Mermaid block parseable or downgraded. Valid
+ * blocks are left byte-for-byte untouched; repair calls are billed to `config`.
+ * For edits, pass the text before the edit as `previous`: blocks it already
+ * contained are kept as they are, so a diagram left broken earlier isn't
+ * re-repaired on every edit.
+ */
+export const validateAndRepairMermaid = async (
+  config: GenerationConfig,
+  content: string,
+  onProgress?: (status: string) => void,
+  previous?: string
+): Promise<string> => {
+  const blocks = Array.from(content.matchAll(MERMAID_BLOCK));
+  if (blocks.length === 0) return content;
+  if (!(await loadMermaid())) return content;
+
+  const unchanged = new Set(previous ? Array.from(previous.matchAll(MERMAID_BLOCK), b => b[1].trim()) : []);
+  const changed = blocks.filter(block => !unchanged.has(block[1].trim()));
+  if (changed.length === 0) return content;
+
+  onProgress?.("Validating diagrams...");
+  const replacements: string[] = [];
+  for (const block of blocks) {
+    const original = block[1].trim();
+    if (unchanged.has(original)) {
+      replacements.push(block[0]);
+      continue;
+    }
+    const error = await validateMermaid(original);
+    if (!error) {
+      replacements.push(block[0]);
+      continue;
+    }
+    const repaired = await repairBlock(config, original, onProgress);
+    replacements.push(repaired ? "```mermaid\n" + repaired + "\n```" : downgradeMermaidBlock(original, error));
+  }
+
+  let index = 0;
+  return content.replace(MERMAID_BLOCK, () => replacements[index++]);
+};
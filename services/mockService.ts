@@ -0,0 +1,373 @@
+import { GenerationConfig, SyllabusItem, ChatMessage, UploadedFile, AIProvider, AIProviderAdapter, NoteMode, UsageOperation, MockSettings, MockScriptStep, FactCheckFinding } from '../types';
+import { parseSyllabusResponse } from '../utils/syllabus';
+import { parseFactCheckResponse } from '../utils/factCheck';
+import { processGeneratedNote, stripMermaidFences } from '../utils/formatter';
+import { generateComprehensiveNote } from './comprehensiveService';
+import { UsageLedgerService } from './usageLedgerService';
+import { PromptRegistryService } from './promptRegistryService';
+import { throwIfAborted, createAbortError } from '../utils/abort';
+import { estimateTokens } from '../utils/retrieval';
+
+/**
+ * MOCK ENGINE
+ *
+ * Offline provider for development. Responses are deterministic fixtures
+ * built from the request (topic, blueprint, syllabus lines), so queue retries,
+ * the circuit breaker, COMPREHENSIVE batching and note post-processing can be
+ * exercised without a key. The selected model picks a scenario; a script of
+ * one-off steps (failures, exact text, latency) is consumed before it.
+ *
+ * Enabled from Settings or with VITE_MOCK_AI=true (VITE_MOCK_LATENCY_MS sets latency).
+ */
+
+const SETTINGS_KEY = 'neuro_mock_settings';
+const STREAM_CHUNKS = 12;
+const CHUNK_DELAY = 40;
+
+export const MOCK_MODELS = {
+  FIXTURE: 'mock-fixture',
+  BROKEN_MERMAID: 'mock-broken-mermaid',
+  RATE_LIMIT: 'mock-429',
+  SERVER_ERROR: 'mock-500',
+  FLAKY: 'mock-flaky'
+};
+
+const env = (import.meta as any).env || {};
+
+type MockListener = () => void;
+
+export class MockProviderService {
+  private static instance: MockProviderService;
+  private settings: MockSettings;
+  private callCount: number = 0;
+  private listeners: MockListener[] = [];
+
+  private constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  public static getInstance(): MockProviderService {
+    if (!MockProviderService.instance) {
+      MockProviderService.instance = new MockProviderService();
+    }
+    return MockProviderService.instance;
+  }
+
+  public subscribe(listener: MockListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /** The env flag forces the mock on regardless of the saved toggle. */
+  public isEnabled(): boolean {
+    return env.VITE_MOCK_AI === 'true' || this.settings.enabled;
+  }
+
+  public isForcedByEnv(): boolean {
+    return env.VITE_MOCK_AI === 'true';
+  }
+
+  public getSettings(): MockSettings {
+    return { ...this.settings, script: [...this.settings.script] };
+  }
+
+  /** Saving also restarts the call counter so the flaky scenario is reproducible. */
+  public saveSettings(settings: MockSettings) {
+    this.settings = { ...settings, script: [...settings.script] };
+    this.callCount = 0;
+    this.persist();
+  }
+
+  /** Next call number (1-based) and the scripted step for it, if any. */
+  public nextCall(): { call: number; step?: MockScriptStep } {
+    this.callCount++;
+    const step = this.settings.script.shift();
+    if (step) this.persist();
+    return { call: this.callCount, step };
+  }
+
+  private loadSettings(): MockSettings {
+    const envLatency = parseInt(env.VITE_MOCK_LATENCY_MS || '', 10);
+    const defaults: MockSettings = { enabled: false, latencyMs: envLatency > 0 ? envLatency : 600, script: [] };
+    try {
+      const saved = localStorage.getItem(SETTINGS_KEY);
+      return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+    } catch (e) {
+      return defaults;
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    this.listeners.forEach(l => l());
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              CALL SIMULATION                               */
+/* -------------------------------------------------------------------------- */
+
+// Abortable delay so Cancel works while a mock call is "in flight"
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (ms <= 0) return resolve();
+  const onAbort = () => { clearTimeout(timer); reject(createAbortError()); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Errors carry the same status and message shape as the real SDKs so retry / key-pool logic treats them alike
+const createMockError = (status: 429 | 500): Error => {
+  const error: any = new Error(status === 429
+    ? '[429 RESOURCE_EXHAUSTED] Mock quota exceeded. Please retry in a moment.'
+    : '[500 INTERNAL] Mock server error. An internal error has occurred.');
+  error.status = status;
+  return error;
+};
+
+const scenarioFailure = (model: string, call: number): 429 | 500 | undefined => {
+  if (model === MOCK_MODELS.RATE_LIMIT) return 429;
+  if (model === MOCK_MODELS.SERVER_ERROR) return 500;
+  if (model === MOCK_MODELS.FLAKY && call % 2 === 1) return 500; // Odd calls fail, even calls succeed
+  return undefined;
+};
+
+const runMockCall = async (
+  config: GenerationConfig,
+  operation: UsageOperation,
+  input: string,
+  produce: (brokenMermaid: boolean) => string,
+  onChunk?: (textSoFar: string) => void
+): Promise<string> => {
+  const mock = MockProviderService.getInstance();
+  throwIfAborted(config.signal);
+  const startedAt = Date.now();
+  const { call, step } = mock.nextCall();
+
+  await sleep(step?.delayMs ?? mock.getSettings().latencyMs, config.signal);
+
+  const failure = step?.fail ?? scenarioFailure(config.model, call);
+  if (failure) throw createMockError(failure);
+
+  const text = step?.text ?? produce(!!step?.brokenMermaid || config.model === MOCK_MODELS.BROKEN_MERMAID);
+
+  if (onChunk) {
+    const size = Math.max(1, Math.ceil(text.length / STREAM_CHUNKS));
+    for (let i = size; i < text.length + size; i += size) {
+      throwIfAborted(config.signal);
+      onChunk(text.slice(0, i));
+      await sleep(CHUNK_DELAY, config.signal);
+    }
+  }
+
+  UsageLedgerService.getInstance().record({
+    provider: AIProvider.MOCK,
+    model: config.model,
+    operation,
+    inputTokens: estimateTokens(input), // No tokenizer offline, the shared ~4 characters per token heuristic
+    outputTokens: estimateTokens(text),
+    latencyMs: Date.now() - startedAt,
+    scope: config.usageScope
+  });
+  return text;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  FIXTURES                                  */
+/* -------------------------------------------------------------------------- */
+
+const VALID_FLOWCHART = "```mermaid\ngraph TD\n  A[\"Trigger\"] --> B[\"Mechanism\"]\n  B --> C{\"Severe?\"}\n  C -- Yes --> D[\"Escalate\"]\n  C -- No --> E[\"Monitor\"]\n```";
+const VALID_MINDMAP = "```mermaid\nmindmap\n  root((Summary))\n    Causes\n    Features\n    Management\n```";
+
+// The kinds of mistakes models actually make: merged header, list numbers, unquoted parens, multiple mindmap roots, unclosed node
+const BROKEN_FLOWCHART = "```mermaid\ngraph TDA[Trigger (acute)] --> B(Mechanism (cellular))\n1. B --> C{Severe?}\nC -- Yes --> D[Escalate (ICU)]\nC -- No --> E[Monitor\n```";
+const BROKEN_MINDMAP = "```mermaid\nmindmap\nCauses\n  Genetic\nFeatures\n  Early (mild)\nManagement\n```";
+
+const getHeaders = (structure: string): string[] => {
+  const headers = structure.split('\n')
+    .filter(l => /^#{1,3}\s/.test(l.trim()))
+    .map(l => l.trim().replace(/^#+\s*/, ''));
+  return headers.length > 0 ? headers : ['Overview', 'Key Points', 'Summary'];
+};
+
+const buildSection = (topic: string, title: string, index: number, brokenMermaid: boolean): string => {
+  const lines = [
+    `**${title}** of *${topic}*: deterministic mock content for offline development.`,
+    '',
+    `- Key point ${index + 1}.1 about ${title.toLowerCase()}.`,
+    `- Key point ${index + 1}.2 linking ${title.toLowerCase()} back to ${topic}.`,
+    ''
+  ];
+  if (index === 0) {
+    lines.push('| Feature | Finding | Note |', '|---|---|---|', `| ${title} | Typical | Mock row A |`, `| ${topic} | Variant | Mock row B |`, '');
+  }
+  if (index % 2 === 1) {
+    lines.push('<<<CLINIC_START>>>', `[Clinical Pearl] ${title} matters because the fixture says so.`, '<<<CLINIC_END>>>', '');
+  }
+  if (index === 1) lines.push(brokenMermaid ? BROKEN_FLOWCHART : VALID_FLOWCHART, '');
+  return lines.join('\n');
+};
+
+const buildFixtureNote = (topic: string, structure: string, brokenMermaid: boolean): string => {
+  const body = getHeaders(structure).map((h, i) => `## ${h}\n\n${buildSection(topic, h, i, brokenMermaid)}`).join('\n');
+  return `# ${topic}\n\n${body}\n## Mind Map\n\n${brokenMermaid ? BROKEN_MINDMAP : VALID_MINDMAP}\n`;
+};
+
+const buildFixtureStructure = (request: string): string => {
+  const [topic, ...details] = request.split('\n');
+  const extras = details
+    .filter(l => l.trim().startsWith('- '))
+    .map(l => l.trim().slice(2));
+  const sections = ['Definition & Overview', 'Mechanism', ...extras, 'Clinical Features', 'Diagnosis', 'Management'];
+  return sections.map((s, i) => `# ${i + 1}. ${s}\n- ${topic.trim()}: ${s.toLowerCase()} essentials\n- Common exam angles`).join('\n');
+};
+
+// "Module/Unit/Week/Chapter ..." or markdown headings open a module, every other line is a topic
+const buildFixtureSyllabus = (rawText: string): string => {
+  const modules: { title: string; topics: { title: string; objectives: string[]; subtopics: string[] }[] }[] = [];
+  rawText.split('\n').map(l => l.trim()).filter(Boolean).forEach(line => {
+    const clean = line.replace(/^#+\s*/, '').replace(/^\d+[\.\)]\s*/, '').replace(/^[-*]\s*/, '');
+    if (/^#/.test(line) || /^(module|unit|week|chapter|part)\b/i.test(clean)) {
+      modules.push({ title: clean, topics: [] });
+      return;
+    }
+    if (modules.length === 0) modules.push({ title: 'Module 1', topics: [] });
+    modules[modules.length - 1].topics.push({ title: clean, objectives: [`Explain ${clean}`], subtopics: [] });
+  });
+  return JSON.stringify({ modules: modules.filter(m => m.topics.length > 0) });
+};
+
+// A valid diagram of the same type; the broken-Mermaid scenario echoes the input so the downgrade path runs
+const buildFixtureMermaidRepair = (code: string, broken: boolean): string => {
+  if (broken) return code;
+  return stripMermaidFences(/^\s*mindmap/.test(code) ? VALID_MINDMAP : VALID_FLOWCHART);
+};
+
+// Flags the first prose line under a heading, so accept/dismiss can be exercised offline
+const buildFixtureFactCheck = (content: string, fileCount: number): string => {
+  let heading = '';
+  let quote = '';
+  for (const line of content.split('\n')) {
+    const match = line.match(/^#{1,6}\s+(.+)/);
+    if (match) heading = match[1].trim();
+    else if (heading && /^[A-Za-z*]/.test(line.trim()) && line.trim().length > 20) { quote = line.trim(); break; }
+  }
+  if (!quote) return JSON.stringify({ findings: [] });
+  return JSON.stringify({
+    findings: [{
+      claim: quote.slice(0, 80),
+      location: heading,
+      quote,
+      severity: 'medium',
+      issue: `Mock review: claim not found in ${fileCount > 0 ? `${fileCount} source file(s)` : 'any source'}.`,
+      suggestedFix: `${quote} (verify)`
+    }]
+  });
+};
+
+const DEFAULT_SYLLABUS_TEXT = "Module 1: Foundations\nCell Injury\nInflammation\nModule 2: Systems\nHeart Failure\nAsthma";
+
+const decodeTextFile = (file: UploadedFile): string => {
+  if (!file.mimeType.startsWith('text/')) return DEFAULT_SYLLABUS_TEXT;
+  try {
+    return new TextDecoder().decode(Uint8Array.from(atob(file.data), c => c.charCodeAt(0)));
+  } catch (e) {
+    return DEFAULT_SYLLABUS_TEXT;
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                          PROVIDER ADAPTER (MOCK)                           */
+/* -------------------------------------------------------------------------- */
+
+const generateNoteContentMock = async (
+  config: GenerationConfig,
+  topic: string,
+  structure: string,
+  onProgress: (status: string) => void,
+  onChunk?: (partialContent: string) => void
+): Promise<string> => {
+  onProgress(`Connecting to Mock (${config.model}) in ${config.mode.toUpperCase()} mode...`);
+
+  if (config.mode === NoteMode.COMPREHENSIVE) {
+    return generateComprehensiveNote(
+      config,
+      topic,
+      structure,
+      (title, context, onSectionChunk, index = 0) => runMockCall(
+        config,
+        'section',
+        PromptRegistryService.getInstance().render('note.section', { topic, section_title: title, section_context: context, custom_instruction: config.customContentPrompt }, config),
+        broken => buildSection(topic, title, index, broken),
+        onSectionChunk
+      ),
+      onProgress,
+      onChunk
+    );
+  }
+
+  // Prompts are rendered like a real provider would, so token estimates and recorded prompt versions stay realistic
+  const prompt = PromptRegistryService.getInstance().renderNotePrompt(config, topic, structure);
+  const rawText = await runMockCall(config, 'note', prompt, broken => buildFixtureNote(topic, structure, broken), onChunk);
+  onProgress("Formatting & Cleaning Mermaid syntax...");
+  return processGeneratedNote(rawText, config.formatterRules);
+};
+
+const parseSyllabusTextMock = async (config: GenerationConfig, rawText: string): Promise<SyllabusItem[]> => {
+  const text = await runMockCall(config, 'syllabus', rawText, () => buildFixtureSyllabus(rawText));
+  return parseSyllabusResponse(text);
+};
+
+const refineNoteContentMock = async (config: GenerationConfig, currentContent: string, instruction: string, additionalContexts?: Record<string, string>): Promise<string> => {
+  const sources = Object.keys(additionalContexts || {});
+  const text = await runMockCall(config, 'refine', currentContent, () =>
+    `${currentContent}\n\n> [!note] MOCK REFINE\n> ${instruction}${sources.length > 0 ? `\n> Sources used: ${sources.join(', ')}` : ''}\n`);
+  return processGeneratedNote(text, config.formatterRules);
+};
+
+const deepenNoteContentMock = async (config: GenerationConfig, currentContent: string, instruction: string, _files: UploadedFile[], additionalContexts?: Record<string, string>): Promise<string> => {
+  const sources = Object.keys(additionalContexts || {});
+  const text = await runMockCall(config, 'deepen', currentContent, () =>
+    `${currentContent}\n\n## Deepened Content\n\n- ${instruction || 'Deepen the note using the provided context.'}\n- Sources used: ${sources.length > 0 ? sources.join(', ') : 'none'}\n`);
+  return processGeneratedNote(text, config.formatterRules);
+};
+
+const factCheckNoteMock = async (config: GenerationConfig, content: string, files: UploadedFile[]): Promise<FactCheckFinding[]> => {
+  const prompt = PromptRegistryService.getInstance().render('review.factcheck', { content, sources: files.map(f => f.name).join('\n') }, config);
+  const text = await runMockCall(config, 'factcheck', prompt, () => buildFixtureFactCheck(content, files.length));
+  return parseFactCheckResponse(text);
+};
+
+const repairMermaidMock = async (config: GenerationConfig, code: string, error: string): Promise<string> => {
+  const prompt = PromptRegistryService.getInstance().render('repair.mermaid', { code, error }, config);
+  return runMockCall(config, 'mermaid', prompt, broken => buildFixtureMermaidRepair(code, broken));
+};
+
+const generateAssistantResponseMock = async (config: GenerationConfig, currentContent: string, history: ChatMessage[]): Promise<string> => {
+  const question = history.filter(m => m.role === 'user').pop()?.content || '';
+  return runMockCall(config, 'assistant', `${currentContent}\n${question}`, () =>
+    `**Mock assistant** received: "${question}"\n\nThe current note has ${currentContent.split('\n').length} lines.`);
+};
+
+export const mockProvider: AIProviderAdapter = {
+  id: AIProvider.MOCK,
+  label: 'Mock (Offline)',
+  defaultModel: MOCK_MODELS.FIXTURE,
+  models: [
+    { value: MOCK_MODELS.FIXTURE, label: 'Fixture Notes', badge: 'Mock' },
+    { value: MOCK_MODELS.BROKEN_MERMAID, label: 'Broken Mermaid', badge: 'Mock' },
+    { value: MOCK_MODELS.FLAKY, label: 'Flaky (odd calls fail)', badge: 'Mock' },
+    { value: MOCK_MODELS.RATE_LIMIT, label: 'Always 429', badge: 'Mock' },
+    { value: MOCK_MODELS.SERVER_ERROR, label: 'Always 500', badge: 'Mock' },
+  ],
+  generateNoteContent: (config, topic, structure, _files, onProgress, onChunk) => generateNoteContentMock(config, topic, structure, onProgress, onChunk),
+  generateDetailedStructure: (config, topic) => runMockCall(config, 'structure', topic, () => buildFixtureStructure(topic)),
+  parseSyllabusFile: (config, file) => parseSyllabusTextMock(config, decodeTextFile(file)),
+  parseSyllabusText: parseSyllabusTextMock,
+  refineNoteContent: refineNoteContentMock,
+  deepenNoteContent: deepenNoteContentMock,
+  factCheckNote: factCheckNoteMock,
+  repairMermaid: repairMermaidMock,
+  generateAssistantResponse: generateAssistantResponseMock
+};
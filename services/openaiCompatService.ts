@@ -0,0 +1,406 @@
+
+import { GenerationConfig, SyllabusItem, ChatMessage, UploadedFile, AIProvider, AIProviderAdapter, AppModel, UsageOperation, FactCheckFinding } from '../types';
+import { buildContextString } from '../utils/prompts';
+import { PromptRegistryService } from './promptRegistryService';
+import { parseSyllabusResponse } from '../utils/syllabus';
+import { parseFactCheckResponse } from '../utils/factCheck';
+import { attachmentsAsText, withTextAttachments, isTextAttachment, decodeTextAttachment, getModelCapabilities, resolveMaxOutputTokens } from '../utils/modelCatalog';
+import { estimateTokens } from '../utils/retrieval';
+import { processGeneratedNote } from '../utils/formatter';
+import { UsageLedgerService } from './usageLedgerService';
+import { throwIfAborted, isAbortError } from '../utils/abort';
+
+/**
+ * OPENAI-COMPATIBLE ENGINE
+ *
+ * Talks plain HTTP to any server exposing the OpenAI `/v1` surface
+ * (Ollama, llama.cpp server, LM Studio, vLLM...). Base URL is configurable,
+ * the key is optional because most local servers don't check it.
+ */
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+type CompatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const getBaseUrl = (config: GenerationConfig): string => {
+  const envUrl = (import.meta as any).env?.VITE_OPENAI_BASE_URL || (typeof process !== 'undefined' ? process.env.OPENAI_BASE_URL : '');
+  const url = (config.openaiBaseUrl || envUrl || DEFAULT_BASE_URL).trim();
+  return url.replace(/\/+$/, '');
+};
+
+const getApiKey = (config: GenerationConfig): string => {
+  const envKey = (import.meta as any).env?.VITE_OPENAI_API_KEY || (typeof process !== 'undefined' ? process.env.OPENAI_API_KEY : '');
+  return (config.openaiApiKey || envKey || '').trim();
+};
+
+const buildHeaders = (config: GenerationConfig): Record<string, string> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const apiKey = getApiKey(config);
+  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+  return headers;
+};
+
+// Hosted model ids (Gemini / Groq) mean nothing to a local server, fall back to a sane local default
+const resolveModel = (model?: string): string => {
+  if (!model || (Object.values(AppModel) as string[]).includes(model)) return DEFAULT_LOCAL_MODEL;
+  return model;
+};
+
+type CompletionOptions = { model?: string; temperature?: number; maxTokens?: number; operation: UsageOperation };
+
+// USAGE LEDGER: servers that report OpenAI-style `usage` get exact counts, others record zero tokens
+const recordUsage = (config: GenerationConfig, options: CompletionOptions, usage: any, startedAt: number) => {
+  UsageLedgerService.getInstance().record({
+    provider: AIProvider.OPENAI_COMPAT,
+    model: resolveModel(options.model || config.model),
+    operation: options.operation,
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+    latencyMs: Date.now() - startedAt,
+    scope: config.usageScope
+  });
+};
+
+const postChatCompletion = async (
+  config: GenerationConfig,
+  messages: CompatMessage[],
+  options: CompletionOptions,
+  stream: boolean
+): Promise<Response> => {
+  const body: Record<string, any> = {
+    model: resolveModel(options.model || config.model),
+    messages,
+    temperature: options.temperature ?? config.temperature,
+    stream
+  };
+  if (options.maxTokens) body.max_tokens = options.maxTokens;
+
+  const baseUrl = getBaseUrl(config);
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: buildHeaders(config),
+      body: JSON.stringify(body),
+      signal: config.signal
+    });
+  } catch (e: any) {
+    if (isAbortError(e, config.signal)) throw e;
+    throw new Error(`Cannot reach OpenAI-compatible server at ${baseUrl}. Is it running? (${e.message})`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`OpenAI-compatible API Error ${response.status}: ${detail || response.statusText}`);
+  }
+  return response;
+};
+
+const chatCompletion = async (
+  config: GenerationConfig,
+  messages: CompatMessage[],
+  options: CompletionOptions
+): Promise<string> => {
+  const startedAt = Date.now();
+  const response = await postChatCompletion(config, messages, options, false);
+  const data = await response.json();
+  recordUsage(config, options, data.usage, startedAt);
+  return data.choices?.[0]?.message?.content || "";
+};
+
+// Same request with `stream: true`, parsing the server-sent `data:` lines as they arrive
+const streamChatCompletion = async (
+  config: GenerationConfig,
+  messages: CompatMessage[],
+  options: CompletionOptions,
+  onChunk: (textSoFar: string) => void
+): Promise<string> => {
+  const startedAt = Date.now();
+  const response = await postChatCompletion(config, messages, options, true);
+  if (!response.body) {
+    // Some servers ignore `stream` - treat it as a single chunk
+    const data = await response.json();
+    recordUsage(config, options, data.usage, startedAt);
+    const text = data.choices?.[0]?.message?.content || "";
+    onChunk(text);
+    return text;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: any = null;
+
+  while (true) {
+    throwIfAborted(config.signal);
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') {
+        recordUsage(config, options, usage, startedAt);
+        return text;
+      }
+      try {
+        const parsed = JSON.parse(payload);
+        if (parsed.usage) usage = parsed.usage;
+        const delta = parsed.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onChunk(text);
+        }
+      } catch (e) {
+        console.warn("Skipping malformed stream line", payload);
+      }
+    }
+  }
+  recordUsage(config, options, usage, startedAt);
+  return text;
+};
+
+/**
+ * Fetch available models from the server's `/models` endpoint
+ */
+export const fetchOpenAICompatModels = async (config: GenerationConfig): Promise<{id: string, object: string}[]> => {
+  try {
+    const response = await fetch(`${getBaseUrl(config)}/models`, {
+      method: "GET",
+      headers: buildHeaders(config)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API Error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || [];
+  } catch (error) {
+    console.error("Failed to fetch OpenAI-compatible models:", error);
+    return [];
+  }
+};
+
+export const generateNoteContentOpenAI = async (
+  config: GenerationConfig,
+  topic: string,
+  structure: string,
+  files: UploadedFile[],
+  onProgress: (status: string) => void,
+  onChunk?: (partialContent: string) => void
+): Promise<string> => {
+  const modelName = resolveModel(config.model);
+  onProgress(`Connecting to ${getBaseUrl(config)} (${modelName})...`);
+
+  try {
+    // Chat-completions endpoints take text only: text uploads go into the prompt
+    const textPrompt = withTextAttachments(PromptRegistryService.getInstance().renderNotePrompt(config, topic, structure), files);
+    const maxTokens = resolveMaxOutputTokens(modelName, estimateTokens(textPrompt));
+
+    const messages: CompatMessage[] = [
+      {
+        role: "system",
+        content: PromptRegistryService.getInstance().render('note.system.local', {}, config)
+      },
+      { role: "user", content: textPrompt }
+    ];
+
+    onProgress("Synthesizing content (Local Engine)...");
+    const rawText = onChunk && getModelCapabilities(modelName).streaming
+      ? await streamChatCompletion(config, messages, { maxTokens, operation: 'note' }, onChunk)
+      : await chatCompletion(config, messages, { maxTokens, operation: 'note' });
+
+    if (!rawText) {
+      throw new Error("Received empty response from the model server.");
+    }
+
+    onProgress("Formatting & Cleaning Mermaid syntax...");
+    return processGeneratedNote(rawText, config.formatterRules);
+  } catch (error: any) {
+    console.error("OpenAI-compatible Generation Error:", error);
+    throw error;
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                  AUTO-STRUCTURE GENERATOR (OPENAI-COMPAT)                  */
+/* -------------------------------------------------------------------------- */
+
+export const generateDetailedStructureOpenAI = async (
+  config: GenerationConfig,
+  topic: string
+): Promise<string> => {
+  try {
+    const systemPrompt = config.customStructurePrompt || PromptRegistryService.getInstance().render('structure.universal', { topic }, config);
+    return await chatCompletion(config, [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `INPUT TOPIC: ${topic}` }
+    ], { model: config.structureModel || config.model, temperature: 0.3, operation: 'structure' });
+  } catch (e: any) {
+    console.error("OpenAI-compatible Structure Auto-Gen Error", e);
+    throw new Error("Failed to auto-generate structure: " + e.message);
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                     SYLLABUS PARSERS (OPENAI-COMPAT)                       */
+/* -------------------------------------------------------------------------- */
+
+export const parseSyllabusFromTextOpenAI = async (
+  config: GenerationConfig,
+  rawText: string
+): Promise<SyllabusItem[]> => {
+  try {
+    const text = await chatCompletion(config, [
+      { role: "system", content: PromptRegistryService.getInstance().render('syllabus.parse', {}, config) },
+      { role: "user", content: rawText }
+    ], { temperature: 0.2, operation: 'syllabus' }) || "[]";
+
+    return parseSyllabusResponse(text);
+  } catch (e: any) {
+    console.error("OpenAI-compatible Syllabus Parsing Error", e);
+    throw new Error("Failed to parse syllabus with local model: " + e.message);
+  }
+};
+
+// Chat-completions endpoints are text-only, so only text-like syllabus files are accepted.
+const parseSyllabusFileOpenAI = async (config: GenerationConfig, file: UploadedFile): Promise<SyllabusItem[]> => {
+  if (isTextAttachment(file)) {
+      return parseSyllabusFromTextOpenAI(config, decodeTextAttachment(file));
+  }
+  throw new Error("Local models currently support text-based files for parsing. Use Gemini for PDF/Images.");
+};
+
+/* -------------------------------------------------------------------------- */
+/*                    REFINEMENT ENGINE (OPENAI-COMPAT)                       */
+/* -------------------------------------------------------------------------- */
+
+export const refineNoteContentOpenAI = async (
+  config: GenerationConfig,
+  currentContent: string,
+  instruction: string,
+  additionalContexts?: Record<string, string>
+): Promise<string> => {
+  const prompt = PromptRegistryService.getInstance().render('edit.refine', { instruction, content: currentContent, context: buildContextString(additionalContexts) }, config);
+
+  try {
+    const text = await chatCompletion(config, [{ role: "user", content: prompt }], { temperature: 0.3, operation: 'refine' });
+    return processGeneratedNote(text || currentContent, config.formatterRules);
+  } catch (e: any) {
+    console.error("OpenAI-compatible Refinement Error", e);
+    throw new Error("Failed to refine content: " + e.message);
+  }
+};
+
+export const deepenNoteContentOpenAI = async (
+  config: GenerationConfig,
+  currentContent: string,
+  instruction: string,
+  files: UploadedFile[],
+  additionalContexts?: Record<string, string>
+): Promise<string> => {
+  const prompt = PromptRegistryService.getInstance().render('edit.deepen', {
+      instruction: instruction || 'Deepen the note using the provided context.',
+      content: currentContent, // Whole note: the reply replaces it, so a cut-off tail would read as a deletion
+      context: buildContextString(additionalContexts)
+  }, config);
+
+  try {
+      const text = await chatCompletion(config, [{ role: "user", content: prompt }], { temperature: 0.3, maxTokens: resolveMaxOutputTokens(resolveModel(config.model), estimateTokens(prompt)), operation: 'deepen' });
+      return processGeneratedNote(text || currentContent, config.formatterRules);
+  } catch (e: any) {
+      console.error("OpenAI-compatible Deepen Error", e);
+      throw new Error("Failed to deepen content: " + e.message);
+  }
+};
+
+export const factCheckNoteOpenAI = async (
+  config: GenerationConfig,
+  content: string,
+  files: UploadedFile[]
+): Promise<FactCheckFinding[]> => {
+  const prompt = PromptRegistryService.getInstance().render('review.factcheck', { content, sources: attachmentsAsText(files) }, config);
+
+  try {
+      const text = await chatCompletion(config, [{ role: "user", content: prompt }], { temperature: 0.1, operation: 'factcheck' });
+      return parseFactCheckResponse(text);
+  } catch (e: any) {
+      console.error("OpenAI-compatible Fact-Check Error", e);
+      throw new Error("Fact-check failed: " + e.message);
+  }
+};
+
+export const repairMermaidOpenAI = async (config: GenerationConfig, code: string, error: string): Promise<string> => {
+  const prompt = PromptRegistryService.getInstance().render('repair.mermaid', { code, error }, config);
+
+  try {
+      const text = await chatCompletion(config, [{ role: "user", content: prompt }], { temperature: 0, operation: 'mermaid' });
+      return text || code;
+  } catch (e: any) {
+      console.error("OpenAI-compatible Mermaid Repair Error", e);
+      throw new Error("Diagram repair failed: " + e.message);
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                  ASSISTANT PANEL ENGINE (OPENAI-COMPAT)                    */
+/* -------------------------------------------------------------------------- */
+
+export const generateAssistantResponseOpenAI = async (
+  config: GenerationConfig,
+  currentContent: string,
+  history: ChatMessage[],
+  files: UploadedFile[],
+  additionalContexts?: Record<string, string>
+): Promise<string> => {
+  const systemPrompt = PromptRegistryService.getInstance().render('assistant.system', {
+      content: currentContent,
+      context: buildContextString(additionalContexts)
+  }, config);
+
+  try {
+      const messages: CompatMessage[] = [
+          { role: "system", content: systemPrompt },
+          ...history.map((msg): CompatMessage => ({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.content }))
+      ];
+
+      const text = await chatCompletion(config, messages, { temperature: 0.4, operation: 'assistant' });
+      return text || "No response generated.";
+  } catch (e: any) {
+      console.error("OpenAI-compatible Assistant Error", e);
+      throw new Error("Assistant failed: " + e.message);
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                      PROVIDER ADAPTER (OPENAI-COMPAT)                      */
+/* -------------------------------------------------------------------------- */
+
+export const openaiCompatProvider: AIProviderAdapter = {
+  id: AIProvider.OPENAI_COMPAT,
+  label: 'Local (OpenAI API)',
+  defaultModel: DEFAULT_LOCAL_MODEL,
+  models: [
+    { value: DEFAULT_LOCAL_MODEL, label: 'Llama 3.1', badge: 'Local' },
+  ],
+  fetchModels: async (config) => {
+    const models = await fetchOpenAICompatModels(config);
+    return models.map(m => ({ value: m.id, label: m.id, badge: 'Local' }));
+  },
+  generateNoteContent: generateNoteContentOpenAI,
+  generateDetailedStructure: generateDetailedStructureOpenAI,
+  parseSyllabusFile: parseSyllabusFileOpenAI,
+  parseSyllabusText: parseSyllabusFromTextOpenAI,
+  refineNoteContent: refineNoteContentOpenAI,
+  deepenNoteContent: deepenNoteContentOpenAI,
+  factCheckNote: factCheckNoteOpenAI,
+  repairMermaid: repairMermaidOpenAI,
+  generateAssistantResponse: generateAssistantResponseOpenAI
+};
@@ -0,0 +1,165 @@
+import { GenerationConfig, PromptTemplate, PromptTemplateId, PromptVersion } from '../types';
+import { PROMPT_TEMPLATES, MODE_TEMPLATE_IDS, getLanguageVariables } from '../utils/prompts';
+import { StorageService } from './storageService';
+
+type RegistryListener = () => void;
+
+// Saved overrides per template; `active` names the custom version in use, absent means the current built-in
+type OverrideStore = Partial<Record<PromptTemplateId, { active?: string; versions: PromptVersion[] }>>;
+
+const OVERRIDES_KEY = 'neuro_prompt_overrides';
+const PLACEHOLDER = /\{\{\s*[#/]?\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+/**
+ * PROMPT REGISTRY
+ *
+ * Named, versioned prompt templates. Built-ins live in `utils/prompts.ts`;
+ * user overrides are stacked on top as new versions and can be rolled back.
+ * Renders made with a `usageScope.noteId` are remembered so the saved note
+ * can record exactly which template versions produced it.
+ */
+export class PromptRegistryService {
+  private static instance: PromptRegistryService;
+  private overrides: OverrideStore = {};
+  private noteVersions: Record<string, Partial<Record<PromptTemplateId, string>>> = {};
+  private listeners: RegistryListener[] = [];
+
+  private constructor() {
+    this.loadOverrides();
+    StorageService.getInstance().subscribeNotes((id, note) => { if (!note) this.forgetNote(id); });
+  }
+
+  public static getInstance(): PromptRegistryService {
+    if (!PromptRegistryService.instance) {
+      PromptRegistryService.instance = new PromptRegistryService();
+    }
+    return PromptRegistryService.instance;
+  }
+
+  public subscribe(listener: RegistryListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  public listTemplates(): PromptTemplate[] {
+    return Object.values(PROMPT_TEMPLATES);
+  }
+
+  public getTemplate(id: PromptTemplateId): PromptTemplate {
+    return PROMPT_TEMPLATES[id];
+  }
+
+  /** Built-in first, then overrides oldest to newest. */
+  public getVersions(id: PromptTemplateId): PromptVersion[] {
+    const builtin = PROMPT_TEMPLATES[id];
+    const base: PromptVersion = { version: String(builtin.version), body: builtin.body, createdAt: 0, source: 'builtin' };
+    return [base, ...(this.overrides[id]?.versions || [])];
+  }
+
+  // Only custom versions pin: a built-in version string stored by an older release no longer holds back a bumped default
+  public getActiveVersion(id: PromptTemplateId): PromptVersion {
+    const versions = this.getVersions(id);
+    const active = this.overrides[id]?.active;
+    return versions.find(v => v.source === 'custom' && v.version === active) || versions[0];
+  }
+
+  public isOverridden(id: PromptTemplateId): boolean {
+    return this.getActiveVersion(id).source === 'custom';
+  }
+
+  /**
+   * Placeholders that are not declared on the template (these would render
+   * literally) and declared variables the body no longer uses.
+   */
+  public validate(id: PromptTemplateId, body: string): { unknown: string[]; unused: string[] } {
+    const used = new Set(Array.from(body.matchAll(PLACEHOLDER), m => m[1]));
+    const declared = PROMPT_TEMPLATES[id].variables;
+    const global = Object.keys(getLanguageVariables()); // Supplied to every render, so usable in any template
+    return {
+      unknown: Array.from(used).filter(v => !declared.includes(v) && !global.includes(v)),
+      unused: declared.filter(v => !used.has(v))
+    };
+  }
+
+  /** Stores `body` as a new version on top of the current built-in and activates it. */
+  public saveOverride(id: PromptTemplateId, body: string): PromptVersion {
+    const { unknown } = this.validate(id, body);
+    if (unknown.length > 0) throw new Error(`Undeclared variables: ${unknown.join(', ')}`);
+
+    const builtinVersion = PROMPT_TEMPLATES[id].version;
+    const entry = this.overrides[id] || { versions: [] };
+    const revisions = entry.versions.filter(v => v.version.startsWith(`${builtinVersion}.`)).length;
+    const version: PromptVersion = { version: `${builtinVersion}.${revisions + 1}`, body, createdAt: Date.now(), source: 'custom' };
+
+    this.overrides[id] = { active: version.version, versions: [...entry.versions, version] };
+    this.persist();
+    return version;
+  }
+
+  /** Rollback: any earlier version (built-in included) becomes the active one again. */
+  public activateVersion(id: PromptTemplateId, version: string) {
+    const target = this.getVersions(id).find(v => v.version === version);
+    if (!target) return;
+    const entry = this.overrides[id] || { versions: [] };
+    this.overrides[id] = { versions: entry.versions, ...(target.source === 'custom' ? { active: version } : {}) };
+    this.persist();
+  }
+
+  public resetToBuiltin(id: PromptTemplateId) {
+    this.activateVersion(id, String(PROMPT_TEMPLATES[id].version));
+  }
+
+  /**
+   * Renders the active version. `{{name}}` is replaced by its value and
+   * `{{#name}}...{{/name}}` is kept only when the value is non-empty.
+   * Language variables come from `config.language` unless passed explicitly.
+   */
+  public render(id: PromptTemplateId, vars: Record<string, string | undefined> = {}, config?: GenerationConfig): string {
+    const active = this.getActiveVersion(id);
+    const noteId = config?.usageScope?.noteId;
+    if (noteId) this.noteVersions[noteId] = { ...this.noteVersions[noteId], [id]: active.version };
+
+    const variables: Record<string, string | undefined> = { ...getLanguageVariables(config?.language), ...vars };
+    return active.body
+      .replace(/\{\{#\s*([a-zA-Z0-9_]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g, (_, name, block) => variables[name] ? block : '')
+      .replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (match, name) => name in variables ? (variables[name] || '') : match);
+  }
+
+  /** Full note request: core rules + mode instruction + topic / blueprint wrapper. */
+  public renderNotePrompt(config: GenerationConfig, topic: string, structure: string): string {
+    return this.render('note.standard', {
+      core_rules: this.render('core.formatting', {}, config),
+      mode_instruction: this.render(MODE_TEMPLATE_IDS[config.mode], {}, config),
+      topic,
+      structure,
+      custom_instruction: config.customContentPrompt
+    }, config);
+  }
+
+  /** Template versions rendered for a note so far (merged into `HistoryItem.promptVersions` on save). */
+  public getNoteVersions(noteId: string): Partial<Record<PromptTemplateId, string>> {
+    return { ...this.noteVersions[noteId] };
+  }
+
+  /** Drops the render record of a note that was closed or deleted. */
+  public forgetNote(noteId: string) {
+    delete this.noteVersions[noteId];
+  }
+
+  private loadOverrides() {
+    try {
+      const saved = localStorage.getItem(OVERRIDES_KEY);
+      if (saved) this.overrides = JSON.parse(saved);
+    } catch (e) {
+      console.error("Prompt overrides recovery failed", e);
+      this.overrides = {};
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(this.overrides));
+    this.listeners.forEach(l => l());
+  }
+}
@@ -0,0 +1,67 @@
+import { AIProvider, AIProviderAdapter, FallbackTarget, GenerationConfig, ModelOption, ProviderModelMap } from '../types';
+import { geminiProvider } from './geminiService';
+import { groqProvider } from './groqService';
+import { openaiCompatProvider } from './openaiCompatService';
+import { mockProvider, MockProviderService } from './mockService';
+
+/**
+ * PROVIDER REGISTRY
+ *
+ * Single lookup point for AI backends. Adding a backend means writing one
+ * adapter and registering it here; call sites never branch on `AIProvider`.
+ */
+const PROVIDERS: Record<AIProvider, AIProviderAdapter> = {
+  [AIProvider.GEMINI]: geminiProvider,
+  [AIProvider.GROQ]: groqProvider,
+  [AIProvider.OPENAI_COMPAT]: openaiCompatProvider,
+  [AIProvider.MOCK]: mockProvider
+};
+
+export const getProvider = (provider?: AIProvider): AIProviderAdapter => {
+  return (provider && PROVIDERS[provider]) || PROVIDERS[AIProvider.GEMINI];
+};
+
+// The offline mock only shows up once enabled (Settings toggle or VITE_MOCK_AI)
+export const listProviders = (): AIProviderAdapter[] => Object.values(PROVIDERS)
+  .filter(p => p.id !== AIProvider.MOCK || MockProviderService.getInstance().isEnabled());
+
+// Cycles to the next registered provider (used by the quick-switch toggle)
+export const getNextProvider = (current: AIProvider): AIProvider => {
+  const ids = listProviders().map(p => p.id);
+  return ids[(ids.indexOf(current) + 1) % ids.length];
+};
+
+// Model list for a provider: dynamically fetched list if we have one, else the adapter defaults
+export const getModelOptions = (provider: AIProvider, fetched?: ProviderModelMap): ModelOption[] => {
+  const dynamic = fetched?.[provider];
+  return dynamic && dynamic.length > 0 ? dynamic : getProvider(provider).models;
+};
+
+// Fetches dynamic model lists for every provider that supports it, merged over the adapter defaults
+export const fetchProviderModels = async (config: GenerationConfig): Promise<ProviderModelMap> => {
+  const result: ProviderModelMap = {};
+  await Promise.all(listProviders().map(async adapter => {
+    const merged: ModelOption[] = [...adapter.models];
+    if (adapter.fetchModels) {
+      try {
+        const fetched = await adapter.fetchModels(config);
+        fetched.forEach(f => {
+          if (!merged.find(m => m.value === f.value)) merged.push(f);
+        });
+      } catch (e) {
+        console.warn(`Failed to fetch ${adapter.label} models`, e);
+      }
+    }
+    result[adapter.id] = merged;
+  }));
+  return result;
+};
+
+// Primary target followed by the configured fallbacks; repeats and hidden providers (disabled mock) are dropped
+export const resolveFallbackChain = (primary: FallbackTarget, chain: FallbackTarget[] = []): FallbackTarget[] => {
+  const available = listProviders().map(p => p.id);
+  return [primary, ...chain].filter((target, i, all) =>
+    (i === 0 || available.includes(target.provider)) &&
+    all.findIndex(t => t.provider === target.provider && t.model === target.model) === i
+  );
+};
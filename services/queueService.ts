@@ -1,8 +1,14 @@
 
-import { SyllabusItem, GenerationConfig, AIProvider, HistoryItem } from '../types';
-import { generateDetailedStructure, generateNoteContent } from './geminiService';
-import { generateDetailedStructureGroq, generateNoteContentGroq } from './groqService';
+import { SyllabusItem, GenerationConfig, HistoryItem, Folder, FallbackTarget, FactCheckFinding } from '../types';
+import { getProvider, resolveFallbackChain } from './providerRegistry';
 import { StorageService } from './storageService';
+import { UsageLedgerService } from './usageLedgerService';
+import { PromptRegistryService } from './promptRegistryService';
+import { isAbortError, createAbortError } from '../utils/abort';
+import { isTransientError } from '../utils/errors';
+import { describeSyllabusItem } from '../utils/syllabus';
+import { runFactCheck, isFactCheckEnabled } from './factCheckService';
+import { validateAndRepairMermaid } from './mermaidRepairService';
 
 type UpdateCallback = (items: SyllabusItem[], isProcessing: boolean, circuitStatus?: string) => void;
 
@@ -18,6 +24,14 @@ export class QueueService {
   private shouldStop: boolean = false;
   private listeners: UpdateCallback[] = [];
   private storage: StorageService;
+
+  // Usage attribution: one run per startProcessing, one reserved note id per item
+  private queueId?: string;
+  private runId: string = '';
+  private noteIds: Record<string, string> = {};
+
+  // Cancels the in-flight call of the item being processed when stop() is hit
+  private abortController: AbortController | null = null;
   
   // Robustness State
   private consecutiveFailures: number = 0;
@@ -98,6 +112,7 @@ export class QueueService {
 
   public stop() {
     this.shouldStop = true;
+    this.abortController?.abort();
     this.isProcessing = false;
     this.notify();
   }
@@ -108,10 +123,13 @@ export class QueueService {
     this.notify();
   }
 
-  public async startProcessing(config: GenerationConfig) {
+  public async startProcessing(config: GenerationConfig, queueId?: string, moduleId?: string) {
     if (this.isProcessing || this.circuitOpen) return;
     
     this.config = config;
+    this.queueId = queueId;
+    this.runId = `run-${Date.now()}`;
+    if (moduleId) this.ensureModuleFolder(moduleId); // Folder shows up as soon as the module starts
     this.isProcessing = true;
     this.shouldStop = false;
     this.notify();
@@ -120,9 +138,10 @@ export class QueueService {
       while (!this.shouldStop && !this.circuitOpen) {
         const nextItemIndex = this.queue.findIndex(
           item => 
+             (!moduleId || item.moduleId === moduleId) && (
              item.status === 'pending' || 
              item.status === 'error' ||
-             (item.status === 'struct_ready' && (config.autoApprove || item.structure)) 
+             (item.status === 'struct_ready' && (config.autoApprove || item.structure)))
         );
 
         if (nextItemIndex === -1) break;
@@ -134,6 +153,7 @@ export class QueueService {
       }
     } finally {
       this.isProcessing = false;
+      this.abortController = null;
       this.notify();
     }
   }
@@ -142,29 +162,30 @@ export class QueueService {
     if (!this.config || this.shouldStop) return;
 
     let item = this.queue[index];
+    const noteId = this.noteIds[item.id] = this.noteIds[item.id] || Date.now().toString();
+    const controller = new AbortController();
+    this.abortController = controller;
+    const usageConfig: GenerationConfig = { ...this.config, usageScope: { noteId, queueId: this.queueId, runId: this.runId }, signal: controller.signal };
 
     // --- PHASE 1: BLUEPRINTING (Structure) ---
     if (item.status === 'pending' || item.status === 'error') {
         
-        const structConfig = { ...this.config };
-        const activeProvider = this.config.structureProvider || this.config.provider;
+        const targets = resolveFallbackChain({
+            provider: this.config.structureProvider || this.config.provider,
+            model: this.config.structureModel || this.config.model
+        }, this.config.fallbackChain);
 
-        const success = await this.executeWithRetry(index, async () => {
+        const success = await this.executeWithRetry(index, targets, async (target) => {
             this.updateItemStatus(index, 'drafting_struct');
-            let structure = '';
-            if (activeProvider === AIProvider.GEMINI) {
-               structure = await generateDetailedStructure(structConfig, item.topic);
-            } else {
-               structure = await generateDetailedStructureGroq(structConfig, item.topic);
-            }
-            return structure;
-        });
+            // Module, objectives and subtopics steer the blueprint so the note covers what the syllabus asks
+            return getProvider(target.provider).generateDetailedStructure(this.configFor(usageConfig, target), describeSyllabusItem(item));
+        }, controller.signal, 'pending');
 
         if (success) {
             if (this.config.autoApprove) {
-                this.updateItemStatus(index, 'struct_ready', { structure: success, retryCount: 0, errorMsg: undefined });
+                this.updateItemStatus(index, 'struct_ready', { structure: success.value, retryCount: 0, errorMsg: undefined });
             } else {
-                this.updateItemStatus(index, 'paused_for_review', { structure: success, retryCount: 0, errorMsg: undefined });
+                this.updateItemStatus(index, 'paused_for_review', { structure: success.value, retryCount: 0, errorMsg: undefined });
                 return; 
             }
         } else {
@@ -177,31 +198,46 @@ export class QueueService {
     // --- PHASE 2: MANUFACTURING (Content) ---
     if (item.status === 'struct_ready' && item.structure) {
         
-        const success = await this.executeWithRetry(index, async () => {
+        const targets = resolveFallbackChain({ provider: this.config.provider, model: this.config.model }, this.config.fallbackChain);
+
+        const success = await this.executeWithRetry(index, targets, async (target) => {
             this.updateItemStatus(index, 'generating_note');
-            
-            let content = '';
             const noOp = () => {}; 
-            
-            if (this.config!.provider === AIProvider.GEMINI) {
-               content = await generateNoteContent(this.config!, item.topic, item.structure!, [], noOp);
-            } else {
-               content = await generateNoteContentGroq(this.config!, item.topic, item.structure!, noOp);
-            }
-            return content;
-        });
+            const targetConfig = this.configFor(usageConfig, target);
+            const content = await getProvider(target.provider).generateNoteContent(targetConfig, item.topic, item.structure!, [], noOp);
+            // Diagram repairs go to the provider that wrote the note; only an abort can fail this step
+            return validateAndRepairMermaid(targetConfig, content);
+        }, controller.signal, 'struct_ready');
 
         if (success) {
+            // Optional review pass; a failed or stopped review still saves the note, just without findings
+            let factCheck: FactCheckFinding[] | undefined;
+            if (isFactCheckEnabled(this.config)) {
+                try {
+                    factCheck = await runFactCheck(usageConfig, success.value);
+                } catch (e) {
+                    console.warn(`Fact-check failed for "${item.topic}"`, e);
+                }
+            }
+
             const newNote: HistoryItem = {
-                id: Date.now().toString(),
+                id: noteId,
                 timestamp: Date.now(),
                 topic: item.topic,
                 mode: this.config.mode,
-                content: success,
-                provider: this.config.provider,
+                content: success.value,
+                provider: success.target.provider,
+                model: success.target.model,
                 parentId: null,
-                tags: ['Auto-Curriculum']
+                tags: ['Auto-Curriculum'],
+                folderId: item.moduleId ? this.ensureModuleFolder(item.moduleId) : undefined,
+                usage: UsageLedgerService.getInstance().summarize({ noteId }),
+                promptVersions: PromptRegistryService.getInstance().getNoteVersions(noteId),
+                language: this.config.language,
+                factCheck
             };
+            delete this.noteIds[item.id];
+            PromptRegistryService.getInstance().forgetNote(noteId); // Recorded on the note now, and queue notes aren't open
             this.storage.saveNoteLocal(newNote);
             if (this.config.storageType === 'supabase' && this.storage.isCloudReady()) {
                 try { await this.storage.uploadNoteToCloud(newNote); newNote._status = 'synced'; } catch(e){}
@@ -212,15 +248,62 @@ export class QueueService {
     }
   }
 
+  // Points every call of a phase (blueprint and content) at one chain target
+  private configFor(base: GenerationConfig, target: FallbackTarget): GenerationConfig {
+      return { ...base, provider: target.provider, model: target.model, structureProvider: target.provider, structureModel: target.model };
+  }
+
+  // --- MODULE FOLDERS ---
+  // One Folder per syllabus module: reuse the stored one, else a same-named folder, else create it
+  private ensureModuleFolder(moduleId: string): string | undefined {
+      const moduleItems = this.queue.filter(i => i.moduleId === moduleId);
+      if (moduleItems.length === 0) return undefined;
+
+      const folders = this.storage.getFolders();
+      const title = moduleItems[0].moduleTitle || 'Untitled Module';
+      const known = moduleItems.find(i => i.folderId && folders.some(f => f.id === i.folderId));
+      let folderId = known?.folderId || folders.find(f => f.name === title)?.id;
+
+      if (!folderId) {
+          const folder: Folder = { id: `folder-${Date.now()}`, name: title, timestamp: Date.now() };
+          this.storage.saveFolder(folder);
+          folderId = folder.id;
+      }
+
+      if (moduleItems.some(i => i.folderId !== folderId)) {
+          this.queue = this.queue.map(i => i.moduleId === moduleId ? { ...i, folderId } : i);
+          this.notify();
+          this.persistQueue();
+      }
+      return folderId;
+  }
+
   // --- ROBUSTNESS ENGINE ---
-  private async executeWithRetry<T>(index: number, operation: () => Promise<T>): Promise<T | null> {
+  // A cancelled item goes back to `cancelStatus` (no retry, no circuit count) and its late result is dropped.
+  // Transient failures (quota, overload, 5xx) move straight down `targets` without counting towards the
+  // circuit; once the chain is exhausted the last target gets the usual backoff retries.
+  private async executeWithRetry<T>(index: number, targets: FallbackTarget[], operation: (target: FallbackTarget) => Promise<T>, signal: AbortSignal, cancelStatus: SyllabusItem['status']): Promise<{ value: T; target: FallbackTarget } | null> {
       let attempts = 0;
+      let step = 0;
       while (attempts < MAX_RETRIES && !this.shouldStop) {
+          const target = targets[step];
           try {
-              const result = await operation();
+              const value = await operation(target);
+              if (signal.aborted) throw createAbortError();
               this.consecutiveFailures = 0; 
-              return result;
+              return { value, target };
           } catch (e: any) {
+              if (isAbortError(e, signal)) break;
+
+              if (step < targets.length - 1 && isTransientError(e)) {
+                  const next = targets[++step];
+                  console.warn(`${target.provider}/${target.model} failed for item ${index}, falling back to ${next.provider}/${next.model}:`, e);
+                  this.updateItemStatus(index, this.queue[index].status, { 
+                      errorMsg: `Fallback to ${getProvider(next.provider).label} (${next.model}): ${e.message}` 
+                  });
+                  continue;
+              }
+
               attempts++;
               console.warn(`Attempt ${attempts} failed for item ${index}:`, e);
               
@@ -242,6 +325,10 @@ export class QueueService {
           }
       }
       
+      if (signal.aborted || this.shouldStop) {
+          this.updateItemStatus(index, cancelStatus, { errorMsg: "Cancelled." });
+          return null;
+      }
       this.updateItemStatus(index, 'error', { errorMsg: "Max Retries Exceeded" });
       return null;
   }
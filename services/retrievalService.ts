@@ -0,0 +1,189 @@
+import { ContextChunk, ContextSource, RetrievedChunk, LibraryMaterial, UploadedFile } from '../types';
+import { StorageService } from './storageService';
+import { chunkByHeading, chunkLabel, estimateTokens, tokenizeForSearch } from '../utils/retrieval';
+import { isTextAttachment, decodeTextAttachment } from '../utils/modelCatalog';
+import { isExtractableDocument, extractDocumentText } from '../utils/documentExtraction';
+
+interface IndexedSource {
+  signature: string;
+  chunks: ContextChunk[];
+  termCounts: Map<string, number>[]; // Per chunk, heading terms counted twice
+  lengths: number[];
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const hashContent = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return `${text.length}:${hash}`;
+};
+
+// Library materials share the index with notes, so their source ids are prefixed
+const MATERIAL_PREFIX = 'material:';
+export const materialSourceId = (materialId: string): string => MATERIAL_PREFIX + materialId;
+
+const materialVersion = (material: LibraryMaterial): string => `${material.created_at || ''}:${material.size || 0}:${material.content.length}`;
+
+// Uploads are stored as base64; text files are decoded, PDF / DOCX / PPTX extracted, anything else has no text
+const materialText = async (material: LibraryMaterial): Promise<string> => {
+  const file: UploadedFile = { name: material.title, mimeType: material.file_type, data: material.content };
+  if (isTextAttachment(file)) return decodeTextAttachment(file);
+  if (!isExtractableDocument(file)) return '';
+  const bytes = Uint8Array.from(atob(material.content), c => c.charCodeAt(0));
+  return extractDocumentText(file, bytes.buffer);
+};
+
+/**
+ * RETRIEVAL SERVICE
+ *
+ * Local, in-memory BM25 index over heading chunks of notes and library
+ * materials. Sources are re-chunked only when their version (note
+ * timestamp) or content hash changes. Callers pick the chunks most relevant
+ * to a question within the model's token budget and can show them as the
+ * sources of the answer.
+ */
+export class RetrievalService {
+  private static instance: RetrievalService;
+  private index: Map<string, IndexedSource> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): RetrievalService {
+    if (!RetrievalService.instance) {
+      RetrievalService.instance = new RetrievalService();
+    }
+    return RetrievalService.instance;
+  }
+
+  public indexSource(source: ContextSource): ContextChunk[] {
+    const signature = source.version || hashContent(source.content);
+    const cached = this.index.get(source.id);
+    if (cached && cached.signature === signature) return cached.chunks;
+
+    const chunks = chunkByHeading(source.id, source.label, source.content).map(c => ({ ...c, sourceKind: source.kind || 'note' }));
+    const termCounts = chunks.map(c => {
+      const counts = new Map<string, number>();
+      [...tokenizeForSearch(c.text), ...tokenizeForSearch(c.heading)].forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+      return counts;
+    });
+    this.index.set(source.id, { signature, chunks, termCounts, lengths: termCounts.map(m => Array.from(m.values()).reduce((a, b) => a + b, 0)) });
+    return chunks;
+  }
+
+  /**
+   * Indexes library notes and Knowledge Base materials (all, or just `ids`;
+   * materials by `materialSourceId`), fetching content only for sources
+   * changed since last time.
+   */
+  public async indexLibrary(ids?: string[], excludeId?: string): Promise<string[]> {
+    const materialIds = ids?.filter(id => id.startsWith(MATERIAL_PREFIX)).map(id => id.slice(MATERIAL_PREFIX.length));
+    const [notes, materials] = await Promise.all([
+      this.indexNotes(ids?.filter(id => !id.startsWith(MATERIAL_PREFIX)), excludeId),
+      materialIds?.length === 0 ? Promise.resolve([]) : this.indexMaterials(materialIds)
+    ]);
+    return [...notes, ...materials];
+  }
+
+  private async indexNotes(ids?: string[], excludeId?: string): Promise<string[]> {
+    const storage = StorageService.getInstance();
+    const metadata = storage.getLocalNotesMetadata();
+    const wanted = (ids || metadata.map(n => n.id)).filter(id => id !== excludeId);
+    const versionOf = (id: string) => {
+      const note = metadata.find(n => n.id === id);
+      return note ? String(note.timestamp) : undefined;
+    };
+
+    const stale = wanted.filter(id => !versionOf(id) || this.index.get(id)?.signature !== versionOf(id));
+    if (stale.length > 0) {
+      const contents = await storage.getBatchContent(stale);
+      Object.entries(contents).forEach(([id, content]) => {
+        const label = metadata.find(n => n.id === id)?.topic || id;
+        this.indexSource({ id, label, content, version: versionOf(id) });
+      });
+    }
+    return wanted.filter(id => this.index.has(id));
+  }
+
+  // Materials live in the cloud only; offline, or when a file can't be read, they are left out
+  private async indexMaterials(ids?: string[]): Promise<string[]> {
+    const storage = StorageService.getInstance();
+    if (!storage.isCloudReady()) return [];
+    const materials = await storage.getLibraryMaterials().catch(() => [] as LibraryMaterial[]);
+    const wanted = ids ? materials.filter(m => ids.includes(m.id)) : materials;
+
+    const indexed: string[] = [];
+    for (const material of wanted) {
+      const id = materialSourceId(material.id);
+      const version = materialVersion(material);
+      if (this.index.get(id)?.signature !== version) {
+        const content = await materialText(material).catch(() => '');
+        this.indexSource({ id, label: material.title, content, version, kind: 'material' });
+      }
+      indexed.push(id);
+    }
+    return indexed;
+  }
+
+  /**
+   * Highest scoring chunks of `sourceIds` that fit `budgetTokens`, returned in
+   * document order. With `fillUnmatched` (sources the user picked explicitly)
+   * leftover budget is filled with non-matching chunks from the top.
+   */
+  public retrieve(query: string, sourceIds: string[], budgetTokens: number, fillUnmatched: boolean = false): RetrievedChunk[] {
+    const entries = sourceIds.map(id => this.index.get(id)).filter((e): e is IndexedSource => !!e);
+    const total = entries.reduce((n, e) => n + e.chunks.length, 0);
+    if (total === 0) return [];
+
+    const terms = Array.from(new Set(tokenizeForSearch(query)));
+    const avgLength = entries.reduce((n, e) => n + e.lengths.reduce((a, b) => a + b, 0), 0) / total || 1;
+    const docFreq = new Map(terms.map(t => [t, entries.reduce((n, e) => n + e.termCounts.filter(m => m.has(t)).length, 0)]));
+
+    const scored: (RetrievedChunk & { order: number })[] = [];
+    entries.forEach(entry => entry.chunks.forEach((chunk, i) => {
+      const score = terms.reduce((sum, t) => {
+        const tf = entry.termCounts[i].get(t) || 0;
+        if (!tf) return sum;
+        const idf = Math.log(1 + (total - docFreq.get(t)! + 0.5) / (docFreq.get(t)! + 0.5));
+        return sum + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * entry.lengths[i] / avgLength));
+      }, 0);
+      scored.push({ ...chunk, score, order: scored.length });
+    }));
+
+    const relevant = scored.filter(c => c.score > 0).sort((a, b) => b.score - a.score);
+    const ranked = fillUnmatched ? [...relevant, ...scored.filter(c => c.score === 0)] : relevant;
+
+    const picked: typeof scored = [];
+    let used = 0;
+    ranked.forEach(chunk => {
+      if (used + chunk.tokens > budgetTokens) return;
+      picked.push(chunk);
+      used += chunk.tokens;
+    });
+    return picked.sort((a, b) => a.order - b.order).map(({ order, ...chunk }) => chunk);
+  }
+
+  /** Whole source when it fits the budget, else its most relevant chunks (listed in `chunks`). */
+  public fitContent(source: ContextSource, query: string, budgetTokens: number): { content: string; chunks: RetrievedChunk[] } {
+    if (estimateTokens(source.content) <= budgetTokens) return { content: source.content, chunks: [] };
+    this.indexSource(source);
+    const chunks = this.retrieve(query, [source.id], budgetTokens, true);
+    return {
+      content: `_(Excerpts of a longer note, selected for this request)_\n\n${chunks.map(c => c.text).join('\n\n[...]\n\n')}`,
+      chunks
+    };
+  }
+
+  /** Retrieved chunks keyed by a readable label, the shape the deepen / assistant prompts expect. */
+  public toContexts(chunks: RetrievedChunk[]): Record<string, string> {
+    const contexts: Record<string, string> = {};
+    chunks.forEach(c => {
+      let label = chunkLabel(c);
+      for (let n = 2; label in contexts; n++) label = `${chunkLabel(c)} (${n})`;
+      contexts[label] = c.text;
+    });
+    return contexts;
+  }
+}
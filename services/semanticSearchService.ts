@@ -0,0 +1,266 @@
+import { AIProvider, GenerationConfig, HistoryItem, SearchIndexEntry, SemanticSearchHit } from '../types';
+import { StorageService } from './storageService';
+import { listProviders, getProvider } from './providerRegistry';
+import { chunkByHeading, lexicalVector, cosineSimilarity, tokenizeForSearch, buildSnippet } from '../utils/retrieval';
+
+type SearchListener = (status: SearchIndexStatus) => void;
+
+export interface SearchIndexStatus {
+  indexed: number;
+  total: number;
+  isSyncing: boolean;
+  method: string;
+}
+
+const SETTINGS_KEY = 'neuro_search_settings';
+const LEXICAL = 'lexical';
+const SAVE_DEBOUNCE_MS = 2000; // Editor autosaves shouldn't re-embed on every keystroke pause
+const SYNC_BATCH = 20;
+// Provider query embeddings are billed calls: only for queries this long that stopped changing, and cached
+const MIN_EMBED_QUERY_LENGTH = 3;
+const QUERY_SETTLE_MS = 600;
+const QUERY_CACHE_SIZE = 50;
+
+/**
+ * SEMANTIC SEARCH
+ *
+ * Ranks notes by meaning instead of title substrings. Each note is chunked by
+ * heading and every chunk gets a vector: provider embeddings when enabled and
+ * available (Gemini), otherwise an offline hashed lexical vector. Vectors are
+ * kept in IndexedDB and refreshed per note when it is saved or deleted.
+ */
+export class SemanticSearchService {
+  private static instance: SemanticSearchService;
+  private storage: StorageService;
+  private config: GenerationConfig | null = null;
+  private useProviderEmbeddings: boolean = false;
+  private entries: Map<string, SearchIndexEntry> = new Map();
+  private loaded: Promise<void> | null = null;
+  private isSyncing: boolean = false;
+  private pending: Record<string, ReturnType<typeof setTimeout>> = {};
+  private listeners: SearchListener[] = [];
+  private queryVectors: Map<string, number[]> = new Map(); // `${method}:${query}`, oldest first
+  private queryTicket = 0;
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+    try {
+      this.useProviderEmbeddings = !!JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}').providerEmbeddings;
+    } catch (e) {
+      this.useProviderEmbeddings = false;
+    }
+    this.storage.subscribeNotes((id, note) => this.handleNoteChange(id, note));
+  }
+
+  public static getInstance(): SemanticSearchService {
+    if (!SemanticSearchService.instance) {
+      SemanticSearchService.instance = new SemanticSearchService();
+    }
+    return SemanticSearchService.instance;
+  }
+
+  public subscribe(listener: SearchListener) {
+    this.listeners.push(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /** Credentials for provider embeddings; call whenever the app config changes. */
+  public configure(config: GenerationConfig) {
+    this.config = config;
+  }
+
+  public getProviderEmbeddings(): boolean {
+    return this.useProviderEmbeddings;
+  }
+
+  /** Switching methods re-indexes every note on the next sync. */
+  public setProviderEmbeddings(enabled: boolean) {
+    this.useProviderEmbeddings = enabled;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ providerEmbeddings: enabled }));
+    this.sync();
+  }
+
+  public getStatus(): SearchIndexStatus {
+    const method = this.currentMethod();
+    return {
+      indexed: Array.from(this.entries.values()).filter(e => e.method === method).length,
+      total: this.storage.getLocalNotesMetadata().length,
+      isSyncing: this.isSyncing,
+      method
+    };
+  }
+
+  /** Indexes notes that are new, changed or indexed with another method; drops deleted ones. */
+  public async sync() {
+    if (this.isSyncing) return;
+    await this.load();
+    this.isSyncing = true;
+    this.notify();
+    try {
+      const notes = this.storage.getLocalNotesMetadata();
+      const known = new Set(notes.map(n => n.id));
+      for (const id of Array.from(this.entries.keys())) {
+        if (!known.has(id)) await this.remove(id);
+      }
+
+      const method = this.currentMethod();
+      const stale = notes.filter(n => {
+        const entry = this.entries.get(n.id);
+        return !entry || entry.version !== String(n.timestamp) || entry.method !== method;
+      });
+      for (let i = 0; i < stale.length; i += SYNC_BATCH) {
+        const batch = stale.slice(i, i + SYNC_BATCH);
+        const contents = await this.storage.getBatchContent(batch.map(n => n.id));
+        for (const note of batch) {
+          if (contents[note.id]) await this.indexNote({ ...note, content: contents[note.id] });
+        }
+        this.notify();
+      }
+    } catch (e) {
+      console.warn("Search index sync failed", e);
+    } finally {
+      this.isSyncing = false;
+      this.notify();
+    }
+  }
+
+  /** Best matching chunk per note, highest similarity first. */
+  public async search(query: string, limit: number = 20): Promise<SemanticSearchHit[]> {
+    await this.load();
+    const terms = tokenizeForSearch(query);
+    if (terms.length === 0) return [];
+    const ticket = ++this.queryTicket;
+
+    const queryVectors: Record<string, number[] | null> = {};
+    const vectorFor = async (method: string) => {
+      if (!(method in queryVectors)) queryVectors[method] = await this.queryVector(method, query.trim(), ticket);
+      return queryVectors[method];
+    };
+
+    const hits: SemanticSearchHit[] = [];
+    for (const entry of Array.from(this.entries.values())) {
+      const vector = await vectorFor(entry.method);
+      if (!vector) continue;
+
+      let best = { score: 0, index: -1 };
+      entry.chunks.forEach((chunk, i) => {
+        const score = cosineSimilarity(vector, chunk.vector);
+        if (score > best.score) best = { score, index: i };
+      });
+      if (best.index === -1) continue;
+
+      // Small nudge for title matches, so "asthma" puts the Asthma note above notes that mention it
+      const topic = entry.topic.toLowerCase();
+      const titleBoost = terms.filter(t => topic.includes(t)).length / terms.length * 0.1;
+      const chunk = entry.chunks[best.index];
+      hits.push({
+        noteId: entry.id,
+        topic: entry.topic,
+        heading: chunk.heading,
+        snippet: buildSnippet(chunk.text, terms),
+        score: best.score + titleBoost,
+        terms
+      });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /** Null when the query is too short, superseded while settling, or embedding failed. */
+  private async queryVector(method: string, query: string, ticket: number): Promise<number[] | null> {
+    if (method === LEXICAL) return lexicalVector(query);
+    const key = `${method}:${query}`;
+    const cached = this.queryVectors.get(key);
+    if (cached) return cached;
+
+    if (query.length < MIN_EMBED_QUERY_LENGTH) return null;
+    await new Promise(resolve => setTimeout(resolve, QUERY_SETTLE_MS));
+    if (ticket !== this.queryTicket) return null; // Still typing: a newer search will embed its own query
+
+    try {
+      const vector = (await this.embed(method, [query]))[0];
+      this.queryVectors.set(key, vector);
+      if (this.queryVectors.size > QUERY_CACHE_SIZE) this.queryVectors.delete(this.queryVectors.keys().next().value!);
+      return vector;
+    } catch (e) {
+      console.warn(`Query embedding failed (${method})`, e);
+      return null;
+    }
+  }
+
+  // --- INDEXING ---
+
+  private handleNoteChange(id: string, note: HistoryItem | null) {
+    clearTimeout(this.pending[id]);
+    if (!note) {
+      delete this.pending[id];
+      this.load().then(() => this.remove(id)).then(() => this.notify());
+      return;
+    }
+    this.pending[id] = setTimeout(async () => {
+      delete this.pending[id];
+      await this.load();
+      await this.indexNote(note);
+      this.notify();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private async indexNote(note: HistoryItem) {
+    const chunks = chunkByHeading(note.id, note.topic, note.content || '');
+    const texts = chunks.map(c => `${note.topic} › ${c.heading}\n${c.text}`);
+    let method = this.currentMethod();
+    let vectors: number[][];
+    try {
+      vectors = await this.embed(method, texts);
+    } catch (e) {
+      console.warn(`Embedding failed for "${note.topic}", using lexical vectors`, e);
+      method = LEXICAL;
+      vectors = await this.embed(LEXICAL, texts);
+    }
+
+    const entry: SearchIndexEntry = {
+      id: note.id,
+      version: String(note.timestamp),
+      topic: note.topic,
+      method,
+      chunks: chunks.map((c, i) => ({ heading: c.heading, text: c.text, vector: vectors[i] }))
+    };
+    this.entries.set(note.id, entry);
+    await this.storage.saveSearchIndexEntry(entry);
+  }
+
+  private async remove(id: string) {
+    this.entries.delete(id);
+    await this.storage.deleteSearchIndexEntry(id);
+  }
+
+  private embed(method: string, texts: string[]): Promise<number[][]> {
+    if (method === LEXICAL) return Promise.resolve(texts.map(t => lexicalVector(t)));
+    const adapter = getProvider(method as AIProvider);
+    if (!adapter.embedTexts || !this.config) return Promise.reject(new Error(`No embeddings for ${method}`));
+    return adapter.embedTexts(this.config, texts);
+  }
+
+  // The active provider if it can embed, else the first that can; lexical when disabled or offline
+  private currentMethod(): string {
+    if (!this.useProviderEmbeddings || !this.config) return LEXICAL;
+    const embedders = listProviders().filter(p => p.embedTexts);
+    return (embedders.find(p => p.id === this.config!.provider) || embedders[0])?.id || LEXICAL;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.storage.getSearchIndex().then(entries => {
+        entries.forEach(e => this.entries.set(e.id, e));
+      });
+    }
+    return this.loaded;
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(l => l(status));
+  }
+}
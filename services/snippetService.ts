@@ -0,0 +1,77 @@
+import { SlashSnippet } from '../types';
+import { BUILTIN_SLASH_COMMANDS, SNIPPET_TRIGGER } from '../utils/slashCommands';
+
+type SnippetListener = (snippets: SlashSnippet[]) => void;
+
+const SNIPPETS_KEY = 'neuro_slash_snippets';
+
+/**
+ * SNIPPET SERVICE
+ *
+ * User-registered slash commands. Each snippet is offered in the editor's
+ * "/" menu as `/trigger` and inserts its text like a built-in template
+ * ({{cursor}}, {{date}} and {{time}} work the same way).
+ */
+export class SnippetService {
+  private static instance: SnippetService;
+  private snippets: SlashSnippet[] = [];
+  private listeners: SnippetListener[] = [];
+
+  private constructor() {
+    this.loadSnippets();
+  }
+
+  public static getInstance(): SnippetService {
+    if (!SnippetService.instance) {
+      SnippetService.instance = new SnippetService();
+    }
+    return SnippetService.instance;
+  }
+
+  public subscribe(listener: SnippetListener) {
+    this.listeners.push(listener);
+    listener(this.snippets);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  public getSnippets(): SlashSnippet[] {
+    return this.snippets;
+  }
+
+  /** Adds a snippet, or replaces the one with the same id. Triggers must be unique and not shadow a built-in. */
+  public saveSnippet(snippet: Omit<SlashSnippet, 'id'> & { id?: string }): SlashSnippet {
+    const trigger = snippet.trigger.trim().replace(/^\//, '').toLowerCase();
+    if (!SNIPPET_TRIGGER.test(trigger)) throw new Error("Trigger may only contain letters, digits and dashes");
+    if (BUILTIN_SLASH_COMMANDS.some(c => c.id === trigger)) throw new Error(`/${trigger} is a built-in command`);
+    if (this.snippets.some(s => s.trigger === trigger && s.id !== snippet.id)) throw new Error(`/${trigger} already exists`);
+    if (!snippet.text.trim()) throw new Error("Snippet text is empty");
+
+    const saved: SlashSnippet = { id: snippet.id || `snip-${Date.now()}`, trigger, label: snippet.label.trim() || trigger, text: snippet.text };
+    const exists = this.snippets.some(s => s.id === saved.id);
+    this.snippets = exists ? this.snippets.map(s => s.id === saved.id ? saved : s) : [...this.snippets, saved];
+    this.persist();
+    return saved;
+  }
+
+  public removeSnippet(id: string) {
+    this.snippets = this.snippets.filter(s => s.id !== id);
+    this.persist();
+  }
+
+  private loadSnippets() {
+    try {
+      const saved = localStorage.getItem(SNIPPETS_KEY);
+      if (saved) this.snippets = JSON.parse(saved);
+    } catch (e) {
+      console.error("Snippet recovery failed", e);
+      this.snippets = [];
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(SNIPPETS_KEY, JSON.stringify(this.snippets));
+    this.listeners.forEach(l => l(this.snippets));
+  }
+}
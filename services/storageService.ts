@@ -1,12 +1,31 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { HistoryItem, Folder, SavedPrompt, SavedQueue, LibraryMaterial } from '../types';
+import { HistoryItem, Folder, SavedPrompt, SavedQueue, LibraryMaterial, SectionCheckpoint, SearchIndexEntry, NoteVersion, NoteVersionReason } from '../types';
 
 // --- INDEXED DB HELPER (Raw Implementation to avoid external deps) ---
 const DB_NAME = 'NeuroNoteDB';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 const STORE_CONTENT = 'note_content';
 const STORE_FILES = 'knowledge_files';
+const STORE_CHECKPOINTS = 'section_checkpoints';
+const STORE_SEARCH = 'search_index';
+const STORE_VERSIONS = 'note_versions';
+const INDEX_VERSION_NOTE = 'noteId';
+
+// Version retention: newest MAX_VERSIONS_PER_NOTE are kept, interval snapshots expire sooner
+const MAX_VERSIONS_PER_NOTE = 50;
+const INTERVAL_VERSION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// Fired after a note's local copy is written (content given) or deleted (null)
+type NoteChangeListener = (id: string, note: HistoryItem | null) => void;
+type VersionChangeListener = (noteId: string) => void;
+
+// PostgREST reports a table that was never created as 42P01 (older) or PGRST205 (schema cache)
+const isMissingTable = (error: { code?: string }) => error.code === '42P01' || error.code === 'PGRST205';
+
+const versionTableError = (error: { code?: string; message: string }) => new Error(isMissingTable(error)
+    ? "Version sync skipped: table neuro_note_versions is missing. Create it with the SQL in services/storageService.ts."
+    : `Version sync failed: ${error.message}`);
 
 class IDBAdapter {
   private db: IDBDatabase | null = null;
@@ -17,12 +36,26 @@ class IDBAdapter {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const upgrade = (event.target as IDBOpenDBRequest).transaction!;
         if (!db.objectStoreNames.contains(STORE_CONTENT)) {
           db.createObjectStore(STORE_CONTENT); // Key: Note ID, Value: Content String
         }
         if (!db.objectStoreNames.contains(STORE_FILES)) {
           db.createObjectStore(STORE_FILES); // Key: SourceId_FileId, Value: Blob/Base64
         }
+        if (!db.objectStoreNames.contains(STORE_CHECKPOINTS)) {
+          db.createObjectStore(STORE_CHECKPOINTS); // Key: Chapter Key, Value: SectionCheckpoint
+        }
+        if (!db.objectStoreNames.contains(STORE_SEARCH)) {
+          db.createObjectStore(STORE_SEARCH); // Key: Note ID, Value: SearchIndexEntry
+        }
+        if (!db.objectStoreNames.contains(STORE_VERSIONS)) {
+          db.createObjectStore(STORE_VERSIONS); // Key: Version ID, Value: NoteVersion
+        }
+        const versions = upgrade.objectStore(STORE_VERSIONS);
+        if (!versions.indexNames.contains(INDEX_VERSION_NOTE)) {
+          versions.createIndex(INDEX_VERSION_NOTE, 'noteId'); // One note's versions without scanning the library
+        }
       };
       request.onsuccess = (event) => {
         this.db = (event.target as IDBOpenDBRequest).result;
@@ -54,6 +87,28 @@ class IDBAdapter {
     });
   }
 
+  async getAll(storeName: string): Promise<any[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction(storeName, 'readonly');
+      const store = tx.objectStore(storeName);
+      const req = store.getAll();
+      req.onsuccess = () => resolve(req.result || []);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  async getAllByIndex(storeName: string, indexName: string, value: string): Promise<any[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction(storeName, 'readonly');
+      const index = tx.objectStore(storeName).index(indexName);
+      const req = index.getAll(value);
+      req.onsuccess = () => resolve(req.result || []);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
   async delete(storeName: string, key: string): Promise<void> {
     await this.init();
     return new Promise((resolve, reject) => {
@@ -70,6 +125,8 @@ export class StorageService {
   private static instance: StorageService;
   private supabase: SupabaseClient | null = null;
   private idb: IDBAdapter;
+  private noteListeners: NoteChangeListener[] = [];
+  private versionListeners: VersionChangeListener[] = [];
   
   private constructor() {
     this.idb = new IDBAdapter();
@@ -189,12 +246,22 @@ export class StorageService {
       meta.push(lightweightNote);
     }
     localStorage.setItem('neuro_notes', JSON.stringify(meta));
+    this.noteListeners.forEach(l => l(note.id, note));
   }
 
   public async deleteNoteLocal(id: string) {
     await this.idb.delete(STORE_CONTENT, id);
+    await this.deleteNoteVersions(id);
     const notes = this.getLocalNotesMetadata().filter(n => n.id !== id);
     localStorage.setItem('neuro_notes', JSON.stringify(notes));
+    this.noteListeners.forEach(l => l(id, null));
+  }
+
+  public subscribeNotes(listener: NoteChangeListener) {
+    this.noteListeners.push(listener);
+    return () => {
+      this.noteListeners = this.noteListeners.filter(l => l !== listener);
+    };
   }
   
   // NEW: Dual-Write Rename (Syncs to Cloud if applicable)
@@ -321,6 +388,9 @@ export class StorageService {
           throw new Error(`Cloud sync failed: ${error.message}`);
       }
       
+      // Flushes versions written while offline or before the note was first synced
+      await this.uploadNoteVersions(note.id).catch(e => console.error("Version Upload Error", e));
+
       // Update local status to synced only if successful
       const notes = this.getLocalNotesMetadata();
       const idx = notes.findIndex(n => n.id === note.id);
@@ -357,10 +427,14 @@ export class StorageService {
       };
       
       await this.saveNoteLocal(fullNote);
+      await this.importNoteVersions(noteMeta.id).catch(e => console.error("Version Import Error", e));
   }
 
   public async deleteNoteFromCloud(id: string) {
       if (!this.supabase) return;
+      // Versions hold full copies of the note, so they go with it
+      const versions = await this.supabase.from('neuro_note_versions').delete().eq('note_id', id);
+      if (versions.error && !isMissingTable(versions.error)) throw new Error(`Cloud delete failed: ${versions.error.message}`);
       const { error } = await this.supabase.from('neuro_notes').delete().eq('id', id);
       if (error) throw new Error(`Cloud delete failed: ${error.message}`);
   }
@@ -438,6 +512,167 @@ export class StorageService {
       localStorage.setItem('neuro_templates', JSON.stringify(templates));
   }
 
+  // --- SECTION CHECKPOINTS (IDB, COMPREHENSIVE mode resume) ---
+  public async getSectionCheckpoint(id: string): Promise<SectionCheckpoint | null> {
+      try {
+          return (await this.idb.get(STORE_CHECKPOINTS, id)) || null;
+      } catch (e) {
+          console.warn("Checkpoint read failed", e);
+          return null;
+      }
+  }
+
+  public async saveSectionCheckpoint(checkpoint: SectionCheckpoint) {
+      try {
+          await this.idb.put(STORE_CHECKPOINTS, checkpoint.id, checkpoint);
+      } catch (e) {
+          console.warn("Checkpoint write failed", e);
+      }
+  }
+
+  public async clearSectionCheckpoint(id: string) {
+      try {
+          await this.idb.delete(STORE_CHECKPOINTS, id);
+      } catch (e) {
+          console.warn("Checkpoint delete failed", e);
+      }
+  }
+
+  // --- SEARCH INDEX (IDB, semantic search) ---
+  public async getSearchIndex(): Promise<SearchIndexEntry[]> {
+      try {
+          return await this.idb.getAll(STORE_SEARCH);
+      } catch (e) {
+          console.warn("Search index read failed", e);
+          return [];
+      }
+  }
+
+  public async saveSearchIndexEntry(entry: SearchIndexEntry) {
+      try {
+          await this.idb.put(STORE_SEARCH, entry.id, entry);
+      } catch (e) {
+          console.warn("Search index write failed", e);
+      }
+  }
+
+  public async deleteSearchIndexEntry(id: string) {
+      try {
+          await this.idb.delete(STORE_SEARCH, id);
+      } catch (e) {
+          console.warn("Search index delete failed", e);
+      }
+  }
+
+  // --- NOTE VERSIONS (IDB, mirrored to neuro_note_versions when cloud is connected) ---
+  public async getNoteVersions(noteId: string): Promise<NoteVersion[]> {
+      try {
+          const versions: NoteVersion[] = await this.idb.getAllByIndex(STORE_VERSIONS, INDEX_VERSION_NOTE, noteId);
+          return versions.sort((a, b) => b.timestamp - a.timestamp);
+      } catch (e) {
+          console.warn("Version read failed", e);
+          return [];
+      }
+  }
+
+  /** Snapshots `content` unless it equals the latest version, then applies retention. */
+  public async saveNoteVersion(noteId: string, content: string, reason: NoteVersionReason, label?: string): Promise<NoteVersion | null> {
+      try {
+          const versions = await this.getNoteVersions(noteId);
+          if (!content.trim() || versions[0]?.content === content) return null;
+
+          const version: NoteVersion = { id: `${noteId}_${Date.now()}`, noteId, timestamp: Date.now(), reason, label, content, _status: 'local' };
+          await this.idb.put(STORE_VERSIONS, version.id, version);
+
+          const now = Date.now();
+          const expired = [version, ...versions].filter((v, i) =>
+              i >= MAX_VERSIONS_PER_NOTE || (v.reason === 'interval' && now - v.timestamp > INTERVAL_VERSION_TTL)
+          );
+          for (const v of expired) await this.idb.delete(STORE_VERSIONS, v.id);
+
+          this.versionListeners.forEach(l => l(noteId));
+          this.syncNoteVersions(noteId, expired.filter(v => v._status === 'synced').map(v => v.id))
+              .catch(e => console.error("Version Sync Error", e));
+          return version;
+      } catch (e) {
+          console.warn("Version write failed", e);
+          return null;
+      }
+  }
+
+  public async deleteNoteVersions(noteId: string) {
+      const versions = await this.getNoteVersions(noteId);
+      try {
+          for (const v of versions) await this.idb.delete(STORE_VERSIONS, v.id);
+      } catch (e) {
+          console.warn("Version delete failed", e);
+      }
+      this.versionListeners.forEach(l => l(noteId));
+  }
+
+  public subscribeVersions(listener: VersionChangeListener) {
+      this.versionListeners.push(listener);
+      return () => {
+          this.versionListeners = this.versionListeners.filter(l => l !== listener);
+      };
+  }
+
+  /*
+    CLOUD TABLE (run once in the Supabase SQL editor, next to neuro_notes):
+
+    create table neuro_note_versions (
+      id text primary key,                                  -- `${noteId}_${timestamp}`
+      note_id text not null references neuro_notes(id) on delete cascade,
+      timestamp bigint not null,
+      reason text not null,                                 -- NoteVersionReason
+      label text,
+      content text not null
+    );
+    create index neuro_note_versions_note_id on neuro_note_versions(note_id);
+
+    Best effort: without the table, versions stay local and notes still sync.
+  */
+
+  // Mirrors a fresh snapshot and the retention pass to the cloud, only for notes that are already synced
+  private async syncNoteVersions(noteId: string, prunedIds: string[]) {
+      if (!this.supabase) return;
+      const note = this.getLocalNotesMetadata().find(n => n.id === noteId);
+      if (note?._status !== 'synced' && note?._status !== 'cloud') return;
+
+      if (prunedIds.length > 0) {
+          const { error } = await this.supabase.from('neuro_note_versions').delete().in('id', prunedIds);
+          if (error) throw versionTableError(error);
+      }
+      await this.uploadNoteVersions(noteId);
+  }
+
+  private async uploadNoteVersions(noteId: string) {
+      if (!this.supabase) return;
+      const pending = (await this.getNoteVersions(noteId)).filter(v => v._status !== 'synced');
+      if (pending.length === 0) return;
+
+      const { error } = await this.supabase
+          .from('neuro_note_versions')
+          .upsert(pending.map(v => ({ id: v.id, note_id: v.noteId, timestamp: v.timestamp, reason: v.reason, label: v.label || null, content: v.content })), { onConflict: 'id' });
+      if (error) throw versionTableError(error);
+      for (const v of pending) await this.idb.put(STORE_VERSIONS, v.id, { ...v, _status: 'synced' });
+  }
+
+  private async importNoteVersions(noteId: string) {
+      if (!this.supabase) return;
+      const { data, error } = await this.supabase
+          .from('neuro_note_versions')
+          .select('id, note_id, timestamp, reason, label, content')
+          .eq('note_id', noteId);
+      if (error) throw versionTableError(error);
+      if (!data) return;
+      for (const row of data) {
+          const version: NoteVersion = { id: row.id, noteId: row.note_id, timestamp: row.timestamp, reason: row.reason, label: row.label || undefined, content: row.content, _status: 'synced' };
+          await this.idb.put(STORE_VERSIONS, version.id, version);
+      }
+      this.versionListeners.forEach(l => l(noteId));
+  }
+
   // --- QUEUES ---
   public async getQueues(): Promise<SavedQueue[]> {
      const data = localStorage.getItem('neuro_saved_queues');
@@ -0,0 +1,245 @@
+import { AIProvider, UsageEntry, UsageSummary, UsageScope, UsageBudget, UsageOperation } from '../types';
+
+type LedgerListener = () => void;
+
+const LEDGER_KEY = 'neuro_usage_ledger';
+const BUDGET_KEY = 'neuro_usage_budget';
+const MAX_ENTRIES = 2000; // Oldest entries are pruned past this
+const MAX_LEDGER_CHARS = 1_000_000; // Serialized size cap, keeps the ledger well inside the localStorage quota
+const PERSIST_DEBOUNCE_MS = 1000; // Parallel sections record in bursts, write them out once
+const FALLBACK_TOKENS_PER_NOTE = 15000; // Used for batch estimates until we have history
+
+// USD per 1M tokens (input / output). Public list prices, treat as estimates.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2.0, output: 12.0 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3.0 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.0 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+  'gemma2-9b-it': { input: 0.2, output: 0.2 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+};
+
+export const EMPTY_USAGE: UsageSummary = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0 };
+
+export const toDayKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number => {
+  const price = MODEL_PRICING[model];
+  if (!price) return 0; // Local / unknown models are treated as free
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+/**
+ * USAGE LEDGER
+ *
+ * Append-only log of every model call (tokens, model, latency) with rollups
+ * per note, per queue run, per day and per provider. Attribution comes from
+ * `config.usageScope`, so services only need to call `record`. Writes are
+ * debounced and the stored ledger is capped by entry count and size.
+ */
+export class UsageLedgerService {
+  private static instance: UsageLedgerService;
+  private entries: UsageEntry[] = [];
+  private listeners: LedgerListener[] = [];
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    this.loadLedger();
+    // Pending writes must not be lost when the tab closes mid-debounce
+    if (typeof window !== 'undefined') window.addEventListener('pagehide', () => this.flush());
+  }
+
+  public static getInstance(): UsageLedgerService {
+    if (!UsageLedgerService.instance) {
+      UsageLedgerService.instance = new UsageLedgerService();
+    }
+    return UsageLedgerService.instance;
+  }
+
+  public subscribe(listener: LedgerListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  public record(entry: {
+    provider: AIProvider;
+    model: string;
+    operation: UsageOperation;
+    inputTokens: number;
+    outputTokens: number;
+    latencyMs: number;
+    scope?: UsageScope;
+  }) {
+    const { scope, ...rest } = entry;
+    this.entries.push({
+      ...rest,
+      ...scope,
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      timestamp: Date.now(),
+      costUsd: estimateCost(entry.model, entry.inputTokens, entry.outputTokens)
+    });
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries = this.entries.slice(this.entries.length - MAX_ENTRIES);
+    }
+    this.schedulePersist();
+  }
+
+  public getEntries(): UsageEntry[] {
+    return [...this.entries];
+  }
+
+  public summarize(filter: UsageScope & { day?: string; provider?: AIProvider } = {}): UsageSummary {
+    return UsageLedgerService.sum(this.entries.filter(e =>
+      (!filter.noteId || e.noteId === filter.noteId) &&
+      (!filter.queueId || e.queueId === filter.queueId) &&
+      (!filter.runId || e.runId === filter.runId) &&
+      (!filter.provider || e.provider === filter.provider) &&
+      (!filter.day || toDayKey(e.timestamp) === filter.day)
+    ));
+  }
+
+  /** Totals for the last `days` days, oldest first (today included). */
+  public getDailyTotals(days: number = 7): { day: string; usage: UsageSummary }[] {
+    const result: { day: string; usage: UsageSummary }[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const day = toDayKey(Date.now() - i * 24 * 60 * 60 * 1000);
+      result.push({ day, usage: this.summarize({ day }) });
+    }
+    return result;
+  }
+
+  public getModelBreakdown(): { provider: AIProvider; model: string; usage: UsageSummary }[] {
+    const groups: Record<string, UsageEntry[]> = {};
+    this.entries.forEach(e => {
+      const key = `${e.provider}|${e.model}`;
+      (groups[key] = groups[key] || []).push(e);
+    });
+    return Object.entries(groups)
+      .map(([key, list]) => {
+        const [provider, model] = key.split('|');
+        return { provider: provider as AIProvider, model, usage: UsageLedgerService.sum(list) };
+      })
+      .sort((a, b) => (b.usage.inputTokens + b.usage.outputTokens) - (a.usage.inputTokens + a.usage.outputTokens));
+  }
+
+  /** Queue runs, most recent first. A run is one `startProcessing` session. */
+  public getQueueRuns(queueId?: string): { runId: string; queueId?: string; startedAt: number; usage: UsageSummary }[] {
+    const groups: Record<string, UsageEntry[]> = {};
+    this.entries.forEach(e => {
+      if (!e.runId || (queueId && e.queueId !== queueId)) return;
+      (groups[e.runId] = groups[e.runId] || []).push(e);
+    });
+    return Object.entries(groups)
+      .map(([runId, list]) => ({ runId, queueId: list[0].queueId, startedAt: list[0].timestamp, usage: UsageLedgerService.sum(list) }))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /** Average tokens spent per finished note, used to forecast batch cost. */
+  public estimateTokensPerNote(): number {
+    const perNote: Record<string, number> = {};
+    this.entries.forEach(e => {
+      if (!e.noteId) return;
+      perNote[e.noteId] = (perNote[e.noteId] || 0) + e.inputTokens + e.outputTokens;
+    });
+    const totals = Object.values(perNote);
+    if (totals.length === 0) return FALLBACK_TOKENS_PER_NOTE;
+    return Math.round(totals.reduce((a, b) => a + b, 0) / totals.length);
+  }
+
+  // --- SOFT BUDGETS ---
+
+  public getBudget(): UsageBudget {
+    try {
+      const saved = localStorage.getItem(BUDGET_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      return {};
+    }
+  }
+
+  public setBudget(budget: UsageBudget) {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+    this.listeners.forEach(l => l());
+  }
+
+  /**
+   * Soft check before a syllabus batch. Returns a warning when the forecast
+   * would cross a configured budget, or null when it is within limits.
+   */
+  public checkBatchBudget(noteCount: number): string | null {
+    const budget = this.getBudget();
+    const today = this.summarize({ day: toDayKey(Date.now()) });
+    const forecastTokens = noteCount * this.estimateTokensPerNote();
+    const todayTokens = today.inputTokens + today.outputTokens;
+    const warnings: string[] = [];
+
+    if (budget.batchTokens && forecastTokens > budget.batchTokens) {
+      warnings.push(`This batch (~${forecastTokens.toLocaleString()} tokens) exceeds the per-batch budget of ${budget.batchTokens.toLocaleString()}.`);
+    }
+    if (budget.dailyTokens && todayTokens + forecastTokens > budget.dailyTokens) {
+      warnings.push(`Today's usage would reach ~${(todayTokens + forecastTokens).toLocaleString()} of ${budget.dailyTokens.toLocaleString()} daily tokens.`);
+    }
+    if (budget.dailyCostUsd && today.costUsd >= budget.dailyCostUsd) {
+      warnings.push(`Today's estimated spend ($${today.costUsd.toFixed(2)}) already reached the $${budget.dailyCostUsd.toFixed(2)} daily budget.`);
+    }
+    return warnings.length > 0 ? warnings.join('\n') : null;
+  }
+
+  public clear() {
+    this.entries = [];
+    this.flush();
+  }
+
+  private static sum(list: UsageEntry[]): UsageSummary {
+    return list.reduce((acc, e) => ({
+      calls: acc.calls + 1,
+      inputTokens: acc.inputTokens + e.inputTokens,
+      outputTokens: acc.outputTokens + e.outputTokens,
+      costUsd: acc.costUsd + e.costUsd,
+      latencyMs: acc.latencyMs + e.latencyMs
+    }), { ...EMPTY_USAGE });
+  }
+
+  private loadLedger() {
+    try {
+      const saved = localStorage.getItem(LEDGER_KEY);
+      if (saved) this.entries = JSON.parse(saved);
+    } catch (e) {
+      console.error("Usage ledger recovery failed", e);
+      this.entries = [];
+    }
+  }
+
+  // Listeners hear about new entries right away, the localStorage write is batched
+  private schedulePersist() {
+    if (!this.persistTimer) this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    this.listeners.forEach(l => l());
+  }
+
+  private flush() {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    let serialized = JSON.stringify(this.entries);
+    // Drop the oldest quarter until the ledger fits the size cap
+    while (serialized.length > MAX_LEDGER_CHARS && this.entries.length > 0) {
+      this.entries = this.entries.slice(Math.ceil(this.entries.length / 4));
+      serialized = JSON.stringify(this.entries);
+    }
+    try {
+      localStorage.setItem(LEDGER_KEY, serialized);
+    } catch (e) {
+      console.warn("Usage ledger persist failed (storage full?)", e);
+    }
+    this.listeners.forEach(l => l());
+  }
+}
@@ -19,7 +19,9 @@ export enum NoteMode {
 
 export enum AIProvider {
   GEMINI = 'gemini',
-  GROQ = 'groq'
+  GROQ = 'groq',
+  OPENAI_COMPAT = 'openai_compat', // Ollama, llama.cpp, LM Studio, etc.
+  MOCK = 'mock' // Offline, scripted responses for development
 }
 
 export enum AppModel {
@@ -54,6 +56,13 @@ export interface UploadedFile {
   mimeType: string;
   data: string;
   isTokenized?: boolean;
+  extractedText?: string; // PDF/DOCX/PPTX text with [Page N] / slide markers, for text-only models
+}
+
+// One step of a provider fallback chain
+export interface FallbackTarget {
+  provider: AIProvider;
+  model: string;
 }
 
 export interface GenerationConfig {
@@ -62,6 +71,8 @@ export interface GenerationConfig {
   temperature: number;
   apiKey: string;
   groqApiKey?: string;
+  openaiBaseUrl?: string; // e.g. http://localhost:11434/v1
+  openaiApiKey?: string; // Optional, most local servers ignore it
   mode: NoteMode;
   storageType: StorageType;
   supabaseUrl?: string;
@@ -71,6 +82,90 @@ export interface GenerationConfig {
   structureModel?: string;
   structureProvider?: AIProvider;
   customStructurePrompt?: string;
+  usageScope?: UsageScope; // Who the token usage of this call is billed to
+  signal?: AbortSignal; // Cancels the in-flight call(s) made with this config
+  sectionConcurrency?: number; // COMPREHENSIVE mode: sections generated in parallel (default 3)
+  language?: string; // Output language code (see OUTPUT_LANGUAGES), defaults to Indonesian
+  fallbackChain?: FallbackTarget[]; // Queue: tried in order after the primary provider/model on transient failures
+  factCheck?: FactCheckSettings; // Optional review pass after a note is generated
+  formatterRules?: FormatterRuleSettings; // Post-processing rules the user switched off
+}
+
+export type FormatterRuleId = 'mermaid.mindmap' | 'mermaid.lines' | 'mermaid.arrows' | 'mermaid.labels' | 'markdown.rules' | 'callouts.obsidian';
+
+export type FormatterRuleSettings = Partial<Record<FormatterRuleId, boolean>>; // Missing means enabled
+
+export interface FormatterRuleInfo {
+  id: FormatterRuleId;
+  label: string;
+  description: string;
+}
+
+export interface FormatterRuleReport extends FormatterRuleInfo {
+  enabled: boolean;
+  changes: { before: string; after: string }[]; // One entry per rewritten block or match
+}
+
+export interface FormatterResult {
+  content: string;
+  report: FormatterRuleReport[];
+}
+
+export type LintRuleId = 'fence.unbalanced' | 'callout.unclosed' | 'heading.skipped-level' | 'heading.empty-section' | 'heading.duplicate';
+
+export interface LintIssue {
+  id: string;
+  rule: LintRuleId;
+  line: number; // 1-based
+  severity: 'error' | 'warning';
+  message: string;
+  fix?: { label: string; apply: (content: string) => string }; // Computed against the linted content
+}
+
+export type SelectionActionId = 'rewrite' | 'simplify' | 'expand' | 'table' | 'analogy' | 'translate';
+
+// Character offsets into the note source, end exclusive
+export interface SelectionRange {
+  start: number;
+  end: number;
+}
+
+export type SlashCommandGroup = 'callout' | 'table' | 'diagram' | 'math' | 'study' | 'insert' | 'ai' | 'snippet';
+
+export interface SlashCommand {
+  id: string; // Typed after "/"
+  label: string;
+  group: SlashCommandGroup;
+  description?: string;
+  template?: string; // Inserted text; {{cursor}} marks the caret, {{date}} / {{time}} are filled in on insert
+  aiInstruction?: string; // AI commands: generated at the cursor, {{target}} is what the user asked about
+}
+
+// User-registered insert, stored locally and offered as "/trigger"
+export interface SlashSnippet {
+  id: string;
+  trigger: string;
+  label: string;
+  text: string;
+}
+
+export interface FactCheckSettings {
+  enabled: boolean;
+  provider: AIProvider; // Reviewer, may differ from the provider that wrote the note
+  model: string;
+}
+
+export type FactCheckSeverity = 'low' | 'medium' | 'high';
+
+export interface FactCheckFinding {
+  id: string;
+  claim: string; // The questionable statement, paraphrased
+  location: string; // Section heading the claim sits under
+  quote: string; // Exact text from the note, used to anchor and apply the fix
+  severity: FactCheckSeverity;
+  issue: string; // Why it is questionable (contradicts a source, unsupported, outdated...)
+  suggestedFix: string; // Replacement text for `quote`
+  status: 'open' | 'accepted' | 'dismissed';
 }
 
 export interface SyllabusItem {
@@ -80,11 +175,61 @@ export interface SyllabusItem {
   structure?: string;
   retryCount?: number;
   errorMsg?: string;
+  // Hierarchical syllabi: parent module and what the syllabus says this topic must cover
+  moduleId?: string;
+  moduleTitle?: string;
+  folderId?: string; // Folder the module's notes are filed into (created on first run)
+  objectives?: string[];
+  subtopics?: string[];
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
+  sources?: RetrievedChunk[]; // Context chunks the reply was grounded on
+}
+
+export type ContextSourceKind = 'note' | 'material'; // Material = file uploaded to the Knowledge Base
+
+// Heading-scoped slice of a note or library material, the unit of retrieval
+export interface ContextChunk {
+  id: string;
+  sourceId: string;
+  sourceLabel: string;
+  sourceKind?: ContextSourceKind; // Absent means note
+  heading: string;
+  text: string;
+  tokens: number;
+}
+
+export interface RetrievedChunk extends ContextChunk {
+  score: number;
+}
+
+// Semantic search index, one IndexedDB entry per note (chunked like retrieval)
+export interface SearchIndexEntry {
+  id: string;
+  version: string; // Note timestamp when indexed
+  topic: string;
+  method: string; // 'lexical' or the id of the provider that produced the embeddings
+  chunks: { heading: string; text: string; vector: number[] }[];
+}
+
+export interface SemanticSearchHit {
+  noteId: string;
+  topic: string;
+  heading: string;
+  snippet: string;
+  score: number;
+  terms: string[]; // Query terms, for highlighting
+}
+
+export interface ContextSource {
+  id: string;
+  label: string;
+  content: string;
+  version?: string; // e.g. note timestamp; unchanged version means the cached chunks are reused
+  kind?: ContextSourceKind;
 }
 
 export interface NoteData {
@@ -93,6 +238,7 @@ export interface NoteData {
   structure: string;
   structureProvider?: AIProvider;
   structureModel?: string;
+  language?: string; // Per-note override of config.language
 }
 
 export enum AppView {
@@ -110,6 +256,7 @@ export interface AppState {
   progressStep: string;
   currentView: AppView;
   activeNoteId: string | null;
+  isStreaming?: boolean; // generatedContent is a partial note still being written
 }
 
 export interface StickyNote {
@@ -131,11 +278,16 @@ export interface HistoryItem {
   mode: NoteMode;
   content: string;
   provider: AIProvider;
+  model?: string; // Model that actually produced the content (may be a fallback)
   parentId: string | null;
   folderId?: string;
   tags?: string[];
   _status?: 'local' | 'synced' | 'cloud';
   snippet?: string;
+  usage?: UsageSummary; // Rolled up from the usage ledger at save time
+  promptVersions?: Partial<Record<PromptTemplateId, string>>; // Prompt template versions that produced this note
+  language?: string; // Output language the note was generated in
+  factCheck?: FactCheckFinding[]; // Review findings and what the user did with them
   metadata?: {
     stickies: StickyNote[];
     contextFiles: any[];
@@ -159,11 +311,136 @@ export interface SavedQueue {
   name: string;
   items: SyllabusItem[];
   timestamp: number;
+  usage?: UsageSummary;
+  language?: string; // Per-queue override of config.language
+}
+
+/* ---- USAGE LEDGER ---- */
+
+export type UsageOperation = 'note' | 'section' | 'structure' | 'syllabus' | 'refine' | 'deepen' | 'assistant' | 'chat' | 'factcheck' | 'mermaid' | 'embedding';
+
+export interface UsageScope {
+  noteId?: string;
+  queueId?: string;
+  runId?: string; // One QueueService processing session
+}
+
+export interface UsageEntry extends UsageScope {
+  id: string;
+  timestamp: number;
+  provider: AIProvider;
+  model: string;
+  operation: UsageOperation;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+export interface UsageBudget {
+  dailyTokens?: number;
+  dailyCostUsd?: number;
+  batchTokens?: number;
+}
+
+// COMPREHENSIVE mode progress, stored in IndexedDB so a failed chapter resumes instead of restarting
+export interface SectionCheckpoint {
+  id: string; // Derived from topic + blueprint + mode/provider/model/language, see getChapterKey
+  topic: string;
+  sectionCount: number;
+  sections: Record<number, string>; // Blueprint index -> finished section body
+  updatedAt: number;
+}
+
+export type NoteVersionReason = 'manual-save' | 'before-ai' | 'interval' | 'before-restore';
+
+// Snapshot of a note's content, stored in IndexedDB (and in Supabase when connected)
+export interface NoteVersion {
+  id: string;
+  noteId: string;
+  timestamp: number;
+  reason: NoteVersionReason;
+  label?: string; // e.g. which AI edit was about to be applied
+  content: string;
+  _status?: 'local' | 'synced';
+}
+
+export type KeyState = 'ok' | 'cooling' | 'dead';
+
+export interface KeyHealth {
+  fingerprint: string; // Masked key, raw keys are never persisted here
+  state: KeyState;
+  failures: number;
+  cooldownUntil?: number;
+  lastError?: string;
+  lastUsed?: number;
+}
+
+// --- PROMPT REGISTRY ---
+
+export type PromptTemplateId =
+  | 'core.formatting' | 'mode.general' | 'mode.cheat_codes' | 'mode.comprehensive' | 'mode.custom'
+  | 'note.standard' | 'note.system' | 'note.system.local' | 'note.section' | 'structure.universal' | 'syllabus.parse'
+  | 'edit.refine' | 'edit.deepen' | 'assistant.system' | 'chat.system' | 'review.factcheck' | 'repair.mermaid' | 'edit.inline' | 'edit.selection';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  version: number; // Bump whenever the built-in text changes
+  variables: string[]; // Used as {{name}}, or {{#name}}...{{/name}} for a block shown only when set
+  body: string;
+}
+
+// Everything a prompt needs to write natively in one language
+export interface OutputLanguage {
+  code: string;
+  label: string;
+  name: string; // As written into prompts
+  style: string; // Register / tone rules
+  definitionOpener: string; // The dictionary-style opener to avoid
+  analogyExample: string;
+  connectors: string;
+  headerExample: string;
+  mnemonicStyle: string;
+}
+
+export interface PromptVersion {
+  version: string; // "1" = built-in v1, "1.1", "1.2"... = overrides saved on top of it
+  body: string;
+  createdAt: number;
+  source: 'builtin' | 'custom';
+}
+
+// --- MOCK PROVIDER ---
+
+// One scripted response, consumed in order before the selected scenario applies
+export interface MockScriptStep {
+  fail?: 429 | 500; // Throw a rate-limit / server error shaped like the real providers
+  text?: string; // Return this exact text instead of the fixture
+  delayMs?: number; // Latency for this call only
+  brokenMermaid?: boolean; // Fixture with invalid Mermaid blocks
+}
+
+export interface MockSettings {
+  enabled: boolean;
+  latencyMs: number; // Injected before every call
+  script: MockScriptStep[];
 }
 
 export interface EncryptedPayload {
   geminiKey?: string;
   groqKey?: string;
+  openaiBaseUrl?: string;
+  openaiKey?: string;
   supabaseUrl?: string;
   supabaseKey?: string;
 }
@@ -188,11 +465,52 @@ export enum AppTheme {
   SEPIA_FOCUS = 'sepia_focus'
 }
 
-export const GEMINI_MODELS_LIST = [
-  { value: AppModel.GEMINI_3_PRO, label: 'Gemini 3.0 Pro' },
-  { value: AppModel.GEMINI_3_FLASH, label: 'Gemini 3.0 Flash' },
-  { value: AppModel.GEMINI_2_5_FLASH, label: 'Gemini 2.5 Flash' },
-];
+export interface ModelOption {
+  value: string;
+  label: string;
+  badge?: string;
+}
+
+export type ProviderModelMap = Partial<Record<AIProvider, ModelOption[]>>;
+
+// What a model can take and produce; see utils/modelCatalog
+export interface ModelCapabilities {
+  contextWindow: number; // Input + output tokens
+  maxOutputTokens: number; // Default output cap for long generations
+  multimodal: boolean; // Reads images and PDFs natively
+  jsonMode: boolean; // Supports a JSON response format
+  streaming: boolean;
+  retrievalBudget: number; // Share of the window given to retrieved library chunks
+}
+
+// How an attachment reaches a model: as-is, decoded into the prompt, or not at all
+export type AttachmentSupport = 'native' | 'text' | 'unsupported';
+
+/**
+ * Contract every AI backend implements. Call sites resolve an adapter through
+ * the provider registry instead of branching on `AIProvider` by hand.
+ */
+export interface AIProviderAdapter {
+  id: AIProvider;
+  label: string;
+  defaultModel: string;
+  models: ModelOption[];
+  fetchModels?: (config: GenerationConfig) => Promise<ModelOption[]>;
+  /** `onChunk` receives the accumulated raw text so far, letting the UI stream partial notes. */
+  generateNoteContent: (config: GenerationConfig, topic: string, structure: string, files: UploadedFile[], onProgress: (status: string) => void, onChunk?: (partialContent: string) => void) => Promise<string>;
+  generateDetailedStructure: (config: GenerationConfig, topic: string) => Promise<string>;
+  parseSyllabusFile: (config: GenerationConfig, file: UploadedFile) => Promise<SyllabusItem[]>;
+  parseSyllabusText: (config: GenerationConfig, rawText: string) => Promise<SyllabusItem[]>;
+  refineNoteContent: (config: GenerationConfig, currentContent: string, instruction: string, additionalContexts?: Record<string, string>) => Promise<string>;
+  deepenNoteContent: (config: GenerationConfig, currentContent: string, instruction: string, files: UploadedFile[], additionalContexts?: Record<string, string>) => Promise<string>;
+  generateAssistantResponse: (config: GenerationConfig, currentContent: string, history: ChatMessage[], files: UploadedFile[], additionalContexts?: Record<string, string>) => Promise<string>;
+  /** Reviews a finished note (against `files` when given) and returns questionable claims. */
+  factCheckNote: (config: GenerationConfig, content: string, files: UploadedFile[]) => Promise<FactCheckFinding[]>;
+  /** Returns a corrected version of a Mermaid diagram that failed to parse with `error` (code only, no fences). */
+  repairMermaid: (config: GenerationConfig, code: string, error: string) => Promise<string>;
+  /** One vector per text, used by semantic search when provider embeddings are enabled. */
+  embedTexts?: (config: GenerationConfig, texts: string[]) => Promise<number[][]>;
+}
 
 export const MODE_STRUCTURES: Record<NoteMode, string> = {
   [NoteMode.GENERAL]: "# 1. Definition\n# 2. Pathophysiology\n# 3. Clinical Features\n# 4. Diagnosis\n# 5. Management",
@@ -0,0 +1,25 @@
+/* 
+  CANCELLATION HELPERS
+  Requests are cancelled through `config.signal` (a standard AbortSignal).
+  SDKs surface aborts differently (DOMException, APIUserAbortError, wrapped
+  messages), so callers should check these helpers rather than error types.
+*/
+
+export const CANCELLED_MESSAGE = "Request cancelled.";
+
+export const createAbortError = (): Error => {
+  const error = new Error(CANCELLED_MESSAGE);
+  error.name = 'AbortError';
+  return error;
+};
+
+// Call between steps of long multi-call flows (sections, retries) to stop early
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+export const isAbortError = (error: any, signal?: AbortSignal): boolean => {
+  if (signal?.aborted) return true;
+  const name = error?.name || '';
+  return name === 'AbortError' || name === 'APIUserAbortError' || String(error?.message || '').includes(CANCELLED_MESSAGE);
+};
@@ -0,0 +1,98 @@
+export type DiffOp = 'same' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+/**
+ * Line diff via longest common subsequence. Inputs here are prompts and
+ * notes (hundreds to a few thousand lines), so the O(n*m) table is fine.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ op: 'same', text: a[i] });
+      i++; j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ op: 'remove', text: a[i++] });
+    } else {
+      result.push({ op: 'add', text: b[j++] });
+    }
+  }
+  while (i < n) result.push({ op: 'remove', text: a[i++] });
+  while (j < m) result.push({ op: 'add', text: b[j++] });
+  return result;
+};
+
+/** Unchanged lines more than `context` lines from any change collapse into a single null ("…" row). */
+export const collapseUnchanged = (diff: DiffLine[], context: number): (DiffLine | null)[] => {
+  const near = diff.map(() => false);
+  diff.forEach((d, i) => {
+    if (d.op === 'same') return;
+    for (let j = Math.max(0, i - context); j <= Math.min(diff.length - 1, i + context); j++) near[j] = true;
+  });
+  const rows: (DiffLine | null)[] = [];
+  diff.forEach((d, i) => {
+    if (near[i]) rows.push(d);
+    else if (rows[rows.length - 1] !== null) rows.push(null);
+  });
+  return rows;
+};
+
+// A run of consecutive changed lines; `start` / `end` index into the DiffLine[] it came from
+export interface DiffHunk {
+  id: number;
+  start: number;
+  end: number; // Exclusive
+  removed: string[];
+  added: string[];
+}
+
+export const buildHunks = (diff: DiffLine[]): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  diff.forEach((d, i) => {
+    if (d.op === 'same') return;
+    let hunk = hunks[hunks.length - 1];
+    if (!hunk || hunk.end !== i) {
+      hunk = { id: hunks.length, start: i, end: i, removed: [], added: [] };
+      hunks.push(hunk);
+    }
+    hunk.end = i + 1;
+    (d.op === 'remove' ? hunk.removed : hunk.added).push(d.text);
+  });
+  return hunks;
+};
+
+/**
+ * Text with only the accepted hunks applied. Unchanged lines and rejected
+ * hunks come from the original, so rejecting everything gives back the
+ * original byte-for-byte and accepting everything gives the new text.
+ */
+export const mergeHunks = (diff: DiffLine[], hunks: DiffHunk[], accepted: Set<number>): string => {
+  const lines: string[] = [];
+  let i = 0;
+  hunks.forEach(hunk => {
+    for (; i < hunk.start; i++) lines.push(diff[i].text);
+    lines.push(...(accepted.has(hunk.id) ? hunk.added : hunk.removed));
+    i = hunk.end;
+  });
+  for (; i < diff.length; i++) lines.push(diff[i].text);
+  return lines.join('\n');
+};
@@ -0,0 +1,260 @@
+import { UploadedFile } from '../types';
+
+/*
+  DOCUMENT TEXT EXTRACTION
+  Text-only providers (Groq, local servers) can't take PDF/DOCX/PPTX inline
+  data, so uploads are converted to text in the browser. Page and slide
+  markers ("[Page 3]", "## Slide 12: ...") are kept so notes can cite them.
+  pdf.js and JSZip are loaded from the CDN on first use, like html2pdf.
+*/
+
+const PDFJS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
+const PDFJS_WORKER_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+const JSZIP_URL = 'https://cdnjs.cloudflare.com/ajax/libs/jszip/3.10.1/jszip.min.js';
+
+const HEADING_SCALE = 1.3; // PDF lines this much taller than the page's body text count as headings
+const MAX_HEADING_LENGTH = 100;
+
+type DocumentKind = 'pdf' | 'docx' | 'pptx';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const scripts: Record<string, Promise<void>> = {};
+
+const loadScript = (src: string): Promise<void> => {
+  if (!scripts[src]) {
+    scripts[src] = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        delete scripts[src]; // Allow a retry once the network is back
+        script.remove();
+        reject(new Error(`Could not load ${src.split('/').pop()}`));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return scripts[src];
+};
+
+const loadPdfJs = async (): Promise<any> => {
+  await loadScript(PDFJS_URL);
+  const pdfjsLib = (window as any).pdfjsLib;
+  pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+  return pdfjsLib;
+};
+
+const loadJsZip = async (): Promise<any> => {
+  await loadScript(JSZIP_URL);
+  return (window as any).JSZip;
+};
+
+const getDocumentKind = (file: Pick<UploadedFile, 'name' | 'mimeType'>): DocumentKind | null => {
+  const name = file.name.toLowerCase();
+  if (file.mimeType === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.mimeType === DOCX_MIME || name.endsWith('.docx')) return 'docx';
+  if (file.mimeType === PPTX_MIME || name.endsWith('.pptx')) return 'pptx';
+  return null;
+};
+
+export const isExtractableDocument = (file: Pick<UploadedFile, 'name' | 'mimeType'>): boolean => getDocumentKind(file) !== null;
+
+/* -------------------------------------------------------------------------- */
+/*                                    PDF                                     */
+/* -------------------------------------------------------------------------- */
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+const extractPdf = async (data: ArrayBuffer): Promise<string> => {
+  const pdfjsLib = await loadPdfJs();
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(data) }).promise;
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+
+    // Text items come in drawing order; items sharing a baseline form a line
+    const lines: { y: number; height: number; text: string }[] = [];
+    content.items.forEach((item: any) => {
+      if (typeof item.str !== 'string') return;
+      const y = Math.round(item.transform[5]);
+      const last = lines[lines.length - 1];
+      if (last && Math.abs(last.y - y) <= 2) {
+        last.text += item.str;
+        last.height = Math.max(last.height, item.height || 0);
+      } else {
+        lines.push({ y, height: item.height || 0, text: item.str });
+      }
+    });
+
+    const bodyHeight = median(lines.filter(l => l.text.trim()).map(l => l.height));
+    const text = lines
+      .map(l => l.text.replace(/\s+/g, ' ').trim())
+      .map((line, i) => line && bodyHeight && lines[i].height >= bodyHeight * HEADING_SCALE && line.length <= MAX_HEADING_LENGTH ? `### ${line}` : line)
+      .filter(Boolean)
+      .join('\n');
+    if (text) pages.push(`[Page ${pageNumber}]\n${text}`);
+    page.cleanup();
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              DOCX / PPTX (OOXML)                           */
+/* -------------------------------------------------------------------------- */
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Descendants of a Word paragraph in document order, minus text boxes anchored in its runs
+const docxParagraphNodes = (paragraph: Element): Element[] => Array.from(paragraph.children).flatMap(child =>
+  child.tagName === 'w:txbxContent' ? [] : [child, ...docxParagraphNodes(child)]
+);
+
+// Text of a Word paragraph: runs, tabs and line breaks in document order
+const docxParagraphText = (nodes: Element[]): string => {
+  let text = '';
+  nodes.forEach(node => {
+    if (node.tagName === 'w:t') text += node.textContent || '';
+    else if (node.tagName === 'w:tab') text += '\t';
+    else if (node.tagName === 'w:br' && node.getAttribute('w:type') !== 'page') text += '\n';
+  });
+  return text.trim();
+};
+
+// Paragraphs of the body (or a table cell) in reading order: direct paragraphs, table cells and content controls
+const docxBlockParagraphs = (container: Element): Element[] => Array.from(container.children).flatMap(child => {
+  if (child.tagName === 'w:p') return [child];
+  if (['w:tbl', 'w:tr', 'w:tc', 'w:sdt', 'w:sdtContent'].includes(child.tagName)) return docxBlockParagraphs(child);
+  return [];
+});
+
+/**
+ * Word files don't store page numbers; pages are counted from the page breaks
+ * Word recorded when the file was last saved, so references are approximate.
+ */
+const extractDocx = async (data: ArrayBuffer): Promise<string> => {
+  const JSZip = await loadJsZip();
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = zip.file('word/document.xml');
+  if (!documentXml) throw new Error("Not a Word document (word/document.xml missing).");
+  const doc = parseXml(await documentXml.async('string'));
+  const body = doc.getElementsByTagName('w:body')[0];
+  if (!body) throw new Error("Word document has no body.");
+
+  let page = 1;
+  const blocks: string[] = ['[Page 1]'];
+  docxBlockParagraphs(body).forEach(paragraph => {
+    const nodes = docxParagraphNodes(paragraph);
+    // Word often records both a rendered break and the explicit page break it caused, so a paragraph starts at most one page
+    if (nodes.some(node => node.tagName === 'w:lastRenderedPageBreak' || (node.tagName === 'w:br' && node.getAttribute('w:type') === 'page'))) {
+      page++;
+      blocks.push(`[Page ${page}]`);
+    }
+
+    const text = docxParagraphText(nodes);
+    if (!text) return;
+    const style = nodes.find(node => node.tagName === 'w:pStyle')?.getAttribute('w:val') || '';
+    // Title -> "#", Heading1 -> "##", ... so headings nest under the document title
+    const depth = /^title$/i.test(style) ? 1 : Number(style.match(/heading\s*(\d)/i)?.[1] || -1) + 1;
+    blocks.push(depth > 0 ? `${'#'.repeat(Math.min(depth, 6))} ${text}` : text);
+  });
+  return blocks.filter((block, i) => !(block.startsWith('[Page') && blocks[i + 1]?.startsWith('[Page'))).join('\n');
+};
+
+const slideNumber = (path: string): number => Number(path.match(/slide(\d+)\.xml$/)?.[1] || 0);
+
+// Slide files are numbered in creation order, which matches the deck order for almost every export
+const extractPptx = async (data: ArrayBuffer): Promise<string> => {
+  const JSZip = await loadJsZip();
+  const zip = await JSZip.loadAsync(data);
+  const slidePaths = Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+  if (slidePaths.length === 0) throw new Error("No slides found in presentation.");
+
+  const slides: string[] = [];
+  for (const path of slidePaths) {
+    const doc = parseXml(await zip.file(path).async('string'));
+    let title = '';
+    const body: string[] = [];
+    Array.from(doc.getElementsByTagName('p:sp')).forEach(shape => {
+      const placeholder = shape.getElementsByTagName('p:ph')[0]?.getAttribute('type') || '';
+      const paragraphs = Array.from(shape.getElementsByTagName('a:p'))
+        .map(p => Array.from(p.getElementsByTagName('a:t')).map(t => t.textContent || '').join('').trim())
+        .filter(Boolean);
+      if (!title && /^(title|ctrTitle)$/.test(placeholder)) title = paragraphs.join(' ');
+      else body.push(...paragraphs.map(p => `- ${p}`));
+    });
+    const n = slideNumber(path);
+    slides.push([`## Slide ${n}${title ? `: ${title}` : ''}`, ...body].join('\n'));
+  }
+  return slides.join('\n\n');
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 PUBLIC API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Markdown-ish text of a PDF, DOCX or PPTX with page/slide markers; throws for other types. */
+export const extractDocumentText = async (file: Pick<UploadedFile, 'name' | 'mimeType'>, data: ArrayBuffer): Promise<string> => {
+  const kind = getDocumentKind(file);
+  try {
+    if (kind === 'pdf') return await extractPdf(data);
+    if (kind === 'docx') return await extractDocx(data);
+    if (kind === 'pptx') return await extractPptx(data);
+  } catch (e: any) {
+    throw new Error(`Text extraction failed for ${file.name}: ` + e.message);
+  }
+  throw new Error(`Text extraction is not supported for ${file.name}.`);
+};
+
+const readAsBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const result = reader.result as string;
+    resolve(result.includes(',') ? result.split(',')[1] : result);
+  };
+  reader.onerror = reject;
+  reader.readAsDataURL(file);
+});
+
+// Browsers report an empty or odd type for notes and Office files
+const resolveMimeType = (file: File): string => {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (ext === 'md' || ext === 'txt') return 'text/plain';
+  if (file.type) return file.type;
+  if (ext === 'ppt') return 'application/vnd.ms-powerpoint';
+  if (ext === 'pptx') return PPTX_MIME;
+  if (ext === 'docx') return DOCX_MIME;
+  return 'application/octet-stream';
+};
+
+/**
+ * Browser File -> UploadedFile. Documents also get `extractedText` so they can
+ * go to text-only models; a failed extraction leaves it empty, which
+ * `findUnreadableAttachments` reports for models that can't read the file natively.
+ */
+export const readUploadedFile = async (
+  file: File,
+  options: { isTokenized?: boolean; onExtracting?: () => void } = {}
+): Promise<UploadedFile> => {
+  const uploaded: UploadedFile = { name: file.name, mimeType: resolveMimeType(file), data: await readAsBase64(file) };
+  if (options.isTokenized !== undefined) uploaded.isTokenized = options.isTokenized;
+  if (isExtractableDocument(uploaded)) {
+    options.onExtracting?.();
+    try {
+      uploaded.extractedText = await extractDocumentText(uploaded, await file.arrayBuffer());
+    } catch (e) {
+      uploaded.extractedText = '';
+    }
+  }
+  return uploaded;
+};
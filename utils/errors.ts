@@ -0,0 +1,22 @@
+/* 
+  PROVIDER ERROR CLASSIFICATION
+  Adapters wrap SDK/HTTP errors into plain messages ("Quota Exceeded (429)",
+  "Groq API Error: Service Unavailable", "[503 UNAVAILABLE] ..."), sometimes
+  keeping a numeric `status`. Transient errors are worth retrying elsewhere;
+  everything else (bad key, unknown model, empty reply) would fail again.
+*/
+
+const TRANSIENT_STATUS = [408, 429, 500, 502, 503, 504];
+
+// Status codes only count in message text when written as a status ("HTTP 503", "Error 503:", "(429)",
+// "[503 UNAVAILABLE]", "status: 502"); a bare number could be a token limit or part of a model name
+const TRANSIENT_STATUS_TEXT = /\bHTTP(?:\/[\d.]+)?\s+(408|429|50[0234])\b|\b(?:error|status(?: code)?):?\s+(408|429|50[0234])\b|\((408|429|50[0234])\)|\[(408|429|50[0234])\b/i;
+
+const TRANSIENT_PATTERN = /RESOURCE_EXHAUSTED|UNAVAILABLE|quota|rate limit|overloaded|too many requests|internal server error|bad gateway|service unavailable|gateway timeout|cannot reach|failed to fetch|network ?error|timed? ?out/i;
+
+export const isTransientError = (error: any): boolean => {
+  const status = Number(error?.status ?? error?.code);
+  if (TRANSIENT_STATUS.includes(status)) return true;
+  const message = String(error?.message || error || '');
+  return TRANSIENT_STATUS_TEXT.test(message) || TRANSIENT_PATTERN.test(message);
+};
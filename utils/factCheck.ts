@@ -0,0 +1,58 @@
+import { FactCheckFinding, FactCheckSeverity } from '../types';
+
+/*
+  FACT-CHECK HELPERS
+  The reviewer model returns `{ findings: [{ claim, location, quote, severity,
+  issue, suggestedFix }] }`. Findings without a claim or quote can't be shown
+  or applied, so they are dropped rather than failing the whole review.
+*/
+
+const SEVERITIES: FactCheckSeverity[] = ['low', 'medium', 'high'];
+
+const asText = (value: any): string => (typeof value === 'string' ? value.trim() : '');
+
+const normalizeSeverity = (value: any): FactCheckSeverity => {
+  const severity = asText(value).toLowerCase();
+  if (SEVERITIES.includes(severity as FactCheckSeverity)) return severity as FactCheckSeverity;
+  if (/critical|severe|major/.test(severity)) return 'high';
+  if (/minor|info/.test(severity)) return 'low';
+  return 'medium';
+};
+
+export const parseFactCheckResponse = (text: string): FactCheckFinding[] => {
+  const cleanJson = (text || '').replace(/```json/g, '').replace(/```/g, '').trim();
+  const start = cleanJson.search(/[\[{]/);
+
+  let data: any;
+  try {
+    data = JSON.parse(start > 0 ? cleanJson.slice(start) : cleanJson);
+  } catch (e) {
+    throw new Error("Fact-check response was not valid JSON.");
+  }
+
+  const raw: any[] = Array.isArray(data) ? data : Array.isArray(data?.findings) ? data.findings : [];
+  const stamp = Date.now();
+  return raw
+    .filter(f => asText(f?.claim) && asText(f?.quote))
+    .map((f, i) => ({
+      id: `fc-${stamp}-${i}`,
+      claim: asText(f.claim),
+      location: asText(f.location),
+      quote: asText(f.quote),
+      severity: normalizeSeverity(f.severity),
+      issue: asText(f.issue),
+      suggestedFix: asText(f.suggestedFix),
+      status: 'open' as const
+    }));
+};
+
+/** "## 2. **Pathophysiology**" and "pathophysiology" compare equal. */
+export const normalizeHeading = (heading: string): string =>
+  heading.replace(/^#+\s*/, '').replace(/[*_`]/g, '').replace(/^[\dIVXivx]+[.)]\s+/, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim().toLowerCase();
+
+/** Content with the finding's quote replaced by its fix, or null if the quote is no longer in the note. */
+export const applyFactCheckFix = (content: string, finding: FactCheckFinding): string | null => {
+  const index = content.indexOf(finding.quote);
+  if (index === -1 || !finding.suggestedFix) return null;
+  return content.slice(0, index) + finding.suggestedFix + content.slice(index + finding.quote.length);
+};
@@ -1,11 +1,17 @@
 
+import { FormatterRuleId, FormatterRuleInfo, FormatterRuleReport, FormatterRuleSettings, FormatterResult } from '../types';
+
 /**
  * DETERMINISTIC FORMATTER
  * 
  * A pure logic-based processor to sanitize AI output without relying on self-correction.
  * Focuses heavily on fixing broken Mermaid.js syntax and Obsidian-style callouts.
+ * Each fix is a registered rule that can be switched off (`config.formatterRules`),
+ * and every run reports what each rule changed.
  */
 
+type RecordChange = (before: string, after: string) => void;
+
 /* --- 1. MERMAID SYNTAX REPAIR --- */
 
 const fixMermaidArrows = (line: string): string => {
@@ -75,8 +81,8 @@ const sanitizeNodeLabels = (line: string): string => {
 };
 
 /* --- MINDMAP SPECIFIC HANDLER --- */
-const fixMindmap = (content: string): string => {
-  const lines = content.split('\n');
+const fixMindmap = (code: string): string => {
+  const lines = code.split('\n');
   const validLines = lines.filter(l => l.trim().length > 0 && !l.trim().startsWith('%%') && !l.trim().startsWith('```'));
   
   let bodyLines = validLines;
@@ -84,7 +90,7 @@ const fixMindmap = (content: string): string => {
     bodyLines = validLines.slice(1);
   }
 
-  if (bodyLines.length === 0) return "```mermaid\nmindmap\n  root((Empty))\n```";
+  if (bodyLines.length === 0) return "mindmap\n  root((Empty))";
 
   // Check for Multiple Roots Violation
   const firstLineMatch = bodyLines[0].match(/^(\s*)/);
@@ -107,48 +113,35 @@ const fixMindmap = (content: string): string => {
     processedLines = bodyLines;
   }
 
-  return "```mermaid\n" + header + "\n" + processedLines.join('\n') + "\n```";
+  return header + "\n" + processedLines.join('\n');
 };
 
-const fixMermaidBlock = (codeBlock: string): string => {
-  const firstLine = codeBlock.trim().split('\n')[0].trim();
-  
-  if (firstLine.includes('mindmap')) {
-    return fixMindmap(codeBlock);
-  }
-
-  if (firstLine.includes('sequenceDiagram') || firstLine.includes('timeline') || firstLine.includes('quadrantChart') || firstLine.includes('classDiagram')) {
-    return "```mermaid\n" + codeBlock.trim() + "\n```";
-  }
-
-  // STANDARD FLOWCHART / GRAPH HANDLER
-  const lines = codeBlock.split('\n');
-  const fixedLines: string[] = [];
-
-  for (let line of lines) {
-    let trimmed = line.trim();
+/* --- FLOWCHART / GRAPH LINE FIXES --- */
 
-    if (!trimmed || trimmed.startsWith('%%')) {
-      fixedLines.push(line);
-      continue;
-    }
+// Diagram types whose syntax the flowchart fixers would break
+const PASSTHROUGH_DIAGRAMS = ['sequenceDiagram', 'timeline', 'quadrantChart', 'classDiagram'];
 
-    // Remove hallucinations (List numbers at start)
-    trimmed = trimmed.replace(/^[\d\.\-\*\+]+(?=\s*[a-zA-Z])/, '').trim();
+const firstLineOf = (code: string): string => code.trim().split('\n')[0].trim();
+const isMindmap = (code: string): boolean => firstLineOf(code).includes('mindmap');
+const isFlowchartLike = (code: string): boolean => {
+  const firstLine = firstLineOf(code);
+  return !firstLine.includes('mindmap') && !PASSTHROUGH_DIAGRAMS.some(type => firstLine.includes(type));
+};
 
-    // Fix merged headers
-    trimmed = trimmed.replace(/^(graph|flowchart)\s+(TD|LR|TB|BT)([a-zA-Z0-9])/, '$1 $2\n$3');
+// Applies `fix` to every line except blanks and %% comments
+const mapDiagramLines = (code: string, fix: (line: string) => string): string =>
+  code.split('\n').map(line => (!line.trim() || line.trim().startsWith('%%') ? line : fix(line))).join('\n');
 
-    // Fix Arrows
-    trimmed = fixMermaidArrows(trimmed);
+const tidyFlowchartLine = (line: string): string => {
+  let trimmed = line.trim();
 
-    // Sanitize Labels (The Critical Fix)
-    trimmed = sanitizeNodeLabels(trimmed);
+  // Remove hallucinations (List numbers at start)
+  trimmed = trimmed.replace(/^[\d\.\-\*\+]+(?=\s*[a-zA-Z])/, '').trim();
 
-    fixedLines.push(trimmed);
-  }
+  // Fix merged headers
+  trimmed = trimmed.replace(/^(graph|flowchart)\s+(TD|LR|TB|BT)([a-zA-Z0-9])/, '$1 $2\n$3');
 
-  return "```mermaid\n" + fixedLines.join('\n') + "\n```";
+  return trimmed;
 };
 
 /* --- 2. OBSIDIAN TAG CONVERTER --- */
@@ -158,20 +151,20 @@ const cleanAndQuoteContent = (content: string): string => {
   return lines.map(line => line.trim() === "" ? ">" : `> ${line}`).join('\n');
 };
 
-const convertTagsToObsidian = (text: string): string => {
-  const tagMap: Record<string, { type: string; icon: string }> = {
-    'DEEP': { type: 'note', icon: '👁️' },
-    'CLINIC': { type: 'tip', icon: '💊' },
-    'ALERT': { type: 'warning', icon: '⚠️' },
-    'INFO': { type: 'info', icon: 'ℹ️' },
-    'TABLE': { type: 'example', icon: '📊' },
-    'QUESTION': { type: 'question', icon: '❓' },
-    'QUOTE': { type: 'quote', icon: '💬' }
-  };
+const CALLOUT_TAGS: Record<string, { type: string; icon: string }> = {
+  'DEEP': { type: 'note', icon: '👁️' },
+  'CLINIC': { type: 'tip', icon: '💊' },
+  'ALERT': { type: 'warning', icon: '⚠️' },
+  'INFO': { type: 'info', icon: 'ℹ️' },
+  'TABLE': { type: 'example', icon: '📊' },
+  'QUESTION': { type: 'question', icon: '❓' },
+  'QUOTE': { type: 'quote', icon: '💬' }
+};
 
-  let processedText = text.replace(/<<<CLICNIC_END>>>/g, '<<<CLINIC_END>>>');
+const convertTagsToObsidian = (text: string, record: RecordChange): string => {
+  let processedText = text.replace(/<<<CLICNIC_END>>>/g, match => { record(match, '<<<CLINIC_END>>>'); return '<<<CLINIC_END>>>'; });
 
-  for (const [tagName, config] of Object.entries(tagMap)) {
+  for (const [tagName, config] of Object.entries(CALLOUT_TAGS)) {
     const pattern = new RegExp(`<<<${tagName}_START>>>([\\s\\S]*?)<<<${tagName}_END>>>`, 'g');
     
     processedText = processedText.replace(pattern, (match, content) => {
@@ -185,21 +178,128 @@ const convertTagsToObsidian = (text: string): string => {
       }
 
       const formattedBody = cleanAndQuoteContent(cleanContent);
-      return `> [!${config.type}]- ${config.icon} **${title}**\n${formattedBody}`;
+      const callout = `> [!${config.type}]- ${config.icon} **${title}**\n${formattedBody}`;
+      record(match, callout);
+      return callout;
     });
   }
 
   return processedText;
 };
 
-/* --- MAIN PROCESSOR --- */
+/* --- 3. RULE REGISTRY --- */
+
+interface MermaidFixer extends FormatterRuleInfo {
+  appliesTo: (code: string) => boolean;
+  fix: (code: string) => string; // Diagram code in and out, no fences
+}
+
+interface FormatterRule extends FormatterRuleInfo {
+  apply: (text: string, record: RecordChange) => string;
+}
+
+// Order matters: lines are tidied (and merged headers split) before arrows and labels are fixed
+const MERMAID_FIXERS: MermaidFixer[] = [
+  {
+    id: 'mermaid.mindmap',
+    label: 'Mindmap roots',
+    description: 'Drops blank and comment lines in mindmaps and wraps multiple top-level nodes under one "Overview" root.',
+    appliesTo: isMindmap,
+    fix: fixMindmap
+  },
+  {
+    id: 'mermaid.lines',
+    label: 'Flowchart lines',
+    description: 'Trims flowchart lines, strips list numbers the model put in front of them and splits headers merged into the first node ("graph TDA[...]").',
+    appliesTo: isFlowchartLike,
+    fix: code => mapDiagramLines(code, tidyFlowchartLine)
+  },
+  {
+    id: 'mermaid.arrows',
+    label: 'Flowchart arrows',
+    description: 'Rejoins arrows split by spaces, e.g. "- ->" becomes "-->", "- . ->" becomes "-.->".',
+    appliesTo: isFlowchartLike,
+    fix: code => mapDiagramLines(code, fixMermaidArrows)
+  },
+  {
+    id: 'mermaid.labels',
+    label: 'Quote node labels',
+    description: 'Wraps flowchart node labels in double quotes so parentheses and punctuation don\'t break the parser.',
+    appliesTo: isFlowchartLike,
+    fix: code => mapDiagramLines(code, sanitizeNodeLabels)
+  }
+];
+
+export const MERMAID_BLOCK = /```mermaid([\s\S]*?)```/g;
+
+// Runs a fixer over each Mermaid block; untouched blocks keep their original text and fences
+const mermaidRule = (fixer: MermaidFixer): FormatterRule => ({
+  id: fixer.id,
+  label: fixer.label,
+  description: fixer.description,
+  apply: (text, record) => text.replace(MERMAID_BLOCK, (match, code: string) => {
+    const before = code.trim();
+    if (!fixer.appliesTo(before)) return match;
+    const after = fixer.fix(before).trim();
+    if (after === before) return match;
+    record(before, after);
+    return "```mermaid\n" + after + "\n```";
+  })
+});
+
+const FORMATTER_RULES: FormatterRule[] = [
+  ...MERMAID_FIXERS.map(mermaidRule),
+  {
+    id: 'markdown.rules',
+    label: 'Horizontal rules',
+    description: 'Shortens runs of four or more dashes to "---". Also touches dashes inside tables and diagrams.',
+    apply: (text, record) => text.replace(/-{4,}/g, match => { record(match, '---'); return '---'; })
+  },
+  {
+    id: 'callouts.obsidian',
+    label: 'Callout tags',
+    description: 'Turns <<<DEEP_START>>>...<<<DEEP_END>>> style tags into collapsible Obsidian callouts.',
+    apply: convertTagsToObsidian
+  }
+];
+
+export const isFormatterRuleEnabled = (settings: FormatterRuleSettings | undefined, id: FormatterRuleId): boolean => settings?.[id] !== false;
+
+export const listFormatterRules = (): FormatterRuleInfo[] =>
+  FORMATTER_RULES.map(({ id, label, description }) => ({ id, label, description }));
+
+/* --- MERMAID VALIDATION HELPERS --- */
 
-export const processGeneratedNote = (rawText: string): string => {
-  const mermaidBlockRegex = /```mermaid([\s\S]*?)```/g;
-  let processed = rawText.replace(mermaidBlockRegex, (match, code) => fixMermaidBlock(code));
+export const stripMermaidFences = (text: string): string =>
+  text.trim().replace(/^```(?:mermaid)?[^\n]*\n?/, '').replace(/\n?```$/, '').trim();
 
-  processed = processed.replace(/-{4,}/g, '---');
-  processed = convertTagsToObsidian(processed);
+// Enabled fixers over a single diagram (code in, code out), for blocks the parser still rejects
+export const repairMermaidSyntax = (code: string, settings?: FormatterRuleSettings): string =>
+  MERMAID_FIXERS
+    .filter(fixer => isFormatterRuleEnabled(settings, fixer.id))
+    .reduce((current, fixer) => (fixer.appliesTo(current) ? fixer.fix(current).trim() : current), stripMermaidFences(code));
 
-  return processed;
+// Last resort for unrepairable diagrams: plain code under a warning, so nothing is lost and nothing half-renders
+export const downgradeMermaidBlock = (code: string, error: string): string => {
+  // Parser errors are "Parse error on line N:", an excerpt with a caret, then "Expecting ..."; the excerpt is noise here
+  const lines = error.split('\n').map(l => l.trim()).filter(Boolean);
+  const reason = (lines.length > 1 ? `${lines[0]} ${lines[lines.length - 1]}` : lines[0] || 'Unknown parser error').slice(0, 300);
+  return `> [!warning] ⚠️ **Invalid Mermaid diagram**\n> ${reason}\n> Fix the code below and change \`text\` to \`mermaid\` to render it.\n\n\`\`\`text\n${code.trim()}\n\`\`\``;
 };
+
+/* --- MAIN PROCESSOR --- */
+
+/** Runs every enabled rule in order; the report lists all rules, disabled ones with no changes. */
+export const runFormatter = (rawText: string, settings?: FormatterRuleSettings): FormatterResult => {
+  let content = rawText;
+  const report: FormatterRuleReport[] = FORMATTER_RULES.map(({ id, label, description, apply }) => {
+    const enabled = isFormatterRuleEnabled(settings, id);
+    const changes: FormatterRuleReport['changes'] = [];
+    if (enabled) content = apply(content, (before, after) => changes.push({ before, after }));
+    return { id, label, description, enabled, changes };
+  });
+  return { content, report };
+};
+
+export const processGeneratedNote = (rawText: string, settings?: FormatterRuleSettings): string =>
+  runFormatter(rawText, settings).content;
@@ -0,0 +1,138 @@
+import { LintIssue, LintRuleId } from '../types';
+
+/*
+  MARKDOWN LINT
+  Structural problems that break rendering or navigation of a note: code
+  fences left open, raw-body callouts (`> [!type]` ... `<`) missing their `<`
+  terminator, skipped heading levels, empty sections and duplicate headings
+  (the TOC resolves anchors by text + level, so a repeat never gets its own).
+  Fixes are line edits computed against the linted content.
+*/
+
+const FENCE = /^\s*(`{3,}|~{3,})(.*)$/;
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CALLOUT_HEADER = /^> \[![\w]+\]/; // Same opener preprocessMarkdown looks for
+const CALLOUT_END = /^<$/;
+const TOC_DEPTH = 3; // Deepest heading level listed in the TOC
+
+interface ParsedLine {
+  text: string;
+  inFence: boolean; // Inside a code fence, or the fence line itself
+  heading?: { level: number; text: string };
+}
+
+const parseLines = (lines: string[]): { parsed: ParsedLine[]; openFence: { line: number; marker: string } | null } => {
+  let openFence: { line: number; marker: string } | null = null;
+  const parsed = lines.map((text, i) => {
+    const fence = text.match(FENCE);
+    if (openFence) {
+      // A fence closes with the same character, at least as long, and no info string
+      if (fence && fence[1][0] === openFence.marker[0] && fence[1].length >= openFence.marker.length && !fence[2].trim()) openFence = null;
+      return { text, inFence: true };
+    }
+    if (fence) {
+      openFence = { line: i, marker: fence[1] };
+      return { text, inFence: true };
+    }
+    const heading = text.match(HEADING);
+    return { text, inFence: false, heading: heading ? { level: heading[1].length, text: heading[2] } : undefined };
+  });
+  return { parsed, openFence };
+};
+
+const replaceLine = (index: number, replacement: string[]) => (content: string): string => {
+  const lines = content.split('\n');
+  lines.splice(index, 1, ...replacement);
+  return lines.join('\n');
+};
+
+const insertLine = (index: number, text: string) => (content: string): string => {
+  const lines = content.split('\n');
+  lines.splice(index, 0, text);
+  return lines.join('\n');
+};
+
+const issue = (rule: LintRuleId, index: number, severity: LintIssue['severity'], message: string, fix?: LintIssue['fix']): LintIssue => ({
+  id: `${rule}-${index + 1}`,
+  rule,
+  line: index + 1,
+  severity,
+  message,
+  fix
+});
+
+export const lintMarkdown = (content: string): LintIssue[] => {
+  const lines = content.split('\n');
+  const { parsed, openFence } = parseLines(lines);
+  const issues: LintIssue[] = [];
+
+  // 1. Unbalanced code fences: everything after the opener renders as code
+  if (openFence) {
+    const closing = openFence.marker[0].repeat(openFence.marker.length);
+    issues.push(issue('fence.unbalanced', openFence.line, 'error', `Code fence ${openFence.marker} is never closed; the rest of the note renders as code.`, {
+      label: 'Close at end',
+      apply: text => `${text.replace(/\n*$/, '')}\n${closing}\n`
+    }));
+  }
+
+  // 2. Raw-body callouts without "<": preprocessMarkdown would swallow text up to the next "<" anywhere
+  parsed.forEach((line, i) => {
+    if (line.inFence || !CALLOUT_HEADER.test(line.text)) return;
+    let j = i + 1;
+    while (j < parsed.length && !parsed[j].text.trim()) j++;
+    if (j >= parsed.length || parsed[j].text.startsWith('>') || CALLOUT_END.test(parsed[j].text)) return; // Quoted body or empty callout
+
+    let end = j;
+    while (end < parsed.length && !CALLOUT_END.test(parsed[end].text) && !parsed[end].heading && !(end > j && CALLOUT_HEADER.test(parsed[end].text))) end++;
+    if (end < parsed.length && CALLOUT_END.test(parsed[end].text)) return;
+
+    let insertAt = end;
+    while (insertAt > j && !parsed[insertAt - 1].text.trim()) insertAt--; // Keep blank lines after the terminator
+    issues.push(issue('callout.unclosed', i, 'error', 'Callout is never closed with "<" on its own line.', {
+      label: `Close before line ${insertAt + 1}`,
+      apply: insertLine(insertAt, '<')
+    }));
+  });
+
+  // 3-5. Heading structure
+  const headings = parsed.map((line, i) => ({ ...line, index: i })).filter(line => line.heading);
+  const seen = new Map<string, number>();
+  headings.forEach((h, n) => {
+    const { level, text } = h.heading!;
+    const prev = headings[n - 1]?.heading;
+
+    if (prev && level > prev.level + 1) {
+      const fixed = prev.level + 1;
+      issues.push(issue('heading.skipped-level', h.index, 'warning', `Heading jumps from H${prev.level} to H${level}.`, {
+        label: `Make H${fixed}`,
+        apply: replaceLine(h.index, [`${'#'.repeat(fixed)} ${text}`])
+      }));
+    }
+
+    // Empty: the next non-blank line is a heading at the same or a higher level (or the note ends)
+    let next = h.index + 1;
+    while (next < parsed.length && !parsed[next].text.trim()) next++;
+    const nextHeading = parsed[next]?.heading;
+    if (next >= parsed.length || (nextHeading && nextHeading.level <= level)) {
+      issues.push(issue('heading.empty-section', h.index, 'warning', `Section "${text}" has no content.`, {
+        label: 'Remove heading',
+        apply: replaceLine(h.index, [])
+      }));
+    }
+
+    if (level <= TOC_DEPTH) {
+      const key = `${level}:${text}`;
+      const count = (seen.get(key) || 0) + 1;
+      seen.set(key, count);
+      if (count > 1) {
+        const renamed = `${text} (${count})`;
+        issues.push(issue('heading.duplicate', h.index, 'warning', `Duplicate heading "${text}"; its TOC link jumps to the first one.`, {
+          label: `Rename to "${renamed}"`,
+          apply: replaceLine(h.index, [`${'#'.repeat(level)} ${renamed}`])
+        }));
+      }
+    }
+  });
+
+  return issues.sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,192 @@
+import { ModelCapabilities, AttachmentSupport, UploadedFile } from '../types';
+import { estimateTokens } from './retrieval';
+import { isExtractableDocument } from './documentExtraction';
+
+/*
+  MODEL CAPABILITY CATALOG
+  Model ids come from enums, adapter defaults or live provider lists (Groq,
+  local servers), so capabilities are matched by id pattern: first match wins,
+  unknown ids (usually local models, whose window is a server setting) keep
+  the 8K output cap and skip fit checks. Numbers are what this app should ask
+  for, which is not always the provider's hard maximum (see Groq output caps).
+*/
+
+const K = 1024;
+
+const CATALOG: { match: RegExp; capabilities: ModelCapabilities }[] = [
+  { match: /gemini-.*image/i, capabilities: { contextWindow: 64 * K, maxOutputTokens: 32 * K, multimodal: true, jsonMode: true, streaming: true, retrievalBudget: 8000 } },
+  { match: /gemini-2\.0/i, capabilities: { contextWindow: 1024 * K, maxOutputTokens: 8 * K, multimodal: true, jsonMode: true, streaming: true, retrievalBudget: 32000 } },
+  { match: /gemini|deep-research/i, capabilities: { contextWindow: 1024 * K, maxOutputTokens: 64 * K, multimodal: true, jsonMode: true, streaming: true, retrievalBudget: 32000 } },
+  // Groq counts max_tokens against per-minute limits up front, so outputs stay at 8K.
+  // Llama 4 can see images, but the Groq adapter only sends text, so it is treated as text-only.
+  { match: /llama-4|scout|maverick/i, capabilities: { contextWindow: 128 * K, maxOutputTokens: 8 * K, multimodal: false, jsonMode: true, streaming: true, retrievalBudget: 8000 } },
+  { match: /llama-3\.[13]-70b|gpt-oss|qwen|kimi/i, capabilities: { contextWindow: 128 * K, maxOutputTokens: 8 * K, multimodal: false, jsonMode: true, streaming: true, retrievalBudget: 8000 } },
+  { match: /llama-3\.1-8b/i, capabilities: { contextWindow: 128 * K, maxOutputTokens: 8 * K, multimodal: false, jsonMode: true, streaming: true, retrievalBudget: 4000 } },
+  { match: /mixtral/i, capabilities: { contextWindow: 32 * K, maxOutputTokens: 8 * K, multimodal: false, jsonMode: true, streaming: true, retrievalBudget: 4000 } },
+  // Groq ids only: local tags like "gemma2:9b" or "llama3.2" are unknown models, not these small-window entries
+  { match: /^gemma\d*-\d+b/i, capabilities: { contextWindow: 8 * K, maxOutputTokens: 4 * K, multimodal: false, jsonMode: true, streaming: true, retrievalBudget: 4000 } },
+  { match: /^llama(3-|-guard)/i, capabilities: { contextWindow: 8 * K, maxOutputTokens: 4 * K, multimodal: false, jsonMode: false, streaming: true, retrievalBudget: 4000 } },
+  // Mock reads text only, so the block/convert paths can be exercised offline
+  { match: /^mock-/i, capabilities: { contextWindow: 32 * K, maxOutputTokens: 8 * K, multimodal: false, jsonMode: true, streaming: true, retrievalBudget: 2000 } }
+];
+
+// Unknown (usually local) models: the window is nominal (never used to shrink output or warn), no vision, no JSON mode
+const DEFAULT_CAPABILITIES: ModelCapabilities = { contextWindow: 8 * K, maxOutputTokens: 8 * K, multimodal: false, jsonMode: false, streaming: true, retrievalBudget: 6000 };
+
+const MIN_OUTPUT_TOKENS = 1024;
+const IMAGE_TOKENS = 258; // Gemini bills images and PDF pages at a flat rate
+const PDF_BYTES_PER_PAGE = 50000; // Rough, only used to estimate page count
+
+export const getModelCapabilities = (model: string): ModelCapabilities =>
+  CATALOG.find(entry => entry.match.test(model || ''))?.capabilities || DEFAULT_CAPABILITIES;
+
+const isKnownModel = (model: string): boolean => CATALOG.some(entry => entry.match.test(model || ''));
+
+// Context window share for retrieved library material
+export const getContextBudget = (model: string): number => getModelCapabilities(model).retrievalBudget;
+
+/** Output cap for a request: the model default, shrunk so input + output fit the window (known models only). */
+export const resolveMaxOutputTokens = (model: string, inputTokens: number = 0): number => {
+  const { contextWindow, maxOutputTokens } = getModelCapabilities(model);
+  if (!isKnownModel(model)) return maxOutputTokens;
+  return Math.max(MIN_OUTPUT_TOKENS, Math.min(maxOutputTokens, contextWindow - inputTokens));
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                ATTACHMENTS                                 */
+/* -------------------------------------------------------------------------- */
+
+type AttachmentInfo = Pick<UploadedFile, 'name' | 'mimeType' | 'extractedText'>;
+
+export const isTextAttachment = (file: AttachmentInfo): boolean =>
+  file.mimeType.startsWith('text/') || file.mimeType.includes('json') || /\.(md|txt|json|csv)$/i.test(file.name);
+
+const isMediaAttachment = (file: AttachmentInfo): boolean =>
+  file.mimeType.startsWith('image/') || file.mimeType === 'application/pdf';
+
+/**
+ * PDF, DOCX and PPTX go as extracted text when the model can't take them as
+ * files. An empty `extractedText` means extraction found nothing (scanned PDF)
+ * or failed; files not read yet are assumed to extract.
+ */
+export const getAttachmentSupport = (model: string, file: AttachmentInfo): AttachmentSupport => {
+  const { multimodal } = getModelCapabilities(model);
+  if (isTextAttachment(file)) return multimodal ? 'native' : 'text';
+  if (isMediaAttachment(file) && multimodal) return 'native';
+  if (isExtractableDocument(file) && file.extractedText !== '') return 'text';
+  return 'unsupported';
+};
+
+/** Files the model can't read in any form, e.g. a scanned PDF for a text-only model. */
+export const findUnreadableAttachments = <T extends AttachmentInfo>(model: string, files: T[]): T[] =>
+  files.filter(file => getAttachmentSupport(model, file) === 'unsupported');
+
+export const decodeTextAttachment = (file: UploadedFile): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(file.data), c => c.charCodeAt(0)));
+
+const encodeTextAttachment = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000)); // Chunked to stay under the argument limit
+  }
+  return btoa(binary);
+};
+
+// Extracted document text wins over the raw bytes; non-text files without it have none
+const attachmentText = (file: UploadedFile): string => {
+  if (file.extractedText) return file.extractedText;
+  return isTextAttachment(file) ? decodeTextAttachment(file) : '';
+};
+
+/** Text-like uploads and extracted documents as one prompt block, for models that can't take files directly. */
+export const attachmentsAsText = (files: UploadedFile[]): string =>
+  (files || [])
+    .map(file => {
+      try {
+        const text = attachmentText(file);
+        return text ? `--- ${file.name} ---\n${text}` : '';
+      } catch (e) {
+        return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+/** Appends text-like uploads to a prompt (the "convert" path for text-only models). */
+export const withTextAttachments = (prompt: string, files: UploadedFile[]): string => {
+  const sources = attachmentsAsText(files);
+  return sources
+    ? `${prompt}\n\nSOURCE MATERIAL (uploaded files, treat as the primary reference; cite [Page N] and "Slide N" markers when using them, e.g. "(slide 12)"):\n${sources}`
+    : prompt;
+};
+
+/**
+ * Splits uploads for a model: files it reads natively stay files, text-like
+ * files and extracted documents for text-only models become named context
+ * blocks, the rest is dropped (callers block those before sending).
+ */
+export const prepareAttachments = (model: string, files: UploadedFile[]): { files: UploadedFile[]; textContexts: Record<string, string> } => {
+  const native: UploadedFile[] = [];
+  const textContexts: Record<string, string> = {};
+  files.forEach(file => {
+    const support = getAttachmentSupport(model, file);
+    if (support === 'native') native.push(file);
+    else if (support === 'text') {
+      try {
+        const text = attachmentText(file);
+        if (text) textContexts[file.name] = text;
+      } catch (e) { console.warn(`Could not decode ${file.name}`, e); }
+    }
+  });
+  return { files: native, textContexts };
+};
+
+/**
+ * Note generation takes a file list only, so documents the model can't read
+ * natively are swapped for plain-text files holding their extracted text.
+ */
+export const prepareNoteFiles = (model: string, files: UploadedFile[]): UploadedFile[] =>
+  files.flatMap(file => {
+    const support = getAttachmentSupport(model, file);
+    if (support === 'native' || (support === 'text' && isTextAttachment(file))) return [file];
+    if (support === 'text' && file.extractedText) {
+      return [{ name: file.name, mimeType: 'text/plain', data: encodeTextAttachment(file.extractedText), isTokenized: file.isTokenized }];
+    }
+    return [];
+  });
+
+export const estimateAttachmentTokens = (model: string, file: UploadedFile): number => {
+  const bytes = Math.floor((file.data?.length || 0) * 3 / 4);
+  if (isTextAttachment(file)) return Math.ceil(bytes / 4);
+  if (getAttachmentSupport(model, file) === 'text' && file.extractedText) return estimateTokens(file.extractedText);
+  if (file.mimeType.startsWith('image/')) return IMAGE_TOKENS;
+  if (file.mimeType === 'application/pdf') return Math.max(1, Math.round(bytes / PDF_BYTES_PER_PAGE)) * IMAGE_TOKENS;
+  return Math.ceil(bytes / 4);
+};
+
+/**
+ * Warning text when prompt + attachments + a minimal answer won't fit the
+ * model's window, else null. Estimates are rough, so callers warn rather than block.
+ */
+export const checkContextFit = (model: string, prompt: string, files: UploadedFile[] = []): string | null => {
+  if (!isKnownModel(model)) return null; // Window unknown, nothing to warn about
+  const { contextWindow } = getModelCapabilities(model);
+  const inputTokens = estimateTokens(prompt) + files.reduce((sum, f) => sum + estimateAttachmentTokens(model, f), 0);
+  if (inputTokens + MIN_OUTPUT_TOKENS <= contextWindow) return null;
+  return `About ${formatTokens(inputTokens)} tokens of input, but ${model} only has room for ${formatTokens(contextWindow)}. Remove attachments or context notes, or pick a larger model.`;
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${Math.round(tokens / K)}K` : String(tokens);
+
+/** One-line summary for model pickers, e.g. "1024K context · 64K output · images & PDF · JSON". */
+export const describeCapabilities = (model: string): string => {
+  const c = getModelCapabilities(model);
+  return [
+    isKnownModel(model) ? `${formatTokens(c.contextWindow)} context` : 'context set by server',
+    `${formatTokens(c.maxOutputTokens)} output`,
+    c.multimodal ? 'images & PDF' : 'text only',
+    c.jsonMode ? 'JSON' : ''
+  ].filter(Boolean).join(' · ');
+};
@@ -1,5 +1,5 @@
 
-import { NoteMode } from '../types';
+import { NoteMode, PromptTemplate, PromptTemplateId, OutputLanguage } from '../types';
 
 /* -------------------------------------------------------------------------- */
 /*                        CORE FORMATTING RULES (STRICT)                      */
@@ -24,11 +24,12 @@ The user will provide a "Structural Blueprint".
 ---
 
 ### 1. THE "FUNCTIONAL LOGIC" STYLE (MANDATORY)
-*   **Kill the Definition:** Never start with "X adalah...". Start with **WHY IT EXISTS**.
+*   **Kill the Definition:** Never start with {{definition_opener}}. Start with **WHY IT EXISTS**.
 *   **Use Aggressive Analogies:** Connect anatomy/concepts to real-world mechanics.
     *   *Bad:* "Plicae circulares are folds in the intestine."
-    *   *Good:* "**Plicae (Polisi Tidur):** Lipatan untuk memperlambat laju makanan agar sempat diserap."
-*   **Human Language:** Use logical connectors: "->", "Karena...", "Akibatnya...", "Supaya...".
+    *   *Good:* {{analogy_example}}
+    *   Analogies must feel native in {{language}}. Never translate wordplay or idioms literally from another language.
+*   **Human Language:** Use logical connectors: {{logic_connectors}}.
 
 ### 2. VISUALIZATION INTELLIGENCE (MERMAID)
 **DO NOT DEFAULT TO FLOWCHART.** You must select the diagram type that best fits the concept.
@@ -67,11 +68,11 @@ The user will provide a "Structural Blueprint".
     \`\`\`
 
 ### 3. FORMATTING RULES
-*   **Headers:** Use functional names. E.g., \`## 3. USUS HALUS (Mesin Penyerap)\` instead of \`## 3. Anatomi\`.
+*   **Headers:** Use functional names. E.g., {{header_example}} instead of a bare label like \`## 3. Anatomy\`.
 *   **The "So What?" Check:** If you list a fact, immediately explain its consequence in brackets or after an arrow.
 
 ### 4. LANGUAGE
-*   **Indonesian (Casual-Academic):** Serius tapi mengalir. "Gak", "Biar", "Supaya" allowed for flow. Medical terms must remain standard.
+*   **{{language}}:** {{language_style}}
 `;
 
 /* -------------------------------------------------------------------------- */
@@ -91,7 +92,7 @@ MODE: **EXAM HACKER (HIGH YIELD ONLY)**
 INSTRUCTIONS:
 1. Strip all filler words.
 2. Focus on "Buzzwords" used in exam questions.
-3. Use Mnemonics (Jembatan Keledai) for lists.
+3. Use {{mnemonic_style}} for lists.
 4. Use Tables to compare similar things (e.g., Crohn's vs Ulcerative Colitis).
 `;
 
@@ -113,55 +114,387 @@ OBJECTIVE: Follow user constraints strictly, but maintain the High-Density forma
 `;
 
 /* -------------------------------------------------------------------------- */
-/*                             FACTORY FUNCTION                               */
+/*                        NOTE & SECTION WRITERS                              */
 /* -------------------------------------------------------------------------- */
 
-export const getSystemModeInstruction = (mode: NoteMode) => {
-  let selectedModeInstruction = MODE_GENERAL;
-  
-  switch (mode) {
-    case NoteMode.CHEAT_CODES: selectedModeInstruction = MODE_CHEAT_CODES; break;
-    case NoteMode.COMPREHENSIVE: selectedModeInstruction = MODE_COMPREHENSIVE; break;
-    case NoteMode.CUSTOM: selectedModeInstruction = MODE_CUSTOM; break;
-    default: selectedModeInstruction = MODE_GENERAL;
-  }
-
-  return `
-${CORE_FORMATTING_RULES}
-
-${selectedModeInstruction}
-`;
-};
+const NOTE_STANDARD = `
+{{core_rules}}
 
-export const getStrictPrompt = (topic: string, structure: string, mode: NoteMode, customInstruction?: string) => {
-  const systemInstruction = getSystemModeInstruction(mode);
-  
-  return `
-${systemInstruction}
+{{mode_instruction}}
 
 ---
 
-**TARGET TOPIC:** ${topic}
+**TARGET TOPIC:** {{topic}}
 
 **ROUGH BLUEPRINT (SCOPE OF MATERIAL):**
 *Note: This is just a raw list of topics to cover. Do NOT copy this structure blindly. Reorganize it logically using the Functional Style.*
-${structure}
+{{structure}}
 
-${customInstruction ? `**USER SPECIAL REQUEST:**\n${customInstruction}\n` : ''}
+{{#custom_instruction}}**USER SPECIAL REQUEST:**
+{{custom_instruction}}
+{{/custom_instruction}}
 
 ---
 
 **EXECUTE TRANSFORMATION NOW.**
 `;
-};
+
+// System message for Groq
+const NOTE_SYSTEM = `You are an advanced medical academic AI.
+CRITICAL INSTRUCTIONS:
+1. Output strictly formatted markdown.
+2. DO NOT SUMMARIZE. Provide the most exhaustive, detailed explanation possible.
+3. IGNORE OUTPUT LENGTH LIMITS. Explain every concept fully.
+4. If a list has 20 items, list all 20. Do not truncate.
+5. **NO HTML TAGS:** Do NOT use <br>, <div>, <span>, or any HTML. Use standard Markdown for line breaks and formatting.
+6. **MERMAID SYNTAX RULES:**
+   - ARROWS: Use "-->" (no spaces). NEVER "- ->".
+   - HEADER: Always newline after "flowchart TD". NEVER "flowchart TDA[...]".
+   - NODES: Use A["Label"]. Do NOT repeat ID like A["Label"]A.
+`;
+
+// Same for OpenAI-compatible local servers, without the output-length override
+const NOTE_SYSTEM_LOCAL = `You are an advanced medical academic AI.
+CRITICAL INSTRUCTIONS:
+1. Output strictly formatted markdown.
+2. DO NOT SUMMARIZE. Provide the most exhaustive, detailed explanation possible.
+3. If a list has 20 items, list all 20. Do not truncate.
+4. **NO HTML TAGS:** Do NOT use <br>, <div>, <span>, or any HTML. Use standard Markdown for line breaks and formatting.
+5. **MERMAID SYNTAX RULES:**
+   - ARROWS: Use "-->" (no spaces). NEVER "- ->".
+   - HEADER: Always newline after "flowchart TD". NEVER "flowchart TDA[...]".
+   - NODES: Use A["Label"]. Do NOT repeat ID like A["Label"]A.
+`;
+
+// AGGRESSIVE ACADEMIC PROMPT (one COMPREHENSIVE section per call)
+const NOTE_SECTION = `
+CONTEXT: We are writing a Medical Textbook Chapter on "{{topic}}".
+
+CURRENT SECTION TO WRITE:
+"{{section_title}}"
+
+SUB-TOPICS TO COVER IN THIS SECTION:
+{{section_context}}
+
+***CRITICAL WRITING INSTRUCTIONS (STRICT)***:
+1. **LENGTH & DEPTH:** Do NOT summarize. This must be a "Deep Dive". Write at least 800-1200 words for this section alone if possible.
+2. **STRUCTURE:**
+   - Start with a functional definition (Analogy + Mechanism).
+   - Explain the PATHOPHYSIOLOGY in extreme detail (Molecular/Cellular level).
+   - Provide CLINICAL CORRELATIONS (Why does this matter?).
+   - Include a specific PHARMACOLOGY subsection if relevant (Mechanism of Action).
+3. **FORMATTING:**
+   - Use Bold for key terms.
+   - Use Tables for comparisons.
+   - Use ">>>" for clinical pearls.
+4. **NO HALLUCINATIONS:** If you don't know a specific detail, state general principles, but do not invent data.
+5. **LANGUAGE:** Write in {{language}}. {{language_style}} Analogies and mnemonics must be native to {{language}}.
+
+{{#custom_instruction}}USER SPECIAL INSTRUCTION: {{custom_instruction}}{{/custom_instruction}}
+
+OUTPUT THE CONTENT FOR THIS SECTION ONLY. DO NOT REPEAT THE MAIN TITLE.
+`;
 
 /* -------------------------------------------------------------------------- */
 /*                     UNIVERSAL STRUCTURE PROMPT                             */
 /* -------------------------------------------------------------------------- */
 
-export const UNIVERSAL_STRUCTURE_PROMPT = `
+const UNIVERSAL_STRUCTURE_PROMPT = `
 **ROLE:** Medical Architect.
-**GOAL:** List the *Critical Concepts* needed to understand ${'${topic}'}.
+**GOAL:** List the *Critical Concepts* needed to understand {{topic}}.
 **OUTPUT:** A simple list of topics. Do not write the full note yet.
 **FORMAT:** Markdown Headers.
+**LANGUAGE:** Write the headers in {{language}}.
+`;
+
+/* -------------------------------------------------------------------------- */
+/*                         SYLLABUS HIERARCHY PARSER                          */
+/* -------------------------------------------------------------------------- */
+const SYLLABUS_PROMPT = `
+**TASK:** Analyze the provided Syllabus content (Text/JSON/PDF).
+**GOAL:** Extract the learning path as a hierarchy: MODULES (blocks/units) -> TOPICS (one study note each) -> SUBTOPICS.
+**RULES:**
+1. Keep the syllabus order.
+2. Copy stated learning objectives verbatim into "objectives". Leave the array empty when none are stated.
+3. If the syllabus has no modules, return a single module titled after the course.
+4. Topics must be specific medical topics, not administrative items (schedules, grading, readings).
+**RETURN JSON ONLY**, exactly this shape:
+{"modules":[{"title":"Module 1: Cardiovascular","topics":[{"title":"Heart Failure","objectives":["Explain the pathophysiology of HFrEF"],"subtopics":["HFrEF vs HFpEF","Neurohormonal activation"]}]}]}
 `;
+
+/* -------------------------------------------------------------------------- */
+/*                        EDITING & ASSISTANT PROMPTS                         */
+/* -------------------------------------------------------------------------- */
+
+const EDIT_REFINE = `
+ROLE: Expert Medical Editor.
+TASK: Modify the following Medical Note based on the USER INSTRUCTION.
+
+USER INSTRUCTION: "{{instruction}}"
+
+RULES:
+1. Retain the original Markdown formatting (Headers, Mermaid charts, Callouts) unless specifically asked to change them.
+2. Do NOT output "Here is the revised note". Just output the Markdown.
+3. Ensure technical accuracy is maintained.
+4. Write in {{language}} unless the instruction asks for another language.
+{{#context}}5. Use the reference context below where it helps the instruction; do not paste it wholesale.
+{{context}}
+{{/context}}
+ORIGINAL CONTENT:
+"""
+{{content}}
+"""
+`;
+
+const EDIT_DEEPEN = `
+ROLE: Expert Medical Editor & Professor.
+TASK: DEEPEN and ENRICH the existing Medical Note using the provided context materials.
+
+USER INSTRUCTION: "{{instruction}}"
+
+RULES FOR DEEPENING:
+1. DO NOT DELETE OR SUMMARIZE existing information. Your job is to EXPAND it.
+2. Integrate new facts, mechanisms, clinical correlations, and details from the Context into the existing structure.
+3. If the Context contains new relevant topics not in the original note, add them as new sections at the end or where logically appropriate.
+4. Maintain the original Markdown formatting (Headers, Lists, etc.).
+5. The final output must be a comprehensive, combined note. DO NOT output a conversational response, ONLY the new Markdown note.
+6. Write extensively. Do not be brief.
+7. Write in {{language}}. Material taken from the Context is translated, not copied in its original language.
+
+ORIGINAL CONTENT:
+"""
+{{content}}
+"""
+{{context}}
+`;
+
+const EDIT_INLINE = `
+ROLE: Expert Medical Editor writing directly into the user's note.
+TASK: Write the text to insert at the cursor (marked ⟦CURSOR⟧ below) following the INSTRUCTION.
+
+INSTRUCTION: "{{instruction}}"
+
+RULES:
+1. Output ONLY the Markdown to insert. No preamble, no "Here is", no repetition of the surrounding note.
+2. Match the note's style: headings depth, callout syntax, bullet style and tone.
+3. Keep it focused on the instruction; a short, dense block beats a long one.
+4. Write in {{language}}.
+
+NOTE AROUND THE CURSOR:
+"""
+{{before}}⟦CURSOR⟧{{after}}
+"""
+`;
+
+const EDIT_SELECTION = `
+ROLE: Expert Medical Editor.
+TASK: Rewrite ONLY the SELECTED PASSAGE of the note following the INSTRUCTION. The text around it is context and stays as it is.
+
+INSTRUCTION: "{{instruction}}"
+
+RULES:
+1. Output ONLY the replacement for the selected passage. No preamble, no surrounding text, no quotes around it.
+2. Keep Markdown that belongs to the passage (heading levels, list markers, callout syntax, Mermaid fences) unless the instruction changes it.
+3. The replacement must read naturally between the text before and after it.
+4. Write in {{language}} unless the instruction asks for another language.
+
+TEXT BEFORE THE SELECTION:
+"""
+{{before}}
+"""
+
+SELECTED PASSAGE:
+"""
+{{passage}}
+"""
+
+TEXT AFTER THE SELECTION:
+"""
+{{after}}
+"""
+`;
+
+const ASSISTANT_SYSTEM = `
+ROLE: Intelligent Medical Assistant (Neuro-Sidekick).
+CONTEXT: The user is working on a medical note.
+CURRENT NOTE CONTENT:
+"""
+{{content}} ... (truncated)
+"""
+{{context}}
+
+INSTRUCTION:
+- Provide a direct, high-quality response to the user's request.
+- If asked to add content, write it in Markdown format matching the note's style.
+- If asked to summarize, provide a concise summary.
+- Do NOT repeat the user's prompt.
+- Use the Additional Reference Context if relevant to answer the user's question.
+- Reply in {{language}} unless the user writes in or asks for another language.
+`;
+
+const CHAT_SYSTEM = `
+SYSTEM: You are "Neuro-Sidekick", an intelligent medical tutor assistant.
+CONTEXT: The user is studying a note. You have access to the content below.
+GOAL: Help the user understand deeply.
+
+MODES:
+1. If user asks "Explain", simplify the concept using an analogy.
+2. If user asks "Quiz me", generate a single multiple-choice question about the note.
+3. If user asks "Summarize", provide a TL;DR.
+
+LANGUAGE: Reply in {{language}} unless the user writes in or asks for another language.
+
+NOTE CONTENT:
+"""
+{{content}} ... (truncated if too long)
+"""
+`;
+
+const REVIEW_FACTCHECK = `
+ROLE: Meticulous Medical Fact-Checker reviewing a study note written by another model.
+TASK: Find claims that are factually wrong, unsupported, outdated, internally inconsistent, or that contradict the SOURCE MATERIAL.
+
+RULES:
+1. Where SOURCE MATERIAL is provided and covers a claim, treat it as ground truth; otherwise judge against established medical knowledge.
+2. Only report real problems. Do NOT report style, formatting or missing-topic issues. An empty list is a valid answer.
+3. "quote" MUST be copied EXACTLY from the note (a sentence or phrase, max ~200 characters) so it can be located.
+4. "suggestedFix" is the corrected replacement for "quote", in the same language and formatting as the note.
+5. "location" is the heading of the section containing the quote.
+6. severity: "high" = dangerous or clearly wrong (doses, contraindications, diagnostic criteria); "medium" = wrong but low risk; "low" = imprecise or unsupported.
+7. Write "claim" and "issue" in {{language}}.
+
+OUTPUT: JSON only, no markdown fences:
+{"findings": [{"claim": "...", "location": "...", "quote": "...", "severity": "high|medium|low", "issue": "...", "suggestedFix": "..."}]}
+{{#sources}}
+SOURCE MATERIAL:
+{{sources}}
+{{/sources}}
+NOTE TO REVIEW:
+"""
+{{content}}
+"""
+`;
+
+const REPAIR_MERMAID = `
+ROLE: Mermaid.js syntax expert.
+TASK: The diagram below fails to parse. Fix it so Mermaid v11 accepts it.
+
+RULES:
+1. Keep the diagram type, nodes, edges and label wording; change only what the parser rejects.
+2. Wrap labels that contain parentheses, brackets, quotes or other punctuation in double quotes, e.g. A["Label (detail)"].
+3. Mindmaps have exactly one root; indentation sets the hierarchy.
+4. Close every bracket and keep one statement per line.
+
+PARSER ERROR:
+{{error}}
+
+BROKEN DIAGRAM:
+"""
+{{code}}
+"""
+
+OUTPUT: The corrected Mermaid code only. No markdown fences, no explanation.
+`;
+
+/* -------------------------------------------------------------------------- */
+/*                          BUILT-IN TEMPLATE CATALOG                         */
+/* -------------------------------------------------------------------------- */
+
+// Built-in defaults for the prompt registry. Bump `version` whenever a body changes.
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  'core.formatting': { id: 'core.formatting', label: 'Core Formatting Rules', description: 'Tutor persona, Mermaid rules and language shared by every note mode.', version: 2, variables: ['language', 'language_style', 'definition_opener', 'analogy_example', 'logic_connectors', 'header_example'], body: CORE_FORMATTING_RULES },
+  'mode.general': { id: 'mode.general', label: 'Mode: General', description: 'Conceptual mastery instructions.', version: 1, variables: [], body: MODE_GENERAL },
+  'mode.cheat_codes': { id: 'mode.cheat_codes', label: 'Mode: Cheat Codes', description: 'High-yield exam instructions.', version: 2, variables: ['mnemonic_style'], body: MODE_CHEAT_CODES },
+  'mode.comprehensive': { id: 'mode.comprehensive', label: 'Mode: Comprehensive', description: 'Textbook-depth instructions.', version: 1, variables: [], body: MODE_COMPREHENSIVE },
+  'mode.custom': { id: 'mode.custom', label: 'Mode: Custom', description: 'Instructions when the user supplies their own constraints.', version: 1, variables: [], body: MODE_CUSTOM },
+  'note.standard': { id: 'note.standard', label: 'Note Writer', description: 'Full note request. Core rules and mode instruction are rendered from their own templates.', version: 1, variables: ['core_rules', 'mode_instruction', 'topic', 'structure', 'custom_instruction'], body: NOTE_STANDARD },
+  'note.system': { id: 'note.system', label: 'Note System Message', description: 'System message sent with the note request to Groq.', version: 1, variables: [], body: NOTE_SYSTEM },
+  'note.system.local': { id: 'note.system.local', label: 'Note System Message (Local)', description: 'System message sent with the note request to OpenAI-compatible local servers.', version: 1, variables: [], body: NOTE_SYSTEM_LOCAL },
+  'note.section': { id: 'note.section', label: 'Comprehensive Section Writer', description: 'One section of a COMPREHENSIVE chapter.', version: 2, variables: ['topic', 'section_title', 'section_context', 'custom_instruction', 'language', 'language_style'], body: NOTE_SECTION },
+  'structure.universal': { id: 'structure.universal', label: 'Blueprint Generator', description: 'Auto-structure used when no custom structure prompt is set.', version: 2, variables: ['topic', 'language'], body: UNIVERSAL_STRUCTURE_PROMPT },
+  'syllabus.parse': { id: 'syllabus.parse', label: 'Syllabus Parser', description: 'Extracts modules, topics and objectives as JSON.', version: 1, variables: [], body: SYLLABUS_PROMPT },
+  'edit.refine': { id: 'edit.refine', label: 'Magic Edit (Refine)', description: 'Rewrites a note following an instruction.', version: 3, variables: ['instruction', 'content', 'context', 'language'], body: EDIT_REFINE },
+  'edit.deepen': { id: 'edit.deepen', label: 'Deepen Note', description: 'Expands a note with attached reference context.', version: 2, variables: ['instruction', 'content', 'context', 'language'], body: EDIT_DEEPEN },
+  'edit.inline': { id: 'edit.inline', label: 'Inline AI Command', description: 'Text generated at the cursor by slash commands like /explain.', version: 1, variables: ['instruction', 'before', 'after', 'language'], body: EDIT_INLINE },
+  'edit.selection': { id: 'edit.selection', label: 'Selection Edit', description: 'Rewrites only the selected passage (simplify, expand, table, analogy, translate).', version: 1, variables: ['instruction', 'passage', 'before', 'after', 'language'], body: EDIT_SELECTION },
+  'assistant.system': { id: 'assistant.system', label: 'Assistant System Prompt', description: 'System context for the assistant panel.', version: 2, variables: ['content', 'context', 'language'], body: ASSISTANT_SYSTEM },
+  'chat.system': { id: 'chat.system', label: 'Sidekick Chat System Prompt', description: 'System context for the tutor chat.', version: 2, variables: ['content', 'language'], body: CHAT_SYSTEM },
+  'review.factcheck': { id: 'review.factcheck', label: 'Fact-Check Review', description: 'Second-model review that returns questionable claims as JSON.', version: 1, variables: ['content', 'sources', 'language'], body: REVIEW_FACTCHECK },
+  'repair.mermaid': { id: 'repair.mermaid', label: 'Mermaid Repair', description: 'Fixes a diagram that failed Mermaid\'s parser, given the parser error.', version: 1, variables: ['code', 'error'], body: REPAIR_MERMAID }
+};
+
+export const MODE_TEMPLATE_IDS: Record<NoteMode, PromptTemplateId> = {
+  [NoteMode.GENERAL]: 'mode.general',
+  [NoteMode.CHEAT_CODES]: 'mode.cheat_codes',
+  [NoteMode.COMPREHENSIVE]: 'mode.comprehensive',
+  [NoteMode.CUSTOM]: 'mode.custom'
+};
+
+// Shared by refine / deepen / assistant prompts. Sources arrive already budgeted (RetrievalService chunks)
+export const buildContextString = (additionalContexts?: Record<string, string>): string => {
+  if (!additionalContexts || Object.keys(additionalContexts).length === 0) return "";
+  let contextString = "\n\n*** ADDITIONAL REFERENCE CONTEXT ***\n";
+  Object.entries(additionalContexts).forEach(([id, content]) => {
+      contextString += `\n--- SOURCE: ${id} ---\n${content}\n`;
+  });
+  return contextString;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                             OUTPUT LANGUAGES                               */
+/* -------------------------------------------------------------------------- */
+
+export const DEFAULT_LANGUAGE = 'id';
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  {
+    code: 'id',
+    label: 'Indonesian',
+    name: 'Indonesian (Casual-Academic)',
+    style: 'Serius tapi mengalir. "Gak", "Biar", "Supaya" allowed for flow. Medical terms must remain standard.',
+    definitionOpener: '"X adalah..."',
+    analogyExample: '"**Plicae (Polisi Tidur):** Lipatan untuk memperlambat laju makanan agar sempat diserap."',
+    connectors: '"->", "Karena...", "Akibatnya...", "Supaya..."',
+    headerExample: '`## 3. USUS HALUS (Mesin Penyerap)`',
+    mnemonicStyle: 'Mnemonics (Jembatan Keledai)'
+  },
+  {
+    code: 'en',
+    label: 'English',
+    name: 'English (Clear-Academic)',
+    style: 'Direct, conversational-academic English. Contractions are fine for flow. Medical terms follow international nomenclature.',
+    definitionOpener: '"X is..."',
+    analogyExample: '"**Plicae (Speed Bumps):** Folds that slow food down so there is time to absorb it."',
+    connectors: '"->", "Because...", "So...", "Which means..."',
+    headerExample: '`## 3. SMALL INTESTINE (The Absorption Engine)`',
+    mnemonicStyle: 'English mnemonics (acronyms, rhymes) as used in USMLE/PLAB prep'
+  },
+  {
+    code: 'id-en',
+    label: 'Bilingual (ID + EN terms)',
+    name: 'Bilingual Indonesian with English medical terms',
+    style: 'Explain in casual-academic Indonesian, but give every key medical term in English first with the Indonesian in brackets on first use, e.g. **Heart failure (Gagal jantung)**. Table headers are bilingual.',
+    definitionOpener: '"X adalah..." / "X is..."',
+    analogyExample: '"**Plicae (Polisi Tidur / Speed Bumps):** Lipatan untuk memperlambat laju makanan agar sempat diserap."',
+    connectors: '"->", "Karena...", "Akibatnya...", "Supaya..."',
+    headerExample: '`## 3. SMALL INTESTINE / USUS HALUS (Mesin Penyerap)`',
+    mnemonicStyle: 'English exam mnemonics, plus a Jembatan Keledai when a good Indonesian one exists'
+  }
+];
+
+export const getOutputLanguage = (code?: string): OutputLanguage =>
+  OUTPUT_LANGUAGES.find(l => l.code === code) || OUTPUT_LANGUAGES.find(l => l.code === DEFAULT_LANGUAGE)!;
+
+// Template variables every prompt can use to write natively in the configured language
+export const getLanguageVariables = (code?: string): Record<string, string> => {
+  const lang = getOutputLanguage(code);
+  return {
+    language: lang.name,
+    language_style: lang.style,
+    definition_opener: lang.definitionOpener,
+    analogy_example: lang.analogyExample,
+    logic_connectors: lang.connectors,
+    header_example: lang.headerExample,
+    mnemonic_style: lang.mnemonicStyle
+  };
+};
@@ -0,0 +1,127 @@
+import { ContextChunk } from '../types';
+
+/*
+  RETRIEVAL HELPERS
+  Notes and library materials are split into heading-scoped chunks so that
+  only the parts relevant to a question are sent to the model, instead of
+  the first N characters of every source.
+*/
+
+const MAX_CHUNK_TOKENS = 600;
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+// Rough count (~4 characters per token) used for budgeting, not billing
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const STOPWORDS = new Set([
+  // English
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'what', 'how', 'why', 'which', 'into', 'about', 'than', 'then', 'there', 'their', 'them', 'they', 'you', 'your', 'can', 'does', 'not', 'but', 'all', 'any', 'use', 'using', 'explain', 'please', 'note',
+  // Indonesian
+  'yang', 'dan', 'di', 'ke', 'dari', 'untuk', 'dengan', 'pada', 'adalah', 'ini', 'itu', 'atau', 'dalam', 'juga', 'akan', 'oleh', 'bisa', 'apa', 'bagaimana', 'mengapa', 'tolong', 'jelaskan'
+]);
+
+export const tokenizeForSearch = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// Oversized sections are split on blank lines, keeping paragraphs whole where possible
+const splitSection = (body: string, maxTokens: number): string[] => {
+  if (estimateTokens(body) <= maxTokens) return [body];
+  const parts: string[] = [];
+  let current = '';
+  body.split(/\n{2,}/).forEach(paragraph => {
+    if (current && estimateTokens(current + '\n\n' + paragraph) > maxTokens) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? current + '\n\n' + paragraph : paragraph;
+  });
+  if (current) parts.push(current);
+  return parts;
+};
+
+/** "Source › Heading" as shown in citations and prompt context labels; library files are marked as such. */
+export const chunkLabel = (chunk: ContextChunk): string =>
+  `${chunk.sourceKind === 'material' ? 'File: ' : ''}${chunk.sourceLabel} › ${chunk.heading}`;
+
+/** Splits markdown at headings (ignoring `#` lines inside code fences); `heading` is the full path, e.g. "Heart › Valves". */
+export const chunkByHeading = (sourceId: string, sourceLabel: string, markdown: string, maxTokens: number = MAX_CHUNK_TOKENS): ContextChunk[] => {
+  const sections: { heading: string; lines: string[] }[] = [{ heading: '', lines: [] }];
+  const path: string[] = [];
+  let inFence = false;
+
+  markdown.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(HEADING);
+    if (match) {
+      const level = match[1].length;
+      path.length = level - 1;
+      path[level - 1] = match[2].replace(/[*_`]/g, '');
+      sections.push({ heading: path.filter(Boolean).join(' › '), lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  });
+
+  const chunks: ContextChunk[] = [];
+  sections.forEach(section => {
+    const body = section.lines.join('\n').trim();
+    if (!body || HEADING.test(body)) return; // Heading with nothing under it
+    splitSection(body, maxTokens).forEach(text => {
+      chunks.push({ id: `${sourceId}#${chunks.length}`, sourceId, sourceLabel, heading: section.heading || 'Introduction', text, tokens: estimateTokens(text) });
+    });
+  });
+  return chunks;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                       LEXICAL VECTORS (SEMANTIC SEARCH)                    */
+/* -------------------------------------------------------------------------- */
+
+export const LEXICAL_DIMENSIONS = 512;
+
+// FNV-1a, stable across sessions so stored vectors stay comparable
+const hashTerm = (term: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) hash = Math.imul(hash ^ term.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+};
+
+/**
+ * Offline embedding fallback: hashed bag of words plus 5-letter stems (so
+ * "cardiac" / "cardiology" overlap), sublinear term weights, unit length.
+ */
+export const lexicalVector = (text: string, dimensions: number = LEXICAL_DIMENSIONS): number[] => {
+  const counts = new Map<string, number>();
+  tokenizeForSearch(text).forEach(t => {
+    counts.set(t, (counts.get(t) || 0) + 1);
+    if (t.length > 5) counts.set(`~${t.slice(0, 5)}`, (counts.get(`~${t.slice(0, 5)}`) || 0) + 0.5);
+  });
+
+  const vector = new Array(dimensions).fill(0);
+  counts.forEach((count, term) => {
+    const hash = hashTerm(term);
+    vector[hash % dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/** ~`length` characters of plain text around the first query term (or the start). */
+export const buildSnippet = (markdown: string, terms: string[], length: number = 220): string => {
+  const plain = markdown.replace(/```[\s\S]*?```/g, ' ').replace(/^#+\s*/gm, '').replace(/[*_`>|]/g, '').replace(/\s+/g, ' ').trim();
+  const lower = plain.toLowerCase();
+  const hit = terms.map(t => lower.indexOf(t)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, hit - Math.floor(length / 3));
+  return `${start > 0 ? '…' : ''}${plain.slice(start, start + length).trim()}${start + length < plain.length ? '…' : ''}`;
+};
@@ -0,0 +1,118 @@
+/*
+  SPLIT VIEW SCROLL SYNC
+  The preview is tagged with the source line each block came from (a zero-height
+  anchor before every top-level block, plus `data-source-line` on paragraphs,
+  list items and table rows). Pairing an anchor's y in the preview with its
+  line's y in the textarea gives a piecewise-linear map between the two scroll
+  positions. preprocessMarkdown keeps the line count, so lines match the source.
+*/
+
+import type { Root, RootContent } from 'hast';
+
+export const SOURCE_LINE_ATTR = 'data-source-line';
+
+const LINE_TAGGED_TAGS = new Set(['p', 'li', 'tr']);
+
+export interface ScrollAnchor {
+  source: number; // y in the textarea's scroll space
+  preview: number; // y in the preview's scroll space
+}
+
+/** Rehype plugin, see header. Only meant for the split view preview. */
+export const rehypeSourceLines = () => (tree: Root) => {
+  const tag = (node: RootContent) => {
+    if (node.type !== 'element') return;
+    if (LINE_TAGGED_TAGS.has(node.tagName) && node.position) {
+      node.properties = { ...node.properties, dataSourceLine: node.position.start.line };
+    }
+    node.children.forEach(tag);
+  };
+  tree.children.forEach(tag);
+  tree.children = tree.children.flatMap((node): RootContent[] => node.type === 'element' && node.position
+    ? [{ type: 'element', tagName: 'span', properties: { dataSourceLine: node.position.start.line, className: ['block', 'h-0'] }, children: [] }, node]
+    : [node]);
+};
+
+/** y of every source line inside the textarea (wrapping included), measured on an off-screen copy. */
+export const measureLineOffsets = (textarea: HTMLTextAreaElement): number[] => {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.boxSizing = 'border-box';
+  mirror.style.width = `${textarea.clientWidth}px`; // Padding included, border and scrollbar not
+  mirror.style.paddingTop = style.paddingTop;
+  mirror.style.paddingRight = style.paddingRight;
+  mirror.style.paddingLeft = style.paddingLeft;
+  mirror.style.fontFamily = style.fontFamily;
+  mirror.style.fontSize = style.fontSize;
+  mirror.style.fontWeight = style.fontWeight;
+  mirror.style.lineHeight = style.lineHeight;
+  mirror.style.letterSpacing = style.letterSpacing;
+  mirror.style.tabSize = style.tabSize;
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+
+  textarea.value.split('\n').forEach(line => {
+    const row = document.createElement('div');
+    row.textContent = line || '\u200b'; // Empty lines still take a line box
+    mirror.appendChild(row);
+  });
+  document.body.appendChild(mirror);
+  const offsets = Array.from(mirror.children, row => (row as HTMLElement).offsetTop);
+  document.body.removeChild(mirror);
+  return offsets;
+};
+
+/** Anchor pairs, increasing on both sides, from the top of both panes to the bottom of both. */
+export const buildScrollAnchors = (lineOffsets: number[], textarea: HTMLTextAreaElement, preview: HTMLElement): ScrollAnchor[] => {
+  const sourceMax = Math.max(0, textarea.scrollHeight - textarea.clientHeight);
+  const previewMax = Math.max(0, preview.scrollHeight - preview.clientHeight);
+  const previewTop = preview.getBoundingClientRect().top - preview.scrollTop;
+
+  const tagged = Array.from(preview.querySelectorAll<HTMLElement>(`[${SOURCE_LINE_ATTR}]`))
+    .map(el => ({
+      source: lineOffsets[Number(el.getAttribute(SOURCE_LINE_ATTR)) - 1],
+      preview: el.getBoundingClientRect().top - previewTop
+    }))
+    .filter(a => a.source !== undefined)
+    .sort((a, b) => a.source - b.source);
+
+  const anchors: ScrollAnchor[] = [{ source: 0, preview: 0 }];
+  tagged.forEach(a => {
+    const last = anchors[anchors.length - 1];
+    if (a.source > last.source && a.preview > last.preview && a.source < sourceMax && a.preview < previewMax) anchors.push(a);
+  });
+  anchors.push({ source: sourceMax, preview: previewMax });
+  return anchors;
+};
+
+/** Scroll position in the other pane for `value` in pane `from`. */
+export const mapScroll = (anchors: ScrollAnchor[], value: number, from: keyof ScrollAnchor): number => {
+  const to: keyof ScrollAnchor = from === 'source' ? 'preview' : 'source';
+  for (let i = 1; i < anchors.length; i++) {
+    const a = anchors[i - 1];
+    const b = anchors[i];
+    if (value <= b[from] || i === anchors.length - 1) {
+      const span = b[from] - a[from];
+      const t = span > 0 ? Math.min(1, Math.max(0, (value - a[from]) / span)) : 0;
+      return a[to] + t * (b[to] - a[to]);
+    }
+  }
+  return 0;
+};
+
+/** Source line of a clicked preview element: its own tag, else the nearest top-level anchor above it. */
+export const findSourceLine = (target: HTMLElement, previewRoot: HTMLElement): number | null => {
+  const tagged = target.closest<HTMLElement>(`[${SOURCE_LINE_ATTR}]`);
+  if (tagged && previewRoot.contains(tagged)) return Number(tagged.getAttribute(SOURCE_LINE_ATTR));
+
+  let block: HTMLElement | null = target;
+  while (block && block.parentElement !== previewRoot) block = block.parentElement;
+  for (let el = block; el; el = el.previousElementSibling as HTMLElement | null) {
+    if (el.hasAttribute(SOURCE_LINE_ATTR)) return Number(el.getAttribute(SOURCE_LINE_ATTR));
+  }
+  return null;
+};
@@ -0,0 +1,119 @@
+import { SelectionActionId, SelectionRange } from '../types';
+import { getOutputLanguage } from './prompts';
+
+/*
+  SELECTION EDITS
+  AI actions scoped to a passage of the note. Only the selected range is sent
+  for rewriting and only that range is replaced: everything before and after
+  it is copied over untouched. Preview selections are rendered text, so they
+  are mapped back to a source range first (markup ignored on both sides).
+*/
+
+export interface SelectionAction {
+  id: SelectionActionId;
+  label: string;
+  instruction: string;
+}
+
+export const SELECTION_ACTIONS: SelectionAction[] = [
+  { id: 'rewrite', label: 'Rewrite', instruction: 'Rewrite this passage so it is clearer and better organised. Keep every fact.' },
+  { id: 'simplify', label: 'Simplify', instruction: 'Simplify this passage: shorter sentences, plain wording, jargon explained. Keep every key fact.' },
+  { id: 'expand', label: 'Expand', instruction: 'Expand this passage with more depth: mechanisms, key numbers, exceptions and clinical relevance.' },
+  { id: 'table', label: 'To table', instruction: 'Convert this passage into a GFM Markdown table. Every fact in the passage must appear in the table.' },
+  { id: 'analogy', label: 'Add analogy', instruction: 'Keep this passage as it is and add a short, memorable analogy that explains its core idea.' },
+  { id: 'translate', label: 'Translate', instruction: 'Translate this passage into {{target_language}}. Keep medical terms accurate and the Markdown unchanged.' }
+];
+
+export const getSelectionInstruction = (id: SelectionActionId, targetLanguage?: string): string => {
+  const action = SELECTION_ACTIONS.find(a => a.id === id) || SELECTION_ACTIONS[0];
+  return action.instruction.replace('{{target_language}}', getOutputLanguage(targetLanguage).name);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                        PREVIEW SELECTION -> SOURCE                         */
+/* -------------------------------------------------------------------------- */
+
+// Line-start markup the preview never shows as text: quotes, headings, list markers, callout headers
+const LINE_MARKUP = /^[ \t]*(?:>[ \t]?)*(?:#{1,6}[ \t]+|[-*+][ \t]+|\d+[.)][ \t]+|\[![\w]+\][ \t]*)?/;
+const INLINE_MARKUP = /[*_`~|\\]/;
+
+/** Visible characters of `text` with each one's offset in `text`; whitespace runs collapse to one space. */
+const toPlain = (text: string, skipLineMarkup: boolean): { plain: string; offsets: number[] } => {
+  let plain = '';
+  const offsets: number[] = [];
+  let lineStart = 0;
+  let skipUntil = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (skipLineMarkup && i === lineStart) skipUntil = i + (text.slice(i).match(LINE_MARKUP)?.[0].length || 0);
+    const char = text[i];
+    if (char === '\n') lineStart = i + 1;
+    if (i < skipUntil || INLINE_MARKUP.test(char)) continue;
+    if (/\s/.test(char)) {
+      if (plain.endsWith(' ') || plain === '') continue;
+      plain += ' ';
+    } else {
+      plain += char;
+    }
+    offsets.push(i);
+  }
+  return { plain: plain.trimEnd(), offsets };
+};
+
+/**
+ * Source range of a passage selected in the rendered preview, or null when it
+ * can't be found or occurs more than once (replacing the wrong copy would
+ * touch text the user didn't select).
+ */
+export const locatePreviewSelection = (content: string, selectedText: string): SelectionRange | null => {
+  const exact = content.indexOf(selectedText);
+  if (exact !== -1) return exact === content.lastIndexOf(selectedText) ? { start: exact, end: exact + selectedText.length } : null;
+
+  const source = toPlain(content, true);
+  const needle = toPlain(selectedText, false).plain.trim();
+  if (!needle) return null;
+  const at = source.plain.indexOf(needle);
+  if (at === -1 || at !== source.plain.lastIndexOf(needle)) return null;
+
+  let start = source.offsets[at];
+  let end = source.offsets[at + needle.length - 1] + 1;
+  // Take in emphasis / code markers hugging the passage, and line markup when the passage starts a line
+  while (start > 0 && INLINE_MARKUP.test(content[start - 1])) start--;
+  while (end < content.length && INLINE_MARKUP.test(content[end])) end++;
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const prefix = content.slice(lineStart, start);
+  if (prefix.match(LINE_MARKUP)![0].length === prefix.length) start = lineStart;
+  return { start, end };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  SPLICING                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Where `passage` is now: the original range if unchanged, else its single occurrence, else null. */
+export const resolveSelectionRange = (content: string, range: SelectionRange, passage: string): SelectionRange | null => {
+  if (content.slice(range.start, range.end) === passage) return range;
+  const at = content.indexOf(passage);
+  return at !== -1 && at === content.lastIndexOf(passage) ? { start: at, end: at + passage.length } : null;
+};
+
+/** Drops a ```markdown wrapper or quotes the model put around its whole answer. */
+export const cleanSelectionResponse = (response: string, passage: string): string => {
+  const text = response.trim();
+  const fenced = text.match(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/);
+  if (fenced && !passage.trim().startsWith('```')) return fenced[1].trim();
+  const quoted = text.match(/^"""\n?([\s\S]*?)\n?"""$/);
+  return quoted ? quoted[1].trim() : text;
+};
+
+/**
+ * Replaces `range` with `replacement`. Text outside the range is copied
+ * byte-for-byte, and the passage's own leading / trailing whitespace is kept
+ * so surrounding blank lines don't shift.
+ */
+export const spliceSelection = (content: string, range: SelectionRange, replacement: string): string => {
+  const passage = content.slice(range.start, range.end);
+  if (!passage.trim()) return content;
+  const lead = passage.match(/^\s*/)![0];
+  const trail = passage.match(/\s*$/)![0];
+  return content.slice(0, range.start) + lead + replacement.trim() + trail + content.slice(range.end);
+};
@@ -0,0 +1,101 @@
+import { SlashCommand, SlashCommandGroup, SlashSnippet } from '../types';
+
+/*
+  SLASH COMMAND CATALOG
+  Built-in inserts for the code editor's "/" menu. Templates are plain text
+  with {{cursor}} (caret position), {{date}} and {{time}}; AI commands carry an
+  instruction instead and are generated at the cursor by the open note's
+  provider. User snippets are appended as commands of their own.
+*/
+
+export const CURSOR = '{{cursor}}';
+
+export const SLASH_GROUP_LABELS: Record<SlashCommandGroup, string> = {
+  callout: 'Callouts',
+  table: 'Tables',
+  diagram: 'Diagrams',
+  math: 'Math',
+  study: 'Study Blocks',
+  insert: 'Date & Time',
+  ai: 'AI (writes at cursor)',
+  snippet: 'My Snippets'
+};
+
+const callout = (type: string, title = ''): string => `> [!${type}]${title ? ` ${title}` : ''}\n${CURSOR}\n<`;
+const mermaid = (body: string): string => "```mermaid\n" + body + "\n```";
+
+export const BUILTIN_SLASH_COMMANDS: SlashCommand[] = [
+  // --- CALLOUTS ---
+  { id: 'note', label: 'Note', group: 'callout', template: callout('note') },
+  { id: 'warning', label: 'Warning', group: 'callout', template: callout('warning') },
+  { id: 'danger', label: 'Danger', group: 'callout', template: callout('danger') },
+  { id: 'info', label: 'Info', group: 'callout', template: callout('info') },
+  { id: 'success', label: 'Success', group: 'callout', template: callout('success') },
+
+  // --- TABLES ---
+  { id: 'table', label: 'Table (3 columns)', group: 'table', template: `| ${CURSOR}Column | Column | Column |\n| --- | --- | --- |\n|  |  |  |\n|  |  |  |` },
+  { id: 'table-vs', label: 'Comparison table', group: 'table', description: 'Feature rows, one column per item', template: `| Feature | ${CURSOR}A | B |\n| --- | --- | --- |\n| Definition |  |  |\n| Cause |  |  |\n| Key finding |  |  |\n| Treatment |  |  |` },
+  { id: 'table-ddx', label: 'Differential diagnosis table', group: 'table', template: `| Diagnosis | Key features | Distinguishing test |\n| --- | --- | --- |\n| ${CURSOR} |  |  |\n|  |  |  |` },
+
+  // --- DIAGRAMS (valid starting points for each type the renderer handles) ---
+  { id: 'flowchart', label: 'Flowchart', group: 'diagram', template: mermaid(`graph TD\n  A["${CURSOR}Start"] --> B["Step"]\n  B --> C{"Decision?"}\n  C -- Yes --> D["Outcome 1"]\n  C -- No --> E["Outcome 2"]`) },
+  { id: 'mindmap', label: 'Mindmap', group: 'diagram', template: mermaid(`mindmap\n  root((${CURSOR}Topic))\n    Causes\n    Features\n    Management`) },
+  { id: 'sequence', label: 'Sequence diagram', group: 'diagram', template: mermaid(`sequenceDiagram\n  participant A as ${CURSOR}Cell\n  participant B as Receptor\n  A->>B: Signal\n  B-->>A: Response`) },
+  { id: 'timeline', label: 'Timeline', group: 'diagram', template: mermaid(`timeline\n  title ${CURSOR}Disease course\n  Day 0 : Exposure\n  Day 3 : Symptoms\n  Week 2 : Recovery`) },
+  { id: 'quadrant', label: 'Quadrant chart', group: 'diagram', template: mermaid(`quadrantChart\n  title ${CURSOR}Priority\n  x-axis Low urgency --> High urgency\n  y-axis Low impact --> High impact\n  quadrant-1 Act now\n  quadrant-2 Plan\n  quadrant-3 Drop\n  quadrant-4 Delegate\n  Item A: [0.8, 0.9]`) },
+
+  // --- MATH ---
+  { id: 'math', label: 'Math block (KaTeX)', group: 'math', template: `$$\n${CURSOR}\n$$` },
+  { id: 'inline-math', label: 'Inline math', group: 'math', template: `$${CURSOR}$` },
+  { id: 'fraction', label: 'Formula with fraction', group: 'math', template: `$$\n${CURSOR}\\text{Result} = \\frac{\\text{numerator}}{\\text{denominator}}\n$$` },
+
+  // --- STUDY BLOCKS ---
+  { id: 'mnemonic-block', label: 'Mnemonic block', group: 'study', template: callout('tip', '🧠 **Mnemonic**').replace(CURSOR, `**${CURSOR}**\n- **A** - \n- **B** - `) },
+  { id: 'pearl', label: 'Clinical pearl', group: 'study', template: callout('tip', '💊 **Clinical Pearl**') },
+  { id: 'red-flag', label: 'Red flag', group: 'study', template: callout('danger', '🚩 **Red Flag**') },
+  { id: 'question', label: 'Exam question', group: 'study', template: callout('question', '❓ **Question**').replace(CURSOR, `${CURSOR}\n\nA. \nB. \nC. \nD. \n\n**Answer:** `) },
+
+  // --- DATE & TIME ---
+  { id: 'date', label: 'Date', group: 'insert', template: '{{date}}' },
+  { id: 'time', label: 'Time', group: 'insert', template: '{{time}}' },
+  { id: 'now', label: 'Date & time', group: 'insert', template: '{{date}} {{time}}' },
+
+  // --- AI ---
+  { id: 'explain', label: 'Explain', group: 'ai', description: 'Mechanism first, then why it matters clinically', aiInstruction: 'Explain {{target}} clearly: mechanism first, then clinical relevance. One or two short paragraphs.' },
+  { id: 'expand', label: 'Expand', group: 'ai', description: 'More depth on a point', aiInstruction: 'Expand on {{target}} with more depth: key details, numbers, exceptions and pitfalls, as bullet points.' },
+  { id: 'table-compare', label: 'Comparison table', group: 'ai', description: 'GFM table comparing the items', aiInstruction: 'Write a GFM comparison table for {{target}}: one column per item compared, one row per distinguishing feature.' },
+  { id: 'mnemonic', label: 'Mnemonic', group: 'ai', description: 'Memorable mnemonic with each letter explained', aiInstruction: 'Create a memorable mnemonic for {{target}} as a callout: first line "> [!tip] 🧠 **Mnemonic**", then one line per letter, then a line containing only "<".' }
+];
+
+export const snippetToCommand = (snippet: SlashSnippet): SlashCommand => ({
+  id: snippet.trigger,
+  label: snippet.label || snippet.trigger,
+  group: 'snippet',
+  template: snippet.text
+});
+
+/** Built-ins first, then user snippets; a snippet never shadows a built-in trigger. */
+export const listSlashCommands = (snippets: SlashSnippet[] = []): SlashCommand[] => {
+  const taken = new Set(BUILTIN_SLASH_COMMANDS.map(c => c.id));
+  return [...BUILTIN_SLASH_COMMANDS, ...snippets.filter(s => !taken.has(s.trigger)).map(snippetToCommand)];
+};
+
+export const filterSlashCommands = (commands: SlashCommand[], query: string): SlashCommand[] => {
+  const q = query.toLowerCase();
+  if (!q) return commands;
+  // Trigger prefix matches first, then any word of the label / description
+  const byTrigger = commands.filter(c => c.id.toLowerCase().startsWith(q));
+  const byText = commands.filter(c => !byTrigger.includes(c) && `${c.label} ${c.description || ''}`.toLowerCase().split(/[^a-z0-9]+/).some(w => w.startsWith(q)));
+  return [...byTrigger, ...byText];
+};
+
+/** Template with date/time filled in, split at the caret marker. */
+export const expandSlashTemplate = (template: string, now: Date = new Date()): { text: string; cursor: number } => {
+  const filled = template
+    .replace(/\{\{date\}\}/g, now.toLocaleDateString())
+    .replace(/\{\{time\}\}/g, now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+  const cursor = filled.indexOf(CURSOR);
+  return cursor === -1 ? { text: filled, cursor: filled.length } : { text: filled.replace(CURSOR, ''), cursor };
+};
+
+export const SNIPPET_TRIGGER = /^[a-z0-9][a-z0-9-]*$/;
@@ -0,0 +1,97 @@
+import { SyllabusItem } from '../types';
+
+/* 
+  SYLLABUS HIERARCHY
+  Providers return `{ modules: [{ title, topics: [{ title, objectives, subtopics }] }] }`.
+  The queue stays a flat SyllabusItem[] (order = run order); each topic keeps its
+  parent module and objectives, so the tree is rebuilt by grouping on moduleId.
+*/
+
+export interface SyllabusModuleGroup {
+  moduleId: string | null; // null = topics without a module (flat / legacy queues)
+  title: string;
+  items: { item: SyllabusItem; index: number }[];
+}
+
+const asStringList = (value: any): string[] =>
+  Array.isArray(value) ? value.filter(v => typeof v === 'string' && v.trim()).map(v => v.trim()) : [];
+
+const topicTitle = (topic: any): string =>
+  typeof topic === 'string' ? topic.trim() : typeof topic?.title === 'string' ? topic.title.trim() : '';
+
+/**
+ * Validates a provider response and flattens it into queue items.
+ * Accepts the hierarchical schema, a bare module array, or the legacy flat
+ * string array. Anything else throws so the UI can show a parse error.
+ */
+export const parseSyllabusResponse = (text: string): SyllabusItem[] => {
+  const cleanJson = (text || '').replace(/```json/g, '').replace(/```/g, '').trim();
+
+  let data: any;
+  try {
+    data = JSON.parse(cleanJson);
+  } catch (e) {
+    // Fallback: split by newlines if JSON fails but list looks okay
+    data = cleanJson.split('\n')
+      .map(t => t.replace(/^\d+[\.\)]\s*/, '').replace(/^[-*]\s*/, '').trim())
+      .filter(t => t.length > 0 && !t.startsWith('[') && !t.startsWith('{'));
+  }
+
+  const stamp = Date.now();
+  const items: SyllabusItem[] = [];
+
+  const modules: any[] | null = Array.isArray(data?.modules) ? data.modules
+    : Array.isArray(data) && data.some((m: any) => Array.isArray(m?.topics)) ? data
+    : null;
+
+  if (modules) {
+    modules.forEach((mod, mIdx) => {
+      const moduleTitle = topicTitle(mod) || `Module ${mIdx + 1}`;
+      const moduleId = `module-${stamp}-${mIdx}`;
+      (Array.isArray(mod?.topics) ? mod.topics : []).forEach((topic: any) => {
+        const title = topicTitle(topic);
+        if (!title) return;
+        items.push({
+          id: `topic-${stamp}-${items.length}`,
+          topic: title,
+          status: 'pending',
+          moduleId,
+          moduleTitle,
+          objectives: asStringList(topic?.objectives),
+          subtopics: asStringList(topic?.subtopics)
+        });
+      });
+    });
+  } else if (Array.isArray(data)) {
+    data.map(topicTitle).filter(Boolean).forEach(title => {
+      items.push({ id: `topic-${stamp}-${items.length}`, topic: title, status: 'pending' });
+    });
+  }
+
+  if (items.length === 0) throw new Error("No topics found in the syllabus response.");
+  return items;
+};
+
+/** Topic plus its module, objectives and subtopics, used as the blueprint input. */
+export const describeSyllabusItem = (item: SyllabusItem): string => {
+  const lines = [item.topic];
+  if (item.moduleTitle) lines.push(`MODULE: ${item.moduleTitle}`);
+  if (item.objectives && item.objectives.length > 0) lines.push(`LEARNING OBJECTIVES (must all be covered):\n${item.objectives.map(o => `- ${o}`).join('\n')}`);
+  if (item.subtopics && item.subtopics.length > 0) lines.push(`SUBTOPICS:\n${item.subtopics.map(s => `- ${s}`).join('\n')}`);
+  return lines.join('\n\n');
+};
+
+/** Groups the flat queue into modules, in first-appearance order. */
+export const groupSyllabusByModule = (queue: SyllabusItem[]): SyllabusModuleGroup[] => {
+  const groups: SyllabusModuleGroup[] = [];
+  queue.forEach((item, index) => {
+    const moduleId = item.moduleId || null;
+    let group = groups.find(g => g.moduleId === moduleId);
+    if (!group) {
+      group = { moduleId, title: item.moduleTitle || 'Ungrouped Topics', items: [] };
+      groups.push(group);
+    }
+    group.items.push({ item, index });
+  });
+  return groups;
+};